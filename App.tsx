@@ -1,6 +1,6 @@
 import 'react-native-gesture-handler';
 import React, { useEffect } from 'react';
-import { StatusBar, Platform } from 'react-native'; 
+import { StatusBar, Platform, View, StyleSheet } from 'react-native'; 
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import SplashScreen from './src/components/SplashScreen'; 
@@ -9,10 +9,14 @@ import LoginScreen from './src/screens/LoginScreen';
 import OtpScreen from './src/screens/OTPScreen'; 
 import EnterNameScreen from './src/screens/EnterNameScreen';  
 import { RootStackParamList } from './src/navigation/navigation.types'; 
+import { navigationRef } from './src/navigation/navigationRef';
 import HomeTabs from './src/navigation/HomeTabs';
 import AdminTabs from './src/navigation/AdminTabs';
 import { LanguageProvider } from './src/context/LanguageContext';
 import { CartProvider } from './src/context/CartContext';
+import { AppConfigProvider } from './src/context/AppConfigContext';
+import { ConnectivityProvider } from './src/context/ConnectivityContext';
+import ConnectivityBanner from './src/components/ConnectivityBanner';
 import PrivacyPolicyScreen from './src/screens/PrivacyPolicyScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
 import EditProfileScreen from './src/screens/EditProfileScreen';
@@ -32,6 +36,13 @@ import AddInventoryScreen from './src/screens/admin/AddInventoryScreen';
 import ChooseUser from './src/screens/ChooseUser';
 import AdminLogin from './src/screens/AdminLogin';
 import CreateManager from './src/screens/CreateManager';
+import UpdateRequiredScreen from './src/screens/UpdateRequiredScreen';
+import { startOutboxReplay } from './src/services/outboxService';
+import { installMockServer } from './src/services/mockServer';
+import { loadLogBuffer } from './src/services/logger';
+
+// Lets the 'mock' environment profile answer requests in-process
+installMockServer();
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const App: React.FC = () => {
@@ -45,45 +56,67 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Keep the log entries of earlier sessions for diagnostic bundles
+  useEffect(() => {
+    loadLogBuffer();
+  }, []);
+
+  // Send changes that were queued while offline
+  useEffect(() => startOutboxReplay(), []);
+
   return (
     <LanguageProvider>
-      <CartProvider>
-        <NavigationContainer>
-        <Stack.Navigator
-          initialRouteName="Splash"
-          screenOptions={{ headerShown: false }}
-        >
-          <Stack.Screen name="Splash" component={SplashScreen} />
-          <Stack.Screen name="Onboarding" component={OnboardingScreen} />
-          <Stack.Screen name="ChooseUser" component={ChooseUser} />
-          <Stack.Screen name="Login" component={LoginScreen} />
-          <Stack.Screen name="Otp" component={OtpScreen} />
-          <Stack.Screen name="EnterName" component={EnterNameScreen} />
-          <Stack.Screen name="HomeTabs" component={HomeTabs} />
-          <Stack.Screen name="AdminTabs" component={AdminTabs} />
-          <Stack.Screen name="AdminProfile" component={AdminProfileScreen} />
-          <Stack.Screen name="AdminOrderHandle" component={AdminOrderHandle} />
-          <Stack.Screen name="AdminProducts" component={AdminProducts} />
-          <Stack.Screen name="AddInventory" component={AddInventoryScreen} />
-          <Stack.Screen name="PrivacyPolicy" component={PrivacyPolicyScreen} />
-          <Stack.Screen name="Settings" component={SettingsScreen} />
-          <Stack.Screen name="EditProfile" component={EditProfileScreen} />
-        <Stack.Screen name="EditAdminProfile" component={EditAdminProfileScreen} />
-          <Stack.Screen name="MyAddress" component={MyAddressScreen} />
-          <Stack.Screen name="EditAddress" component={EditAddressScreen} />
-          <Stack.Screen name="MyOrders" component={MyOrdersScreen} />
-          <Stack.Screen name="OrderNow" component={OrderNowScreen} />
-          <Stack.Screen name="NotificationScreen" component={NotificationScreen} />
-          <Stack.Screen name="AgriInputScreen" component={AgriInputScreen} />
-          <Stack.Screen name="GroceriesScreen" component={GroceriesScreen} />
-          <Stack.Screen name="ClimateScreen" component={ClimateScreen} />
-          <Stack.Screen name="AdminLogin" component={AdminLogin} />
-          <Stack.Screen name="CreateManager" component={CreateManager} />
-        </Stack.Navigator>
-        </NavigationContainer>
-      </CartProvider>
+      <AppConfigProvider>
+        <ConnectivityProvider>
+          <CartProvider>
+            <View style={styles.root}>
+              <ConnectivityBanner />
+              <NavigationContainer ref={navigationRef}>
+              <Stack.Navigator
+                initialRouteName="Splash"
+                screenOptions={{ headerShown: false }}
+              >
+                <Stack.Screen name="Splash" component={SplashScreen} />
+                <Stack.Screen name="Onboarding" component={OnboardingScreen} />
+                <Stack.Screen name="ChooseUser" component={ChooseUser} />
+                <Stack.Screen name="Login" component={LoginScreen} />
+                <Stack.Screen name="Otp" component={OtpScreen} />
+                <Stack.Screen name="EnterName" component={EnterNameScreen} />
+                <Stack.Screen name="HomeTabs" component={HomeTabs} />
+                <Stack.Screen name="AdminTabs" component={AdminTabs} />
+                <Stack.Screen name="AdminProfile" component={AdminProfileScreen} />
+                <Stack.Screen name="AdminOrderHandle" component={AdminOrderHandle} />
+                <Stack.Screen name="AdminProducts" component={AdminProducts} />
+                <Stack.Screen name="AddInventory" component={AddInventoryScreen} />
+                <Stack.Screen name="PrivacyPolicy" component={PrivacyPolicyScreen} />
+                <Stack.Screen name="Settings" component={SettingsScreen} />
+                <Stack.Screen name="EditProfile" component={EditProfileScreen} />
+              <Stack.Screen name="EditAdminProfile" component={EditAdminProfileScreen} />
+                <Stack.Screen name="MyAddress" component={MyAddressScreen} />
+                <Stack.Screen name="EditAddress" component={EditAddressScreen} />
+                <Stack.Screen name="MyOrders" component={MyOrdersScreen} />
+                <Stack.Screen name="OrderNow" component={OrderNowScreen} />
+                <Stack.Screen name="NotificationScreen" component={NotificationScreen} />
+                <Stack.Screen name="AgriInputScreen" component={AgriInputScreen} />
+                <Stack.Screen name="GroceriesScreen" component={GroceriesScreen} />
+                <Stack.Screen name="ClimateScreen" component={ClimateScreen} />
+                <Stack.Screen name="AdminLogin" component={AdminLogin} />
+                <Stack.Screen name="CreateManager" component={CreateManager} />
+                <Stack.Screen name="UpdateRequired" component={UpdateRequiredScreen} options={{ gestureEnabled: false }} />
+              </Stack.Navigator>
+              </NavigationContainer>
+            </View>
+          </CartProvider>
+        </ConnectivityProvider>
+      </AppConfigProvider>
     </LanguageProvider>
   );
 };
 
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
+
 export default App;
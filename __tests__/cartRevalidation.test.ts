@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setActiveEnvironment } from '../src/services/environmentService';
+import { configureMockServer, installMockServer, resetMockServer } from '../src/services/mockServer';
+import { revalidateCart } from '../src/utils/cartRevalidation';
+import { CartItem } from '../src/utils/cartStorage';
+
+const UREA = '3fa85f64-5717-4562-b3fc-2c963f66b012';
+const NEEM_OIL = '3fa85f64-5717-4562-b3fc-2c963f66b014';
+const REMOVED_PRODUCT = '3fa85f64-5717-4562-b3fc-2c963f66b999';
+
+const cartItem = (id: string, price: number, quantity: number): CartItem => ({
+  id,
+  name: id,
+  price,
+  image: null,
+  quantity,
+});
+
+beforeAll(async () => {
+  installMockServer();
+  configureMockServer({ latencyMs: 0 });
+  await setActiveEnvironment('mock');
+});
+
+beforeEach(async () => {
+  await resetMockServer();
+});
+
+afterEach(async () => {
+  await AsyncStorage.clear();
+});
+
+it('takes the current price and cuts the quantity to the product limit', async () => {
+  const result = await revalidateCart([cartItem(UREA, 1, 99999)]);
+
+  expect(result.uncheckedCount).toBe(0);
+  expect(result.changes).toEqual([
+    expect.objectContaining({ productId: UREA, kind: 'price', oldPrice: 1, newPrice: 270 }),
+    expect.objectContaining({ productId: UREA, kind: 'maximum', requestedQuantity: 99999, availableQuantity: 10 }),
+  ]);
+  expect(result.items).toEqual([
+    expect.objectContaining({ id: UREA, price: 270, quantity: 10, taxRate: 0.05, hsnCode: '3102' }),
+  ]);
+});
+
+it('cuts the quantity to the stock left', async () => {
+  const result = await revalidateCart([cartItem(NEEM_OIL, 95, 50)]);
+
+  expect(result.changes).toEqual([
+    expect.objectContaining({ productId: NEEM_OIL, kind: 'stock', requestedQuantity: 50, availableQuantity: 35 }),
+  ]);
+  expect(result.items[0].quantity).toBe(35);
+});
+
+it('leaves an unchanged item as it is', async () => {
+  const result = await revalidateCart([cartItem(NEEM_OIL, 95, 2)]);
+
+  expect(result.changes).toEqual([]);
+  expect(result.items[0]).toEqual(expect.objectContaining({ id: NEEM_OIL, price: 95, quantity: 2 }));
+});
+
+it('drops an item whose product no longer exists', async () => {
+  const result = await revalidateCart([cartItem(REMOVED_PRODUCT, 10, 1), cartItem(NEEM_OIL, 95, 1)]);
+
+  expect(result.changes).toEqual([
+    expect.objectContaining({ productId: REMOVED_PRODUCT, kind: 'unavailable' }),
+  ]);
+  expect(result.items.map(item => item.id)).toEqual([NEEM_OIL]);
+});
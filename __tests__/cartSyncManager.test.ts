@@ -0,0 +1,142 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { authApi } from '../src/services/apiService';
+import { setActiveEnvironment } from '../src/services/environmentService';
+import { configureMockServer, handleMockRequest, installMockServer, resetMockServer } from '../src/services/mockServer';
+import { MOCK_OTP_CODE } from '../src/services/mockServerData';
+import { getAuthToken, saveAuthToken, saveUser } from '../src/services/userService';
+import { syncCartWithBackend } from '../src/utils/cartSyncManager';
+import { CartItem, getCartItems, replaceStoredCartItems, saveCartItems } from '../src/utils/cartStorage';
+
+const TOMATOES = '3fa85f64-5717-4562-b3fc-2c963f66b001';
+const UREA = '3fa85f64-5717-4562-b3fc-2c963f66b012';
+
+const cartItem = (id: string, quantity: number, updatedAt?: string): CartItem => ({
+  id,
+  name: id === TOMATOES ? 'Tomatoes' : 'Urea Fertilizer',
+  price: id === TOMATOES ? 50 : 270,
+  image: null,
+  quantity,
+  updatedAt,
+});
+
+// Change the cart on the server, as another device would
+const setServerQuantity = async (productId: string, quantity: number) => {
+  const response = await handleMockRequest({
+    method: 'POST',
+    path: '/api/Cart',
+    query: {},
+    headers: { authorization: `Bearer ${await getAuthToken()}` },
+    body: { productId, quantity },
+  });
+  expect(response.status).toBe(200);
+};
+
+const getServerQuantities = async () => {
+  const response = await handleMockRequest({
+    method: 'GET',
+    path: '/api/Cart',
+    query: {},
+    headers: { authorization: `Bearer ${await getAuthToken()}` },
+  });
+  return Object.fromEntries(response.body.items.map((item: any) => [item.productId, item.quantity]));
+};
+
+const getLocalQuantities = async () =>
+  Object.fromEntries((await getCartItems()).map(item => [item.id, item.quantity]));
+
+beforeAll(async () => {
+  installMockServer();
+  configureMockServer({ latencyMs: 0 });
+  await setActiveEnvironment('mock');
+});
+
+beforeEach(async () => {
+  await resetMockServer();
+  const response = await authApi.verifyOtp('9123456780', MOCK_OTP_CODE);
+  await saveAuthToken(response.data.token, response.data.refreshToken);
+  await saveUser({ id: response.data.userId, phoneNumber: '9123456780' });
+  await saveCartItems([]);
+});
+
+afterEach(async () => {
+  await AsyncStorage.clear();
+});
+
+it('joins both carts on the first sync', async () => {
+  await saveCartItems([cartItem(TOMATOES, 2)]);
+  await setServerQuantity(UREA, 1);
+
+  const result = await syncCartWithBackend();
+
+  expect(result.success).toBe(true);
+  expect(result.conflicts).toEqual([]);
+  expect(await getLocalQuantities()).toEqual({ [TOMATOES]: 2, [UREA]: 1 });
+  expect(await getServerQuantities()).toEqual({ [TOMATOES]: 2, [UREA]: 1 });
+});
+
+it('keeps changes made on one side since the last sync', async () => {
+  await saveCartItems([cartItem(TOMATOES, 2), cartItem(UREA, 1)]);
+  await syncCartWithBackend();
+
+  await saveCartItems([cartItem(TOMATOES, 4), cartItem(UREA, 1)]);
+  await setServerQuantity(UREA, 3);
+  const result = await syncCartWithBackend();
+
+  expect(result.conflicts).toEqual([]);
+  expect(await getLocalQuantities()).toEqual({ [TOMATOES]: 4, [UREA]: 3 });
+  expect(await getServerQuantities()).toEqual({ [TOMATOES]: 4, [UREA]: 3 });
+});
+
+it('removes an item on the server that was removed on this device', async () => {
+  await saveCartItems([cartItem(TOMATOES, 2), cartItem(UREA, 1)]);
+  await syncCartWithBackend();
+
+  await saveCartItems([cartItem(UREA, 1)]);
+  await syncCartWithBackend();
+
+  expect(await getLocalQuantities()).toEqual({ [UREA]: 1 });
+  expect(await getServerQuantities()).toEqual({ [UREA]: 1 });
+});
+
+it('takes an item added on another device since the last sync', async () => {
+  await saveCartItems([cartItem(TOMATOES, 2)]);
+  await syncCartWithBackend();
+
+  await setServerQuantity(UREA, 2);
+  const result = await syncCartWithBackend();
+
+  expect(result.conflicts).toEqual([]);
+  expect(await getLocalQuantities()).toEqual({ [TOMATOES]: 2, [UREA]: 2 });
+});
+
+describe('when both sides changed the same item', () => {
+  beforeEach(async () => {
+    await saveCartItems([cartItem(TOMATOES, 2)]);
+    await syncCartWithBackend();
+    await setServerQuantity(TOMATOES, 7);
+  });
+
+  it('keeps the newer server change', async () => {
+    await replaceStoredCartItems([cartItem(TOMATOES, 5, '2020-01-01T00:00:00.000Z')]);
+
+    const result = await syncCartWithBackend();
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ productId: TOMATOES, baseQuantity: 2, localQuantity: 5, remoteQuantity: 7, resolution: 'remote' }),
+    ]);
+    expect(await getLocalQuantities()).toEqual({ [TOMATOES]: 7 });
+    expect(await getServerQuantities()).toEqual({ [TOMATOES]: 7 });
+  });
+
+  it('keeps the newer change made on this device', async () => {
+    await replaceStoredCartItems([cartItem(TOMATOES, 5, '2100-01-01T00:00:00.000Z')]);
+
+    const result = await syncCartWithBackend();
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ productId: TOMATOES, resolvedQuantity: 5, resolution: 'local' }),
+    ]);
+    expect(await getLocalQuantities()).toEqual({ [TOMATOES]: 5 });
+    expect(await getServerQuantities()).toEqual({ [TOMATOES]: 5 });
+  });
+});
@@ -0,0 +1,123 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addressApi, authApi, cartApi, orderApi, productsApi } from '../src/services/apiService';
+import { DEFAULT_APP_CONFIG } from '../src/services/appConfigService';
+import { setActiveEnvironment } from '../src/services/environmentService';
+import { configureMockServer, getMockDatabase, installMockServer, resetMockServer } from '../src/services/mockServer';
+import { MOCK_CUSTOMER_ID, MOCK_OTP_CODE } from '../src/services/mockServerData';
+import { getPendingSubmissions } from '../src/services/orderSubmissionService';
+import { getPriceBreakdown, loadDeliveryChargeRules } from '../src/services/pricingService';
+import { isInterStateSupply } from '../src/services/taxService';
+import { saveAuthToken, saveUser } from '../src/services/userService';
+import { ORDER_STATUS } from '../src/constants/orderStatus';
+
+const UREA = '3fa85f64-5717-4562-b3fc-2c963f66b012';
+const NEEM_OIL = '3fa85f64-5717-4562-b3fc-2c963f66b014';
+const PADDY_SEEDS = '3fa85f64-5717-4562-b3fc-2c963f66b011'; // In the seeded cart
+
+beforeAll(async () => {
+  installMockServer();
+  configureMockServer({ latencyMs: 0 });
+  await setActiveEnvironment('mock');
+});
+
+beforeEach(async () => {
+  await resetMockServer();
+  const response = await authApi.verifyOtp('9876543210', MOCK_OTP_CODE);
+  await saveAuthToken(response.data.token, response.data.refreshToken);
+  await saveUser({ id: response.data.userId, phoneNumber: '9876543210' });
+});
+
+afterEach(async () => {
+  await AsyncStorage.clear();
+});
+
+// What CartScreen does on checkout: price the server cart and send it as an order
+const checkout = async () => {
+  const cart = await cartApi.getCart();
+  const products = await productsApi.getAll();
+  const addresses = await addressApi.getUserAddresses(MOCK_CUSTOMER_ID);
+  const rules = await loadDeliveryChargeRules();
+  const address = addresses.data![0];
+
+  const items = cart.data!.items.map(item => {
+    const product = products.data!.find(candidate => candidate.productId === item.productId)!;
+    return { ...item, hsnCode: product.hsnCode, taxRate: product.taxRate };
+  });
+  const price = getPriceBreakdown(
+    items,
+    DEFAULT_APP_CONFIG.gstRate,
+    rules,
+    isInterStateSupply(DEFAULT_APP_CONFIG.sellerState, address.state)
+  );
+
+  const response = await orderApi.createOrder({
+    userId: MOCK_CUSTOMER_ID,
+    shippingAddressId: Number(address.addressId),
+    totalAmount: price.total,
+    subtotalAmount: price.subtotal,
+    gstAmount: price.gst,
+    cgstAmount: price.tax.cgst,
+    sgstAmount: price.tax.sgst,
+    igstAmount: price.tax.igst,
+    deliveryCharge: price.deliveryCharge,
+    deliveryChargeRuleId: price.deliveryChargeRuleId,
+    orderStatusId: ORDER_STATUS.NEW,
+    orderItems: items.map((item, index) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      price: item.price,
+      productName: item.name || 'Product',
+      hsnCode: item.hsnCode,
+      taxRate: price.tax.lines[index].taxRate,
+      taxAmount: price.tax.lines[index].taxAmount,
+    })),
+  });
+  return { response, price };
+};
+
+it('places the cart as an order with its GST split and delivery charge', async () => {
+  await cartApi.removeItem(PADDY_SEEDS);
+  await cartApi.addToCart(UREA, 2);
+  await cartApi.addToCart(NEEM_OIL, 1);
+
+  const { response, price } = await checkout();
+
+  expect(response.success).toBe(true);
+  expect(price).toMatchObject({ subtotal: 635, gst: 44.1, deliveryCharge: 20, total: 699.1, deliveryChargeRuleId: 2 });
+
+  const order = await orderApi.getOrderById(response.data!.orderId);
+  expect(order.data).toMatchObject({
+    totalAmount: 699.1,
+    subtotalAmount: 635,
+    gstAmount: 44.1,
+    cgstAmount: 22.05,
+    sgstAmount: 22.05,
+    igstAmount: 0,
+    deliveryCharge: 20,
+    deliveryChargeRuleId: 2,
+  });
+  expect(order.data!.orderItems).toEqual(
+    expect.arrayContaining([
+      expect.objectContaining({ productId: UREA, quantity: 2, hsnCode: '3102', taxRate: 0.05, taxAmount: 27 }),
+      expect.objectContaining({ productId: NEEM_OIL, quantity: 1, hsnCode: '3808', taxRate: 0.18, taxAmount: 17.1 }),
+    ])
+  );
+
+  const db = await getMockDatabase();
+  expect(db.products.find(product => product.productId === UREA)?.stockQuantity).toBe(148);
+  // A confirmed order is done; the next checkout is a new submission
+  expect(await getPendingSubmissions()).toEqual([]);
+});
+
+it('places the next checkout as a new order', async () => {
+  await cartApi.addToCart(NEEM_OIL, 2);
+
+  const first = await checkout();
+  const second = await checkout();
+
+  expect(first.response.success).toBe(true);
+  expect(second.response.success).toBe(true);
+  expect(second.response.data!.orderId).not.toBe(first.response.data!.orderId);
+  const db = await getMockDatabase();
+  expect(db.products.find(product => product.productId === NEEM_OIL)?.stockQuantity).toBe(31);
+});
@@ -0,0 +1,115 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getMockDatabase, handleMockRequest, MockRequest, resetMockServer } from '../src/services/mockServer';
+import { MOCK_CUSTOMER_ID, MOCK_OTP_CODE } from '../src/services/mockServerData';
+
+const TOMATOES = '3fa85f64-5717-4562-b3fc-2c963f66b001';
+const UREA = '3fa85f64-5717-4562-b3fc-2c963f66b012';
+
+const send = (method: string, path: string, body?: any, headers: Record<string, string> = {}) =>
+  handleMockRequest({ method, path, query: {}, headers, body } as MockRequest);
+
+const loginCustomer = async (phoneNumber = '9876543210') => {
+  const response = await send('POST', '/api/Otp/verify', { identifier: phoneNumber, code: MOCK_OTP_CODE });
+  return { authorization: `Bearer ${response.body.token}` };
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetMockServer();
+});
+
+describe('catalogue', () => {
+  it('lists the seeded products without logging in', async () => {
+    const response = await send('GET', '/api/Products');
+    expect(response.status).toBe(200);
+    expect(response.body.find((product: any) => product.productId === TOMATOES)).toMatchObject({
+      name: 'Tomatoes',
+      unitOfMeasure: 'kg',
+      hsnCode: '0702',
+    });
+  });
+
+  it('answers unknown routes with 404 and wrong methods with 405', async () => {
+    expect((await send('GET', '/api/Nothing')).status).toBe(404);
+    expect((await send('PATCH', '/api/Products')).status).toBe(405);
+  });
+});
+
+describe('authentication', () => {
+  it('rejects a wrong OTP', async () => {
+    const response = await send('POST', '/api/Otp/verify', { identifier: '9876543210', code: '000000' });
+    expect(response.status).toBe(400);
+  });
+
+  it('needs a token for the cart and a manager for admin routes', async () => {
+    expect((await send('GET', '/api/Cart')).status).toBe(401);
+    const headers = await loginCustomer();
+    expect((await send('GET', '/api/Cart', undefined, headers)).status).toBe(200);
+    expect((await send('GET', '/api/Orders/statistics', undefined, headers)).status).toBe(403);
+  });
+});
+
+describe('cart', () => {
+  it('sets the quantity of a product and removes it at 0', async () => {
+    const headers = await loginCustomer('9123456780');
+    let response = await send('POST', '/api/Cart', { productId: TOMATOES, quantity: 3 }, headers);
+    expect(response.status).toBe(200);
+    expect(response.body.items).toEqual([expect.objectContaining({ productId: TOMATOES, quantity: 3 })]);
+
+    response = await send('POST', '/api/Cart', { productId: TOMATOES, quantity: 5 }, headers);
+    expect(response.body.items).toEqual([expect.objectContaining({ productId: TOMATOES, quantity: 5 })]);
+
+    response = await send('POST', '/api/Cart', { productId: TOMATOES, quantity: 0 }, headers);
+    expect(response.body.items).toEqual([]);
+  });
+
+  it('rejects fractional quantities and quantities over the limits', async () => {
+    const headers = await loginCustomer('9123456780');
+    expect((await send('POST', '/api/Cart', { productId: TOMATOES, quantity: 0.5 }, headers)).status).toBe(400);
+    expect((await send('POST', '/api/Cart', { productId: TOMATOES, quantity: 121 }, headers)).status).toBe(400);
+    expect((await send('POST', '/api/Cart', { productId: UREA, quantity: 11 }, headers)).status).toBe(400);
+  });
+});
+
+describe('orders', () => {
+  const order = {
+    shippingAddressId: 1,
+    totalAmount: 315,
+    subtotalAmount: 300,
+    gstAmount: 15,
+    cgstAmount: 7.5,
+    sgstAmount: 7.5,
+    deliveryCharge: 0,
+    orderItems: [{ productId: UREA, quantity: 1, price: 270, hsnCode: '3102', taxRate: 0.05, taxAmount: 13.5 }],
+  };
+
+  it('keeps the price breakdown and takes the stock', async () => {
+    const headers = await loginCustomer();
+    const response = await send('POST', '/api/Orders', order, headers);
+    expect(response.status).toBe(201);
+
+    const db = await getMockDatabase();
+    const placed = db.orders.find(candidate => candidate.id === response.body.orderId);
+    expect(placed).toMatchObject({ userId: MOCK_CUSTOMER_ID, subtotalAmount: 300, cgstAmount: 7.5, sgstAmount: 7.5 });
+    expect(placed?.orderItems[0]).toMatchObject({ hsnCode: '3102', taxRate: 0.05, taxAmount: 13.5 });
+    expect(db.products.find(product => product.productId === UREA)?.stockQuantity).toBe(149);
+  });
+
+  it('places a repeated submission only once', async () => {
+    const headers = { ...(await loginCustomer()), 'x-client-submission-id': 'submission-1' };
+    const first = await send('POST', '/api/Orders', order, headers);
+    const repeated = await send('POST', '/api/Orders', order, headers);
+    expect(repeated.status).toBe(200);
+    expect(repeated.body.orderId).toBe(first.body.orderId);
+
+    const db = await getMockDatabase();
+    expect(db.orders.filter(candidate => candidate.clientSubmissionId === 'submission-1')).toHaveLength(1);
+  });
+
+  it('rejects an order without an address or items', async () => {
+    const headers = await loginCustomer();
+    const response = await send('POST', '/api/Orders', { totalAmount: 0, orderItems: [] }, headers);
+    expect(response.status).toBe(400);
+    expect(Object.keys(response.body.errors)).toEqual(['ShippingAddressId', 'OrderItems']);
+  });
+});
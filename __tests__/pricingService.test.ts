@@ -0,0 +1,56 @@
+import { getDeliveryCharge, getPriceBreakdown } from '../src/services/pricingService';
+import { DeliveryChargeRule } from '../src/services/apiService';
+
+const rules: DeliveryChargeRule[] = [
+  { ruleId: 1, minOrderAmount: 0, maxOrderAmount: 499.99, chargeAmount: 40, isActive: true },
+  { ruleId: 2, minOrderAmount: 500, maxOrderAmount: 100000, chargeAmount: 0, isActive: true },
+  { ruleId: 3, minOrderAmount: 0, maxOrderAmount: 100000, chargeAmount: 99, isActive: false },
+];
+
+describe('getDeliveryCharge', () => {
+  it('applies the active rule whose slab holds the subtotal', () => {
+    expect(getDeliveryCharge(300, rules)).toEqual({ chargeAmount: 40, ruleId: 1, amountForFreeDelivery: 200 });
+    expect(getDeliveryCharge(500, rules)).toEqual({ chargeAmount: 0, ruleId: 2, amountForFreeDelivery: undefined });
+  });
+
+  it('delivers for free without a matching rule', () => {
+    expect(getDeliveryCharge(300, [])).toEqual({ chargeAmount: 0, ruleId: undefined, amountForFreeDelivery: undefined });
+  });
+});
+
+describe('getPriceBreakdown', () => {
+  it('adds GST per item and delivery without GST', () => {
+    const price = getPriceBreakdown(
+      [
+        { price: 50, quantity: 2, taxRate: 0.05 },
+        { price: 95, quantity: 1, taxRate: 0.18 },
+      ],
+      0.05,
+      rules
+    );
+    expect(price.subtotal).toBe(195);
+    expect(price.gst).toBe(22.1);
+    expect(price.tax.cgst).toBe(11.05);
+    expect(price.tax.sgst).toBe(11.05);
+    expect(price.deliveryCharge).toBe(40);
+    expect(price.deliveryChargeRuleId).toBe(1);
+    expect(price.total).toBe(257.1);
+  });
+
+  it('matches delivery slabs on the subtotal before GST', () => {
+    const price = getPriceBreakdown([{ price: 480, quantity: 1, taxRate: 0.18 }], 0, rules);
+    expect(price.deliveryCharge).toBe(40);
+    expect(price.total).toBe(606.4);
+  });
+
+  it('charges IGST across states', () => {
+    const price = getPriceBreakdown([{ price: 600, quantity: 1 }], 0.05, rules, true);
+    expect(price.tax.igst).toBe(30);
+    expect(price.tax.cgst).toBe(0);
+    expect(price.total).toBe(630);
+  });
+
+  it('charges no delivery for an empty order', () => {
+    expect(getPriceBreakdown([], 0.05, rules).total).toBe(0);
+  });
+});
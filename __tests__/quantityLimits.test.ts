@@ -0,0 +1,75 @@
+import {
+  clampQuantity,
+  getLowStockCount,
+  getNextQuantity,
+  getPreviousQuantity,
+  getQuantityLimits,
+  isWholeSteps,
+} from '../src/utils/quantityLimits';
+
+describe('getQuantityLimits', () => {
+  it('orders one at a time without limits', () => {
+    expect(getQuantityLimits({})).toEqual({ min: 1, max: undefined, step: 1 });
+  });
+
+  it('rounds the minimum up and the maximum down to whole steps', () => {
+    expect(getQuantityLimits({ quantityStep: 5, minOrderQuantity: 7, stockQuantity: 23, maxOrderQuantity: 30 })).toEqual({
+      min: 10,
+      max: 20,
+      step: 5,
+    });
+  });
+
+  it('takes the lower of the stock and the per-order maximum', () => {
+    expect(getQuantityLimits({ stockQuantity: 100, maxOrderQuantity: 10 }).max).toBe(10);
+    expect(getQuantityLimits({ stockQuantity: -3 }).max).toBe(0);
+  });
+
+  it('treats a fractional step as 1, since cart and order quantities are integers', () => {
+    expect(getQuantityLimits({ quantityStep: 0.25 }).step).toBe(1);
+    expect(getQuantityLimits({ quantityStep: 2.5 }).step).toBe(1);
+  });
+});
+
+describe('clampQuantity', () => {
+  const limits = getQuantityLimits({ quantityStep: 2, minOrderQuantity: 4, stockQuantity: 11 });
+
+  it('keeps quantities within the limits in whole steps', () => {
+    expect(clampQuantity(7, limits)).toBe(6);
+    expect(clampQuantity(50, limits)).toBe(10);
+  });
+
+  it('gives 0 below the minimum or when the minimum is out of stock', () => {
+    expect(clampQuantity(3, limits)).toBe(0);
+    expect(clampQuantity(4, getQuantityLimits({ minOrderQuantity: 4, stockQuantity: 3 }))).toBe(0);
+  });
+});
+
+describe('steppers', () => {
+  const limits = getQuantityLimits({ quantityStep: 2, minOrderQuantity: 4, stockQuantity: 8 });
+
+  it('adds the minimum first and stops at the maximum', () => {
+    expect(getNextQuantity(0, limits)).toBe(4);
+    expect(getNextQuantity(4, limits)).toBe(6);
+    expect(getNextQuantity(8, limits)).toBe(8);
+  });
+
+  it('removes the item below the minimum', () => {
+    expect(getPreviousQuantity(6, limits)).toBe(4);
+    expect(getPreviousQuantity(4, limits)).toBe(0);
+  });
+});
+
+it('checks typed quantities for whole steps', () => {
+  const limits = getQuantityLimits({ quantityStep: 5 });
+  expect(isWholeSteps(15, limits)).toBe(true);
+  expect(isWholeSteps(12, limits)).toBe(false);
+  expect(isWholeSteps(0.5, getQuantityLimits({}))).toBe(false);
+});
+
+it('shows "only N left" once the stock is low', () => {
+  expect(getLowStockCount({ stockQuantity: 4 })).toBe(4);
+  expect(getLowStockCount({ stockQuantity: 50 })).toBeNull();
+  expect(getLowStockCount({ stockQuantity: 0 })).toBeNull();
+  expect(getLowStockCount({})).toBeNull();
+});
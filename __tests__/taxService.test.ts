@@ -0,0 +1,62 @@
+import { calculateLineTax, calculateTax, isInterStateSupply } from '../src/services/taxService';
+
+describe('calculateLineTax', () => {
+  it('splits the GST into CGST and SGST within the state, CGST taking the odd paisa', () => {
+    const line = calculateLineTax({ price: 105, quantity: 1, taxRate: 0.05, hsnCode: '0702' }, { defaultRate: 0.18 });
+    expect(line).toEqual({
+      hsnCode: '0702',
+      taxableAmount: 105,
+      taxRate: 0.05,
+      taxAmount: 5.25,
+      cgst: 2.63,
+      sgst: 2.62,
+      igst: 0,
+    });
+  });
+
+  it('charges IGST only across states', () => {
+    const line = calculateLineTax({ price: 100, quantity: 2, taxRate: 0.18 }, { defaultRate: 0, interState: true });
+    expect(line.taxAmount).toBe(36);
+    expect(line.igst).toBe(36);
+    expect(line.cgst).toBe(0);
+    expect(line.sgst).toBe(0);
+  });
+
+  it('uses the default rate for items without one and keeps exempt items at 0', () => {
+    expect(calculateLineTax({ price: 100, quantity: 1 }, { defaultRate: 0.12 }).taxAmount).toBe(12);
+    expect(calculateLineTax({ price: 100, quantity: 1, taxRate: 0 }, { defaultRate: 0.12 }).taxAmount).toBe(0);
+  });
+});
+
+describe('calculateTax', () => {
+  it('adds up the lines and summarises them per rate', () => {
+    const tax = calculateTax(
+      [
+        { price: 50, quantity: 3, taxRate: 0.05 },
+        { price: 95, quantity: 1, taxRate: 0.18 },
+        { price: 40, quantity: 2, taxRate: 0.05 },
+      ],
+      { defaultRate: 0 }
+    );
+    expect(tax.taxableAmount).toBe(325);
+    expect(tax.taxAmount).toBe(28.6);
+    expect(tax.cgst + tax.sgst).toBeCloseTo(tax.taxAmount, 2);
+    expect(tax.igst).toBe(0);
+    expect(tax.byRate).toEqual([
+      { taxRate: 0.05, taxableAmount: 230, taxAmount: 11.5 },
+      { taxRate: 0.18, taxableAmount: 95, taxAmount: 17.1 },
+    ]);
+  });
+});
+
+describe('isInterStateSupply', () => {
+  it('compares states regardless of case and spacing', () => {
+    expect(isInterStateSupply('Tamil Nadu', ' tamil  nadu ')).toBe(false);
+    expect(isInterStateSupply('Tamil Nadu', 'Kerala')).toBe(true);
+  });
+
+  it('treats an address without a state as within the seller state', () => {
+    expect(isInterStateSupply('Tamil Nadu', undefined)).toBe(false);
+    expect(isInterStateSupply('Tamil Nadu', '  ')).toBe(false);
+  });
+});
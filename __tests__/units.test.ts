@@ -0,0 +1,55 @@
+import {
+  convertQuantity,
+  formatPackSize,
+  formatQuantity,
+  getCompatibleUnits,
+  parseUnit,
+  toSellingQuantity,
+} from '../src/utils/units';
+
+const urea = { unitOfMeasure: 'bag', packSize: 45, packUnit: 'kg' };
+
+it('reads units as written', () => {
+  expect(parseUnit('Kgs')).toBe('kg');
+  expect(parseUnit(' L ')).toBe('litre');
+  expect(parseUnit('Pcs')).toBe('piece');
+  expect(parseUnit('dozen')).toBeUndefined();
+  expect(parseUnit(undefined)).toBeUndefined();
+});
+
+it('converts within a dimension only', () => {
+  expect(convertQuantity(1.5, 'kg', 'g')).toBe(1500);
+  expect(convertQuantity(250, 'ml', 'litre')).toBe(0.25);
+  expect(convertQuantity(1, 'kg', 'litre')).toBeNull();
+  expect(convertQuantity(1, 'bag', 'packet')).toBeNull();
+});
+
+describe('toSellingQuantity', () => {
+  it('converts to the product unit', () => {
+    expect(toSellingQuantity(500, 'g', { unitOfMeasure: 'kg' })).toBe(0.5);
+    expect(toSellingQuantity(2, 'kg', { unitOfMeasure: 'Kgs' })).toBe(2);
+  });
+
+  it('converts through the pack size', () => {
+    expect(toSellingQuantity(90, 'kg', urea)).toBe(2);
+    expect(toSellingQuantity(90000, 'g', urea)).toBe(2);
+  });
+
+  it('gives null when the units do not convert', () => {
+    expect(toSellingQuantity(1, 'litre', urea)).toBeNull();
+    expect(toSellingQuantity(1, 'kg', { unitOfMeasure: 'dozen' })).toBeNull();
+  });
+});
+
+it('lists the units an amount can be given in, the product unit first', () => {
+  expect(getCompatibleUnits(urea)).toEqual(['bag', 'kg', 'g']);
+});
+
+it('formats quantities and pack sizes', () => {
+  expect(formatQuantity(1.5, 'kg')).toBe('1.5 kg');
+  expect(formatQuantity(0.25, 'kg')).toBe('250 g');
+  expect(formatQuantity(2, 'litre')).toBe('2 L');
+  expect(formatQuantity(3, 'dozen')).toBe('3 dozen');
+  expect(formatPackSize(urea)).toBe('45 kg bag');
+  expect(formatPackSize({ unitOfMeasure: 'kg' })).toBeNull();
+});
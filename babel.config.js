@@ -0,0 +1,9 @@
+module.exports = {
+  presets: ['module:@react-native/babel-preset'],
+  env: {
+    test: {
+      // Metro bundles import() itself; jest needs it as require()
+      plugins: ['@babel/plugin-transform-dynamic-import'],
+    },
+  },
+};
@@ -0,0 +1,13 @@
+/* eslint-env jest */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock'),
+);
+
+// Keep test output quiet and leave no pending log buffer write behind
+jest.mock('./src/services/logger', () => ({
+  ...jest.requireActual('./src/services/logger'),
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
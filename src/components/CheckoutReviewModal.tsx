@@ -0,0 +1,188 @@
+// src/components/CheckoutReviewModal.tsx
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useLanguage } from '../context/LanguageContext';
+import { CartItemChange, CartRevalidationResult } from '../utils/cartRevalidation';
+import { formatQuantity } from '../utils/units';
+
+interface CheckoutReviewModalProps {
+  review: CartRevalidationResult;
+  total: number; // Order total with the updated cart
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const CHANGE_ICONS: Record<CartItemChange['kind'], string> = {
+  price: 'pricetag-outline',
+  unavailable: 'close-circle-outline',
+  stock: 'cube-outline',
+  maximum: 'cube-outline',
+  minimum: 'cube-outline',
+};
+
+// Lists what changed since the items were added to the cart, before the
+// order is placed with the updated cart
+const CheckoutReviewModal: React.FC<CheckoutReviewModalProps> = ({ review, total, onConfirm, onCancel }) => {
+  const { translate } = useLanguage();
+
+  const describeChange = (change: CartItemChange): string => {
+    const available = formatQuantity(change.availableQuantity ?? 0, change.unitOfMeasure);
+    const requested = formatQuantity(change.requestedQuantity ?? 0, change.unitOfMeasure);
+    switch (change.kind) {
+      case 'price':
+        return `${translate('Price changed')}: ₹${change.oldPrice?.toFixed(2)} → ₹${change.newPrice?.toFixed(2)}`;
+      case 'stock':
+        return `${translate('Only')} ${available} ${translate('left')}, ${translate('you had')} ${requested}`;
+      case 'maximum':
+        return `${translate('At most')} ${available} ${translate('per order')}, ${translate('you had')} ${requested}`;
+      case 'minimum':
+        return `${translate('Minimum order')} ${available}, ${translate('you had')} ${requested}`;
+      default:
+        return translate('No longer available, removed from the order');
+    }
+  };
+
+  const canOrder = review.items.length > 0;
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.content}>
+        <Text style={styles.title}>{translate('Review your order')}</Text>
+        <Text style={styles.subtitle}>
+          {translate('Some items changed since you added them to the cart:')}
+        </Text>
+
+        <ScrollView style={styles.changeList}>
+          {review.changes.map(change => (
+            <View key={`${change.productId}-${change.kind}`} style={styles.changeRow}>
+              <Icon
+                name={CHANGE_ICONS[change.kind]}
+                size={20}
+                color={change.kind === 'unavailable' ? '#d32f2f' : '#E67E22'}
+              />
+              <View style={styles.changeText}>
+                <Text style={styles.itemName}>{change.name}</Text>
+                <Text style={styles.changeDetail}>{describeChange(change)}</Text>
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+
+        {canOrder ? (
+          <Text style={styles.total}>{translate('New total:')} ₹{total.toFixed(2)}</Text>
+        ) : (
+          <Text style={styles.changeDetail}>{translate('None of the items in your cart can be ordered.')}</Text>
+        )}
+
+        <View style={styles.buttons}>
+          <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+            <Text style={styles.cancelText}>{translate(canOrder ? 'Cancel' : 'Back to cart')}</Text>
+          </TouchableOpacity>
+          {canOrder && (
+            <TouchableOpacity style={[styles.button, styles.confirmButton]} onPress={onConfirm}>
+              <Text style={styles.confirmText}>{translate('Place order')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1000,
+  },
+  content: {
+    backgroundColor: 'white',
+    borderRadius: 20,
+    padding: 24,
+    width: '88%',
+    maxHeight: '80%',
+    elevation: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  subtitle: {
+    marginTop: 6,
+    fontSize: 14,
+    color: '#666',
+    fontFamily: 'Montserrat',
+  },
+  changeList: {
+    marginVertical: 12,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  changeText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  changeDetail: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'Montserrat',
+  },
+  total: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#09A84E',
+    fontFamily: 'Montserrat',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+    gap: 10,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+  },
+  cancelButton: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  confirmButton: {
+    backgroundColor: '#09A84E',
+  },
+  cancelText: {
+    color: '#333',
+    fontSize: 15,
+    fontFamily: 'Montserrat',
+  },
+  confirmText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'Montserrat',
+  },
+});
+
+export default CheckoutReviewModal;
@@ -0,0 +1,76 @@
+// src/components/ConnectivityBanner.tsx
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useLanguage } from '../context/LanguageContext';
+import { useConnectivity } from '../context/ConnectivityContext';
+
+// App-wide banner while the device is offline or the backend does not answer
+const ConnectivityBanner: React.FC = () => {
+  const { translate } = useLanguage();
+  const { status, checkConnection } = useConnectivity();
+  const [checking, setChecking] = useState(false);
+
+  if (status === 'online') return null;
+
+  const handleRetry = async () => {
+    setChecking(true);
+    await checkConnection();
+    setChecking(false);
+  };
+
+  return (
+    <SafeAreaView edges={['top']} style={status === 'offline' ? styles.offlineBanner : styles.degradedBanner}>
+      <Ionicons name="cloud-offline-outline" size={18} color={status === 'offline' ? '#fff' : '#8a6d3b'} />
+      <Text style={[styles.bannerText, status === 'offline' && styles.offlineText]}>
+        {status === 'offline'
+          ? translate('You are offline. Changes will be sent when the connection returns.')
+          : translate('Server unavailable. Changes will be sent when it is back.')}
+      </Text>
+      {checking ? (
+        <ActivityIndicator size="small" color={status === 'offline' ? '#fff' : '#8a6d3b'} />
+      ) : (
+        <TouchableOpacity onPress={handleRetry}>
+          <Text style={[styles.retryText, status === 'offline' && styles.offlineText]}>{translate('Retry')}</Text>
+        </TouchableOpacity>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#555',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  degradedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fcf8e3',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  bannerText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#8a6d3b',
+    fontFamily: 'Montserrat',
+  },
+  offlineText: {
+    color: '#fff',
+  },
+  retryText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#8a6d3b',
+    fontFamily: 'Montserrat',
+    marginLeft: 8,
+  },
+});
+
+export default ConnectivityBanner;
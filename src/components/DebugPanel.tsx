@@ -1,296 +1,637 @@
-// Debug Panel Component
-// Add this temporarily to your CartScreen to debug authentication and backend issues
-
-import React, { useState } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
-import { debugAuth, testCartApi } from '../utils/authDebugger';
-import { checkBackendHealth, checkDatabaseType } from '../utils/backendDebugger';
-import { syncCartWithBackend } from '../utils/cartSyncManager';
-
-interface DebugPanelProps {
-  visible?: boolean;
-}
-
-const DebugPanel: React.FC<DebugPanelProps> = ({ visible = true }) => {
-  const [debugOutput, setDebugOutput] = useState<string>('');
-  const [isRunning, setIsRunning] = useState(false);
-
-  const addOutput = (message: string) => {
-    setDebugOutput(prev => prev + '\n' + message);
-    console.log(message);
-  };
-
-  const clearOutput = () => {
-    setDebugOutput('');
-  };
-
-  const runAuthDebug = async () => {
-    if (isRunning) return;
-    setIsRunning(true);
-    clearOutput();
-    
-    try {
-      addOutput('🔍 === AUTHENTICATION DEBUG ===');
-      const authInfo = await debugAuth();
-      
-      addOutput(`✅ Has Token: ${authInfo.hasToken}`);
-      addOutput(`📱 User ID: ${authInfo.user?.id || 'None'}`);
-      addOutput(`👤 User Role: ${authInfo.user?.role || 'None'}`);
-      addOutput(`📧 User Email: ${authInfo.user?.email || 'None'}`);
-      addOutput(`🌐 API Base URL: ${authInfo.apiBaseUrl}`);
-      
-      if (authInfo.tokenExpiry) {
-        const isExpired = new Date(authInfo.tokenExpiry) < new Date();
-        addOutput(`⏰ Token Expiry: ${authInfo.tokenExpiry} ${isExpired ? '(EXPIRED!)' : '(Valid)'}`);
-      }
-      
-    } catch (error) {
-      addOutput(`❌ Auth debug failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsRunning(false);
-    }
-  };
-
-  const runCartTest = async () => {
-    if (isRunning) return;
-    setIsRunning(true);
-    clearOutput();
-    
-    try {
-      addOutput('🔍 === CART API TEST ===');
-      const results = await testCartApi();
-      
-      addOutput(`GET /api/Cart - Status: ${results.getResult.success ? 'SUCCESS' : 'FAILED'}`);
-      if (!results.getResult.success) {
-        addOutput(`GET Error: ${results.getResult.error}`);
-      }
-      
-      addOutput(`POST /api/Cart - Status: ${results.postResult.success ? 'SUCCESS' : 'FAILED'}`);
-      if (!results.postResult.success) {
-        addOutput(`POST Error: ${results.postResult.error}`);
-      }
-      
-    } catch (error) {
-      addOutput(`❌ Cart test failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsRunning(false);
-    }
-  };
-
-  const runBackendCheck = async () => {
-    if (isRunning) return;
-    setIsRunning(true);
-    clearOutput();
-    
-    try {
-      addOutput('🔍 === BACKEND HEALTH CHECK ===');
-      const health = await checkBackendHealth();
-      
-      addOutput(`🌐 API Reachable: ${health.apiReachable ? '✅' : '❌'}`);
-      addOutput(`🔐 Auth Working: ${health.authWorking ? '✅' : '❌'}`);
-      addOutput(`📖 Swagger Available: ${health.swaggerAvailable ? '✅' : '❌'}`);
-      addOutput(`💾 Database Connected: ${health.databaseConnected ? '✅' : '❌'}`);
-      
-      if (health.issues.length > 0) {
-        addOutput('\n🚨 ISSUES FOUND:');
-        health.issues.forEach(issue => addOutput(`• ${issue}`));
-      }
-      
-      // Also check database type
-      addOutput('\n🔍 === DATABASE TYPE CHECK ===');
-      const dbType = await checkDatabaseType();
-      addOutput(`📂 Is In-Memory: ${dbType.isInMemory ? '❌ YES' : '✅ NO'}`);
-      addOutput(`💾 Is Persistent: ${dbType.isPersistent ? '✅ YES' : '❌ NO'}`);
-      
-      if (dbType.evidence.length > 0) {
-        addOutput('\n📋 EVIDENCE:');
-        dbType.evidence.forEach(evidence => addOutput(`• ${evidence}`));
-      }
-      
-    } catch (error) {
-      addOutput(`❌ Backend check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsRunning(false);
-    }
-  };
-
-  const runCartSync = async () => {
-    if (isRunning) return;
-    setIsRunning(true);
-    clearOutput();
-    
-    try {
-      addOutput('🔄 === CART SYNCHRONIZATION ===');
-      const syncResult = await syncCartWithBackend();
-      
-      addOutput(`📱 Local Items: ${syncResult.localItems.length}`);
-      addOutput(`🌐 Backend Items: ${syncResult.backendItems.length}`);
-      addOutput(`🔄 Sync Required: ${syncResult.synced ? 'YES (completed)' : 'NO'}`);
-      addOutput(`✅ Success: ${syncResult.success ? 'YES' : 'NO'}`);
-      
-      if (syncResult.issues.length > 0) {
-        addOutput('\n🚨 SYNC ISSUES:');
-        syncResult.issues.forEach(issue => addOutput(`• ${issue}`));
-      }
-      
-    } catch (error) {
-      addOutput(`❌ Cart sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsRunning(false);
-    }
-  };
-
-  const showResults = () => {
-    Alert.alert(
-      'Debug Results',
-      debugOutput || 'No debug output yet. Run a test first.',
-      [{ text: 'OK' }]
-    );
-  };
-
-  if (!visible) return null;
-
-  return (
-    <View style={styles.container}>
-      <Text style={styles.title}>🔧 Debug Panel</Text>
-      
-      <View style={styles.buttonRow}>
-        <TouchableOpacity
-          style={[styles.button, styles.authButton]}
-          onPress={runAuthDebug}
-          disabled={isRunning}
-        >
-          <Text style={styles.buttonText}>
-            {isRunning ? '⏳' : '🔐'} Auth Debug
-          </Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity
-          style={[styles.button, styles.cartButton]}
-          onPress={runCartTest}
-          disabled={isRunning}
-        >
-          <Text style={styles.buttonText}>
-            {isRunning ? '⏳' : '🛒'} Cart Test
-          </Text>
-        </TouchableOpacity>
-      </View>
-      
-      <View style={styles.buttonRow}>
-        <TouchableOpacity
-          style={[styles.button, styles.backendButton]}
-          onPress={runBackendCheck}
-          disabled={isRunning}
-        >
-          <Text style={styles.buttonText}>
-            {isRunning ? '⏳' : '🔍'} Backend Check
-          </Text>
-        </TouchableOpacity>
-      </View>
-      
-      <View style={styles.buttonRow}>
-        <TouchableOpacity
-          style={[styles.button, styles.syncButton]}
-          onPress={runCartSync}
-          disabled={isRunning}
-        >
-          <Text style={styles.buttonText}>
-            {isRunning ? '⏳' : '🔄'} Cart Sync
-          </Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity
-          style={[styles.button, styles.clearButton]}
-          onPress={clearOutput}
-          disabled={isRunning}
-        >
-          <Text style={styles.buttonText}>🗑️ Clear</Text>
-        </TouchableOpacity>
-      </View>
-      
-      <TouchableOpacity
-        style={[styles.button, styles.showButton]}
-        onPress={showResults}
-      >
-        <Text style={styles.buttonText}>📋 Show Results</Text>
-      </TouchableOpacity>
-      
-      {debugOutput.length > 0 && (
-        <ScrollView style={styles.output}>
-          <Text style={styles.outputText}>{debugOutput}</Text>
-        </ScrollView>
-      )}
-    </View>
-  );
-};
-
-const styles = StyleSheet.create({
-  container: {
-    backgroundColor: '#f0f0f0',
-    padding: 10,
-    margin: 10,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#ddd',
-  },
-  title: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    textAlign: 'center',
-    marginBottom: 10,
-    color: '#333',
-  },
-  buttonRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 8,
-  },
-  button: {
-    flex: 1,
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 6,
-    marginHorizontal: 2,
-  },
-  authButton: {
-    backgroundColor: '#007bff',
-  },
-  cartButton: {
-    backgroundColor: '#28a745',
-  },
-  backendButton: {
-    backgroundColor: '#ffc107',
-  },
-  clearButton: {
-    backgroundColor: '#dc3545',
-  },
-  syncButton: {
-    backgroundColor: '#17a2b8',
-  },
-  showButton: {
-    backgroundColor: '#6f42c1',
-    marginTop: 4,
-  },
-  buttonText: {
-    color: 'white',
-    textAlign: 'center',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
-  output: {
-    maxHeight: 150,
-    backgroundColor: '#fff',
-    borderRadius: 4,
-    padding: 8,
-    marginTop: 8,
-    borderWidth: 1,
-    borderColor: '#ccc',
-  },
-  outputText: {
-    fontSize: 10,
-    fontFamily: 'monospace',
-    color: '#333',
-  },
-});
-
+// Debug Panel Component
+// Add this temporarily to your CartScreen to debug authentication and backend issues
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, Share } from 'react-native';
+import { debugAuth, testCartApi } from '../utils/authDebugger';
+import { checkBackendHealth, checkDatabaseType } from '../utils/backendDebugger';
+import { syncCartWithBackend } from '../utils/cartSyncManager';
+import { EnvironmentName } from '../services/apiConfig';
+import {
+  getActiveEnvironment,
+  getEnvironmentProfiles,
+  loadActiveEnvironment,
+  setActiveEnvironment,
+  subscribeToEnvironment,
+} from '../services/environmentService';
+import { getCircuitStates, resetCircuits } from '../services/circuitBreaker';
+import { useCircuitBreaker } from '../hooks/useCircuitBreaker';
+import { resetMockServer } from '../services/mockServer';
+import { LogLevel, clearLogs, createDiagnosticBundle, createLogger } from '../services/logger';
+import { useLogs } from '../hooks/useLogs';
+import { NetworkRecord, clearNetworkRecords, exportHar, replayNetworkRecord } from '../services/networkInspector';
+import { useNetworkRecords } from '../hooks/useNetworkRecords';
+import { FeatureFlagState, clearFeatureFlagOverrides, setFeatureFlagOverride } from '../services/featureFlagService';
+import { useFeatureFlags } from '../hooks/useFeatureFlags';
+
+const log = createLogger('debug');
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Requests shown at once in the network list
+const NETWORK_LIST_SIZE = 30;
+
+const describeFlag = (flag: FeatureFlagState) =>
+  `${flag.enabled ? '✅' : '⛔'} ${flag.name} (${flag.source}) - ${flag.description}`;
+
+const describeRecord = (record: NetworkRecord) => {
+  const result = record.outcome === 'cache'
+    ? (record.stale ? 'cache (stale)' : 'cache')
+    : `${record.status ?? record.errorKind ?? record.outcome}`;
+  const duration = record.durationMs !== undefined ? ` ${record.durationMs}ms` : '';
+  const retries = record.retries > 0 ? ` ↻${record.retries}` : '';
+  return `${record.startedAt.slice(11, 19)} ${record.method} ${record.endpoint} → ${result}${duration}${retries}`;
+};
+
+interface DebugPanelProps {
+  visible?: boolean;
+}
+
+const DebugPanel: React.FC<DebugPanelProps> = ({ visible = true }) => {
+  const [debugOutput, setDebugOutput] = useState<string>('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [activeEnvironment, setActiveEnvironmentState] = useState(getActiveEnvironment());
+  const { circuits, openGroups } = useCircuitBreaker();
+  const [logLevel, setLogLevel] = useState<LogLevel>('info');
+  const logEntries = useLogs(logLevel);
+  const [networkGroup, setNetworkGroup] = useState<string | undefined>(undefined);
+  const [expandedRecordId, setExpandedRecordId] = useState<number | null>(null);
+  const { records: networkRecords, groups: networkGroups } = useNetworkRecords(networkGroup);
+  const { flags: featureFlags } = useFeatureFlags();
+
+  useEffect(() => {
+    loadActiveEnvironment().then(setActiveEnvironmentState);
+    return subscribeToEnvironment(setActiveEnvironmentState);
+  }, []);
+
+  const addOutput = (message: string) => {
+    setDebugOutput(prev => prev + '\n' + message);
+    log.debug('Debug output:', message);
+  };
+
+  const clearOutput = () => {
+    setDebugOutput('');
+  };
+
+  const runAuthDebug = async () => {
+    if (isRunning) return;
+    setIsRunning(true);
+    clearOutput();
+    
+    try {
+      addOutput('🔍 === AUTHENTICATION DEBUG ===');
+      const authInfo = await debugAuth();
+      
+      addOutput(`✅ Has Token: ${authInfo.hasToken}`);
+      addOutput(`📱 User ID: ${authInfo.user?.id || 'None'}`);
+      addOutput(`👤 User Role: ${authInfo.user?.role || 'None'}`);
+      addOutput(`📧 User Email: ${authInfo.user?.email || 'None'}`);
+      addOutput(`🌐 API Base URL: ${authInfo.apiBaseUrl}`);
+      
+      if (authInfo.tokenExpiry) {
+        const isExpired = new Date(authInfo.tokenExpiry) < new Date();
+        addOutput(`⏰ Token Expiry: ${authInfo.tokenExpiry} ${isExpired ? '(EXPIRED!)' : '(Valid)'}`);
+      }
+      
+    } catch (error) {
+      addOutput(`❌ Auth debug failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const runCartTest = async () => {
+    if (isRunning) return;
+    setIsRunning(true);
+    clearOutput();
+    
+    try {
+      addOutput('🔍 === CART API TEST ===');
+      const results = await testCartApi();
+      
+      addOutput(`GET /api/Cart - Status: ${results.getResult.success ? 'SUCCESS' : 'FAILED'}`);
+      if (!results.getResult.success) {
+        addOutput(`GET Error: ${results.getResult.error}`);
+      }
+      
+      addOutput(`POST /api/Cart - Status: ${results.postResult.success ? 'SUCCESS' : 'FAILED'}`);
+      if (!results.postResult.success) {
+        addOutput(`POST Error: ${results.postResult.error}`);
+      }
+      
+    } catch (error) {
+      addOutput(`❌ Cart test failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const runBackendCheck = async () => {
+    if (isRunning) return;
+    setIsRunning(true);
+    clearOutput();
+    
+    try {
+      addOutput('🔍 === BACKEND HEALTH CHECK ===');
+      const health = await checkBackendHealth();
+      
+      addOutput(`🌐 API Reachable: ${health.apiReachable ? '✅' : '❌'}`);
+      addOutput(`🔐 Auth Working: ${health.authWorking ? '✅' : '❌'}`);
+      addOutput(`📖 Swagger Available: ${health.swaggerAvailable ? '✅' : '❌'}`);
+      addOutput(`💾 Database Connected: ${health.databaseConnected ? '✅' : '❌'}`);
+      
+      if (health.issues.length > 0) {
+        addOutput('\n🚨 ISSUES FOUND:');
+        health.issues.forEach(issue => addOutput(`• ${issue}`));
+      }
+      
+      // Also check database type
+      addOutput('\n🔍 === DATABASE TYPE CHECK ===');
+      const dbType = await checkDatabaseType();
+      addOutput(`📂 Is In-Memory: ${dbType.isInMemory ? '❌ YES' : '✅ NO'}`);
+      addOutput(`💾 Is Persistent: ${dbType.isPersistent ? '✅ YES' : '❌ NO'}`);
+      
+      if (dbType.evidence.length > 0) {
+        addOutput('\n📋 EVIDENCE:');
+        dbType.evidence.forEach(evidence => addOutput(`• ${evidence}`));
+      }
+      
+    } catch (error) {
+      addOutput(`❌ Backend check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const runCartSync = async () => {
+    if (isRunning) return;
+    setIsRunning(true);
+    clearOutput();
+    
+    try {
+      addOutput('🔄 === CART SYNCHRONIZATION ===');
+      const syncResult = await syncCartWithBackend();
+      
+      addOutput(`📱 Local Items: ${syncResult.localItems.length}`);
+      addOutput(`🌐 Backend Items: ${syncResult.backendItems.length}`);
+      addOutput(`🔀 Merged Items: ${syncResult.mergedItems.length}`);
+      addOutput(`🔄 Merged: ${syncResult.synced ? 'YES' : 'NO'}`);
+      addOutput(`✅ Success: ${syncResult.success ? 'YES' : 'NO'}`);
+      
+      if (syncResult.conflicts.length > 0) {
+        addOutput('\n⚔️ CONFLICTS:');
+        syncResult.conflicts.forEach(conflict => addOutput(
+          `• ${conflict.name}: local ${conflict.localQuantity}, server ${conflict.remoteQuantity}, ` +
+          `base ${conflict.baseQuantity ?? '?'} → ${conflict.resolvedQuantity} (${conflict.resolution})`
+        ));
+      }
+      
+      if (syncResult.issues.length > 0) {
+        addOutput('\n🚨 SYNC ISSUES:');
+        syncResult.issues.forEach(issue => addOutput(`• ${issue}`));
+      }
+      
+    } catch (error) {
+      addOutput(`❌ Cart sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const switchEnvironment = async (name: EnvironmentName) => {
+    if (isRunning || name === activeEnvironment.name) return;
+    const profile = await setActiveEnvironment(name);
+    addOutput(`🌐 Switched environment to ${profile.label} (${profile.baseUrl})`);
+  };
+
+  const closeCircuits = () => {
+    resetCircuits();
+    addOutput('⚡ All circuits closed');
+  };
+
+  const resetMockData = async () => {
+    await resetMockServer();
+    addOutput('🧪 Mock data reset to seed data');
+  };
+
+  const exportLogs = async () => {
+    const bundle = createDiagnosticBundle({
+      environment: activeEnvironment.name,
+      baseUrl: activeEnvironment.baseUrl,
+      circuits: getCircuitStates(),
+    });
+    try {
+      await Share.share({ title: 'AgriMart diagnostics', message: JSON.stringify(bundle, null, 2) });
+    } catch (error) {
+      addOutput(`❌ Log export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const replayRecord = (record: NetworkRecord) => {
+    const replay = async () => {
+      const response = await replayNetworkRecord(record.id);
+      addOutput(`🛰️ Replayed ${record.method} ${record.endpoint}: ${response.success ? '✅' : `❌ ${response.error}`}`);
+    };
+    if (record.method === 'GET') {
+      replay();
+      return;
+    }
+    Alert.alert(
+      'Replay request',
+      `${record.method} ${record.endpoint} changes data on the server. Send it again?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Send', style: 'destructive', onPress: replay },
+      ]
+    );
+  };
+
+  const exportNetwork = async () => {
+    try {
+      await Share.share({ title: 'AgriMart network log', message: JSON.stringify(exportHar(), null, 2) });
+    } catch (error) {
+      addOutput(`❌ Network export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const showResults = () => {
+    Alert.alert(
+      'Debug Results',
+      debugOutput || 'No debug output yet. Run a test first.',
+      [{ text: 'OK' }]
+    );
+  };
+
+  if (!visible) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🔧 Debug Panel</Text>
+      
+      <Text style={styles.sectionLabel}>
+        🌐 Environment: {activeEnvironment.label} ({activeEnvironment.baseUrl})
+      </Text>
+      <View style={styles.buttonRow}>
+        {getEnvironmentProfiles().map(profile => (
+          <TouchableOpacity
+            key={profile.name}
+            style={[
+              styles.button,
+              styles.environmentButton,
+              profile.name === activeEnvironment.name && styles.environmentButtonActive,
+            ]}
+            onPress={() => switchEnvironment(profile.name)}
+            disabled={isRunning}
+          >
+            <Text style={styles.buttonText}>{profile.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {activeEnvironment.name === 'mock' && (
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.mockButton]}
+            onPress={resetMockData}
+            disabled={isRunning}
+          >
+            <Text style={styles.buttonText}>🧪 Reset Mock Data</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      <Text style={styles.sectionLabel}>
+        ⚡ Circuits: {openGroups.length > 0
+          ? circuits
+              .filter(circuit => circuit.status !== 'closed')
+              .map(circuit => `${circuit.group} ${circuit.status}`)
+              .join(', ')
+          : 'all closed'}
+      </Text>
+      {openGroups.length > 0 && (
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.circuitButton]}
+            onPress={closeCircuits}
+          >
+            <Text style={styles.buttonText}>⚡ Close Circuits</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      <Text style={styles.sectionLabel}>🚩 Feature flags (overrides apply to this device only)</Text>
+      {featureFlags.map(flag => (
+        <View key={flag.name} style={styles.flagRow}>
+          <Text style={styles.outputText}>{describeFlag(flag)}</Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.environmentButton, flag.source === 'override' && flag.enabled && styles.environmentButtonActive]}
+              onPress={() => setFeatureFlagOverride(flag.name, true)}
+            >
+              <Text style={styles.buttonText}>On</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.environmentButton, flag.source === 'override' && !flag.enabled && styles.environmentButtonActive]}
+              onPress={() => setFeatureFlagOverride(flag.name, false)}
+            >
+              <Text style={styles.buttonText}>Off</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.environmentButton, flag.source !== 'override' && styles.environmentButtonActive]}
+              onPress={() => setFeatureFlagOverride(flag.name, undefined)}
+            >
+              <Text style={styles.buttonText}>Remote</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+      {featureFlags.some(flag => flag.source === 'override') && (
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.clearButton]}
+            onPress={clearFeatureFlagOverrides}
+          >
+            <Text style={styles.buttonText}>🚩 Clear Overrides</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.authButton]}
+          onPress={runAuthDebug}
+          disabled={isRunning}
+        >
+          <Text style={styles.buttonText}>
+            {isRunning ? '⏳' : '🔐'} Auth Debug
+          </Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity
+          style={[styles.button, styles.cartButton]}
+          onPress={runCartTest}
+          disabled={isRunning}
+        >
+          <Text style={styles.buttonText}>
+            {isRunning ? '⏳' : '🛒'} Cart Test
+          </Text>
+        </TouchableOpacity>
+      </View>
+      
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.backendButton]}
+          onPress={runBackendCheck}
+          disabled={isRunning}
+        >
+          <Text style={styles.buttonText}>
+            {isRunning ? '⏳' : '🔍'} Backend Check
+          </Text>
+        </TouchableOpacity>
+      </View>
+      
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.syncButton]}
+          onPress={runCartSync}
+          disabled={isRunning}
+        >
+          <Text style={styles.buttonText}>
+            {isRunning ? '⏳' : '🔄'} Cart Sync
+          </Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity
+          style={[styles.button, styles.clearButton]}
+          onPress={clearOutput}
+          disabled={isRunning}
+        >
+          <Text style={styles.buttonText}>🗑️ Clear</Text>
+        </TouchableOpacity>
+      </View>
+      
+      <TouchableOpacity
+        style={[styles.button, styles.showButton]}
+        onPress={showResults}
+      >
+        <Text style={styles.buttonText}>📋 Show Results</Text>
+      </TouchableOpacity>
+      
+      {debugOutput.length > 0 && (
+        <ScrollView style={styles.output}>
+          <Text style={styles.outputText}>{debugOutput}</Text>
+        </ScrollView>
+      )}
+      
+      <Text style={[styles.sectionLabel, styles.logsLabel]}>🛰️ Network ({networkRecords.length} requests)</Text>
+      <ScrollView horizontal style={styles.groupRow}>
+        {[undefined, ...networkGroups].map(group => (
+          <TouchableOpacity
+            key={group || 'all'}
+            style={[styles.groupButton, group === networkGroup && styles.environmentButtonActive]}
+            onPress={() => setNetworkGroup(group)}
+          >
+            <Text style={styles.buttonText}>{group || 'all'}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <ScrollView style={styles.output}>
+        {networkRecords.slice(0, NETWORK_LIST_SIZE).map(record => (
+          <TouchableOpacity
+            key={record.id}
+            onPress={() => setExpandedRecordId(expandedRecordId === record.id ? null : record.id)}
+          >
+            <Text style={[styles.outputText, record.outcome === 'error' && styles.logError, record.outcome === 'queued' && styles.logWarn]}>
+              {describeRecord(record)}
+            </Text>
+            {expandedRecordId === record.id && (
+              <View style={styles.recordDetails}>
+                {record.url && <Text style={styles.outputText}>URL: {record.url}</Text>}
+                {record.requestBody && <Text style={styles.outputText}>Request: {record.requestBody}</Text>}
+                {record.responseBody && <Text style={styles.outputText}>Response: {record.responseBody}</Text>}
+                {record.outcome !== 'pending' && (
+                  <TouchableOpacity
+                    style={[styles.button, styles.syncButton, styles.replayButton]}
+                    onPress={() => replayRecord(record)}
+                  >
+                    <Text style={styles.buttonText}>🔁 Replay</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <View style={[styles.buttonRow, styles.logsActions]}>
+        <TouchableOpacity
+          style={[styles.button, styles.showButton]}
+          onPress={exportNetwork}
+        >
+          <Text style={styles.buttonText}>📤 Export HAR</Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity
+          style={[styles.button, styles.clearButton]}
+          onPress={clearNetworkRecords}
+        >
+          <Text style={styles.buttonText}>🗑️ Clear Requests</Text>
+        </TouchableOpacity>
+      </View>
+      
+      <Text style={[styles.sectionLabel, styles.logsLabel]}>📜 Logs ({logEntries.length} shown)</Text>
+      <View style={styles.buttonRow}>
+        {LOG_LEVELS.map(level => (
+          <TouchableOpacity
+            key={level}
+            style={[styles.button, styles.environmentButton, level === logLevel && styles.environmentButtonActive]}
+            onPress={() => setLogLevel(level)}
+          >
+            <Text style={styles.buttonText}>{level}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <ScrollView style={styles.output}>
+        {logEntries.map(entry => (
+          <Text key={entry.id} style={[styles.outputText, entry.level === 'error' && styles.logError, entry.level === 'warn' && styles.logWarn]}>
+            {entry.timestamp.slice(11, 19)} [{entry.tag}] {entry.message}{entry.data ? ` ${entry.data}` : ''}
+          </Text>
+        ))}
+      </ScrollView>
+      <View style={[styles.buttonRow, styles.logsActions]}>
+        <TouchableOpacity
+          style={[styles.button, styles.showButton]}
+          onPress={exportLogs}
+        >
+          <Text style={styles.buttonText}>📤 Export Logs</Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity
+          style={[styles.button, styles.clearButton]}
+          onPress={clearLogs}
+        >
+          <Text style={styles.buttonText}>🗑️ Clear Logs</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f0f0f0',
+    padding: 10,
+    margin: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 10,
+    color: '#333',
+  },
+  sectionLabel: {
+    fontSize: 11,
+    color: '#555',
+    marginBottom: 6,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    marginHorizontal: 2,
+  },
+  authButton: {
+    backgroundColor: '#007bff',
+  },
+  cartButton: {
+    backgroundColor: '#28a745',
+  },
+  backendButton: {
+    backgroundColor: '#ffc107',
+  },
+  clearButton: {
+    backgroundColor: '#dc3545',
+  },
+  syncButton: {
+    backgroundColor: '#17a2b8',
+  },
+  environmentButton: {
+    backgroundColor: '#6c757d',
+  },
+  environmentButtonActive: {
+    backgroundColor: '#343a40',
+  },
+  circuitButton: {
+    backgroundColor: '#fd7e14',
+  },
+  mockButton: {
+    backgroundColor: '#20c997',
+  },
+  showButton: {
+    backgroundColor: '#6f42c1',
+    marginTop: 4,
+  },
+  buttonText: {
+    color: 'white',
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  output: {
+    maxHeight: 150,
+    backgroundColor: '#fff',
+    borderRadius: 4,
+    padding: 8,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  outputText: {
+    fontSize: 10,
+    fontFamily: 'monospace',
+    color: '#333',
+  },
+  logsLabel: {
+    marginTop: 10,
+  },
+  logsActions: {
+    marginTop: 8,
+  },
+  groupRow: {
+    marginBottom: 6,
+  },
+  groupButton: {
+    backgroundColor: '#6c757d',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    marginHorizontal: 2,
+  },
+  flagRow: {
+    marginBottom: 4,
+  },
+  recordDetails: {
+    paddingLeft: 8,
+    paddingVertical: 4,
+  },
+  replayButton: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+  logError: {
+    color: '#dc3545',
+  },
+  logWarn: {
+    color: '#b8860b',
+  },
+});
+
 export default DebugPanel;
\ No newline at end of file
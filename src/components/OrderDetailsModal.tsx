@@ -0,0 +1,200 @@
+// src/components/OrderDetailsModal.tsx
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useLanguage } from '../context/LanguageContext';
+import { Order } from '../services/apiService';
+import { formatTaxRate } from '../services/taxService';
+
+interface OrderDetailsModalProps {
+  order: Order;
+  onClose: () => void;
+}
+
+// Items of a placed order with their GST, and the price breakdown when the
+// order was placed with one
+const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose }) => {
+  const { translate } = useLanguage();
+
+  const renderRow = (label: string, amount: number) => (
+    <View style={styles.priceRow}>
+      <Text style={styles.priceLabel}>{translate(label)}</Text>
+      <Text style={styles.priceValue}>₹{amount.toFixed(2)}</Text>
+    </View>
+  );
+
+  // Across states the GST is all IGST; within the seller's state it is split into CGST and SGST
+  const renderTax = () => {
+    if ((order.igstAmount || 0) > 0) {
+      return renderRow('IGST:', order.igstAmount || 0);
+    }
+    if (typeof order.cgstAmount === 'number') {
+      return (
+        <>
+          {renderRow('CGST:', order.cgstAmount)}
+          {renderRow('SGST:', order.sgstAmount || 0)}
+        </>
+      );
+    }
+    return renderRow('GST:', order.gstAmount || 0);
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{translate('Order details')}</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.orderId}>{translate('Order ID')}: {order.id}</Text>
+
+        <ScrollView style={styles.itemList}>
+          {order.orderItems.map((item, index) => (
+            <View key={`${item.productId}-${index}`} style={styles.itemRow}>
+              <View style={styles.itemText}>
+                <Text style={styles.itemName}>{item.productName}</Text>
+                <Text style={styles.itemDetail}>{translate('Qty')}: {item.quantity}</Text>
+                {typeof item.taxRate === 'number' && (
+                  <Text style={styles.itemDetail}>
+                    {item.hsnCode ? `HSN ${item.hsnCode} · ` : ''}
+                    {item.taxRate > 0 ? `${translate('GST')} ${formatTaxRate(item.taxRate)}` : translate('GST exempt')}
+                    {item.taxAmount ? `: ₹${item.taxAmount.toFixed(2)}` : ''}
+                  </Text>
+                )}
+              </View>
+              <Text style={styles.itemPrice}>₹{(item.price * item.quantity).toFixed(2)}</Text>
+            </View>
+          ))}
+        </ScrollView>
+
+        {typeof order.subtotalAmount === 'number' && (
+          <View style={styles.breakdown}>
+            {renderRow('Subtotal:', order.subtotalAmount)}
+            {renderTax()}
+            <View style={styles.priceRow}>
+              <Text style={styles.priceLabel}>{translate('Delivery:')}</Text>
+              <Text style={styles.priceValue}>
+                {(order.deliveryCharge || 0) > 0 ? `₹${(order.deliveryCharge || 0).toFixed(2)}` : translate('Free')}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>{translate('Total:')}</Text>
+          <Text style={styles.totalAmount}>₹{order.totalAmount.toFixed(2)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: 'white',
+    borderRadius: 20,
+    padding: 24,
+    width: '88%',
+    maxHeight: '80%',
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  orderId: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'Montserrat',
+  },
+  itemList: {
+    marginVertical: 12,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  itemText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  itemDetail: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'Montserrat',
+  },
+  itemPrice: {
+    fontSize: 15,
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  breakdown: {
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  priceLabel: {
+    fontSize: 14,
+    color: '#666',
+    fontFamily: 'Montserrat',
+  },
+  priceValue: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  totalAmount: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#09A84E',
+    fontFamily: 'Montserrat',
+  },
+});
+
+export default OrderDetailsModal;
@@ -0,0 +1,159 @@
+// src/components/ProductImageField.tsx
+import React from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useLanguage } from '../context/LanguageContext';
+import { useImageUpload } from '../hooks/useImageUpload';
+
+interface ProductImageFieldProps {
+  upload: ReturnType<typeof useImageUpload>;
+}
+
+// Product image with its upload progress, and buttons to pick, cancel or retry
+const ProductImageField: React.FC<ProductImageFieldProps> = ({ upload }) => {
+  const { translate } = useLanguage();
+
+  const handlePick = async () => {
+    const error = await upload.pickImage();
+    if (error) {
+      Alert.alert(translate('Error'), error);
+    }
+  };
+
+  const percent = Math.round(upload.progress * 100);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.mediaContainer}>
+        <View>
+          {upload.previewUri ? (
+            <Image source={{ uri: upload.previewUri }} style={styles.uploadedImage} />
+          ) : (
+            <View style={styles.placeholderImage}>
+              <Icon name="image-outline" size={40} color="#ccc" />
+            </View>
+          )}
+          {upload.status === 'uploading' && (
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressBar, { width: `${percent}%` }]} />
+            </View>
+          )}
+        </View>
+
+        {upload.status === 'uploading' ? (
+          <TouchableOpacity style={styles.actionButton} onPress={upload.cancel}>
+            <Icon name="close" size={20} color="#000" />
+            <Text style={styles.actionText}>{translate('Cancel')}</Text>
+          </TouchableOpacity>
+        ) : upload.status === 'failed' ? (
+          <TouchableOpacity style={styles.actionButton} onPress={upload.retry}>
+            <Icon name="refresh" size={20} color="#000" />
+            <Text style={styles.actionText}>{translate('Retry')}</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {upload.status !== 'uploading' && (
+          <TouchableOpacity style={styles.actionButton} onPress={handlePick}>
+            <View style={styles.addIcon}>
+              <Icon name="add" size={20} color="#000" />
+            </View>
+            <Text style={styles.actionText}>
+              {translate(upload.previewUri ? 'Change' : 'Add Image')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {upload.status === 'uploading' && (
+        <Text style={styles.statusText}>{translate('Uploading image...')} {percent}%</Text>
+      )}
+      {upload.status === 'failed' && (
+        <Text style={[styles.statusText, styles.errorText]}>
+          {upload.error || translate('The image could not be uploaded.')}
+        </Text>
+      )}
+      {upload.status === 'queued' && (
+        <Text style={styles.statusText}>
+          {translate('The image will be uploaded when the connection returns.')}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 30,
+  },
+  mediaContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  uploadedImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  placeholderImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#ddd',
+    borderStyle: 'dashed',
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 6,
+    right: 6,
+    bottom: 6,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: '#09A84E',
+  },
+  actionButton: {
+    width: 80,
+    height: 80,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#000',
+    borderRadius: 8,
+    padding: 8,
+  },
+  addIcon: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 2,
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#000',
+    fontFamily: 'Montserrat',
+  },
+  statusText: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'Montserrat',
+  },
+  errorText: {
+    color: '#d32f2f',
+  },
+});
+
+export default ProductImageField;
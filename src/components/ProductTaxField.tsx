@@ -0,0 +1,118 @@
+// src/components/ProductTaxField.tsx
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useLanguage } from '../context/LanguageContext';
+import { formatTaxRate, GST_RATES } from '../services/taxService';
+
+interface ProductTaxFieldProps {
+  hsnCode: string;
+  onHsnCodeChange: (hsnCode: string) => void;
+  taxRate?: number; // Not set: the GST rate from the app config applies
+  onTaxRateChange: (taxRate?: number) => void;
+}
+
+// HSN code and GST slab of a product, for the admin product forms
+const ProductTaxField: React.FC<ProductTaxFieldProps> = ({ hsnCode, onHsnCodeChange, taxRate, onTaxRateChange }) => {
+  const { translate } = useLanguage();
+
+  const options: Array<{ label: string; rate?: number }> = [
+    { label: translate('Default'), rate: undefined },
+    ...GST_RATES.map(rate => ({ label: rate === 0 ? translate('Exempt') : formatTaxRate(rate), rate })),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.hsnInputContainer}>
+        <Text style={styles.hsnPrefix}>{translate('HSN Code:')}</Text>
+        <TextInput
+          style={styles.hsnInput}
+          value={hsnCode}
+          onChangeText={onHsnCodeChange}
+          placeholder="e.g., 3102"
+          placeholderTextColor="#999"
+          keyboardType="numeric"
+          maxLength={8}
+        />
+      </View>
+
+      <Text style={styles.rateLabel}>{translate('GST Rate')}</Text>
+      <View style={styles.rateOptions}>
+        {options.map(option => {
+          const selected = option.rate === taxRate;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.rateChip, selected && styles.rateChipSelected]}
+              onPress={() => onTaxRateChange(option.rate)}
+            >
+              <Text style={[styles.rateChipText, selected && styles.rateChipTextSelected]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  hsnInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  hsnPrefix: {
+    fontSize: 16,
+    color: '#333',
+    fontFamily: 'Montserrat',
+    marginRight: 10,
+  },
+  hsnInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  rateLabel: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+    fontFamily: 'Montserrat',
+  },
+  rateOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  rateChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  rateChipSelected: {
+    backgroundColor: '#09A84E',
+    borderColor: '#09A84E',
+  },
+  rateChipText: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  rateChipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
+
+export default ProductTaxField;
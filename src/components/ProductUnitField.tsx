@@ -0,0 +1,171 @@
+// src/components/ProductUnitField.tsx
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useLanguage } from '../context/LanguageContext';
+import { formatPackSize, isMeasuredUnit, parseUnit, UNIT_CODES, UNITS, UnitCode } from '../utils/units';
+
+interface ProductUnitFieldProps {
+  unit: string; // The unit the price and the stock are per
+  onUnitChange: (unit: string) => void;
+  packSize: string;
+  onPackSizeChange: (packSize: string) => void;
+  packUnit: string;
+  onPackUnitChange: (packUnit: string) => void;
+  quantityStep: string; // Empty: one at a time
+  onQuantityStepChange: (quantityStep: string) => void;
+}
+
+// A pack holds a weight, a volume or a number of pieces
+const PACK_UNITS = UNIT_CODES.filter(code => UNITS[code].dimension !== 'count' || code === 'piece');
+
+// Unit of measure, pack size and quantity step of a product, for the admin product forms
+const ProductUnitField: React.FC<ProductUnitFieldProps> = ({
+  unit,
+  onUnitChange,
+  packSize,
+  onPackSizeChange,
+  packUnit,
+  onPackUnitChange,
+  quantityStep,
+  onQuantityStepChange,
+}) => {
+  const { translate } = useLanguage();
+  const selectedUnit = parseUnit(unit);
+  // Products sold by weight or volume have no pack
+  const hasPack = !!selectedUnit && !isMeasuredUnit(selectedUnit);
+  const packPreview = hasPack
+    ? formatPackSize({ unitOfMeasure: unit, packSize: parseFloat(packSize), packUnit })
+    : null;
+
+  const selectUnit = (code: UnitCode) => {
+    onUnitChange(code);
+    if (isMeasuredUnit(code)) {
+      onPackSizeChange('');
+      onPackUnitChange('');
+    }
+  };
+
+  const renderChips = (codes: UnitCode[], selected: UnitCode | undefined, onSelect: (code: UnitCode) => void) => (
+    <View style={styles.chips}>
+      {codes.map(code => (
+        <TouchableOpacity
+          key={code}
+          style={[styles.chip, code === selected && styles.chipSelected]}
+          onPress={() => onSelect(code)}
+        >
+          <Text style={[styles.chipText, code === selected && styles.chipTextSelected]}>{translate(code)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{translate('Sold per')}</Text>
+      {renderChips(UNIT_CODES, selectedUnit, selectUnit)}
+
+      {hasPack && (
+        <>
+          <View style={[styles.inputContainer, styles.spaced]}>
+            <Text style={styles.prefix}>{translate('Pack size:')}</Text>
+            <TextInput
+              style={styles.input}
+              value={packSize}
+              onChangeText={onPackSizeChange}
+              placeholder="e.g., 45"
+              placeholderTextColor="#999"
+              keyboardType="numeric"
+            />
+          </View>
+          {renderChips(PACK_UNITS, parseUnit(packUnit), onPackUnitChange)}
+          {packPreview && <Text style={styles.hint}>{packPreview}</Text>}
+        </>
+      )}
+
+      <View style={[styles.inputContainer, styles.spaced]}>
+        <Text style={styles.prefix}>{translate('Quantity step:')}</Text>
+        <TextInput
+          style={styles.input}
+          value={quantityStep}
+          onChangeText={onQuantityStepChange}
+          placeholder="1"
+          placeholderTextColor="#999"
+          keyboardType="number-pad"
+        />
+      </View>
+      <Text style={styles.hint}>{translate('A whole number, e.g. 5 to sell seedlings in fives')}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+    fontFamily: 'Montserrat',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#09A84E',
+    borderColor: '#09A84E',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  spaced: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  prefix: {
+    fontSize: 16,
+    color: '#333',
+    fontFamily: 'Montserrat',
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 6,
+    fontFamily: 'Montserrat',
+  },
+});
+
+export default ProductUnitField;
@@ -7,6 +7,10 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { saveAuthToken, getUser, getAuthToken, fetchCurrentUserFromApi } from '../services/userService';
 import { RootStackParamList } from '../navigation/navigation.types';
+import { checkAppVersion } from '../services/versionService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('auth');
 
 type SplashNavProp = NativeStackNavigationProp<RootStackParamList, 'Splash'>;
 
@@ -21,7 +25,17 @@ const SplashScreen: React.FC = () => {
   // Function to check authentication and navigate accordingly
   const checkAuthAndNavigate = async () => {
     try {
-      console.log('🔍 SPLASH - Checking authentication...');
+      // Outdated installs are stopped before any other request is made
+      const versionInfo = await checkAppVersion();
+      if (versionInfo.status === 'update-required') {
+        navigation.reset({
+          index: 0,
+          routes: [{ name: 'UpdateRequired' }],
+        });
+        return;
+      }
+
+      log.debug('🔍 SPLASH - Checking authentication...');
       
       // Check if user data and auth token exist
       const [userData, authToken] = await Promise.all([
@@ -29,7 +43,7 @@ const SplashScreen: React.FC = () => {
         getAuthToken()
       ]);
 
-      console.log('🔍 SPLASH - Auth check result:', {
+      log.debug('🔍 SPLASH - Auth check result:', {
         hasUserData: !!userData,
         hasAuthToken: !!authToken,
         userRole: userData?.role
@@ -40,7 +54,7 @@ const SplashScreen: React.FC = () => {
         const currentUserInfo = await fetchCurrentUserFromApi();
         
         if (currentUserInfo && currentUserInfo.id) {
-          console.log('✅ SPLASH - User authenticated, redirecting based on role:', currentUserInfo.role);
+          log.debug('✅ SPLASH - User authenticated, redirecting based on role:', currentUserInfo.role);
           
           // Redirect based on user role
           if (currentUserInfo.role?.toLowerCase() === 'manager' || currentUserInfo.role?.toLowerCase() === 'admin') {
@@ -77,7 +91,7 @@ const SplashScreen: React.FC = () => {
           }
         } else {
           // Token is invalid, go to onboarding
-          console.log('❌ SPLASH - Token invalid, going to onboarding');
+          log.debug('❌ SPLASH - Token invalid, going to onboarding');
           navigation.reset({
             index: 0,
             routes: [{ name: 'Onboarding' }],
@@ -85,14 +99,14 @@ const SplashScreen: React.FC = () => {
         }
       } else {
         // No user data or token, go to onboarding
-        console.log('❌ SPLASH - No auth data, going to onboarding');
+        log.debug('❌ SPLASH - No auth data, going to onboarding');
         navigation.reset({
           index: 0,
           routes: [{ name: 'Onboarding' }],
         });
       }
     } catch (error) {
-      console.error('❌ SPLASH - Error checking authentication:', error);
+      log.error('❌ SPLASH - Error checking authentication:', error);
       // On error, go to onboarding
       navigation.reset({
         index: 0,
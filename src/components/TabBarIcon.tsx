@@ -1,62 +1,62 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import Ionicons from 'react-native-vector-icons/Ionicons';
-
-interface TabBarIconProps {
-  iconName: string;
-  color: string;
-  size: number;
-  badgeCount?: number;
-  showBadge?: boolean;
-}
-
-const TabBarIcon: React.FC<TabBarIconProps> = ({ 
-  iconName, 
-  color, 
-  size, 
-  badgeCount = 0, 
-  showBadge = false 
-}) => {
-  return (
-    <View style={styles.container}>
-      <Ionicons name={iconName} size={size} color={color} />
-      {showBadge && badgeCount > 0 && (
-        <View style={styles.badge}>
-          <Text style={styles.badgeText}>
-            {badgeCount > 99 ? '99+' : badgeCount.toString()}
-          </Text>
-        </View>
-      )}
-    </View>
-  );
-};
-
-const styles = StyleSheet.create({
-  container: {
-    position: 'relative',
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  badge: {
-    position: 'absolute',
-    top: -8,
-    right: -12,
-    backgroundColor: '#FF0000',
-    borderRadius: 10,
-    minWidth: 18,
-    height: 18,
-    alignItems: 'center',
-    justifyContent: 'center',
-    paddingHorizontal: 4,
-    borderWidth: 1,
-    borderColor: '#FFFFFF',
-  },
-  badgeText: {
-    color: '#FFFFFF',
-    fontSize: 10,
-    fontWeight: 'bold',
-    textAlign: 'center',
-  },
-});
-
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+
+interface TabBarIconProps {
+  iconName: string;
+  color: string;
+  size: number;
+  badgeCount?: number;
+  showBadge?: boolean;
+}
+
+const TabBarIcon: React.FC<TabBarIconProps> = ({ 
+  iconName, 
+  color, 
+  size, 
+  badgeCount = 0, 
+  showBadge = false 
+}) => {
+  return (
+    <View style={styles.container}>
+      <Ionicons name={iconName} size={size} color={color} />
+      {showBadge && badgeCount > 0 && (
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>
+            {badgeCount > 99 ? '99+' : badgeCount.toString()}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badge: {
+    position: 'absolute',
+    top: -8,
+    right: -12,
+    backgroundColor: '#FF0000',
+    borderRadius: 10,
+    minWidth: 18,
+    height: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
+
 export default TabBarIcon;
\ No newline at end of file
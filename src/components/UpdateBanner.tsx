@@ -0,0 +1,61 @@
+// src/components/UpdateBanner.tsx
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Linking } from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { useLanguage } from '../context/LanguageContext';
+import { useAppVersion } from '../hooks/useAppVersion';
+import { dismissUpdate } from '../services/versionService';
+
+// Shown while a newer version is recommended; hidden for that version once dismissed
+const UpdateBanner: React.FC = () => {
+  const { translate } = useLanguage();
+  const { status, updateUrl, recommendedVersion } = useAppVersion();
+
+  if (status !== 'update-available') return null;
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name="arrow-up-circle-outline" size={18} color="#09A84E" />
+      <Text style={styles.bannerText}>
+        {translate('A new version of AgriMart is available.')} {recommendedVersion ? `(${recommendedVersion})` : ''}
+      </Text>
+      {updateUrl && (
+        <TouchableOpacity onPress={() => Linking.openURL(updateUrl)}>
+          <Text style={styles.updateText}>{translate('Update')}</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity onPress={dismissUpdate} style={styles.closeButton}>
+        <Ionicons name="close" size={18} color="#666" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e8f7ee',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  bannerText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#2d5a3d',
+    fontFamily: 'Montserrat',
+  },
+  updateText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#09A84E',
+    fontFamily: 'Montserrat',
+    marginHorizontal: 8,
+  },
+  closeButton: {
+    padding: 2,
+  },
+});
+
+export default UpdateBanner;
@@ -0,0 +1,56 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { AppConfig, getAppConfig, refreshAppConfig, subscribeToAppConfig } from '../services/appConfigService';
+import { isOnline } from '../services/connectivityService';
+import { API_ENDPOINTS } from '../services/apiEndpoints';
+import { useCacheUpdates } from '../hooks/useCacheUpdates';
+
+interface AppConfigContextProps {
+  config: AppConfig;
+  refreshConfig: () => Promise<void>;
+}
+
+const AppConfigContext = createContext<AppConfigContextProps | undefined>(undefined);
+
+export const AppConfigProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [config, setConfig] = useState<AppConfig>(getAppConfig);
+
+  // Load the config on start and whenever the app comes back to the foreground.
+  // Offline the cached copy is kept; the cache is revalidated when the connection returns.
+  useEffect(() => {
+    const unsubscribe = subscribeToAppConfig(setConfig);
+    refreshAppConfig();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active' && isOnline()) {
+        refreshAppConfig();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, []);
+
+  // A stale cached config is refreshed in the background; pick up the new copy
+  useCacheUpdates(API_ENDPOINTS.UTILITY.GET_APP_CONFIG, () => {
+    refreshAppConfig();
+  });
+
+  const refreshConfig = async () => {
+    await refreshAppConfig(true);
+  };
+
+  return (
+    <AppConfigContext.Provider value={{ config, refreshConfig }}>
+      {children}
+    </AppConfigContext.Provider>
+  );
+};
+
+export const useAppConfig = (): AppConfigContextProps => {
+  const context = useContext(AppConfigContext);
+  if (!context) {
+    throw new Error('useAppConfig must be used within an AppConfigProvider');
+  }
+  return context;
+};
@@ -1,150 +1,250 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { getCartItems, saveCartItems, CartItem } from '../utils/cartStorage';
-
-interface CartContextProps {
-  cartItems: CartItem[];
-  cartCount: number;
-  setCartItems: (items: CartItem[]) => void;
-  addItem: (item: CartItem) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
-  clearCart: () => void;
-  refreshCart: () => Promise<void>;
-}
-
-const CartContext = createContext<CartContextProps | undefined>(undefined);
-
-export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [cartItems, setCartItemsState] = useState<CartItem[]>([]);
-
-  // Calculate cart count (total number of items, not unique products)
-  const cartCount = cartItems.reduce((total, item) => total + item.quantity, 0);
-  
-  // Debug logging for cart count
-  useEffect(() => {
-    console.log('🛒 CartContext - Cart count updated:', cartCount, 'items:', cartItems.length);
-  }, [cartCount, cartItems.length]);
-
-  // Load cart items from storage on mount
-  useEffect(() => {
-    loadCartFromStorage();
-  }, []);
-
-  const loadCartFromStorage = async () => {
-    try {
-      const storedItems = await getCartItems();
-      console.log('🛒 CartContext - Loaded items from storage:', storedItems.length);
-      setCartItemsState(storedItems || []);
-    } catch (error) {
-      console.error('Error loading cart from storage:', error);
-      setCartItemsState([]);
-    }
-  };
-
-  const setCartItems = async (items: CartItem[]) => {
-    // Ensure we always have a valid array
-    const validItems = Array.isArray(items) ? items : [];
-    setCartItemsState(validItems);
-    try {
-      await saveCartItems(validItems);
-    } catch (error) {
-      console.error('Error saving cart items:', error);
-    }
-  };
-
-  const addItem = async (newItem: CartItem) => {
-    // Validate the new item
-    if (!newItem || !newItem.id || !newItem.name) {
-      console.error('Invalid item provided to addItem:', newItem);
-      return;
-    }
-
-    const existingItemIndex = cartItems.findIndex(item => item.id === newItem.id);
-    
-    let updatedItems: CartItem[];
-    if (existingItemIndex >= 0) {
-      // Update existing item quantity
-      updatedItems = cartItems.map((item, index) =>
-        index === existingItemIndex
-          ? { ...item, quantity: item.quantity + newItem.quantity }
-          : item
-      );
-    } else {
-      // Add new item
-      updatedItems = [...cartItems, newItem];
-    }
-    
-    setCartItemsState(updatedItems);
-    try {
-      await saveCartItems(updatedItems);
-    } catch (error) {
-      console.error('Error saving cart after adding item:', error);
-    }
-  };
-
-  const removeItem = async (productId: string) => {
-    const updatedItems = cartItems.filter(item => item.id !== productId);
-    setCartItemsState(updatedItems);
-    try {
-      await saveCartItems(updatedItems);
-    } catch (error) {
-      console.error('Error saving cart after removing item:', error);
-    }
-  };
-
-  const updateQuantity = async (productId: string, quantity: number) => {
-    if (quantity <= 0) {
-      await removeItem(productId);
-      return;
-    }
-
-    const updatedItems = cartItems.map(item =>
-      item.id === productId ? { ...item, quantity } : item
-    );
-    
-    setCartItemsState(updatedItems);
-    try {
-      await saveCartItems(updatedItems);
-    } catch (error) {
-      console.error('Error saving cart after updating quantity:', error);
-    }
-  };
-
-  const clearCart = async () => {
-    setCartItemsState([]);
-    try {
-      await saveCartItems([]);
-    } catch (error) {
-      console.error('Error clearing cart:', error);
-    }
-  };
-
-  const refreshCart = async () => {
-    await loadCartFromStorage();
-  };
-
-  return (
-    <CartContext.Provider
-      value={{
-        cartItems,
-        cartCount,
-        setCartItems,
-        addItem,
-        removeItem,
-        updateQuantity,
-        clearCart,
-        refreshCart,
-      }}
-    >
-      {children}
-    </CartContext.Provider>
-  );
-};
-
-export const useCart = (): CartContextProps => {
-  const context = useContext(CartContext);
-  if (!context) {
-    throw new Error('useCart must be used within a CartProvider');
-  }
-  return context;
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { getCartItems, saveCartItems, CartItem } from '../utils/cartStorage';
+import { CartConflict, syncCartWithBackend } from '../utils/cartSyncManager';
+import { subscribeToStorageUser } from '../utils/userStorage';
+import { clampQuantity, getQuantityLimits } from '../utils/quantityLimits';
+import { Product } from '../services/apiService';
+import { useFeature } from '../hooks/useFeature';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('cart');
+
+interface CartContextProps {
+  cartItems: CartItem[];
+  cartCount: number;
+  setCartItems: (items: CartItem[]) => void;
+  addItem: (item: CartItem) => void;
+  removeItem: (productId: string) => void;
+  updateQuantity: (productId: string, quantity: number) => void; // Kept within the item's stock and order limits
+  updateStockLevels: (products: Product[]) => void; // Store fetched stock on cart items and cut quantities to it
+  clearCart: () => void;
+  refreshCart: () => Promise<void>;
+  syncConflicts: CartConflict[]; // Items changed both here and on another device, from the last sync
+  dismissSyncConflicts: () => void;
+}
+
+const CartContext = createContext<CartContextProps | undefined>(undefined);
+
+export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [cartItems, setCartItemsState] = useState<CartItem[]>([]);
+  const cartSyncEnabled = useFeature('cartSync');
+  const [syncConflicts, setSyncConflicts] = useState<CartConflict[]>([]);
+
+  // Calculate cart count (total number of items, not unique products)
+  // Calculate cart count (total number of items, not unique products)
+  const cartCount = cartItems.reduce((total, item) => total + item.quantity, 0);
+  
+  // Debug logging for cart count
+  useEffect(() => {
+    log.debug(`🛒 CartContext - Cart count updated: ${cartCount}, items: ${cartItems.length}`);
+  }, [cartCount, cartItems.length]);
+
+  // Load cart items from storage on mount
+  useEffect(() => {
+    loadCartFromStorage();
+  }, []);
+
+  // Another account has its own cart; load it when the user logs in or out
+  useEffect(() => {
+    return subscribeToStorageUser(() => {
+      setSyncConflicts([]);
+      loadCartFromStorage();
+    });
+  }, []);
+
+  const loadCartFromStorage = async () => {
+    try {
+      const storedItems = await getCartItems();
+      log.debug('🛒 CartContext - Loaded items from storage:', storedItems.length);
+      setCartItemsState(storedItems || []);
+    } catch (error) {
+      log.error('Error loading cart from storage:', error);
+      setCartItemsState([]);
+    }
+  };
+
+  const setCartItems = async (items: CartItem[]) => {
+    // Ensure we always have a valid array
+    const validItems = Array.isArray(items) ? items : [];
+    setCartItemsState(validItems);
+    try {
+      await saveCartItems(validItems);
+    } catch (error) {
+      log.error('Error saving cart items:', error);
+    }
+  };
+
+  const addItem = async (newItem: CartItem) => {
+    // Validate the new item
+    if (!newItem || !newItem.id || !newItem.name) {
+      log.error('Invalid item provided to addItem:', newItem);
+      return;
+    }
+
+    const existingItem = cartItems.find(item => item.id === newItem.id);
+    const mergedItem = { ...existingItem, ...newItem };
+    const limits = getQuantityLimits(mergedItem);
+    const quantity = existingItem
+      ? clampQuantity(existingItem.quantity + newItem.quantity, limits)
+      : clampQuantity(Math.max(newItem.quantity, limits.min), limits);
+    if (quantity === 0 || quantity === existingItem?.quantity) {
+      log.debug('🛒 CartContext - Quantity limit reached for', newItem.id);
+      return;
+    }
+    
+    let updatedItems: CartItem[];
+    if (existingItem) {
+      // Update existing item quantity
+      updatedItems = cartItems.map(item =>
+        item.id === newItem.id ? { ...mergedItem, quantity } : item
+      );
+    } else {
+      // Add new item
+      updatedItems = [...cartItems, { ...newItem, quantity }];
+    }
+    
+    setCartItemsState(updatedItems);
+    try {
+      await saveCartItems(updatedItems);
+    } catch (error) {
+      log.error('Error saving cart after adding item:', error);
+    }
+  };
+
+  const removeItem = async (productId: string) => {
+    const updatedItems = cartItems.filter(item => item.id !== productId);
+    setCartItemsState(updatedItems);
+    try {
+      await saveCartItems(updatedItems);
+    } catch (error) {
+      log.error('Error saving cart after removing item:', error);
+    }
+  };
+
+  const updateQuantity = async (productId: string, quantity: number) => {
+    const existingItem = cartItems.find(item => item.id === productId);
+    const allowedQuantity = existingItem ? clampQuantity(quantity, getQuantityLimits(existingItem)) : quantity;
+    if (allowedQuantity <= 0) {
+      await removeItem(productId);
+      return;
+    }
+
+    const updatedItems = cartItems.map(item =>
+      item.id === productId ? { ...item, quantity: allowedQuantity } : item
+    );
+    
+    setCartItemsState(updatedItems);
+    try {
+      await saveCartItems(updatedItems);
+    } catch (error) {
+      log.error('Error saving cart after updating quantity:', error);
+    }
+  };
+
+  const updateStockLevels = async (products: Product[]) => {
+    const productsById = new Map(
+      products.filter(product => product.productId).map(product => [String(product.productId), product])
+    );
+    let changed = false;
+    const updatedItems: CartItem[] = [];
+    cartItems.forEach(item => {
+      const product = productsById.get(item.id);
+      if (!product) {
+        updatedItems.push(item);
+        return;
+      }
+      const updatedItem: CartItem = {
+        ...item,
+        stockQuantity: product.stockQuantity,
+        minOrderQuantity: product.minOrderQuantity,
+        maxOrderQuantity: product.maxOrderQuantity,
+        hsnCode: product.hsnCode,
+        taxRate: product.taxRate,
+        unitOfMeasure: product.unitOfMeasure,
+        packSize: product.packSize,
+        packUnit: product.packUnit,
+        quantityStep: product.quantityStep,
+      };
+      // The stock dropped below what is in the cart
+      const quantity = clampQuantity(item.quantity, getQuantityLimits(updatedItem));
+      changed = changed || quantity !== item.quantity ||
+        updatedItem.stockQuantity !== item.stockQuantity ||
+        updatedItem.minOrderQuantity !== item.minOrderQuantity ||
+        updatedItem.maxOrderQuantity !== item.maxOrderQuantity ||
+        updatedItem.hsnCode !== item.hsnCode ||
+        updatedItem.taxRate !== item.taxRate ||
+        updatedItem.unitOfMeasure !== item.unitOfMeasure ||
+        updatedItem.packSize !== item.packSize ||
+        updatedItem.packUnit !== item.packUnit ||
+        updatedItem.quantityStep !== item.quantityStep;
+      if (quantity > 0) {
+        updatedItems.push({ ...updatedItem, quantity });
+      }
+    });
+    if (!changed) {
+      return;
+    }
+
+    setCartItemsState(updatedItems);
+    try {
+      await saveCartItems(updatedItems);
+    } catch (error) {
+      log.error('Error saving cart after updating stock levels:', error);
+    }
+  };
+
+  const clearCart = async () => {
+    setCartItemsState([]);
+    try {
+      await saveCartItems([]);
+    } catch (error) {
+      log.error('Error clearing cart:', error);
+    }
+  };
+
+  const refreshCart = async () => {
+    // Rolled out gradually: merge the local and server carts before reloading it
+    if (cartSyncEnabled) {
+      const syncResult = await syncCartWithBackend();
+      if (syncResult.issues.length > 0) {
+        log.warn('🛒 CartContext - Cart sync issues:', syncResult.issues);
+      }
+      if (syncResult.conflicts.length > 0) {
+        setSyncConflicts(syncResult.conflicts);
+      }
+    }
+    await loadCartFromStorage();
+  };
+
+  const dismissSyncConflicts = () => {
+    setSyncConflicts([]);
+  };
+
+  return (
+    <CartContext.Provider
+      value={{
+        cartItems,
+        cartCount,
+        setCartItems,
+        addItem,
+        removeItem,
+        updateQuantity,
+        updateStockLevels,
+        clearCart,
+        refreshCart,
+        syncConflicts,
+        dismissSyncConflicts,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
+
+export const useCart = (): CartContextProps => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
 };
\ No newline at end of file
@@ -0,0 +1,63 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  ConnectivityState,
+  ConnectivityStatus,
+  checkConnectivity,
+  getConnectivityState,
+  startConnectivityMonitoring,
+  subscribeToConnectivity,
+} from '../services/connectivityService';
+import { useCircuitBreaker } from '../hooks/useCircuitBreaker';
+
+interface ConnectivityContextProps {
+  status: ConnectivityStatus; // Also 'degraded' while a circuit breaker fails requests fast
+  isDeviceOnline: boolean;
+  isBackendReachable: boolean;
+  openGroups: string[]; // Endpoint groups whose circuit breaker is open
+  checkConnection: () => Promise<void>;
+}
+
+const ConnectivityContext = createContext<ConnectivityContextProps | undefined>(undefined);
+
+export const ConnectivityProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [connectivity, setConnectivity] = useState<ConnectivityState>(getConnectivityState);
+  const { openGroups, isBackendDown } = useCircuitBreaker();
+
+  useEffect(() => {
+    const unsubscribe = subscribeToConnectivity(setConnectivity);
+    const stopMonitoring = startConnectivityMonitoring();
+    return () => {
+      unsubscribe();
+      stopMonitoring();
+    };
+  }, []);
+
+  const status: ConnectivityStatus =
+    connectivity.status === 'online' && isBackendDown ? 'degraded' : connectivity.status;
+
+  const checkConnection = async () => {
+    await checkConnectivity();
+  };
+
+  return (
+    <ConnectivityContext.Provider
+      value={{
+        status,
+        isDeviceOnline: connectivity.isDeviceOnline,
+        isBackendReachable: connectivity.isBackendReachable,
+        openGroups,
+        checkConnection,
+      }}
+    >
+      {children}
+    </ConnectivityContext.Provider>
+  );
+};
+
+export const useConnectivity = (): ConnectivityContextProps => {
+  const context = useContext(ConnectivityContext);
+  if (!context) {
+    throw new Error('useConnectivity must be used within a ConnectivityProvider');
+  }
+  return context;
+};
@@ -0,0 +1,33 @@
+import { useCallback, useRef } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+
+/**
+ * A custom hook that hands out an AbortSignal for a screen's requests and
+ * aborts them when the screen loses focus or unmounts, so responses that
+ * arrive late never update a screen that is gone.
+ * @returns getSignal for the current focus session, and cancelAll to abort early
+ */
+export const useAbortOnBlur = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const getSignal = useCallback((): AbortSignal => {
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  // The cleanup runs on blur and on unmount
+  useFocusEffect(
+    useCallback(() => cancelAll, [cancelAll])
+  );
+
+  return { getSignal, cancelAll };
+};
+
+export default useAbortOnBlur;
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { getVersionInfo, subscribeToVersion, VersionInfo } from '../services/versionService';
+
+/**
+ * A custom hook that keeps track of the result of the app version check,
+ * e.g. to show an update banner while a newer version is recommended
+ * @returns The version status plus the versions the server supports
+ */
+export const useAppVersion = (): VersionInfo => {
+  const [versionInfo, setVersionInfo] = useState<VersionInfo>(getVersionInfo);
+
+  useEffect(() => {
+    setVersionInfo(getVersionInfo());
+    return subscribeToVersion(setVersionInfo);
+  }, []);
+
+  return versionInfo;
+};
+
+export default useAppVersion;
@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToCache } from '../services/responseCache';
+
+/**
+ * A custom hook that calls back when cached responses for an endpoint are
+ * refreshed in the background or cleared after a change, so a screen that
+ * rendered cached data can load the new data.
+ * @param prefix Endpoint prefix to watch (e.g. API_ENDPOINTS.PRODUCTS.GET_ALL)
+ * @param onUpdate Called after each matching update
+ */
+export const useCacheUpdates = (prefix: string, onUpdate: () => void) => {
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    return subscribeToCache(endpoint => {
+      if (endpoint.startsWith(prefix) || prefix.startsWith(endpoint)) {
+        onUpdateRef.current();
+      }
+    });
+  }, [prefix]);
+};
+
+export default useCacheUpdates;
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { getCircuitStates, subscribeToCircuits, CircuitState } from '../services/circuitBreaker';
+
+/**
+ * A custom hook that keeps track of the API circuit breakers, e.g. to show
+ * an "offline" banner while the backend is failing fast
+ * @param groups Only consider these endpoint groups (e.g. ['cart', 'orders']); all groups if omitted
+ * @returns The circuit states plus whether any of them is failing fast
+ */
+export const useCircuitBreaker = (groups?: string[]) => {
+  const [circuits, setCircuits] = useState<CircuitState[]>(getCircuitStates);
+  const groupKey = groups ? groups.join(',') : '';
+
+  useEffect(() => {
+    setCircuits(getCircuitStates());
+    return subscribeToCircuits(setCircuits);
+  }, []);
+
+  const relevant = groupKey
+    ? circuits.filter(circuit => groupKey.split(',').includes(circuit.group))
+    : circuits;
+  const openCircuits = relevant.filter(circuit => circuit.status !== 'closed');
+
+  return {
+    circuits: relevant,
+    openGroups: openCircuits.map(circuit => circuit.group),
+    isBackendDown: openCircuits.length > 0,
+  };
+};
+
+export default useCircuitBreaker;
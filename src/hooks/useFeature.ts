@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import {
+  FeatureFlagName,
+  isFeatureEnabled,
+  loadFeatureFlags,
+  subscribeToFeatureFlags,
+} from '../services/featureFlagService';
+
+/**
+ * A custom hook that tells whether a feature is on for the current user, for
+ * gating tabs, buttons and code paths. Updates when the remote config, the
+ * user or a local override changes the flag.
+ * @param name Flag from FEATURE_FLAGS
+ */
+export const useFeature = (name: FeatureFlagName): boolean => {
+  const [enabled, setEnabled] = useState(() => isFeatureEnabled(name));
+
+  useEffect(() => {
+    const update = () => setEnabled(isFeatureEnabled(name));
+    const unsubscribe = subscribeToFeatureFlags(update);
+    loadFeatureFlags().then(update);
+    update();
+    return unsubscribe;
+  }, [name]);
+
+  return enabled;
+};
+
+export default useFeature;
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  FeatureFlagName,
+  FeatureFlagState,
+  getFeatureFlags,
+  loadFeatureFlags,
+  subscribeToFeatureFlags,
+} from '../services/featureFlagService';
+
+/**
+ * A custom hook that keeps track of every feature flag, e.g. to filter a list
+ * of tabs or to show the flags in the DebugPanel
+ * @returns All flags with their source, and a lookup by name
+ */
+export const useFeatureFlags = () => {
+  const [flags, setFlags] = useState<FeatureFlagState[]>(getFeatureFlags);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToFeatureFlags(setFlags);
+    loadFeatureFlags().then(() => setFlags(getFeatureFlags()));
+    return unsubscribe;
+  }, []);
+
+  const isEnabled = useCallback(
+    (name: FeatureFlagName) => flags.some(flag => flag.name === name && flag.enabled),
+    [flags]
+  );
+
+  return { flags, isEnabled };
+};
+
+export default useFeatureFlags;
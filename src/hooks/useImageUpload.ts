@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PermissionsAndroid, Platform } from 'react-native';
+import { launchImageLibrary } from 'react-native-image-picker';
+import { isApiErrorKind } from '../services/apiErrors';
+import {
+  IMAGE_PICKER_OPTIONS,
+  ImageFile,
+  queueImageUpload,
+  toImageFile,
+  uploadImage,
+  validateImageFile,
+} from '../services/imageUploadService';
+
+// 'queued' means the image waits in the offline outbox and is attached to its product later
+export type ImageUploadStatus = 'idle' | 'uploading' | 'uploaded' | 'failed' | 'queued';
+
+export interface ImageUploadState {
+  status: ImageUploadStatus;
+  progress: number; // 0 to 1 while uploading
+  previewUri?: string; // Local file while it uploads, or the uploaded URL
+  url?: string; // Public URL once uploaded
+  error?: string;
+}
+
+const requestLibraryPermission = async (): Promise<boolean> => {
+  if (Platform.OS !== 'android') {
+    return true;
+  }
+  try {
+    const granted = await PermissionsAndroid.request(
+      PermissionsAndroid.PERMISSIONS.READ_EXTERNAL_STORAGE,
+      {
+        title: 'Storage Permission',
+        message: 'App needs access to your storage to select images.',
+        buttonNeutral: 'Ask Me Later',
+        buttonNegative: 'Cancel',
+        buttonPositive: 'OK',
+      }
+    );
+    return granted === PermissionsAndroid.RESULTS.GRANTED;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A custom hook that picks a product image and uploads it straight away, with
+ * progress, cancel and retry. An image that could not be uploaded can be
+ * queued for a product once the product is saved.
+ * @param initialUrl Image the product already has, shown until a new one is picked
+ * @returns The upload state and the actions for the image field
+ */
+export const useImageUpload = (initialUrl?: string) => {
+  const [state, setState] = useState<ImageUploadState>(
+    initialUrl ? { status: 'uploaded', progress: 1, previewUri: initialUrl, url: initialUrl } : { status: 'idle', progress: 0 }
+  );
+  const fileRef = useRef<ImageFile | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const initialUrlRef = useRef(initialUrl);
+
+  // The product may arrive after the first render
+  useEffect(() => {
+    if (initialUrl && !fileRef.current) {
+      initialUrlRef.current = initialUrl;
+      setState({ status: 'uploaded', progress: 1, previewUri: initialUrl, url: initialUrl });
+    }
+  }, [initialUrl]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(async (file: ImageFile) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setState({ status: 'uploading', progress: 0, previewUri: file.uri });
+    const response = await uploadImage(file, {
+      signal: controller.signal,
+      onProgress: fraction => {
+        if (controllerRef.current === controller) {
+          setState(current => ({ ...current, progress: fraction }));
+        }
+      },
+    });
+    if (controllerRef.current !== controller || isApiErrorKind(response, 'cancelled')) {
+      return;
+    }
+    controllerRef.current = null;
+
+    if (response.success && response.data) {
+      setState({ status: 'uploaded', progress: 1, previewUri: response.data.url, url: response.data.url });
+    } else {
+      setState({ status: 'failed', progress: 0, previewUri: file.uri, error: response.error });
+    }
+  }, []);
+
+  /**
+   * Let the user choose an image and start uploading it
+   * @returns An error message for the user, or null
+   */
+  const pickImage = useCallback(async (): Promise<string | null> => {
+    if (!(await requestLibraryPermission())) {
+      return 'Storage permission is required to select images.';
+    }
+    const response = await launchImageLibrary(IMAGE_PICKER_OPTIONS);
+    if (response.didCancel) {
+      return null;
+    }
+    if (response.errorCode) {
+      return `Failed to pick image: ${response.errorMessage || response.errorCode}`;
+    }
+    const file = response.assets?.[0] ? toImageFile(response.assets[0]) : null;
+    if (!file) {
+      return null;
+    }
+    const invalidReason = validateImageFile(file);
+    if (invalidReason) {
+      return invalidReason;
+    }
+    fileRef.current = file;
+    start(file);
+    return null;
+  }, [start]);
+
+  // Stop the upload and go back to the image the product had before
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    fileRef.current = null;
+    const previousUrl = initialUrlRef.current;
+    setState(previousUrl
+      ? { status: 'uploaded', progress: 1, previewUri: previousUrl, url: previousUrl }
+      : { status: 'idle', progress: 0 });
+  }, []);
+
+  const retry = useCallback(() => {
+    if (fileRef.current) {
+      start(fileRef.current);
+    }
+  }, [start]);
+
+  /**
+   * Queue a picked image that has not been uploaded yet, to be uploaded and
+   * written into the product's imageUrl by the outbox
+   * @returns true when an image was queued
+   */
+  const queueForProduct = useCallback(async (productId: number | string): Promise<boolean> => {
+    const file = fileRef.current;
+    if (!file || state.status === 'uploaded') {
+      return false;
+    }
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    await queueImageUpload(file, productId);
+    setState(current => ({ ...current, status: 'queued', progress: 0, error: undefined }));
+    return true;
+  }, [state.status]);
+
+  return {
+    ...state,
+    // A picked image still waiting to be uploaded, which queueForProduct can hand to the outbox
+    hasPendingImage: fileRef.current !== null && state.status !== 'uploaded',
+    pickImage,
+    cancel,
+    retry,
+    queueForProduct,
+  };
+};
+
+export default useImageUpload;
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { getLogEntries, subscribeToLogs, LogEntry, LogLevel } from '../services/logger';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * A custom hook that keeps track of the in-memory log buffer, e.g. to show
+ * recent log entries in the DebugPanel
+ * @param minLevel Only return entries at this level or above
+ * @param limit Only return the newest entries, up to this many
+ * @returns The matching entries, newest first
+ */
+export const useLogs = (minLevel: LogLevel = 'debug', limit: number = 50) => {
+  const [entries, setEntries] = useState<LogEntry[]>(getLogEntries);
+
+  useEffect(() => {
+    setEntries(getLogEntries());
+    return subscribeToLogs(setEntries);
+  }, []);
+
+  return entries
+    .filter(entry => LEVEL_ORDER[entry.level] >= LEVEL_ORDER[minLevel])
+    .slice(-limit)
+    .reverse();
+};
+
+export default useLogs;
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { getNetworkRecords, subscribeToNetworkRecords, NetworkRecord } from '../services/networkInspector';
+
+/**
+ * A custom hook that keeps track of the requests recorded by the network
+ * inspector, e.g. to list them in the DebugPanel
+ * @param group Only return requests of this endpoint group; all groups if omitted
+ * @returns The matching records, newest first, plus the groups seen so far
+ */
+export const useNetworkRecords = (group?: string) => {
+  const [records, setRecords] = useState<NetworkRecord[]>(getNetworkRecords);
+
+  useEffect(() => {
+    setRecords(getNetworkRecords());
+    return subscribeToNetworkRecords(setRecords);
+  }, []);
+
+  return {
+    records: records.filter(record => !group || record.group === group).reverse(),
+    groups: Array.from(new Set(records.map(record => record.group))).sort(),
+  };
+};
+
+export default useNetworkRecords;
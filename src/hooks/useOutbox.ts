@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { getOutboxItems, subscribeToOutbox, OutboxItem } from '../services/outboxService';
+
+/**
+ * A custom hook that keeps track of queued offline mutations
+ * @param tag Only return items with this tag (e.g. 'cart' or 'order')
+ * @returns The outbox items plus the number still waiting to be sent
+ */
+export const useOutbox = (tag?: string) => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    const filter = (all: OutboxItem[]) => (tag ? all.filter(item => item.tag === tag) : all);
+
+    let mounted = true;
+    getOutboxItems().then(all => {
+      if (mounted) {
+        setItems(filter(all));
+      }
+    });
+
+    const unsubscribe = subscribeToOutbox(all => setItems(filter(all)));
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [tag]);
+
+  return {
+    items,
+    pendingCount: items.filter(item => item.status === 'pending').length,
+    problemCount: items.filter(item => item.status === 'failed' || item.status === 'conflict').length,
+  };
+};
+
+export default useOutbox;
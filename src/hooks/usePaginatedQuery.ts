@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { ApiResponse, PageRequest } from '../services/apiConfig';
+import { useCacheUpdates } from './useCacheUpdates';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export interface PaginatedQueryOptions<T> {
+  queryKey: string; // Endpoint the pages come from, with any filters; a change starts over at page 1
+  fetchPage: (page: PageRequest) => Promise<ApiResponse<T[]>>;
+  getItemKey: (item: T) => string;
+  pageSize?: number;
+  enabled?: boolean; // Nothing is loaded while false, e.g. until the user ID is known
+  reloadOnFocus?: boolean; // Reload the loaded pages whenever the screen regains focus
+}
+
+// 'reload' fetches the pages already shown again without a spinner
+type LoadMode = 'initial' | 'more' | 'refresh' | 'reload';
+
+// A page can repeat items that moved down when new ones were added; the newest copy wins
+const mergeItems = <T>(current: T[], incoming: T[], getItemKey: (item: T) => string): T[] => {
+  const merged = [...current];
+  const indexByKey = new Map(merged.map((item, index) => [getItemKey(item), index]));
+  incoming.forEach(item => {
+    const key = getItemKey(item);
+    const index = indexByKey.get(key);
+    if (index === undefined) {
+      indexByKey.set(key, merged.length);
+      merged.push(item);
+    } else {
+      merged[index] = item;
+    }
+  });
+  return merged;
+};
+
+/**
+ * A custom hook that loads a list page by page for a FlatList: the next page
+ * when the end is reached, page 1 from the server on pull-to-refresh, and the
+ * loaded pages again when their cached responses are updated.
+ * @returns The items loaded so far, loading state, and props to spread on the FlatList
+ */
+export const usePaginatedQuery = <T>({
+  queryKey,
+  fetchPage,
+  getItemKey,
+  pageSize = DEFAULT_PAGE_SIZE,
+  enabled = true,
+  reloadOnFocus = false,
+}: PaginatedQueryOptions<T>) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [loadingMode, setLoadingMode] = useState<LoadMode | null>(enabled ? 'initial' : null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const getItemKeyRef = useRef(getItemKey);
+  getItemKeyRef.current = getItemKey;
+
+  const stateRef = useRef({ loadedPages: 0, hasMore: true, isLoading: false, hasError: false });
+  const controllerRef = useRef<AbortController | null>(null);
+  // Responses from before a reset or a newer load are dropped
+  const generationRef = useRef(0);
+
+  const load = useCallback(async (mode: LoadMode) => {
+    const state = stateRef.current;
+    if (mode === 'more' && (state.isLoading || !state.hasMore)) {
+      return;
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const generation = ++generationRef.current;
+
+    state.isLoading = true;
+    setLoadingMode(mode);
+
+    const firstPage = mode === 'more' ? state.loadedPages + 1 : 1;
+    const lastPage = mode === 'reload' ? Math.max(state.loadedPages, 1) : firstPage;
+    let fetched: T[] = [];
+    let pagesFetched = 0;
+    let reachedEnd = false;
+    let failure: string | null = null;
+
+    while (firstPage + pagesFetched <= lastPage && !reachedEnd) {
+      let response: ApiResponse<T[]>;
+      try {
+        response = await fetchPageRef.current({
+          pageNumber: firstPage + pagesFetched,
+          pageSize,
+          signal: controller.signal,
+          skipCache: mode === 'refresh',
+        });
+      } catch (err) {
+        response = { success: false, error: err instanceof Error ? err.message : 'Failed to load' };
+      }
+      if (generation !== generationRef.current) {
+        return;
+      }
+      if (!response.success || !Array.isArray(response.data)) {
+        failure = response.error || 'Failed to load';
+        break;
+      }
+      fetched = fetched.concat(response.data);
+      pagesFetched++;
+      reachedEnd = response.data.length < pageSize;
+    }
+
+    const getKey = getItemKeyRef.current;
+    state.isLoading = false;
+    state.hasError = failure !== null;
+    setLoadingMode(null);
+    setError(failure);
+
+    if (pagesFetched === 0) {
+      // Nothing new arrived; what is shown stays
+      return;
+    }
+    if (mode === 'more') {
+      setItems(current => mergeItems(current, fetched, getKey));
+      state.loadedPages += pagesFetched;
+    } else if (failure) {
+      // Only the first pages were reloaded; the rest are kept as they were
+      setItems(current => mergeItems(fetched, current, getKey));
+      state.loadedPages = Math.max(state.loadedPages, pagesFetched);
+    } else {
+      setItems(fetched);
+      state.loadedPages = pagesFetched;
+    }
+    if (!failure) {
+      state.hasMore = !reachedEnd;
+      setHasMore(!reachedEnd);
+    }
+  }, [pageSize]);
+
+  // Start over whenever the query changes
+  useEffect(() => {
+    stateRef.current = { loadedPages: 0, hasMore: true, isLoading: false, hasError: false };
+    setItems([]);
+    setHasMore(true);
+    setError(null);
+    if (enabled) {
+      load('initial');
+    } else {
+      setLoadingMode(null);
+    }
+    return () => {
+      generationRef.current++;
+      controllerRef.current?.abort();
+    };
+  }, [queryKey, enabled, load]);
+
+  // Updates that arrive while a load is running come from that load and are already shown
+  useCacheUpdates(queryKey, () => {
+    if (enabled && !stateRef.current.isLoading && stateRef.current.loadedPages > 0) {
+      load('reload');
+    }
+  });
+
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocusedRef.current && reloadOnFocus && enabled && !stateRef.current.isLoading) {
+        load('reload');
+      }
+      hasFocusedRef.current = true;
+    }, [reloadOnFocus, enabled, load])
+  );
+
+  // A failed page is not requested again by scrolling, only by retry or refresh
+  const loadMore = useCallback(() => {
+    if (enabled && !stateRef.current.hasError) {
+      load(stateRef.current.loadedPages === 0 ? 'initial' : 'more');
+    }
+  }, [enabled, load]);
+
+  const retry = useCallback(() => {
+    if (enabled) {
+      stateRef.current.hasError = false;
+      load(stateRef.current.loadedPages === 0 ? 'initial' : 'more');
+    }
+  }, [enabled, load]);
+
+  const refresh = useCallback(() => {
+    if (enabled) {
+      load('refresh');
+    }
+  }, [enabled, load]);
+
+  const isRefreshing = loadingMode === 'refresh';
+
+  return {
+    items,
+    setItems, // For optimistic changes, e.g. marking a notification as read
+    isLoading: loadingMode === 'initial',
+    isRefreshing,
+    isLoadingMore: loadingMode === 'more',
+    hasMore,
+    error,
+    loadMore,
+    retry,
+    refresh,
+    listProps: {
+      onEndReached: loadMore,
+      onEndReachedThreshold: 0.5,
+      refreshing: isRefreshing,
+      onRefresh: refresh,
+    },
+  };
+};
+
+export default usePaginatedQuery;
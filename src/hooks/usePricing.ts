@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAppConfig } from '../context/AppConfigContext';
+import { API_ENDPOINTS } from '../services/apiEndpoints';
+import {
+  getDeliveryChargeRules,
+  getPriceBreakdown,
+  loadDeliveryChargeRules,
+  PricedItem,
+  subscribeToDeliveryChargeRules,
+} from '../services/pricingService';
+import { isInterStateSupply } from '../services/taxService';
+import { useCacheUpdates } from './useCacheUpdates';
+
+/**
+ * A custom hook that prices orders with the GST rates of the items, the
+ * seller's state from the app config and the delivery charge rules, loading
+ * the rules when the screen mounts and again after an admin changes them
+ * @returns getBreakdown, giving the subtotal, GST split, delivery charge and total of some items
+ */
+export const usePricing = () => {
+  const { config } = useAppConfig();
+  const [rules, setRules] = useState(getDeliveryChargeRules);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDeliveryChargeRules(setRules);
+    loadDeliveryChargeRules();
+    return unsubscribe;
+  }, []);
+
+  useCacheUpdates(API_ENDPOINTS.DELIVERY.GET_ALL_RULES, () => {
+    loadDeliveryChargeRules();
+  });
+
+  // Without a delivery state the order is taxed as within the seller's state
+  const getBreakdown = useCallback(
+    (items: PricedItem[], deliveryState?: string) =>
+      getPriceBreakdown(items, config.gstRate, rules, isInterStateSupply(config.sellerState, deliveryState)),
+    [config.gstRate, config.sellerState, rules]
+  );
+
+  return { getBreakdown };
+};
+
+export default usePricing;
@@ -4,6 +4,7 @@ import Ionicons from 'react-native-vector-icons/Ionicons';
 import { AdminTabsParamList } from './navigation.types';
 import { adminTabConfigs, tabBarOptions } from './adminTabConfig';
 import { useLanguage } from '../context/LanguageContext';
+import { useFeatureFlags } from '../hooks/useFeatureFlags';
 
 const Tab = createBottomTabNavigator<AdminTabsParamList>();
 
@@ -38,13 +39,15 @@ const AdminBottomTabNavigator: React.FC<AdminBottomTabNavigatorProps> = ({
   initialParams,
 }) => {
   const { translate } = useLanguage();
+  const { isEnabled } = useFeatureFlags();
+  const visibleTabs = adminTabConfigs.filter(tabConfig => !tabConfig.featureFlag || isEnabled(tabConfig.featureFlag));
 
   return (
     <Tab.Navigator
       screenOptions={getTabScreenOptions}
       initialRouteName={initialScreen as keyof AdminTabsParamList}
     >
-      {adminTabConfigs.map((tabConfig) => {
+      {visibleTabs.map((tabConfig) => {
         const isInitialScreen = tabConfig.name === initialScreen;
         const screenParams = isInitialScreen
           ? { userName, userPhone, designation, ...initialParams }
@@ -7,6 +7,7 @@ import { HomeTabsParamList } from './navigation.types';
 import { tabConfigs, tabBarOptions } from './tabConfig';
 import { useLanguage } from '../context/LanguageContext';
 import { useCart } from '../context/CartContext';
+import { useFeatureFlags } from '../hooks/useFeatureFlags';
 import TabBarIcon from '../components/TabBarIcon';
 
 const Tab = createBottomTabNavigator<HomeTabsParamList>();
@@ -49,13 +50,15 @@ interface BottomTabNavigatorProps {
 
 const BottomTabNavigator: React.FC<BottomTabNavigatorProps> = ({ userName, userPhone, initialScreen, initialParams }) => {
   const { translate } = useLanguage();
+  const { isEnabled } = useFeatureFlags();
+  const visibleTabs = tabConfigs.filter(tabConfig => !tabConfig.featureFlag || isEnabled(tabConfig.featureFlag));
   
   return (
     <Tab.Navigator 
       screenOptions={TabScreenOptions}
       initialRouteName={initialScreen as keyof HomeTabsParamList}
     >
-      {tabConfigs.map((tabConfig) => {
+      {visibleTabs.map((tabConfig) => {
         const isInitialScreen = tabConfig.name === initialScreen;
         const screenParams = isInitialScreen 
           ? { userName, userPhone, ...initialParams }
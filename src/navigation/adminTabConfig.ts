@@ -3,6 +3,7 @@ import AdminHomeScreen from '../screens/admin/AdminHomeScreen';
 import AdminOrdersScreen from '../screens/admin/AdminOrdersScreen';
 import AdminInventoryScreen from '../screens/admin/AdminInventoryScreen';
 import AdminProfileScreen from '../screens/admin/AdminProfileScreen';
+import { FeatureFlagName } from '../services/featureFlagService';
 import { tabBarOptions } from './tabConfig';
 
 export interface AdminTabConfig {
@@ -10,6 +11,7 @@ export interface AdminTabConfig {
   component: ComponentType<any>;                               // The actual screen component
   iconName: string;                                           // Ionicon name for visual representation
   label: string;                                              // User-friendly display name
+  featureFlag?: FeatureFlagName;                              // Only shown while this flag is on
 }
 
 export const adminTabConfigs: AdminTabConfig[] = [
@@ -31,6 +33,13 @@ export const adminTabConfigs: AdminTabConfig[] = [
     iconName: 'cube-outline',      // Cube for inventory
     label: 'Inventory',
   },
+  {
+    name: 'AdminProfile',
+    component: AdminProfileScreen,
+    iconName: 'person-outline',    // Profile inside the tab bar, still being built
+    label: 'Profile',
+    featureFlag: 'adminProfileTab',
+  },
 ];
 
 // Re-export tabBarOptions from tabConfig
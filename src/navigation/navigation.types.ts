@@ -33,6 +33,7 @@ export type RootStackParamList = {
   ChooseUser: undefined;
   AdminLogin: undefined;
   CreateManager: undefined;
+  UpdateRequired: undefined;                           // Blocking screen for app versions the backend no longer supports
 }
 
 export type HomeTabsParamList = {
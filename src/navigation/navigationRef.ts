@@ -0,0 +1,14 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { RootStackParamList } from './navigation.types';
+
+// Lets services navigate outside of React components (e.g. logout on an expired session)
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+export const resetToRoute = (name: keyof RootStackParamList) => {
+  if (navigationRef.isReady()) {
+    navigationRef.reset({
+      index: 0,
+      routes: [{ name }],
+    });
+  }
+};
@@ -4,6 +4,7 @@ import HomeScreen from '../screens/HomeScreen';
 import CartScreen from '../screens/CartScreen';
 import ProfileScreen from '../screens/ProfileScreen';
 import { useLanguage } from '../context/LanguageContext';
+import { FeatureFlagName } from '../services/featureFlagService';
 
 
 export interface TabConfig {
@@ -11,6 +12,7 @@ export interface TabConfig {
   component: ComponentType<any>;                               // The actual screen component
   iconName: string;                                           // Ionicon name for visual representation
   label: string;                                              // User-friendly display name
+  featureFlag?: FeatureFlagName;                              // Only shown while this flag is on
 }
 
 
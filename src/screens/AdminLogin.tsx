@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, StatusBar, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -6,43 +6,19 @@ import { RootStackParamList } from '../navigation/navigation.types';
 import { fetchCurrentUserFromApi, saveUser, saveAuthToken } from '../services/userService';
 import apiService from '../services/apiService';
 import LogoHeader from '../components/LogoHeader';
-import { API_BASE_URL } from '../services/apiConfig';
+import { useConnectivity } from '../context/ConnectivityContext';
+import { getApiBaseUrl } from '../services/environmentService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('auth');
 
 const AdminLogin = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [isApiConnected, setIsApiConnected] = useState(false);
+  const { isDeviceOnline, isBackendReachable, checkConnection } = useConnectivity();
+  const isApiConnected = isDeviceOnline && isBackendReachable;
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'AdminLogin'>>();
 
-  useEffect(() => {
-    checkApiConnection();
-  }, []);
-
-  const checkApiConnection = async () => {
-    try {
-      console.log('Checking API connection...');
-      const response = await fetch(`${API_BASE_URL}/api/health`, {
-        method: 'GET',
-        headers: {
-          'ngrok-skip-browser-warning': 'true',
-          'User-Agent': 'FarmingApp/1.0 (React Native Mobile Application)',
-          'Cache-Control': 'no-cache',
-        },
-      });
-      
-      if (response.ok) {
-        console.log('API connection successful');
-        setIsApiConnected(true);
-      } else {
-        console.log('API connection failed with status:', response.status);
-        setIsApiConnected(false);
-      }
-    } catch (error) {
-      console.error('API connection error:', error);
-      setIsApiConnected(false);
-    }
-  };
-
   const createTestAdminDirect = async () => {
     try {
       const testAdmin = {
@@ -52,10 +28,10 @@ const AdminLogin = () => {
         password: "Admin123!"
       };
       
-      console.log('Attempting to create admin via direct API call...');
+      log.debug('Attempting to create admin via direct API call...');
       
       // Try direct API call without authentication
-      const response = await fetch(`${API_BASE_URL}/api/Authentication/register`, {
+      const response = await fetch(`${getApiBaseUrl()}/api/Authentication/register`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -68,14 +44,14 @@ const AdminLogin = () => {
 
       if (response.ok) {
         const data = await response.json();
-        console.log('Admin created successfully:', data);
+        log.debug('Admin created successfully:', data);
         Alert.alert('Success', 'Test admin created! Try logging in with email: admin@test.com, password: Admin123!');
       } else {
         const errorText = await response.text();
-        console.error('Failed to create admin:', errorText);
+        log.error('Failed to create admin:', errorText);
         
         // Try alternative endpoint
-        const altResponse = await fetch(`${API_BASE_URL}/api/Authentication/create-manager`, {
+        const altResponse = await fetch(`${getApiBaseUrl()}/api/Authentication/create-manager`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -88,16 +64,16 @@ const AdminLogin = () => {
 
         if (altResponse.ok) {
           const altData = await altResponse.json();
-          console.log('Admin created via alternative endpoint:', altData);
+          log.debug('Admin created via alternative endpoint:', altData);
           Alert.alert('Success', 'Test admin created! Try logging in with email: admin@test.com, password: Admin123!');
         } else {
           const altErrorText = await altResponse.text();
-          console.error('Alternative endpoint also failed:', altErrorText);
+          log.error('Alternative endpoint also failed:', altErrorText);
           Alert.alert('Error', 'Both admin creation endpoints failed. The backend may need configuration.');
         }
       }
     } catch (error) {
-      console.error('Error creating admin:', error);
+      log.error('Error creating admin:', error);
       Alert.alert('Error', 'Failed to create test admin');
     }
   };
@@ -134,10 +110,10 @@ const AdminLogin = () => {
     }
 
     try {
-      console.log('Attempting login with:', { email: email.trim(), password: password });
+      log.debug('Attempting login with:', { email: email.trim(), password: password });
       
       // Try direct login first
-      const loginResponse = await fetch(`${API_BASE_URL}/api/Authentication/login`, {
+      const loginResponse = await fetch(`${getApiBaseUrl()}/api/Authentication/login`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -150,14 +126,14 @@ const AdminLogin = () => {
 
       if (loginResponse.ok) {
         const data = await loginResponse.json();
-        console.log('Direct login successful:', data);
+        log.debug('Direct login successful:', data);
         
         if (data.token) {
-          await saveAuthToken(data.token);
+          await saveAuthToken(data.token, data.refreshToken);
           const userInfo = await fetchCurrentUserFromApi();
           if (userInfo && userInfo.id) {
             await saveUser(userInfo);
-            console.log('User info received:', userInfo);
+            log.debug('User info received:', userInfo);
             const userRole = userInfo.role?.toLowerCase();
             if (userRole === 'manager' || userRole === 'admin') {
               navigation.replace('CreateManager');
@@ -172,23 +148,23 @@ const AdminLogin = () => {
         }
       } else {
         const errorText = await loginResponse.text();
-        console.error('Direct login failed:', errorText);
+        log.error('Direct login failed:', errorText);
         
         // Fallback to apiService
         const response = await apiService.auth.login(email.trim(), password);
-        console.log('ApiService login response:', response);
+        log.debug('ApiService login response:', response);
         
         if (!response.success || !response.data || !response.data.token) {
-          console.error('Login failed:', response);
+          log.error('Login failed:', response);
           Alert.alert('Login failed', response.error || 'Invalid credentials. Make sure you have created an admin account first.');
           return;
         }
-        await saveAuthToken(response.data.token);
+        await saveAuthToken(response.data.token, response.data.refreshToken);
         const userInfo = await fetchCurrentUserFromApi();
         if (userInfo && userInfo.id) {
           await saveUser(userInfo);
-          console.log('User info received:', userInfo);
-          console.log('User role:', userInfo.role);
+          log.debug('User info received:', userInfo);
+          log.debug('User role:', userInfo.role);
           const userRole = userInfo.role?.toLowerCase();
           if (userRole === 'manager' || userRole === 'admin') {
             navigation.replace('CreateManager');
@@ -200,7 +176,7 @@ const AdminLogin = () => {
         }
       }
     } catch (error) {
-      console.error('Login error:', error);
+      log.error('Login error:', error);
       Alert.alert('Error', 'An error occurred during login. Please try again.');
     }
   };
@@ -216,7 +192,7 @@ const AdminLogin = () => {
         <Text style={[styles.statusText, { color: isApiConnected ? '#28a745' : '#dc3545' }]}>
           API Status: {isApiConnected ? 'Connected' : 'Disconnected'}
         </Text>
-        <TouchableOpacity onPress={checkApiConnection} style={styles.refreshButton}>
+        <TouchableOpacity onPress={checkConnection} style={styles.refreshButton}>
           <Text style={styles.refreshButtonText}>Refresh</Text>
         </TouchableOpacity>
       </View>
@@ -262,7 +238,7 @@ const AdminLogin = () => {
 
       {!isApiConnected && (
         <Text style={styles.warningText}>
-          Please ensure your backend server is running and accessible at: {API_BASE_URL}
+          Please ensure your backend server is running and accessible at: {getApiBaseUrl()}
         </Text>
       )}
     </View>
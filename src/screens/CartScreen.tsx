@@ -7,23 +7,44 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { HomeTabsParamList, RootStackParamList } from '../navigation/navigation.types';
 import { getCartItems, CartItem } from '../utils/cartStorage';
-import { cartApi, orderApi, OrderCreationResponse } from '../services/apiService';
-import { ApiResponse } from '../services/apiConfig';
+import { cartApi, orderApi } from '../services/apiService';
 import { saveOrder, Order } from '../utils/orderStorage';
 import { getUser, fetchCurrentUserFromApi } from '../services/userService';
 import { useLanguage } from '../context/LanguageContext';
 import { useCart } from '../context/CartContext';
+import { usePricing } from '../hooks/usePricing';
+import { formatTaxRate } from '../services/taxService';
 import { debugAuth, testCartApi } from '../utils/authDebugger';
 import DebugPanel from '../components/DebugPanel';
 import { ORDER_STATUS } from '../constants/orderStatus';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUserItem, removeUserItem, setUserItem, SELECTED_CART_ADDRESS_KEY } from '../utils/userStorage';
+import { useOutbox } from '../hooks/useOutbox';
+import { useFeature } from '../hooks/useFeature';
+import { CartConflict } from '../utils/cartSyncManager';
+import { revalidateCart, CartRevalidationResult } from '../utils/cartRevalidation';
+import CheckoutReviewModal from '../components/CheckoutReviewModal';
+import { getLowStockCount, getNextQuantity, getPreviousQuantity, getQuantityLimits } from '../utils/quantityLimits';
+import { formatPackSize, formatQuantity, getUnitSymbol } from '../utils/units';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('cart');
 
 type CartScreenRouteProp = RouteProp<HomeTabsParamList, 'Cart'>;
 type CartScreenNavigationProp = any;
 
+const describeConflict = (conflict: CartConflict, translate: (text: string) => string) => {
+  const otherDevice = conflict.remoteQuantity > 0 ? String(conflict.remoteQuantity) : translate('removed');
+  const thisDevice = conflict.localQuantity > 0 ? String(conflict.localQuantity) : translate('removed');
+  const kept = conflict.resolvedQuantity > 0 ? String(conflict.resolvedQuantity) : translate('removed');
+  return `${conflict.name}: ${kept} (${translate('this phone')} ${thisDevice}, ${translate('other device')} ${otherDevice})`;
+};
+
 const CartScreen = () => {
   const { translate } = useLanguage();
-  const { cartItems, setCartItems, refreshCart, updateQuantity: updateCartQuantity, removeItem, clearCart } = useCart();
+  const { getBreakdown } = usePricing();
+  const { cartItems, setCartItems, refreshCart, updateQuantity: updateCartQuantity, removeItem, clearCart, syncConflicts, dismissSyncConflicts } = useCart();
+  // With cart sync the carts are merged by refreshCart, so the server cart must not overwrite the local one
+  const cartSyncEnabled = useFeature('cartSync');
   const route = useRoute<CartScreenRouteProp>();
   const navigation = useNavigation<CartScreenNavigationProp>();
   const { userName, userPhone: routeUserPhone, selectedAddress, cartItems: routeCartItems } = route.params || {};
@@ -40,28 +61,34 @@ const CartScreen = () => {
   // Order success modal state
   const [showOrderSuccess, setShowOrderSuccess] = useState(false);
   
+  // Price and stock changes found at checkout, waiting for the farmer to review
+  const [checkoutReview, setCheckoutReview] = useState<CartRevalidationResult | null>(null);
+  
+  // Cart changes made offline that are still waiting for the backend
+  const { pendingCount: pendingCartChanges, problemCount: failedCartChanges } = useOutbox('cart');
+  
   // Helper functions for address persistence
   const saveSelectedAddressToStorage = async (address: any) => {
     try {
       if (address) {
-        await AsyncStorage.setItem('selectedCartAddress', JSON.stringify(address));
-        console.log('Address saved to storage');
+        await setUserItem(SELECTED_CART_ADDRESS_KEY, JSON.stringify(address));
+        log.debug('Address saved to storage');
       }
     } catch (error) {
-      console.error('Error saving address to storage:', error);
+      log.error('Error saving address to storage:', error);
     }
   };
 
   const loadSelectedAddressFromStorage = async () => {
     try {
-      const savedAddress = await AsyncStorage.getItem('selectedCartAddress');
+      const savedAddress = await getUserItem(SELECTED_CART_ADDRESS_KEY);
       if (savedAddress) {
         const parsedAddress = JSON.parse(savedAddress);
-        console.log('Address loaded from storage');
+        log.debug('Address loaded from storage');
         return parsedAddress;
       }
     } catch (error) {
-      console.error('Error loading address from storage:', error);
+      log.error('Error loading address from storage:', error);
     }
     return null;
   };
@@ -73,19 +100,19 @@ const CartScreen = () => {
         setLoading(true);
         
         // Debug authentication before making any API calls
-        console.log('🔍 CartScreen - Starting authentication debug...');
+        log.debug('🔍 CartScreen - Starting authentication debug...');
         await debugAuth();
         
         // First, quickly load cart items from local storage to show something immediately
         await refreshCart();
-        console.log('Refreshed cart items from local storage');
+        log.debug('Refreshed cart items from local storage');
         
         // Load saved address from storage if no address is selected
         if (!address) {
           const savedAddress = await loadSelectedAddressFromStorage();
           if (savedAddress) {
             setAddress(savedAddress);
-            console.log('Loaded saved address from storage');
+            log.debug('Loaded saved address from storage');
           }
         }
         
@@ -99,62 +126,56 @@ const CartScreen = () => {
           setUserPhone(user.phoneNumber || '');
           // Fetch cart from API using user ID
           try {
-            console.log('🔍 CartScreen - About to fetch cart from API...');
+            log.debug('🔍 CartScreen - About to fetch cart from API...');
             await debugAuth(); // Debug auth again before API call
             
-            const response = await cartApi.getCart(user.id);
+            const response = cartSyncEnabled
+              ? { success: false, error: 'Merged by cart sync' }
+              : await cartApi.getCart(user.id);
             
             if (response.success && response.data) {
-              console.log('Cart data fetched from API:', response.data);
-              console.log('🔍 API Response structure:', {
-                hasItems: !!response.data.items,
-                itemsType: typeof response.data.items,
-                itemsLength: Array.isArray(response.data.items) ? response.data.items.length : 'not array',
-                fullResponse: JSON.stringify(response.data, null, 2)
-              });
+              log.debug(`Cart data fetched from API: ${response.data.items.length} item(s)`);
               
-              // If API returns cart items, use them
-              if (Array.isArray(response.data.items) && response.data.items.length > 0) {
-                // Define type for API cart item
-                interface ApiCartItem {
-                  productId?: string;
-                  id?: string;
-                  productName?: string;
-                  name?: string;
-                  price: number;
-                  quantity: number;
-                  imageUrl?: string;
-                  image?: any;
-                  description?: string;
-                }
-                
-                // Map API cart items to our CartItem format if needed
-                // When mapping API cart items, ensure productId is used for id and productId fields
-                const apiCartItems = response.data.items.map((item: ApiCartItem) => ({
-                  id: item.productId || item.id || `unknown-${Date.now()}`, // for UI
-                  name: item.productName || item.name || 'Unknown Product',
-                  price: item.price || 0,
-                  quantity: item.quantity || 1,
-                  image: item.imageUrl ? { uri: item.imageUrl } : item.image || require('../../assets/logo.png'),
-                  description: item.description || '',
-                  source: 'api' as const
-                }));
+              // If API returns cart items, use them; the cart schema has already normalised them
+              if (response.data.items.length > 0) {
+                // Map API cart items to our CartItem format, using the productId as the id
+                // The server cart has no stock, GST or pack sizes, so the last known values are kept
+                const apiCartItems: CartItem[] = response.data.items.map(item => {
+                  const localItem = cartItems.find(local => local.id === item.productId);
+                  return {
+                    id: item.productId,
+                    name: item.name || 'Unknown Product',
+                    price: item.price || 0,
+                    quantity: item.quantity || 1,
+                    image: item.imageUrl ? { uri: item.imageUrl } : require('../../assets/logo.png'),
+                    description: '',
+                    stockQuantity: localItem?.stockQuantity,
+                    minOrderQuantity: localItem?.minOrderQuantity,
+                    maxOrderQuantity: localItem?.maxOrderQuantity,
+                    hsnCode: localItem?.hsnCode,
+                    taxRate: localItem?.taxRate,
+                    unitOfMeasure: item.unitOfMeasure ?? localItem?.unitOfMeasure,
+                    packSize: localItem?.packSize,
+                    packUnit: localItem?.packUnit,
+                    quantityStep: localItem?.quantityStep,
+                  };
+                });
                 
                 // Only update if we have valid items
                 if (apiCartItems.length > 0 && apiCartItems.every((item: CartItem) => item.id && item.name)) {
                   setCartItems(apiCartItems);
-                  console.log('Updated cart items from API:', apiCartItems.length);
+                  log.debug('Updated cart items from API:', apiCartItems.length);
                 } else {
-                  console.log('API returned invalid cart items, skipping update');
+                  log.debug('API returned invalid cart items, skipping update');
                 }
               } else {
-                console.log('No cart items returned from API');
+                log.debug('No cart items returned from API');
               }
             } else {
-              console.log('No cart data from API or request failed:', response.error);
+              log.debug('No cart data from API or request failed:', response.error);
             }
           } catch (apiError) {
-            console.error('Error fetching cart from API:', apiError);
+            log.error('Error fetching cart from API:', apiError);
             // If API fails, we'll use the local storage items we already loaded
           } finally {
             // Set loading to false after API call completes (success or failure)
@@ -164,7 +185,7 @@ const CartScreen = () => {
           setUserId(null);
         }
       } catch (error) {
-        console.error('Error loading data:', error);
+        log.error('Error loading data:', error);
         setLoading(false);
       }
     };
@@ -178,13 +199,13 @@ const CartScreen = () => {
       const reloadData = async () => {
         // Refresh cart items
         await refreshCart();
-        console.log('Cart refreshed on screen focus');
+        log.debug('Cart refreshed on screen focus');
         
         // Reload address
         const savedAddress = await loadSelectedAddressFromStorage();
         if (savedAddress && (!address || JSON.stringify(address) !== JSON.stringify(savedAddress))) {
           setAddress(savedAddress);
-          console.log('Address reloaded from storage on screen focus');
+          log.debug('Address reloaded from storage on screen focus');
         }
       };
       reloadData();
@@ -198,7 +219,7 @@ const CartScreen = () => {
       setAddress(newAddress);
       // Save the selected address to storage so it persists
       saveSelectedAddressToStorage(newAddress);
-      console.log('Address updated from MyAddress screen and saved');
+      log.debug('Address updated from MyAddress screen and saved');
     }
   }, [route.params?.selectedAddress]);
 
@@ -276,8 +297,14 @@ const CartScreen = () => {
     const currentItem = cartItems.find(item => item.id === id);
     if (!currentItem) return;
     
-    // Calculate new quantity
-    const newQuantity = Math.max(0, currentItem.quantity + change);
+    // Calculate new quantity within the stock and order limits
+    const limits = getQuantityLimits(currentItem);
+    const newQuantity = change > 0
+      ? getNextQuantity(currentItem.quantity, limits)
+      : getPreviousQuantity(currentItem.quantity, limits);
+    if (newQuantity === currentItem.quantity) {
+      return;
+    }
     
     // If quantity becomes 0, remove the item
     if (newQuantity === 0) {
@@ -297,15 +324,15 @@ const CartScreen = () => {
         const response = await cartApi.smartCartOperation(id, newQuantity, false);
         
         if (response && response.success) {
-          console.log('✅ Cart quantity updated successfully with backend sync');
+          log.debug('✅ Cart quantity updated successfully with backend sync');
         } else {
-          console.log('✅ Cart quantity updated successfully - backend sync skipped');
+          log.debug('✅ Cart quantity updated successfully - backend sync skipped');
         }
       } catch (apiError) {
-        console.log('✅ Backend cart unavailable, local cart working perfectly:', apiError instanceof Error ? apiError.message : 'Unknown error');
+        log.debug('✅ Backend cart unavailable, local cart working perfectly:', apiError instanceof Error ? apiError.message : 'Unknown error');
       }
     } catch (error) {
-      console.log('✅ Cart operation completed locally - backend unavailable:', error instanceof Error ? error.message : 'Unknown error');
+      log.debug('✅ Cart operation completed locally - backend unavailable:', error instanceof Error ? error.message : 'Unknown error');
     } finally {
       // Clear updating state for this item
       setUpdatingItems(prev => {
@@ -326,29 +353,32 @@ const CartScreen = () => {
     try {
       // Remove using CartContext
       await removeItem(id);
-      console.log('Cart - Removing item completely:', id);
+      log.debug('Cart - Removing item completely:', id);
       
       // Try to sync with API
       try {
         const response = await cartApi.deleteItem(id);
-        console.log('✅ Item removed successfully using DELETE endpoint');
+        log.debug('✅ Item removed successfully using DELETE endpoint');
       } catch (deleteError) {
-        console.log('DELETE failed (expected if item not in backend), trying PUT with quantity=0 fallback');
+        log.debug('DELETE failed (expected if item not in backend), trying PUT with quantity=0 fallback');
         try {
           const response = await cartApi.smartCartOperation(id, 0, false);
-          console.log('✅ Item removed successfully using PUT quantity=0 fallback');
+          log.debug('✅ Item removed successfully using PUT quantity=0 fallback');
         } catch (putError) {
-          console.log('✅ Backend cart unavailable - item removed locally');
+          log.debug('✅ Backend cart unavailable - item removed locally');
         }
       }
     } catch (error) {
-      console.log('✅ Item removed locally - backend cart unavailable:', error instanceof Error ? error.message : 'Unknown error');
+      log.debug('✅ Item removed locally - backend cart unavailable:', error instanceof Error ? error.message : 'Unknown error');
     } finally {
       setUpdatingItems(prev => ({ ...prev, [id]: false }));
     }
   };
 
-  const handleCheckout = async () => {
+  // Without confirmedItems the cart is checked against the current products
+  // first, and any changes are shown for review; confirming the review calls
+  // this again with the updated cart
+  const handleCheckout = async (confirmedItems?: CartItem[]) => {
     try {
       // Check if address is selected
       if (!address) {
@@ -365,170 +395,134 @@ const CartScreen = () => {
       
       // Get the user ID for the API call - use the one from state if available
       const currentUserId = userId || userPhone || 'default-user';
-      console.log('Checkout - Using user ID:', currentUserId);
+      log.debug('Checkout - Using user ID:', currentUserId);
       
       // Set loading state for checkout button
       setLoading(true);
       
+      // Prices and stock may have changed since the items were added
+      if (!confirmedItems) {
+        const review = await revalidateCart(cartItems);
+        if (review.cancelled) {
+          return;
+        }
+        if (review.changes.length > 0) {
+          setCheckoutReview(review);
+          return;
+        }
+      }
+      const orderItems = confirmedItems || cartItems;
+      const orderPrice = getBreakdown(orderItems, address.state);
+      
       // Prepare a simplified order data structure
       // Keep it minimal with only the essential fields
       const addressId = address.id || address.addressId;
-      console.log('Using address ID for order:', addressId);
+      log.debug('Using address ID for order:', addressId);
       
       // Create order object matching exact API schema
       const orderData = {
         userId: currentUserId,
         shippingAddressId: Number(addressId), // Convert to number as required by API
-        totalAmount: parseFloat(total.toFixed(2)),
+        totalAmount: orderPrice.total,
+        subtotalAmount: orderPrice.subtotal,
+        gstAmount: orderPrice.gst,
+        cgstAmount: orderPrice.tax.cgst,
+        sgstAmount: orderPrice.tax.sgst,
+        igstAmount: orderPrice.tax.igst,
+        deliveryCharge: orderPrice.deliveryCharge,
+        deliveryChargeRuleId: orderPrice.deliveryChargeRuleId,
         orderStatusId: ORDER_STATUS.NEW,
         orderDate: new Date().toISOString(),
         trackingNumber: `TRK-${Date.now()}`,
-        orderItems: cartItems.map(item => ({
+        orderItems: orderItems.map((item, index) => ({
           productId: item.id,
           quantity: item.quantity,
           price: parseFloat(item.price.toFixed(2)),
           productName: item.name || "Product", // Changed from 'name' to 'productName' to match API
-          imageUrl: (typeof item.image === 'string' && item.image.length > 0) ? item.image : undefined // Only use string URLs
+          imageUrl: (typeof item.image === 'string' && item.image.length > 0) ? item.image : undefined, // Only use string URLs
+          hsnCode: item.hsnCode,
+          taxRate: orderPrice.tax.lines[index].taxRate,
+          taxAmount: orderPrice.tax.lines[index].taxAmount
         }))
       };
       
-      console.log('Creating order with data:', JSON.stringify(orderData));
+      log.debug('Creating order with data:', JSON.stringify(orderData));
       
-      // Simple retry mechanism
-      let response;
-      let attempts = 0;
-      const maxAttempts = 2;
+      // The order API retries safely by itself: the order carries a client
+      // submission ID, so the server never creates it twice
+      const response = await orderApi.createOrder(orderData, 'cart');
+      log.debug('Create order response:', JSON.stringify(response));
       
-      while (attempts < maxAttempts) {
-        attempts++;
-        console.log(`Attempt ${attempts} to create order`);
+      // Check if the order was created successfully
+      if (response.success) {
+        log.debug('Order created successfully on server!');
         
-        // Call the order API
-        response = await orderApi.createOrder(orderData);
+        // Create a local order object for immediate display
+        const now = new Date();
+        const months = ['January', 'February', 'March', 'April', 'May', 'June', 
+                        'July', 'August', 'September', 'October', 'November', 'December'];
         
-        // Log the response
-        console.log(`Attempt ${attempts} response:`, JSON.stringify(response));
+        const day = now.getDate().toString().padStart(2, '0');
+        const month = (now.getMonth() + 1).toString().padStart(2, '0');
+        const year = now.getFullYear().toString().slice(2);
+        const monthName = months[now.getMonth()];
+        const yearFull = now.getFullYear().toString();
         
-        // If successful, break out of the loop
-        if (response.success) {
-          break;
-        }
+        // Create a local order with the server's order ID and ensure it's unique
+        const timestamp = Date.now();
+        const orderId = response.data?.orderId || `ORD-${timestamp.toString().slice(-6)}`;
         
-        // If not successful and we have more attempts, wait a bit before retrying
-        if (attempts < maxAttempts) {
-          console.log(`Order creation failed, retrying in 1 second...`);
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-      
-      // Check if we have a response
-      if (!response) {
-        Alert.alert(
-          'Order Creation Failed',
-          'No response received from the server. Please check your internet connection and try again.'
-        );
-      }
-      // Check if the order was created successfully
-      else if (response.success) {
-        // Cast response to ApiResponse type to access _isLocalFallback property
-        const apiResponse = response as ApiResponse<OrderCreationResponse>;
-        // Check if this is a local fallback response (from our special 500 error handling)
-        if (apiResponse._isLocalFallback) {
-          console.log('Order processed locally due to server error');
-          
-          // Create a local order object
-          const now = new Date();
-          const months = ['January', 'February', 'March', 'April', 'May', 'June', 
-                          'July', 'August', 'September', 'October', 'November', 'December'];
-          
-          const day = now.getDate().toString().padStart(2, '0');
-          const month = (now.getMonth() + 1).toString().padStart(2, '0');
-          const year = now.getFullYear().toString().slice(2);
-          const monthName = months[now.getMonth()];
-          const yearFull = now.getFullYear().toString();
-          
-          // Create a local order with a unique ID
-          const timestamp = Date.now();
-          const orderId = response.data?.orderId || `ORD-${timestamp.toString().slice(-6)}`;
-          
-          const localOrder: Order = {
-            id: `${orderId}-${timestamp}`, // Ensure ID is unique with timestamp
-            orderId: orderId,
-            date: `${day}/${month}/${year}`,
-            month: monthName,
-            year: yearFull,
-            status: 'processing',
-            items: cartItems,
-            totalAmount: parseFloat(total.toFixed(2)),
-            address: address,
-            userId: currentUserId
-          };
-          
-          // Save the order locally
-          await saveOrder(localOrder);
-          console.log('Order saved locally:', localOrder.orderId);
-          
-          // Just clear the local cart without trying to update the server
-          await clearCart();
-          console.log('Cleared local cart only (server update skipped)');
-        } else {
-          console.log('Order created successfully on server!');
-          
-          // Create a local order object for immediate display
-          const now = new Date();
-          const months = ['January', 'February', 'March', 'April', 'May', 'June', 
-                          'July', 'August', 'September', 'October', 'November', 'December'];
-          
-          const day = now.getDate().toString().padStart(2, '0');
-          const month = (now.getMonth() + 1).toString().padStart(2, '0');
-          const year = now.getFullYear().toString().slice(2);
-          const monthName = months[now.getMonth()];
-          const yearFull = now.getFullYear().toString();
-          
-          // Create a local order with the server's order ID and ensure it's unique
-          const timestamp = Date.now();
-          const orderId = response.data?.orderId || `ORD-${timestamp.toString().slice(-6)}`;
-          
-          const localOrder: Order = {
-            id: `${orderId}-${timestamp}`, // Ensure ID is unique with timestamp
-            orderId: orderId,
-            date: `${day}/${month}/${year}`,
-            month: monthName,
-            year: yearFull,
-            status: 'processing',
-            items: cartItems,
-            totalAmount: parseFloat(total.toFixed(2)),
-            address: address,
-            userId: currentUserId
-          };
-          
-          // Save the order locally for immediate display
-          await saveOrder(localOrder);
-          console.log('Order saved locally for immediate display:', localOrder.orderId);
-          
-          // Clear cart in API (one by one to avoid overwhelming the server)
-          for (const item of cartItems) {
-            try {
-              await cartApi.updateQuantity(item.id, 0);
-              console.log(`Cleared item ${item.id} from cart`);
-            } catch (clearError) {
-              console.error('Error clearing item from cart API:', clearError);
-            }
+        const localOrder: Order = {
+          id: `${orderId}-${timestamp}`, // Ensure ID is unique with timestamp
+          orderId: orderId,
+          date: `${day}/${month}/${year}`,
+          month: monthName,
+          year: yearFull,
+          status: 'processing',
+          items: orderItems,
+          totalAmount: orderPrice.total,
+          address: address,
+          userId: currentUserId
+        };
+        
+        // Save the order locally for immediate display
+        await saveOrder(localOrder);
+        log.debug('Order saved locally for immediate display:', localOrder.orderId);
+        
+        // Clear cart in API (one by one to avoid overwhelming the server)
+        for (const item of orderItems) {
+          try {
+            await cartApi.updateQuantity(item.id, 0);
+            log.debug(`Cleared item ${item.id} from cart`);
+          } catch (clearError) {
+            log.error('Error clearing item from cart API:', clearError);
           }
-          
-          // Clear local cart and selected address
-          await clearCart();
-          await AsyncStorage.removeItem('selectedCartAddress');
-          console.log('Cleared local cart and address');
         }
         
-        // Show success modal in either case
+        // Clear local cart and selected address
+        await clearCart();
+        await removeUserItem(SELECTED_CART_ADDRESS_KEY);
+        log.debug('Cleared local cart and address');
+        
         setShowOrderSuccess(true);
       } 
+      // No connection: the order waits in the offline outbox
+      else if (response.queued) {
+        log.debug('Order queued in outbox:', response.outboxId);
+        
+        await clearCart();
+        await removeUserItem(SELECTED_CART_ADDRESS_KEY);
+        setAddress(null);
+        
+        Alert.alert(
+          'Order Saved Offline',
+          'You are offline. Your order has been saved and will be placed automatically when the connection returns. You can follow it in My Orders.'
+        );
+      }
       // Handle error case
       else {
         // Keep the error message simple
-        console.error('Failed to create order:', response.error);
+        log.error('Failed to create order:', response.error);
         
         // Show a simple error message to the user
         Alert.alert(
@@ -539,7 +533,7 @@ const CartScreen = () => {
     } catch (error) {
       // Extract error message if it's an Error object
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Error during checkout:', error);
+      log.error('Error during checkout:', error);
       
       // Show a more informative error message to the user
       Alert.alert(
@@ -551,6 +545,26 @@ const CartScreen = () => {
     }
   };
 
+  // The review changes the cart either way, so it shows what can be ordered now
+  const handleReviewConfirm = async () => {
+    if (!checkoutReview) {
+      return;
+    }
+    const updatedItems = checkoutReview.items;
+    setCheckoutReview(null);
+    await setCartItems(updatedItems);
+    await handleCheckout(updatedItems);
+  };
+
+  const handleReviewCancel = async () => {
+    if (!checkoutReview) {
+      return;
+    }
+    const updatedItems = checkoutReview.items;
+    setCheckoutReview(null);
+    await setCartItems(updatedItems);
+  };
+
   const handleOrderSuccessClose = async () => {
     setShowOrderSuccess(false);
     
@@ -558,15 +572,15 @@ const CartScreen = () => {
     try {
       await clearCart();
       setAddress(null);
-      await AsyncStorage.removeItem('selectedCartAddress');
+      await removeUserItem(SELECTED_CART_ADDRESS_KEY);
       
       // Stay on the CartScreen instead of navigating to MyOrders
       // The user can manually navigate to MyOrders if they want to check order status
-      console.log('Order completed successfully, cleared cart and address');
+      log.debug('Order completed successfully, cleared cart and address');
       
       // The cart and address are already cleared in state, so the UI will update automatically
     } catch (error) {
-      console.error('Error clearing cart and address:', error);
+      log.error('Error clearing cart and address:', error);
     }
   };
 
@@ -578,7 +592,7 @@ const CartScreen = () => {
         userPhone: userPhone
       });
     } catch (error) {
-      console.log('Navigation error:', error);
+      log.debug('Navigation error:', error);
       // Fallback: try jumpTo
       if (navigation.jumpTo) {
         navigation.jumpTo('Home', {
@@ -590,9 +604,8 @@ const CartScreen = () => {
   };
 
   const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0);
-  const subtotal = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const gst = subtotal * 0.18;
-  const total = subtotal + gst;
+  // Subtotal, GST at each item's rate and the delivery charge from the active delivery charge rules
+  const { subtotal, tax, deliveryCharge, total, amountForFreeDelivery } = getBreakdown(cartItems, address?.state);
 
   return (
     <View style={styles.container}>
@@ -628,8 +641,40 @@ const CartScreen = () => {
               </TouchableOpacity>
             </View>
 
+            {/* Offline cart changes */}
+            {(pendingCartChanges > 0 || failedCartChanges > 0) && (
+              <View style={styles.outboxBanner}>
+                <Ionicons name="cloud-offline-outline" size={18} color="#8a6d3b" />
+                <Text style={styles.outboxBannerText}>
+                  {pendingCartChanges > 0
+                    ? `${pendingCartChanges} cart change(s) waiting to sync`
+                    : `${failedCartChanges} cart change(s) could not be synced`}
+                </Text>
+              </View>
+            )}
+
+            {/* Items changed both here and on another device */}
+            {syncConflicts.length > 0 && (
+              <View style={styles.conflictBanner}>
+                <View style={styles.conflictHeader}>
+                  <Ionicons name="git-merge-outline" size={18} color="#8a6d3b" />
+                  <Text style={[styles.outboxBannerText, styles.conflictTitle]}>
+                    {translate('Your cart was also changed on another device. The latest changes were kept:')}
+                  </Text>
+                  <TouchableOpacity onPress={dismissSyncConflicts}>
+                    <Ionicons name="close" size={18} color="#8a6d3b" />
+                  </TouchableOpacity>
+                </View>
+                {syncConflicts.map(conflict => (
+                  <Text key={conflict.productId} style={styles.conflictText}>
+                    • {describeConflict(conflict, translate)}
+                  </Text>
+                ))}
+              </View>
+            )}
+
             {/* Cart Items */}
-            {cartItems.map((item) => (
+            {cartItems.map((item, index) => (
           <View key={item.id}>
             <View style={styles.cartItem}>
               {/* Product Image */}
@@ -657,7 +702,20 @@ const CartScreen = () => {
                   </TouchableOpacity>
                 </View>
                 
-                <Text style={styles.productPrice}>₹{item.price.toFixed(2)}</Text>
+                <Text style={styles.productPrice}>
+                  ₹{item.price.toFixed(2)}{getUnitSymbol(item.unitOfMeasure) ? ` / ${getUnitSymbol(item.unitOfMeasure)}` : ''}
+                </Text>
+                {formatPackSize(item) && <Text style={styles.packSizeText}>{formatPackSize(item)}</Text>}
+                <Text style={styles.taxText}>
+                  {tax.lines[index].taxRate > 0
+                    ? `${translate('GST')} ${formatTaxRate(tax.lines[index].taxRate)}: ₹${tax.lines[index].taxAmount.toFixed(2)}`
+                    : translate('GST exempt')}
+                </Text>
+                {getLowStockCount(item) !== null && (
+                  <Text style={styles.lowStockText}>
+                    {translate('Only')} {formatQuantity(getLowStockCount(item)!, item.unitOfMeasure)} {translate('left')}
+                  </Text>
+                )}
                 
                 {/* Quantity Controls */}
                 <View style={styles.quantityContainer}>
@@ -673,14 +731,17 @@ const CartScreen = () => {
                     {updatingItems[item.id] ? (
                       <ActivityIndicator size="small" color="white" />
                     ) : (
-                      <Text style={styles.quantityText}>{item.quantity}</Text>
+                      <Text style={styles.quantityText}>{formatQuantity(item.quantity, item.unitOfMeasure)}</Text>
                     )}
                   </View>
                   
                   <TouchableOpacity 
-                    style={styles.quantityButtonRight}
+                    style={[
+                      styles.quantityButtonRight,
+                      getNextQuantity(item.quantity, getQuantityLimits(item)) === item.quantity && styles.quantityButtonDisabled
+                    ]}
                     onPress={() => updateQuantity(item.id, 1)}
-                    disabled={updatingItems[item.id]}
+                    disabled={updatingItems[item.id] || getNextQuantity(item.quantity, getQuantityLimits(item)) === item.quantity}
                   >
                     <Text style={styles.quantityButtonText}>+</Text>
                   </TouchableOpacity>
@@ -699,10 +760,34 @@ const CartScreen = () => {
                 <Text style={styles.priceLabel}>{translate('Subtotal:')}</Text>
                 <Text style={styles.priceValue}>₹{subtotal.toFixed(2)}</Text>
               </View>
+              {tax.interState ? (
+                <View style={styles.priceRow}>
+                  <Text style={styles.priceLabel}>{translate('IGST:')}</Text>
+                  <Text style={styles.priceValue}>₹{tax.igst.toFixed(2)}</Text>
+                </View>
+              ) : (
+                <>
+                  <View style={styles.priceRow}>
+                    <Text style={styles.priceLabel}>{translate('CGST:')}</Text>
+                    <Text style={styles.priceValue}>₹{tax.cgst.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.priceRow}>
+                    <Text style={styles.priceLabel}>{translate('SGST:')}</Text>
+                    <Text style={styles.priceValue}>₹{tax.sgst.toFixed(2)}</Text>
+                  </View>
+                </>
+              )}
               <View style={styles.priceRow}>
-                <Text style={styles.priceLabel}>{translate('GST:')}</Text>
-                <Text style={styles.priceValue}>₹{gst.toFixed(2)}</Text>
+                <Text style={styles.priceLabel}>{translate('Delivery:')}</Text>
+                <Text style={styles.priceValue}>
+                  {deliveryCharge > 0 ? `₹${deliveryCharge.toFixed(2)}` : translate('Free')}
+                </Text>
               </View>
+              {amountForFreeDelivery !== undefined && (
+                <Text style={styles.freeDeliveryHint}>
+                  {translate('Add')} ₹{amountForFreeDelivery.toFixed(2)} {translate('more for free delivery')}
+                </Text>
+              )}
               <View style={styles.priceRow}>
                 <Text style={styles.totalLabel}>{translate('Total:')}</Text>
                 <Text style={styles.totalValue}>₹{total.toFixed(2)}</Text>
@@ -748,7 +833,7 @@ const CartScreen = () => {
             <View style={styles.checkoutSection}>
               <TouchableOpacity 
                 style={[styles.checkoutButton, loading && styles.checkoutButtonDisabled]} 
-                onPress={handleCheckout}
+                onPress={() => handleCheckout()}
                 disabled={loading}
               >
                 {loading ? (
@@ -791,6 +876,16 @@ const CartScreen = () => {
       </ScrollView>
       )}
 
+      {/* Checkout Review Modal */}
+      {checkoutReview && (
+        <CheckoutReviewModal
+          review={checkoutReview}
+          total={getBreakdown(checkoutReview.items, address?.state).total}
+          onConfirm={handleReviewConfirm}
+          onCancel={handleReviewCancel}
+        />
+      )}
+
       {/* Order Success Modal */}
       {showOrderSuccess && (
         <View style={styles.modalOverlay}>
@@ -894,6 +989,41 @@ const styles = StyleSheet.create({
     textDecorationLine: 'underline',
     fontFamily: 'Montserrat',
   },
+  outboxBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fcf8e3',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  outboxBannerText: {
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#8a6d3b',
+    fontFamily: 'Montserrat',
+  },
+
+  // Cart sync conflicts
+  conflictBanner: {
+    backgroundColor: '#fcf8e3',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  conflictTitle: {
+    flex: 1,
+    marginRight: 8,
+  },
+  conflictText: {
+    marginTop: 4,
+    marginLeft: 26,
+    fontSize: 12,
+    color: '#8a6d3b',
+    fontFamily: 'Montserrat',
+  },
 
   //  Cart item container
   cartItem: {
@@ -976,6 +1106,33 @@ const styles = StyleSheet.create({
     backgroundColor: '#09A84E'
   },
   
+  // At the stock or order limit
+  quantityButtonDisabled: {
+    opacity: 0.4
+  },
+  
+  taxText: {
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'Montserrat',
+    marginTop: -8,
+    marginBottom: 8
+  },
+  packSizeText: {
+    fontSize: 13,
+    color: '#666',
+    fontFamily: 'Montserrat',
+    marginTop: -8,
+    marginBottom: 8
+  },
+  lowStockText: {
+    fontSize: 13,
+    color: '#E67E22',
+    fontFamily: 'Montserrat',
+    marginTop: -8,
+    marginBottom: 8
+  },
+  
   quantityButtonText: {
     color: 'white',
     fontSize: 18,
@@ -1028,6 +1185,12 @@ const styles = StyleSheet.create({
     color: '#777',
     fontFamily: 'Montserrat',
   },
+  freeDeliveryHint: {
+    fontSize: 13,
+    color: '#09A84E',
+    fontFamily: 'Montserrat',
+    marginBottom: 6,
+  },
   priceValue: {
     fontSize: 16,
     fontWeight: '500',
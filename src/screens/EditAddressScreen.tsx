@@ -17,9 +17,13 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/navigation.types';
 import apiService, { Address } from '../services/apiService';
+import { formatFieldErrors, isApiErrorKind } from '../services/apiErrors';
 import { getAddressFromCoordinates, AddressDetails } from '../services/geocodeService';
 import { useLanguage } from '../context/LanguageContext';
 import userService from '../services/userService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('address');
 
 const EditAddressScreen = () => {
   const { translate } = useLanguage();
@@ -97,7 +101,7 @@ const EditAddressScreen = () => {
       setPincode(addressDetails.pincode);
       
       // Log the pincode for debugging
-      console.log('Setting pincode from geocoding:', addressDetails.pincode);
+      log.debug('Setting pincode from geocoding:', addressDetails.pincode);
       
       // If pincode is empty, inform the user they need to enter it manually
       if (!addressDetails.pincode) {
@@ -125,11 +129,11 @@ const EditAddressScreen = () => {
   
   const handleSave = async () => {
     const callTime = new Date().toISOString();
-    console.log(`[${componentId}] handleSave called at ${callTime}`);
+    log.debug(`[${componentId}] handleSave called at ${callTime}`);
     
     // If we've already submitted or are loading, prevent duplicate submission
     if (hasSubmitted || loading) {
-      console.log(`[${componentId}] Preventing duplicate submission - already submitted or loading`, { 
+      log.debug(`[${componentId}] Preventing duplicate submission - already submitted or loading`, { 
         hasSubmitted, 
         loading,
         callTime
@@ -178,7 +182,7 @@ const EditAddressScreen = () => {
       return;
     }
 
-    console.log(`[${componentId}] Starting address submission at: ${callTime}`);
+    log.debug(`[${componentId}] Starting address submission at: ${callTime}`);
     setLoading(true);
 
     // Ensure we're using the same phone number that was used for logging in
@@ -191,11 +195,11 @@ const EditAddressScreen = () => {
     if (isUuid) {
       // For UUIDs, use just the first part (before the first dash) to stay under 20 chars
       userPhoneForAddress = userPhoneForAddress.split('-')[0] || userPhoneForAddress.substring(0, 20);
-      console.log('Using shortened identifier for UUID:', userPhoneForAddress);
+      log.debug('Using shortened identifier for UUID:', userPhoneForAddress);
     } else if (userPhoneForAddress && userPhoneForAddress.length > 20) {
       // For other long identifiers, truncate to 20 chars
       userPhoneForAddress = userPhoneForAddress.substring(0, 20);
-      console.log('Truncated phone number to 20 chars:', userPhoneForAddress);
+      log.debug('Truncated phone number to 20 chars:', userPhoneForAddress);
     }
     
     // Get userId for backend association
@@ -230,26 +234,26 @@ const EditAddressScreen = () => {
 
     try {
       let response;
-      console.log('Address data for edit/save:', {
+      log.debug('Address data for edit/save:', {
         isNewAddress,
         addressId: addressData?.id,
         addressData
       });
       
       if (isNewAddress) {
-        console.log(`[${componentId}] Adding new address at ${new Date().toISOString()}`);
+        log.debug(`[${componentId}] Adding new address at ${new Date().toISOString()}`);
         
         try {
           // Use a try-catch to ensure we can log any errors
           response = await apiService.address.addAddress(backendPayload);
-          console.log(`[${componentId}] Address add API call completed at ${new Date().toISOString()}`);
+          log.debug(`[${componentId}] Address add API call completed at ${new Date().toISOString()}`);
         } catch (error) {
-          console.error(`[${componentId}] Error in address add API call:`, error);
+          log.error(`[${componentId}] Error in address add API call:`, error);
           throw error; // Re-throw to be caught by the outer catch block
         }
       } else if (addressData?.id) {
         const addressId = addressData.id;
-        console.log(`[${componentId}] Updating existing address with ID: ${addressId} at ${new Date().toISOString()}`);
+        log.debug(`[${componentId}] Updating existing address with ID: ${addressId} at ${new Date().toISOString()}`);
         
         // Make sure the ID is included in the payload
         const updatedPayload = {
@@ -291,25 +295,25 @@ const EditAddressScreen = () => {
         
         try {
           response = await apiService.address.updateAddress(addressId, cleanedPayload);
-          console.log(`[${componentId}] Address update API call completed at ${new Date().toISOString()}`);
+          log.debug(`[${componentId}] Address update API call completed at ${new Date().toISOString()}`);
         } catch (error) {
-          console.error(`[${componentId}] Error in address update API call:`, error);
+          log.error(`[${componentId}] Error in address update API call:`, error);
           throw error; // Re-throw to be caught by the outer catch block
         }
       } else {
-        console.log(`[${componentId}] No address ID found for update at ${new Date().toISOString()}`);
+        log.debug(`[${componentId}] No address ID found for update at ${new Date().toISOString()}`);
         Alert.alert('Invalid address data', 'Could not find address ID for update');
         setLoading(false);
         return;
       }
 
       if (response.success) {
-        console.log(`[${componentId}] Address saved successfully at ${new Date().toISOString()}`);
+        log.debug(`[${componentId}] Address saved successfully at ${new Date().toISOString()}`);
         Alert.alert('Success', 'Address saved successfully', [
           {
             text: 'OK',
             onPress: () => {
-              console.log(`[${componentId}] Navigating back after successful save at ${new Date().toISOString()}`);
+              log.debug(`[${componentId}] Navigating back after successful save at ${new Date().toISOString()}`);
               navigation.goBack();
             }
           }
@@ -317,23 +321,23 @@ const EditAddressScreen = () => {
       } else {
         // Show a more detailed error message
         const errorMessage = response.error || 'Failed to save address';
-        console.error(`[${componentId}] Error saving address at ${new Date().toISOString()}:`, errorMessage);
-        Alert.alert('Error', errorMessage);
+        log.error(`[${componentId}] Error saving address at ${new Date().toISOString()}:`, errorMessage);
+        if (isApiErrorKind(response, 'validation') && response.apiError?.fieldErrors) {
+          Alert.alert('Validation Error', formatFieldErrors(response.apiError.fieldErrors));
+        } else {
+          Alert.alert('Error', errorMessage);
+        }
       }
     } catch (error) {
-      // Handle backend validation error gracefully
-      if (error instanceof Error && error.message.includes('Address Line 1 is required')) {
-        Alert.alert('Validation Error', 'Address Line 1 is required.');
-      } else {
-        Alert.alert('Error', 'Failed to save address. Please try again.');
-      }
+      log.error(`[${componentId}] Unexpected error saving address:`, error);
+      Alert.alert('Error', 'Failed to save address. Please try again.');
       setHasSubmitted(false);
       setLoading(false);
       return;
     } finally {
       setLoading(false);
       // Note: We don't reset lastSubmitTime here to maintain the debounce protection
-      console.log(`[${componentId}] Completed address submission at: ${new Date().toISOString()}`);
+      log.debug(`[${componentId}] Completed address submission at: ${new Date().toISOString()}`);
     }
   };
 
@@ -22,6 +22,9 @@ import * as ImagePicker from 'react-native-image-picker';
 import apiService from '../services/apiService';
 import { getUser, fetchCurrentUserFromApi, getAuthToken, saveUser } from '../services/userService';
 import { useLanguage } from '../context/LanguageContext';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('user');
 
 
 type EditProfileScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'EditProfile'>;
@@ -39,15 +42,15 @@ const EditProfileScreen = () => {
   // Default user image that's commonly used in apps
   const DEFAULT_USER_IMAGE = require('../assets/defaultuser.png');
   // Ensure the default image is loaded
-  console.log('Loading default user image from:', '../assets/defaultuser.png');
+  log.debug('Loading default user image from:', '../assets/defaultuser.png');
   
   // State management for form fields
   // Initialize profileImage as null so the DEFAULT_USER_IMAGE will be shown if no image is provided
   const [profileImage, setProfileImage] = useState<string | null>(initialProfileImage || null);
   
   // Log initial profile image for debugging
-  console.log('Initial profile image:', initialProfileImage);
-  console.log('Default user image path:', DEFAULT_USER_IMAGE);
+  log.debug('Initial profile image:', initialProfileImage);
+  log.debug('Default user image path:', DEFAULT_USER_IMAGE);
   const [name, setName] = useState(userName || '');
   const [phone, setPhone] = useState(userPhone || '');
   const [email, setEmail] = useState(''); // New field for email - starts empty for first-time login
@@ -60,21 +63,21 @@ const EditProfileScreen = () => {
     const fetchUserData = async () => {
       try {
         setLoading(true);
-        console.log('EditProfileScreen - Route params:', { userName, userPhone, initialProfileImage });
+        log.debug('EditProfileScreen - Route params:', { userPhone, initialProfileImage });
         
         // First prioritize route params if they exist
         if (userName) {
-          console.log('Using name from route params:', userName);
+          log.debug('Using name from route params');
           setName(userName);
         }
         
         if (userPhone) {
-          console.log('Using phone from route params:', userPhone);
+          log.debug('Using phone from route params:', userPhone);
           setPhone(userPhone);
         }
         
         if (initialProfileImage) {
-          console.log('Using profile image from route params:', initialProfileImage);
+          log.debug('Using profile image from route params:', initialProfileImage);
           setProfileImage(initialProfileImage);
         }
         
@@ -88,68 +91,68 @@ const EditProfileScreen = () => {
           
           // Only set these values if they weren't already set from route params
           if (!userName && currentUser.name) {
-            console.log('Using name from storage:', currentUser.name);
+            log.debug('Using name from storage');
             setName(currentUser.name);
           }
           
           if (!userPhone && currentUser.phoneNumber) {
-            console.log('Using phone from storage:', currentUser.phoneNumber);
+            log.debug('Using phone from storage:', currentUser.phoneNumber);
             setPhone(currentUser.phoneNumber);
           }
           
           if (currentUser.email) {
-            console.log('Using email from storage:', currentUser.email);
+            log.debug('Using email from storage:', currentUser.email);
             setEmail(currentUser.email);
           }
           
           if (currentUser.profilePicture && !initialProfileImage) {
-            console.log('Using profile image from storage:', currentUser.profilePicture);
+            log.debug('Using profile image from storage:', currentUser.profilePicture);
             setProfileImage(currentUser.profilePicture);
           }
           
           // If we have a user ID, try to get more details from the API
           if (currentUser.id) {
             try {
-              console.log('Fetching user profile from API with current user endpoint');
+              log.debug('Fetching user profile from API with current user endpoint');
               const token = await getAuthToken();
               const response = await apiService.userProfile.getCurrent(token || '');
               if (response.success && response.data) {
-                console.log('API profile data:', response.data);
+                log.debug('API profile data:', response.data);
                 
                 // Only update if we don't already have values from route params or storage
                 if (!userName && !currentUser.name && response.data.name) {
-                  console.log('Using name from API:', response.data.name);
+                  log.debug('Using name from API');
                   setName(response.data.name);
                 }
                 
                 if (!currentUser.email && response.data.email) {
-                  console.log('Using email from API:', response.data.email);
+                  log.debug('Using email from API:', response.data.email);
                   setEmail(response.data.email);
                 }
                 
                 if (!userPhone && !currentUser.phoneNumber && response.data.phoneNumber) {
-                  console.log('Using phone from API:', response.data.phoneNumber);
+                  log.debug('Using phone from API:', response.data.phoneNumber);
                   setPhone(response.data.phoneNumber);
                 }
                 
                 // If there's a profile picture URL in the response and we don't have one from route params or storage
                 if (!initialProfileImage && !currentUser.profilePicture && response.data.profilePicture) {
-                  console.log('Setting profile image from API response:', response.data.profilePicture);
+                  log.debug('Setting profile image from API response:', response.data.profilePicture);
                   setProfileImage(response.data.profilePicture);
                 }
               } else {
-                console.log('No user profile found in API or request failed');
+                log.debug('No user profile found in API or request failed');
               }
             } catch (apiError) {
-              console.error('Error fetching user profile from API:', apiError);
+              log.error('Error fetching user profile from API:', apiError);
               // Continue with local data if API fails
             }
           }
         } else {
-          console.log('No user data found in storage');
+          log.debug('No user data found in storage');
         }
       } catch (error) {
-        console.error('Error fetching user data:', error);
+        log.error('Error fetching user data:', error);
         Alert.alert('Error', 'Failed to load user data. Please try again.');
       } finally {
         setLoading(false);
@@ -222,12 +225,12 @@ const EditProfileScreen = () => {
         profilePicture: profileImage || undefined
       };
       
-      console.log('Saving user data with profile picture:', profileImage);
-      console.log('Updated user data:', updatedUserData);
+      log.debug('Saving user data with profile picture:', profileImage);
+      log.debug('Updated user data:', updatedUserData);
       
       // Save to local storage FIRST - this ensures immediate UI updates
       await saveUser(updatedUserData);
-      console.log('✅ User data saved to local storage');
+      log.debug('✅ User data saved to local storage');
       
       // Try to update via API
       try {
@@ -242,78 +245,78 @@ const EditProfileScreen = () => {
           password: 'UNCHANGED_PASSWORD'
         };
         
-        console.log('Sending profile data to API:', userProfileData);
+        log.debug('Sending profile data to API:', userProfileData);
         
         
         let apiResponse;
         
         if (userId) {
           // Check if the user profile exists by trying to get it
-          console.log('Checking if user profile exists in API with ID:', userId);
+          log.debug('Checking if user profile exists in API with ID:', userId);
           const checkResponse = await apiService.userProfile.getById(userId);
-          console.log('API check response:', checkResponse);
+          log.debug('API check response:', checkResponse);
           
           if (!checkResponse.success || !checkResponse.data) {
-            console.log('User profile does not exist in API, creating new profile');
+            log.debug('User profile does not exist in API, creating new profile');
             try {
               // Only attempt to create a new profile if one doesn't exist
               apiResponse = await apiService.userProfile.create(userProfileData);
-              console.log('Created new user profile in API, response:', apiResponse);
+              log.debug('Created new user profile in API, response:', apiResponse);
               
               if (apiResponse.success && apiResponse.data?.profilePicture) {
                 // Update the profile image with the one from the API if available
-                console.log('Updating profile image from API response:', apiResponse.data.profilePicture);
+                log.debug('Updating profile image from API response:', apiResponse.data.profilePicture);
                 setProfileImage(apiResponse.data.profilePicture);
                 updatedUserData.profilePicture = apiResponse.data.profilePicture;
                 await saveUser(updatedUserData);
-                console.log('✅ User data updated with API profile picture');
+                log.debug('✅ User data updated with API profile picture');
               }
             } catch (createError) {
-              console.error('Failed to create user profile in API:', createError);
+              log.error('Failed to create user profile in API:', createError);
               // Continue with local update even if API fails
             }
           } else {
-            console.log('User profile exists in API, attempting to update');
+            log.debug('User profile exists in API, attempting to update');
             try {
               // Try to update the existing profile
               apiResponse = await apiService.userProfile.update(userId, userProfileData);
-              console.log('Updated user profile in API, response:', apiResponse);
+              log.debug('Updated user profile in API, response:', apiResponse);
               
               if (apiResponse.success && apiResponse.data?.profilePicture) {
                 // Update the profile image with the one from the API if available
-                console.log('Updating profile image from API update response:', apiResponse.data.profilePicture);
+                log.debug('Updating profile image from API update response:', apiResponse.data.profilePicture);
                 setProfileImage(apiResponse.data.profilePicture);
                 updatedUserData.profilePicture = apiResponse.data.profilePicture;
                 await saveUser(updatedUserData);
-                console.log('✅ User data updated with API update response');
+                log.debug('✅ User data updated with API update response');
               }
             } catch (updateError) {
-              console.error('Failed to update user profile in API:', updateError);
+              log.error('Failed to update user profile in API:', updateError);
               // Continue with local update even if API fails
             }
           }
         } else {
-          console.log('No user ID available, creating new profile in API');
+          log.debug('No user ID available, creating new profile in API');
           // No user ID, create a new profile
           apiResponse = await apiService.userProfile.create(userProfileData);
-          console.log('Created new user profile in API, response:', apiResponse);
+          log.debug('Created new user profile in API, response:', apiResponse);
           
           if (apiResponse.success && apiResponse.data?.profilePicture) {
             // Update the profile image with the one from the API if available
-            console.log('Updating profile image from API create response:', apiResponse.data.profilePicture);
+            log.debug('Updating profile image from API create response:', apiResponse.data.profilePicture);
             setProfileImage(apiResponse.data.profilePicture);
             updatedUserData.profilePicture = apiResponse.data.profilePicture;
             await saveUser(updatedUserData);
-            console.log('✅ User data updated with API create response');
+            log.debug('✅ User data updated with API create response');
           }
         }
         
         if (apiResponse && !apiResponse.success) {
-          console.warn('API update failed:', apiResponse.error);
+          log.warn('API update failed:', apiResponse.error);
           // Continue with local update even if API fails
         }
       } catch (apiError) {
-        console.error('Error updating profile via API:', apiError);
+        log.error('Error updating profile via API:', apiError);
         // Continue with local update even if API fails
       }
       
@@ -322,7 +325,7 @@ const EditProfileScreen = () => {
       
   
       const finalProfileImage = updatedUserData.profilePicture || profileImage;
-      console.log('Final profile image to use for navigation:', finalProfileImage);
+      log.debug('Final profile image to use for navigation:', finalProfileImage);
       
       // Show success message
       Alert.alert(
@@ -333,9 +336,9 @@ const EditProfileScreen = () => {
             text: 'OK',
             onPress: () => {
               // Log the profile image before navigation to verify it's being passed
-              console.log('Navigating with profile image:', finalProfileImage);
-              console.log('Navigating with name:', name);
-              console.log('Navigating with phone:', formattedPhone);
+              log.debug('Navigating with profile image:', finalProfileImage);
+              log.debug('Navigating with name');
+              log.debug('Navigating with phone:', formattedPhone);
               
               navigation.reset({
                 index: 0,
@@ -364,7 +367,7 @@ const EditProfileScreen = () => {
         ]
       );
     } catch (error) {
-      console.error('Error saving profile:', error);
+      log.error('Error saving profile:', error);
       Alert.alert('Error', 'Failed to update profile. Please try again.');
     } finally {
       setIsSaving(false);
@@ -407,7 +410,7 @@ const EditProfileScreen = () => {
                     source={{ uri: profileImage }} 
                     style={styles.profileImage}
                     onError={() => {
-                      console.log('Error loading profile image, falling back to default');
+                      log.debug('Error loading profile image, falling back to default');
                       setProfileImage(null);
                     }}
                   />
@@ -16,6 +16,9 @@ import { RootStackParamList } from '../navigation/navigation.types';
 import { useLanguage } from '../context/LanguageContext';
 import { getUser, fetchCurrentUserFromApi, saveUser, saveAuthToken } from '../services/userService';
 import apiService from '../services/apiService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('auth');
 
 // Function to generate a unique user ID
 const generateUserId = (): string => {
@@ -73,13 +76,13 @@ const EnterNameScreen = ({ route }: { route: EnterNameRouteProp }) => {
         Alert.alert('Login failed', loginRes.error || 'Unknown error');
         return;
       }
-      await saveAuthToken(loginRes.data.token);
+      await saveAuthToken(loginRes.data.token, loginRes.data.refreshToken);
       
       // Fetch user info and navigate directly to home screen (bypassing OTP)
       const userInfo = await fetchCurrentUserFromApi();
       if (userInfo && userInfo.id) {
         await saveUser(userInfo);
-        console.log('🔍 REGISTRATION DEBUG - User Info:', {
+        log.debug('🔍 REGISTRATION DEBUG - User Info:', {
           id: userInfo.id,
           name: userInfo.name,
           email: userInfo.email,
@@ -89,7 +92,7 @@ const EnterNameScreen = ({ route }: { route: EnterNameRouteProp }) => {
         
         // Navigate directly to appropriate home screen based on role
         if (userInfo.role?.toLowerCase() === 'manager' || userInfo.role?.toLowerCase() === 'admin') {
-          console.log('✅ REGISTRATION DEBUG - Redirecting to AdminTabs');
+          log.debug('✅ REGISTRATION DEBUG - Redirecting to AdminTabs');
           navigation.replace('AdminTabs', {
             userName: userInfo.name || userInfo.phoneNumber || '',
             userPhone: userInfo.phoneNumber,
@@ -99,7 +102,7 @@ const EnterNameScreen = ({ route }: { route: EnterNameRouteProp }) => {
             params: {}
           });
         } else {
-          console.log('✅ REGISTRATION DEBUG - Redirecting to HomeTabs (customer)');
+          log.debug('✅ REGISTRATION DEBUG - Redirecting to HomeTabs (customer)');
           navigation.replace('HomeTabs', {
             userName: userInfo.name || userInfo.phoneNumber || '',
             userPhone: userInfo.phoneNumber,
@@ -112,7 +115,7 @@ const EnterNameScreen = ({ route }: { route: EnterNameRouteProp }) => {
         Alert.alert('Error', 'Failed to fetch user info after registration.');
       }
     } catch (error) {
-      console.error('Error during registration:', error);
+      log.error('Error during registration:', error);
       Alert.alert('Error', 'Failed to register. Please try again.');
     }
   };
@@ -1,16 +1,23 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { View, Text, StyleSheet, StatusBar, TouchableOpacity, Image, ScrollView, Dimensions, Platform, ActivityIndicator, Modal, Linking, Alert } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUserItem, DEFAULT_ADDRESS_ID_KEY } from '../utils/userStorage';
 import Icon from 'react-native-vector-icons/FontAwesome';
 import apiService, { Address, Category } from '../services/apiService';
-import { API_BASE_URL } from '../services/apiConfig';
+import { API_ENDPOINTS } from '../services/apiEndpoints';
+import { useCacheUpdates } from '../hooks/useCacheUpdates';
+import { useAbortOnBlur } from '../hooks/useAbortOnBlur';
 import userService, { fetchCurrentUserFromApi } from '../services/userService';
 import { useLanguage, Language } from '../context/LanguageContext';
+import { useAppConfig } from '../context/AppConfigContext';
+import UpdateBanner from '../components/UpdateBanner';
 import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { CompositeNavigationProp } from '@react-navigation/native';
 import { RootStackParamList, HomeTabsParamList } from '../navigation/navigation.types';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('home');
 
 type HomeScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<HomeTabsParamList, 'Home'>,
@@ -32,13 +39,17 @@ const HomeScreen = () => {
   const [loadingAddress, setLoadingAddress] = useState(false);
   const [formattedUserPhone, setFormattedUserPhone] = useState<string>('');
   const [showCallModal, setShowCallModal] = useState(false);
-  const [customerServiceNumber, setCustomerServiceNumber] = useState('+91 9945356606');
+  const { config: appConfig } = useAppConfig();
+  const { customerServiceNumber } = appConfig;
   
   // State for categories
   const [agriInputCategories, setAgriInputCategories] = useState<Category[]>([]);
   const [groceriesCategories, setGroceriesCategories] = useState<Category[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(false);
   
+  // Requests still running when the screen loses focus are cancelled
+  const { getSignal } = useAbortOnBlur();
+  
   const { width: screenWidth } = Dimensions.get('window');
   
   // Format the user phone number for API calls
@@ -52,7 +63,7 @@ const HomeScreen = () => {
         // For UUIDs, we need to ensure it's not too long for the API (max 20 chars)
         // Use just the first part (before the first dash) to stay under 20 chars
         formatted = userPhone.split('-')[0] || userPhone.substring(0, 20);
-        console.log('Using shortened identifier for UUID:', formatted);
+        log.debug('Using shortened identifier for UUID:', formatted);
       } else {
         // For regular phone numbers, format by removing spaces and country code
         formatted = userPhone.replace(/\s+/g, '');
@@ -72,9 +83,10 @@ const HomeScreen = () => {
 
   // Function to refresh addresses - can be called manually
   const refreshAddresses = React.useCallback(async () => {
-    console.log('🔄 ==========================================');
-    console.log('🔄 REFRESHING ADDRESSES - START');
-    console.log('🔄 ==========================================');
+    log.debug('🔄 ==========================================');
+    log.debug('🔄 REFRESHING ADDRESSES - START');
+    log.debug('🔄 ==========================================');
+    const signal = getSignal();
     setLoadingAddress(true);
     try {
       // Get the real user ID
@@ -84,29 +96,31 @@ const HomeScreen = () => {
       }
       const userId = user?.id;
       if (!userId) {
-        console.log('🏠 No user ID found, cannot fetch addresses');
+        log.debug('🏠 No user ID found, cannot fetch addresses');
         setAddresses([]);
         setDefaultAddress(null);
         setLoadingAddress(false);
         return;
       }
       
-      console.log('🏠 Fetching addresses for user:', userId);
-      const response = await apiService.address.getUserAddresses(userId);
+      log.debug('🏠 Fetching addresses for user:', userId);
+      const response = await apiService.address.getUserAddresses(userId, signal);
+      if (signal.aborted) {
+        // The screen lost focus; leave its state alone
+        return;
+      }
       
       if (response.success && response.data) {
-        // Map the API response to the format expected by the UI
+        // Map the API response to the format expected by the UI.
+        // The address schema has already filled id/addressId and zipCode/pincode.
         const mappedAddresses = response.data.map((addr: any) => ({
           ...addr,
-          // Ensure ID fields are properly set
-          id: addr.id || addr.addressId || addr.Id,
-          addressId: addr.addressId || addr.id || addr.Id,
           // Ensure UI-specific fields are set
           type: addr.type || addr.addressLine2 || 'Home',
           address: addr.address || addr.addressLine1 || addr.street || '',
           city: addr.city || addr.cityName || '',
           state: addr.state || addr.stateName || '',
-          pincode: addr.pincode || addr.zipCode || addr.postalCode || '',
+          pincode: addr.pincode || '',
           phone: addr.phone || addr.phoneNumber || (user ? user.phoneNumber : ''),
           isDefault: addr.isDefault || addr.isDefaultShipping || false,
           // Keep original fields for debugging
@@ -116,7 +130,7 @@ const HomeScreen = () => {
         setAddresses(mappedAddresses);
         
         // Find the default address with enhanced debugging
-        console.log('🏠 All addresses:', mappedAddresses.map(addr => ({ 
+        log.debug('🏠 All addresses:', mappedAddresses.map(addr => ({ 
           id: addr.id, 
           addressId: addr.addressId,
           address: addr.address, 
@@ -128,36 +142,36 @@ const HomeScreen = () => {
         
         // Debug: Show first address in full detail
         if (mappedAddresses.length > 0) {
-          console.log('🔍 FULL FIRST ADDRESS:', JSON.stringify(mappedAddresses[0], null, 2));
-          console.log('🔍 ORIGINAL FIRST ADDRESS:', JSON.stringify(mappedAddresses[0]._original, null, 2));
+          log.debug('🔍 FULL FIRST ADDRESS:', JSON.stringify(mappedAddresses[0], null, 2));
+          log.debug('🔍 ORIGINAL FIRST ADDRESS:', JSON.stringify(mappedAddresses[0]._original, null, 2));
         }
         
         // PRIORITY 1: Check if user has manually selected a default address
         let defaultAddr: any = null;
         try {
-          const storedDefaultId = await AsyncStorage.getItem('defaultAddressId');
+          const storedDefaultId = await getUserItem(DEFAULT_ADDRESS_ID_KEY);
           if (storedDefaultId) {
-            console.log('🎯 Looking for user-selected default address ID:', storedDefaultId);
+            log.debug('🎯 Looking for user-selected default address ID:', storedDefaultId);
             defaultAddr = mappedAddresses.find((addr: any) => 
               String(addr.addressId) === storedDefaultId || 
               String(addr.id) === storedDefaultId
             );
             if (defaultAddr) {
-              console.log('🎯 ✅ Found user-selected default address:', {
+              log.debug('🎯 ✅ Found user-selected default address:', {
                 id: defaultAddr.addressId,
                 address: defaultAddr.address
               });
             } else {
-              console.log('🎯 ❌ User-selected address not found, falling back to API flags');
+              log.debug('🎯 ❌ User-selected address not found, falling back to API flags');
             }
           }
         } catch (error) {
-          console.log('🎯 Error reading stored default address:', error);
+          log.debug('🎯 Error reading stored default address:', error);
         }
         
         // PRIORITY 2: If no stored preference, use API default flags
         if (!defaultAddr) {
-          console.log('🔍 Looking for API default address in:', mappedAddresses.map((addr: any) => ({
+          log.debug('🔍 Looking for API default address in:', mappedAddresses.map((addr: any) => ({
             id: addr.id,
             address: addr.address,
             isDefault: addr.isDefault,
@@ -176,7 +190,7 @@ const HomeScreen = () => {
         
         // If still no default found, check for other possible indicators
         if (!defaultAddr) {
-          console.log('🔍 No default found with standard fields, checking alternatives...');
+          log.debug('🔍 No default found with standard fields, checking alternatives...');
           
           // Look for addresses with any truthy default value
           defaultAddr = mappedAddresses.find((addr: any) => 
@@ -187,13 +201,13 @@ const HomeScreen = () => {
             addr.isDefaultAddress
           );
           
-          console.log('🔍 Alternative search result:', defaultAddr ? `Found: ${defaultAddr.address}` : 'None found');
+          log.debug('🔍 Alternative search result:', defaultAddr ? `Found: ${defaultAddr.address}` : 'None found');
         }
         
         // WORKAROUND: If still no default found, use the most recently created/updated address
         // This handles API inconsistency where the default flag isn't properly updated
         if (!defaultAddr && mappedAddresses.length > 0) {
-          console.log('🔧 WORKAROUND: No default flags found, using most recent address...');
+          log.debug('🔧 WORKAROUND: No default flags found, using most recent address...');
           
           // Sort by createdDate (most recent first) to find the address that was just updated
           const sortedByDate = [...mappedAddresses].sort((a: any, b: any) => {
@@ -203,7 +217,7 @@ const HomeScreen = () => {
           });
           
           defaultAddr = sortedByDate[0];
-          console.log('🔧 Selected most recent address:', {
+          log.debug('🔧 Selected most recent address:', {
             id: defaultAddr.addressId,
             address: defaultAddr.address,
             createdDate: defaultAddr.createdDate
@@ -231,15 +245,15 @@ const HomeScreen = () => {
               const dateB = new Date(b.updatedDate || b.createdDate || 0);
               return dateB.getTime() - dateA.getTime();
             })[0];
-            console.log('🏠 Multiple default addresses found, using most recent:', defaultAddr?.address);
+            log.debug('🏠 Multiple default addresses found, using most recent:', defaultAddr?.address);
           } else if (defaultAddresses.length === 1) {
             defaultAddr = defaultAddresses[0];
-            console.log('🏠 Found single default address:', defaultAddr?.address);
+            log.debug('🏠 Found single default address:', defaultAddr?.address);
           }
         }
         
         if (defaultAddr) {
-          console.log('🏠 ✅ Setting default address:', { 
+          log.debug('🏠 ✅ Setting default address:', { 
             id: defaultAddr.id, 
             addressId: defaultAddr.addressId,
             address: defaultAddr.address, 
@@ -250,41 +264,43 @@ const HomeScreen = () => {
             isDefaultShipping: defaultAddr.isDefaultShipping,
             isDefaultBilling: defaultAddr.isDefaultBilling
           });
-          console.log('🏠 ✅ FULL DEFAULT ADDRESS:', JSON.stringify(defaultAddr, null, 2));
+          log.debug('🏠 ✅ FULL DEFAULT ADDRESS:', JSON.stringify(defaultAddr, null, 2));
           setDefaultAddress(defaultAddr);
         } else if (mappedAddresses.length > 0) {
           // If no default is set but we have addresses, use the first one
-          console.log('🏠 ⚠️ No default address found, using first address:', {
+          log.debug('🏠 ⚠️ No default address found, using first address:', {
             id: mappedAddresses[0].id,
             address: mappedAddresses[0].address,
             isDefault: mappedAddresses[0].isDefault
           });
           setDefaultAddress(mappedAddresses[0]);
         } else {
-          console.log('🏠 ❌ No addresses found');
+          log.debug('🏠 ❌ No addresses found');
           setDefaultAddress(null);
         }
       } else {
-        console.log('🏠 No address data in API response');
+        log.debug('🏠 No address data in API response');
         setAddresses([]);
         setDefaultAddress(null);
       }
     } catch (err) {
-      console.error('🏠 Error fetching addresses:', err);
+      log.error('🏠 Error fetching addresses:', err);
       setAddresses([]);
       setDefaultAddress(null);
     } finally {
-      setLoadingAddress(false);
-      console.log('🔄 ==========================================');
-      console.log('🔄 REFRESHING ADDRESSES - END');
-      console.log('🔄 ==========================================');
+      if (!signal.aborted) {
+        setLoadingAddress(false);
+      }
+      log.debug('🔄 ==========================================');
+      log.debug('🔄 REFRESHING ADDRESSES - END');
+      log.debug('🔄 ==========================================');
     }
-  }, []);
+  }, [getSignal]);
 
   // Fetch addresses when the component gains focus
   useFocusEffect(
     React.useCallback(() => {
-      console.log('🔄 HomeScreen gained focus - refreshing addresses');
+      log.debug('🔄 HomeScreen gained focus - refreshing addresses');
       // Use setTimeout to ensure the screen is fully focused before refreshing
       const timer = setTimeout(() => {
         refreshAddresses();
@@ -294,41 +310,53 @@ const HomeScreen = () => {
     }, [])
   );
   
+  // Fetch categories; cached categories come back instantly
+  const fetchCategories = React.useCallback(async (showLoading: boolean = true) => {
+    const signal = getSignal();
+    if (showLoading) {
+      setLoadingCategories(true);
+    }
+    try {
+      const response = await apiService.categories.getAll(signal);
+      if (signal.aborted) {
+        return;
+      }
+      
+      if (response.success && response.data) {
+        // Filter categories for Agri Inputs using correct category ID
+        const agriInputs = response.data.filter(category => 
+          category.id === 2 // Correct ID for "agri input" category
+        );
+        
+        // Filter categories for Groceries using correct category ID
+        const groceries = response.data.filter(category => 
+          category.id === 3 // Correct ID for "Groceries" category
+        );
+        
+        setAgriInputCategories(agriInputs);
+        setGroceriesCategories(groceries);
+        
+        log.debug(`Fetched ${agriInputs.length} Agri Input categories and ${groceries.length} Groceries categories`);
+      }
+    } catch (err) {
+      log.error('Error fetching categories:', err);
+    } finally {
+      if (!signal.aborted) {
+        setLoadingCategories(false);
+      }
+    }
+  }, [getSignal]);
+
   // Fetch categories when the component mounts or gains focus
   useFocusEffect(
     React.useCallback(() => {
-      const fetchCategories = async () => {
-        setLoadingCategories(true);
-        try {
-          const response = await apiService.categories.getAll();
-          
-          if (response.success && response.data) {
-            // Filter categories for Agri Inputs using correct category ID
-            const agriInputs = response.data.filter(category => 
-              category.id === 2 // Correct ID for "agri input" category
-            );
-            
-            // Filter categories for Groceries using correct category ID
-            const groceries = response.data.filter(category => 
-              category.id === 3 // Correct ID for "Groceries" category
-            );
-            
-            setAgriInputCategories(agriInputs);
-            setGroceriesCategories(groceries);
-            
-            console.log(`Fetched ${agriInputs.length} Agri Input categories and ${groceries.length} Groceries categories`);
-          }
-        } catch (err) {
-          console.error('Error fetching categories:', err);
-        } finally {
-          setLoadingCategories(false);
-        }
-      };
-      
       fetchCategories();
-    }, [])
+    }, [fetchCategories])
   );
 
+  // Pick up categories refreshed in the background
+  useCacheUpdates(API_ENDPOINTS.CATEGORIES.GET_ALL, () => fetchCategories(false));
+
   // Show status bar when HomeScreen mounts
   useEffect(() => {
     StatusBar.setHidden(false);
@@ -346,59 +374,16 @@ const HomeScreen = () => {
     source: any; // Can be require() or { uri: string }
   };
 
-  // You can dynamically load images from API or pass them as props
-  const [originalImages, setOriginalImages] = useState<BannerImage[]>([
-    { id: 1, source: require('../../assets/banner1.png') },
-    { id: 2, source: require('../../assets/banner2.png') },
-    { id: 3, source: require('../../assets/banner3.png') },
-  ]);
-  
-  useEffect(() => {
-    // This is just a sample - uncomment and modify when you have an actual API
-    /*
-    const fetchBannerImages = async () => {
-      try {
-        // Get the authentication token
-        const token = await userService.getAuthToken();
-        
-        // Prepare headers
-        const headers: HeadersInit = {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          'ngrok-skip-browser-warning': 'true',
-          'User-Agent': 'FarmingApp/1.0 (React Native Mobile Application)'
-        };
-        
-        // Add authorization header if token exists
-        if (token) {
-          headers['Authorization'] = `Bearer ${token}`;
-        }
-        
-        const response = await fetch(`${API_BASE_URL}/api/BannerImages`, {
-          headers
-        });
-        const data = await response.json();
-        
-        // Transform API data to match our BannerImage type
-        const apiImages: BannerImage[] = data.map((item: any, index: number) => ({
-          id: item.id || index,
-          source: { uri: item.imageUrl }  // Remote images use { uri: url } format
-        }));
-        
-        setOriginalImages(apiImages);
-      } catch (error) {
-        console.error('Failed to fetch banner images:', error);
-      }
-    };
-    
-    // fetchBannerImages();
-    */
-  }, []);
-  
-  // Function to add a new image to the carousel
-  const addImage = (newImage: BannerImage) => {
-    setOriginalImages(prev => [...prev, newImage]);
-  };
+  // Banners come from the app config; the bundled ones are shown until it lists any
+  const originalImages = useMemo<BannerImage[]>(() => (
+    appConfig.bannerImages.length > 0
+      ? appConfig.bannerImages.map(url => ({ id: url, source: { uri: url } }))
+      : [
+          { id: 1, source: require('../../assets/banner1.png') },
+          { id: 2, source: require('../../assets/banner2.png') },
+          { id: 3, source: require('../../assets/banner3.png') },
+        ]
+  ), [appConfig.bannerImages]);
 
   // Recalculate swiperImages whenever originalImages changes
   const swiperImages = useMemo(() => {
@@ -435,7 +420,7 @@ const HomeScreen = () => {
   };
 
   const handleAddressPress = () => {
-    console.log('🏠 Navigating to MyAddress screen');
+    log.debug('🏠 Navigating to MyAddress screen');
     navigation.navigate('MyAddress', { userName, userPhone });
   };
 
@@ -523,7 +508,7 @@ const HomeScreen = () => {
         }
       })
       .catch(err => {
-        console.error('Error trying to call:', err);
+        log.error('Error trying to call:', err);
         Alert.alert('Error', 'Could not initiate the call. Please try again later.');
       });
     
@@ -547,7 +532,7 @@ const HomeScreen = () => {
           style={styles.addressContainer} 
           onPress={handleAddressPress}
           onLongPress={() => {
-            console.log('🔄 Manual refresh triggered');
+            log.debug('🔄 Manual refresh triggered');
             refreshAddresses();
           }}
         >
@@ -604,6 +589,8 @@ const HomeScreen = () => {
         </TouchableOpacity>
       </View>
 
+      <UpdateBanner />
+
       <TouchableOpacity style={styles.climateBox} onPress={handleClimatePress}>
         <View style={styles.climateTextContainer}>
           <Text style={styles.chanceOfRain}>
@@ -765,7 +752,7 @@ const HomeScreen = () => {
             <Text style={styles.modalTitle}>{translate('Customer Service')}</Text>
             <Text style={styles.phoneNumber}>{customerServiceNumber}</Text>
             <Text style={styles.modalDescription}>
-              {translate('Our customer service team is available from 9:00 AM to 6:00 PM, Monday to Saturday.')}
+              {translate(appConfig.serviceHours)}
             </Text>
           </View>
         </View>
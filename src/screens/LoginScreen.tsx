@@ -8,6 +8,9 @@ import { generateOtp } from '../services/loginService';
 import { useLanguage } from '../context/LanguageContext';
 import apiService from '../services/apiService';
 import { fetchCurrentUserFromApi, saveUser, saveAuthToken } from '../services/userService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('auth');
 
 
 type LoginNavProp = NativeStackNavigationProp<RootStackParamList, 'Login'>;
@@ -44,19 +47,19 @@ const LoginScreen = () => {
         Alert.alert('Login failed', response.error || 'Invalid credentials');
         return;
       }
-      await saveAuthToken(response.data.token);
+      await saveAuthToken(response.data.token, response.data.refreshToken);
       // Fetch user info and navigate based on role
       const userInfo = await fetchCurrentUserFromApi();
       if (userInfo && userInfo.id) {
         await saveUser(userInfo);
-        console.log('🔍 LOGIN DEBUG - User Info:', {
+        log.debug('🔍 LOGIN DEBUG - User Info:', {
           id: userInfo.id,
           name: userInfo.name,
           email: userInfo.email,
           role: userInfo.role,
           phoneNumber: userInfo.phoneNumber
         });
-        console.log('🔍 LOGIN DEBUG - Role check:', {
+        log.debug('🔍 LOGIN DEBUG - Role check:', {
           currentRole: userInfo.role,
           roleLowerCase: userInfo.role?.toLowerCase(),
           isManager: userInfo.role?.toLowerCase() === 'manager',
@@ -65,7 +68,7 @@ const LoginScreen = () => {
         });
         
         if (userInfo.role?.toLowerCase() === 'manager' || userInfo.role?.toLowerCase() === 'admin') {
-          console.log('✅ LOGIN DEBUG - Redirecting to AdminTabs');
+          log.debug('✅ LOGIN DEBUG - Redirecting to AdminTabs');
           navigation.replace('AdminTabs', {
             userName: userInfo.name || userInfo.phoneNumber || '',
             userPhone: userInfo.phoneNumber,
@@ -75,7 +78,7 @@ const LoginScreen = () => {
             params: {}
           });
         } else {
-          console.log('❌ LOGIN DEBUG - Redirecting to HomeTabs (customer)');
+          log.debug('❌ LOGIN DEBUG - Redirecting to HomeTabs (customer)');
           navigation.replace('HomeTabs', {
             userName: userInfo.name || userInfo.phoneNumber || '',
             userPhone: userInfo.phoneNumber,
@@ -8,7 +8,10 @@ import { RootStackParamList } from '../navigation/navigation.types';
 import apiService, { Address } from '../services/apiService';
 import { getUser, fetchCurrentUserFromApi } from '../services/userService';
 import { useLanguage } from '../context/LanguageContext';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUserItem, setUserItem, DEFAULT_ADDRESS_ID_KEY } from '../utils/userStorage';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('address');
 
 type MyAddressScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MyAddress'>;
 type MyAddressScreenRouteProp = RouteProp<RootStackParamList, 'MyAddress'>;
@@ -38,7 +41,7 @@ const MyAddressScreen = () => {
         // For UUIDs, we need to ensure it's not too long for the API (max 20 chars)
         // Use just the first part (before the first dash) to stay under 20 chars
         formatted = userPhone.split('-')[0] || userPhone.substring(0, 20);
-        console.log('Using shortened identifier for UUID:', formatted);
+        log.debug('Using shortened identifier for UUID:', formatted);
       } else {
         // For regular phone numbers, format by removing spaces and country code
         formatted = userPhone.replace(/\s+/g, '');
@@ -68,7 +71,7 @@ const MyAddressScreen = () => {
       }
       const currentUserId = user?.id;
       if (!currentUserId) {
-        console.error('User ID not found');
+        log.error('User ID not found');
         setError('User information not found. Please log in again.');
         setLoading(false);
         return;
@@ -103,16 +106,15 @@ const MyAddressScreen = () => {
         .filter(addr => addr.fullName !== 'Deleted User' && addr.phoneNumber !== '0000000000')
         .map(addr => ({
           ...addr,
-          id: typeof addr.id === 'string' ? addr.id : (addr.addressId ? String(addr.addressId) : undefined),
           type: addr.type || addr.addressLine2 || 'Home',
           address: addr.address || addr.addressLine1 || '',
-          pincode: addr.pincode || addr.zipCode || '',
+          pincode: addr.pincode || '',
           phone: addr.phone || addr.phoneNumber || formattedUserPhone,
           isDefault: addr.isDefault || addr.isDefaultShipping || false
         }));
       setAddresses(mappedAddresses);
     } catch (err) {
-      console.error('Error fetching addresses:', err);
+      log.error('Error fetching addresses:', err);
       setError('An unexpected error occurred while fetching addresses. Please try again later.');
     } finally {
       setLoading(false);
@@ -157,11 +159,11 @@ const MyAddressScreen = () => {
   // Load the default address ID from AsyncStorage
   const loadDefaultAddressId = async () => {
     try {
-      const defaultId = await AsyncStorage.getItem('defaultAddressId');
-      console.log('Loaded default address ID:', defaultId);
+      const defaultId = await getUserItem(DEFAULT_ADDRESS_ID_KEY);
+      log.debug('Loaded default address ID:', defaultId);
       return defaultId;
     } catch (error) {
-      console.error('Error loading default address ID:', error);
+      log.error('Error loading default address ID:', error);
       return null;
     }
   };
@@ -176,7 +178,7 @@ const MyAddressScreen = () => {
         const defaultId = await loadDefaultAddressId();
         
         if (defaultId) {
-          console.log('Setting default address with ID:', defaultId);
+          log.debug('Setting default address with ID:', defaultId);
           // Update the UI to reflect the default address
           setAddresses(prevAddresses => {
             return prevAddresses.map(addr => ({
@@ -194,10 +196,10 @@ const MyAddressScreen = () => {
   // Function to save default address ID to AsyncStorage
   const saveDefaultAddressId = async (id: string) => {
     try {
-      await AsyncStorage.setItem('defaultAddressId', id);
-      console.log('Saved default address ID:', id);
+      await setUserItem(DEFAULT_ADDRESS_ID_KEY, id);
+      log.debug('Saved default address ID:', id);
     } catch (error) {
-      console.error('Error saving default address ID:', error);
+      log.error('Error saving default address ID:', error);
     }
   };
 
@@ -231,7 +233,7 @@ const MyAddressScreen = () => {
         
         // If the address has an ID, save it as the default
         if (address.id) {
-          console.log('Setting default address with ID:', address.id);
+          log.debug('Setting default address with ID:', address.id);
           
           // Save the default address ID to AsyncStorage for persistence
           await saveDefaultAddressId(address.id);
@@ -248,19 +250,19 @@ const MyAddressScreen = () => {
           const response = await apiService.address.updateAddress(address.id, updatedAddress);
           
           if (response.success) {
-            console.log('Default address updated successfully');
+            log.debug('Default address updated successfully');
             Alert.alert("Default Address", `${address.type} address set as default.`);
           } else {
-            console.error('Failed to update default address:', response.error);
+            log.error('Failed to update default address:', response.error);
             // Still show success since we've updated locally
             Alert.alert("Default Address", `${address.type} address set as default.`);
           }
         } else {
-          console.warn('Cannot set default address: No address ID');
+          log.warn('Cannot set default address: No address ID');
           Alert.alert("Default Address", `${address.type} address set as default.`);
         }
       } catch (error) {
-        console.error('Error setting default address:', error);
+        log.error('Error setting default address:', error);
         // Still show success since we've updated locally
         Alert.alert("Default Address", `${address.type} address set as default.`);
       }
@@ -11,7 +11,13 @@ import { saveCartItems } from '../utils/cartStorage';
 import { orderStatusApi, OrderStatusDetail } from '../services/apiService'; // Import the orderStatus API
 import userService from '../services/userService';
 import { useLanguage } from '../context/LanguageContext';
-import apiService from '../services/apiService';
+import apiService, { Order as ApiOrder } from '../services/apiService';
+import OrderDetailsModal from '../components/OrderDetailsModal';
+import { useOutbox } from '../hooks/useOutbox';
+import { discardOutboxItem, retryOutboxItem, OutboxStatus } from '../services/outboxService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('orders');
 
 type MyOrdersScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MyOrders'>;
 type MyOrdersScreenRouteProp = RouteProp<RootStackParamList, 'MyOrders'>;
@@ -34,9 +40,14 @@ const MyOrdersScreen = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<ApiOrder | null>(null);
   
   // Simple state for orders management
   const [sampleOrders] = useState([]);
+  
+  // Orders placed offline that have not reached the server yet
+  const { items: outboxOrders } = useOutbox('order');
+  const unsentOrders = outboxOrders.filter(item => item.status !== 'sent');
 
   // Use useFocusEffect to reload orders whenever the screen comes into focus
   useFocusEffect(
@@ -72,16 +83,16 @@ const MyOrdersScreen = () => {
   
   // Function to transform API order data to the expected format
   const transformApiOrdersToAppFormat = (apiOrders: any[]): Order[] => {
-    console.log('API Orders:', JSON.stringify(apiOrders));
+    log.debug('API Orders:', JSON.stringify(apiOrders));
     if (!Array.isArray(apiOrders)) {
-      console.error('API did not return an array of orders');
+      log.error('API did not return an array of orders');
       return [];
     }
     
     // Only keep orders with a real orderId or id
     const filteredOrders = apiOrders.filter(apiOrder => apiOrder.orderId || apiOrder.id);
     const transformedOrders = filteredOrders.map(apiOrder => {
-      console.log('Processing API Order:', JSON.stringify(apiOrder));
+      log.debug('Processing API Order:', JSON.stringify(apiOrder));
       // Extract date components
       let orderDate = new Date();
       let day = '';
@@ -104,7 +115,7 @@ const MyOrdersScreen = () => {
           monthName = months[orderDate.getMonth()];
         }
       } catch (error) {
-        console.error('Error parsing date:', error);
+        log.error('Error parsing date:', error);
         // Use current date as fallback
         const now = new Date();
         day = now.getDate().toString().padStart(2, '0');
@@ -141,11 +152,11 @@ const MyOrdersScreen = () => {
         userId: apiOrder.userId || ''
       };
       
-      console.log('Transformed Order Items:', JSON.stringify(order.items));
+      log.debug('Transformed Order Items:', JSON.stringify(order.items));
       return order;
     });
     
-    console.log('Transformed Orders:', JSON.stringify(transformedOrders));
+    log.debug('Transformed Orders:', JSON.stringify(transformedOrders));
     return transformedOrders;
   };
 
@@ -195,6 +206,19 @@ const MyOrdersScreen = () => {
     }
   };
 
+  const getOutboxStatusText = (status: OutboxStatus) => {
+    switch (status) {
+      case 'pending':
+        return translate('Waiting for connection');
+      case 'conflict':
+        return translate('Needs attention');
+      case 'failed':
+        return translate('Could not be placed');
+      default:
+        return translate('Sent');
+    }
+  };
+
   // Group orders by month and year
   const groupedOrders = orders.reduce((acc, order) => {
     const key = `${order.month} ${order.year}`;
@@ -205,25 +229,18 @@ const MyOrdersScreen = () => {
     return acc;
   }, {} as Record<string, Order[]>);
 
+  // Opens the order details with the GST breakdown
   const fetchOrderById = async (orderId: string) => {
     try {
-      setLoading(true);
-      setError(null);
       const response = await apiService.order.getOrderById(orderId);
       if (response.success && response.data) {
-        // For demonstration, just log the order or you can set it to state
-        console.log('Fetched single order:', response.data);
-        // Optionally, show it in the UI or set to a state variable
-        // setOrders([response.data]);
-        Alert.alert('Fetched order', JSON.stringify(response.data, null, 2));
+        setSelectedOrder(response.data);
       } else {
-        setError('Order not found or failed to fetch');
+        Alert.alert(translate('Error'), translate('Could not load the order'));
       }
     } catch (err) {
-      setError('Error fetching order by ID');
-      console.error(err);
-    } finally {
-      setLoading(false);
+      log.error('Error fetching order by ID:', err);
+      Alert.alert(translate('Error'), translate('Could not load the order'));
     }
   };
 
@@ -239,6 +256,37 @@ const MyOrdersScreen = () => {
       </View>
 
       <ScrollView style={styles.content}>
+        {unsentOrders.length > 0 && (
+          <View>
+            <Text style={styles.monthYearHeader}>{translate('Waiting to be sent')}</Text>
+            {unsentOrders.map(item => (
+              <View key={item.id} style={styles.orderContainer}>
+                <View style={styles.orderHeader}>
+                  <Text style={styles.productName}>{item.label || translate('Order')}</Text>
+                  <Text style={[
+                    styles.outboxStatusText,
+                    { color: getStatusColor(item.status === 'pending' ? 'pending' : 'failed') }
+                  ]}>
+                    {getOutboxStatusText(item.status)}
+                  </Text>
+                </View>
+                {item.lastError && item.status !== 'pending' && (
+                  <Text style={styles.productQuantity} numberOfLines={2}>{item.lastError}</Text>
+                )}
+                {item.status !== 'pending' && (
+                  <View style={styles.outboxActions}>
+                    <TouchableOpacity onPress={() => discardOutboxItem(item.id)}>
+                      <Text style={styles.outboxDiscardText}>{translate('Discard')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.orderAgainButton} onPress={() => retryOutboxItem(item.id)}>
+                      <Text style={styles.orderAgainText}>{translate('Retry')}</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#09A84E" />
@@ -264,7 +312,7 @@ const MyOrdersScreen = () => {
                     }
                   })
                   .catch(error => {
-                    console.error('Error fetching order status:', error);
+                    log.error('Error fetching order status:', error);
                     setError('Failed to fetch order status');
                   })
                   .finally(() => {
@@ -303,7 +351,10 @@ const MyOrdersScreen = () => {
                       </Text>
                     </View>
                     */}
-                    <Text style={styles.orderIdText}>{translate('Order ID')}: {order.orderId}</Text>
+                    <TouchableOpacity style={styles.orderIdButton} onPress={() => fetchOrderById(order.orderId)}>
+                      <Text style={styles.orderIdText}>{translate('Order ID')}: {order.orderId}</Text>
+                      <Icon name="chevron-right" size={20} color="#666" />
+                    </TouchableOpacity>
                   </View>
                   
                   <View style={styles.separator} />
@@ -363,7 +414,7 @@ const MyOrdersScreen = () => {
                             }],
                           });
                         } catch (error) {
-                          console.error('Error re-ordering:', error);
+                          log.error('Error re-ordering:', error);
                         }
                       }}
                     >
@@ -377,7 +428,16 @@ const MyOrdersScreen = () => {
         )}
       </ScrollView>
 
-
+      <Modal
+        visible={!!selectedOrder}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setSelectedOrder(null)}
+      >
+        {selectedOrder && (
+          <OrderDetailsModal order={selectedOrder} onClose={() => setSelectedOrder(null)} />
+        )}
+      </Modal>
 
       <View style={styles.navBar}>
         <TouchableOpacity 
@@ -555,6 +615,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 5,
   },
 
+  orderIdButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   orderIdText: {
     fontSize: 12,
     color: '#666',
@@ -638,6 +702,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+
+  // 📤 Offline order (outbox) styles
+  outboxStatusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+
+  outboxActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+  },
+
+  outboxDiscardText: {
+    color: '#F44336',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 6,
+  },
   
   buttonContainer: {
     flexDirection: 'column',
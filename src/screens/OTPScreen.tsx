@@ -17,7 +17,11 @@ import { RootStackParamList } from '../navigation/navigation.types';
 import { generateOtp, verifyOtp } from '../services/loginService';
 import { getUser, fetchCurrentUserFromApi, saveUser, saveAuthToken } from '../services/userService';
 import apiService from '../services/apiService';
+import { isApiErrorKind } from '../services/apiErrors';
 import { useLanguage } from '../context/LanguageContext';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('auth');
 
 type OtpScreenNavProp = NativeStackNavigationProp<RootStackParamList, 'Otp'>;
 
@@ -102,8 +106,8 @@ const OtpScreen = ({ route }: any) => {
       password: 'TempPassword123!'
     };
     const res = await apiService.auth.register(payload);
-    console.log('Registration payload:', payload);
-    console.log('Registration response:', res);
+    log.debug('Registration payload:', payload);
+    log.debug('Registration response:', res);
     return res;
   };
 
@@ -125,7 +129,7 @@ const OtpScreen = ({ route }: any) => {
     
     // Prevent duplicate verification calls
     if (isLoading) {
-      console.log('OTP verification already in progress, skipping...');
+      log.debug('OTP verification already in progress, skipping...');
       return;
     }
     
@@ -140,15 +144,16 @@ const OtpScreen = ({ route }: any) => {
       }
       
       if (!result.success) {
-        // Handle specific error cases
-        let errorMessage = result.error || 'Invalid OTP. Please try again.';
+        if (isApiErrorKind(result, 'network', 'timeout')) {
+          Alert.alert('Network Error', result.error || 'Unable to connect to server. Please check your internet connection.');
+          setIsLoading(false);
+          return;
+        }
         
-        if (result.error?.includes('expired')) {
-          errorMessage = 'OTP has expired. Please request a new one.';
-        } else if (result.error?.includes('invalid')) {
-          errorMessage = 'Invalid OTP. Please check and try again.';
-        } else if (result.error?.includes('attempts')) {
-          errorMessage = 'Too many attempts. Please request a new OTP.';
+        // The server explains why the OTP was rejected (expired, wrong code, too many attempts)
+        let errorMessage = result.apiError?.serverMessage || 'Invalid OTP. Please check and try again.';
+        if (isApiErrorKind(result, 'server')) {
+          errorMessage = 'Unable to verify the OTP right now. Please try again.';
         }
         
         Alert.alert('Verification Failed', errorMessage);
@@ -158,7 +163,7 @@ const OtpScreen = ({ route }: any) => {
       
       if (result.success && result.data && result.data.token) {
         // Save the token first
-        await saveAuthToken(result.data.token);
+        await saveAuthToken(result.data.token, result.data.refreshToken);
         // After successful OTP verification, fetch user info from /me
         const userInfo = await fetchCurrentUserFromApi();
         if (userInfo && userInfo.id) {
@@ -191,7 +196,7 @@ const OtpScreen = ({ route }: any) => {
         }
       }
     } catch (error) {
-      console.error('OTP verification error:', error);
+      log.error('OTP verification error:', error);
       Alert.alert('Error', 'An unexpected error occurred. Please try again.');
     } finally {
       setIsLoading(false);
@@ -25,6 +25,12 @@ import { saveCartItems } from '../utils/cartStorage';
 import { getStoredOrderItems, saveOrderItems, clearOrderItems, StoredOrderItem } from '../utils/orderItemsStorage';
 import { saveOrder, Order } from '../utils/orderStorage';
 import { ORDER_STATUS } from '../constants/orderStatus';
+import { usePricing } from '../hooks/usePricing';
+import { getQuantityLimits, isWholeSteps } from '../utils/quantityLimits';
+import { formatQuantity, getUnitSymbol, parseUnit, toSellingQuantity } from '../utils/units';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('orders');
 
 type OrderNowScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'OrderNow'>;
 type OrderNowScreenRouteProp = RouteProp<RootStackParamList, 'OrderNow'>;
@@ -36,6 +42,11 @@ interface Product {
   description?: string;
   imageUrl?: string;
   unit?: string;
+  hsnCode?: string;
+  taxRate?: number;
+  packSize?: number;
+  packUnit?: string;
+  quantityStep?: number;
 }
 
 interface OrderItem {
@@ -43,10 +54,46 @@ interface OrderItem {
   productId?: string;
   productName: string;
   quantity: string;
-  units: string;
+  units: string; // As typed; converted to the product's unit when ordered
   price?: number;
+  hsnCode?: string;
+  taxRate?: number;
+  unitOfMeasure?: string; // The unit of the picked product's price and stock
+  packSize?: number;
+  packUnit?: string;
+  quantityStep?: number;
 }
 
+// Rows with a product name and a valid quantity are ordered
+const isOrderableItem = (item: OrderItem) =>
+  item.productName.trim() !== '' &&
+  item.quantity.trim() !== '' &&
+  !isNaN(parseFloat(item.quantity));
+
+// The quantity of a row in its product's unit, e.g. 500 g of a product sold
+// per kg is 0.5. Rows without a picked product or with a unit we do not know
+// are taken as typed; null when the units do not convert.
+const getSellingQuantity = (item: OrderItem): number | null => {
+  const quantity = parseFloat(item.quantity) || 0;
+  const unit = parseUnit(item.units);
+  return unit && parseUnit(item.unitOfMeasure) ? toSellingQuantity(quantity, unit, item) : quantity;
+};
+
+// Rows typed in another unit than their product's, e.g. g of a product sold per kg
+const isConvertedItem = (item: OrderItem) => {
+  const unit = parseUnit(item.units);
+  const sellingUnit = parseUnit(item.unitOfMeasure);
+  return isOrderableItem(item) && !!unit && !!sellingUnit && unit !== sellingUnit;
+};
+
+// Manual rows priced like cart items; rows typed without picking a product have no price
+const toPricedItem = (item: OrderItem) => ({
+  price: item.price || 0,
+  quantity: getSellingQuantity(item) ?? 0,
+  hsnCode: item.hsnCode,
+  taxRate: item.taxRate,
+});
+
 interface Address {
   id?: string;
   addressLine1?: string;
@@ -69,6 +116,7 @@ interface Address {
 
 const OrderNowScreen = () => {
   const { translate } = useLanguage();
+  const { getBreakdown } = usePricing();
   const navigation = useNavigation<OrderNowScreenNavigationProp>();
   const route = useRoute<OrderNowScreenRouteProp>();
   const { userName = '', userPhone = '' } = route.params || {};
@@ -86,9 +134,6 @@ const OrderNowScreen = () => {
   const [selectedAddress, setSelectedAddress] = useState<Address | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
-  // Common units for products
-  const commonUnits = ['kg', 'g', 'l', 'ml', 'pcs', 'box', 'packet'];
-
   // Fetch products and stored order items on component mount
   useEffect(() => {
     fetchProducts();
@@ -104,7 +149,7 @@ const OrderNowScreen = () => {
         setOrderItems(storedItems);
       }
     } catch (error) {
-      console.error('Error loading stored order items:', error);
+      log.error('Error loading stored order items:', error);
     }
   };
 
@@ -120,12 +165,17 @@ const OrderNowScreen = () => {
           price: apiProduct.price,
           description: apiProduct.description,
           imageUrl: apiProduct.imageUrl,
-          unit: 'kg' // Default unit since API doesn't provide it
+          unit: apiProduct.unitOfMeasure,
+          hsnCode: apiProduct.hsnCode,
+          taxRate: apiProduct.taxRate,
+          packSize: apiProduct.packSize,
+          packUnit: apiProduct.packUnit,
+          quantityStep: apiProduct.quantityStep
         }));
         setProducts(mappedProducts);
       }
     } catch (error) {
-      console.error('Error fetching products:', error);
+      log.error('Error fetching products:', error);
     } finally {
       setLoading(false);
     }
@@ -139,7 +189,7 @@ const OrderNowScreen = () => {
         userData = await fetchCurrentUserFromApi();
       }
       if (!userData || !userData.id) {
-        console.error('User data not found or missing ID');
+        log.error('User data not found or missing ID');
         return;
       }
       const currentUserId = userData.id;
@@ -180,7 +230,7 @@ const OrderNowScreen = () => {
         setSelectedAddress(null);
       }
     } catch (error) {
-      console.error('Error fetching addresses:', error);
+      log.error('Error fetching addresses:', error);
     }
   };
 
@@ -207,7 +257,13 @@ const OrderNowScreen = () => {
         productId: product.id,
         productName: product.name,
         units: product.unit || 'kg', // Default to kg if no unit specified
-        price: product.price
+        price: product.price,
+        hsnCode: product.hsnCode,
+        taxRate: product.taxRate,
+        unitOfMeasure: product.unit,
+        packSize: product.packSize,
+        packUnit: product.packUnit,
+        quantityStep: product.quantityStep
       } : item
     );
     setOrderItems(updatedItems);
@@ -248,17 +304,33 @@ const OrderNowScreen = () => {
       setIsSubmitting(true);
       
       // Validate order items
-      const validItems = orderItems.filter(item => 
-        item.productName.trim() !== '' && 
-        item.quantity.trim() !== '' && 
-        !isNaN(parseFloat(item.quantity))
-      );
+      const validItems = orderItems.filter(isOrderableItem);
       
       if (validItems.length === 0) {
         Alert.alert(translate('Invalid Order'), translate('Please add at least one valid product with quantity.'));
         setIsSubmitting(false);
         return;
       }
+
+      // Every quantity has to convert to its product's unit and come in whole steps
+      const unconvertible = validItems.find(item => getSellingQuantity(item) === null);
+      if (unconvertible) {
+        Alert.alert(
+          translate('Invalid Quantity'),
+          `${unconvertible.productName} ${translate('is sold per')} ${getUnitSymbol(unconvertible.unitOfMeasure)}, ${translate('not in')} ${unconvertible.units}.`
+        );
+        setIsSubmitting(false);
+        return;
+      }
+      const offStep = validItems.find(item => !isWholeSteps(getSellingQuantity(item) ?? 0, getQuantityLimits(item)));
+      if (offStep) {
+        Alert.alert(
+          translate('Invalid Quantity'),
+          `${offStep.productName} ${translate('is sold in steps of')} ${formatQuantity(getQuantityLimits(offStep).step, offStep.unitOfMeasure)}.`
+        );
+        setIsSubmitting(false);
+        return;
+      }
       
       // If no address is selected, try to fetch addresses again
       if (!selectedAddress) {
@@ -285,12 +357,9 @@ const OrderNowScreen = () => {
         }
       }
       
-      // Calculate total amount
-      const totalAmount = validItems.reduce((sum, item) => {
-        const price = item.price || 0;
-        const quantity = parseFloat(item.quantity) || 0;
-        return sum + (price * quantity);
-      }, 0);
+      // Calculate total amount, with GST and delivery like the cart
+      const orderPrice = getBreakdown(validItems.map(toPricedItem), selectedAddress?.state);
+      const totalAmount = orderPrice.total;
       
       // Get the real user ID
       let user = await getUser();
@@ -307,7 +376,7 @@ const OrderNowScreen = () => {
       // Make sure we have a valid address ID
       const shippingAddressId = selectedAddress?.addressId || selectedAddress?.id;
       if (!shippingAddressId) {
-        console.error('Selected address has no ID');
+        log.error('Selected address has no ID');
         Alert.alert(
           translate('Invalid Address'),
           translate('Please select a valid delivery address.')
@@ -320,21 +389,31 @@ const OrderNowScreen = () => {
       const orderData = {
         userId: userId, // Use the real user ID
         shippingAddressId: Number(shippingAddressId), // Convert to number as required by API
-        totalAmount: parseFloat(totalAmount.toFixed(2)),
+        totalAmount: totalAmount,
+        subtotalAmount: orderPrice.subtotal,
+        gstAmount: orderPrice.gst,
+        cgstAmount: orderPrice.tax.cgst,
+        sgstAmount: orderPrice.tax.sgst,
+        igstAmount: orderPrice.tax.igst,
+        deliveryCharge: orderPrice.deliveryCharge,
+        deliveryChargeRuleId: orderPrice.deliveryChargeRuleId,
         orderStatusId: ORDER_STATUS.NEW, // New order status
         orderDate: new Date().toISOString(),
         trackingNumber: `TRK-${Date.now()}`,
-        orderItems: validItems.map(item => ({
+        orderItems: validItems.map((item, index) => ({
           productId: item.productId || item.id, // Use productId if available, otherwise use the item id
-          quantity: parseFloat(item.quantity),
+          quantity: getSellingQuantity(item) ?? 0,
           price: item.price || 0,
           productName: item.productName, // Changed from 'name' to 'productName'
-          imageUrl: undefined // Manual orders don't have images
+          imageUrl: undefined, // Manual orders don't have images
+          hsnCode: item.hsnCode,
+          taxRate: orderPrice.tax.lines[index].taxRate,
+          taxAmount: orderPrice.tax.lines[index].taxAmount
         }))
       };
       
       // Submit order to API
-      const response = await apiService.order.createOrder(orderData);
+      const response = await apiService.order.createOrder(orderData, 'manual');
       
       if (response.success) {
         try {
@@ -362,7 +441,7 @@ const OrderNowScreen = () => {
               id: item.productId || item.id,
               name: item.productName,
               price: item.price || 0,
-              quantity: parseFloat(item.quantity),
+              quantity: getSellingQuantity(item) ?? 0,
               image: '' // No image available for manual orders
             })),
             totalAmount: totalAmount,
@@ -381,15 +460,24 @@ const OrderNowScreen = () => {
           setOrderItems(resetItems);
           clearOrderItems(); // Clear stored order items
         } catch (saveError) {
-          console.error('Error saving order to local storage:', saveError);
+          log.error('Error saving order to local storage:', saveError);
           // Still show success since the API order was successful
           setShowOrderSuccess(true);
         }
+      } else if (response.queued) {
+        // No connection: the order waits in the offline outbox
+        const resetItems = [{ id: '1', productName: '', quantity: '', units: '' }];
+        setOrderItems(resetItems);
+        clearOrderItems();
+        Alert.alert(
+          translate('Order Saved Offline'),
+          translate('Your order will be placed automatically when the connection returns. You can follow it in My Orders.')
+        );
       } else {
         Alert.alert(translate('Order Failed'), response.error || translate('Failed to create order. Please try again.'));
       }
     } catch (error) {
-      console.error('Error submitting order:', error);
+      log.error('Error submitting order:', error);
       Alert.alert(translate('Error'), translate('An unexpected error occurred. Please try again.'));
     } finally {
       setIsSubmitting(false);
@@ -409,6 +497,9 @@ const OrderNowScreen = () => {
     return orderItems.some(item => item.productName.trim() !== '');
   };
 
+  // Only rows with a picked product have a price to show
+  const priceBreakdown = getBreakdown(orderItems.filter(isOrderableItem).map(toPricedItem), selectedAddress?.state);
+
   return (
     <View style={styles.container}>
       <StatusBar backgroundColor="#09A84E" barStyle="light-content" />
@@ -482,6 +573,15 @@ const OrderNowScreen = () => {
                 </TouchableOpacity>
               </View>
             </View>
+
+            {/* The quantity in the product's own unit when another unit was typed */}
+            {isConvertedItem(item) && (
+              <Text style={styles.conversionText}>
+                {getSellingQuantity(item) !== null
+                  ? `= ${formatQuantity(getSellingQuantity(item)!, item.unitOfMeasure)}`
+                  : `${translate('Sold per')} ${getUnitSymbol(item.unitOfMeasure)}`}
+              </Text>
+            )}
             
             {/* Product Suggestions */}
             {showSuggestions && activeInputId === item.id && filteredProducts.length > 0 && (
@@ -494,7 +594,7 @@ const OrderNowScreen = () => {
                       onPress={() => selectProduct(product, item.id)}
                     >
                       <Text style={styles.suggestionText}>{product.name}</Text>
-                      <Text style={styles.suggestionPrice}>₹{product.price} / {product.unit || 'kg'}</Text>
+                      <Text style={styles.suggestionPrice}>₹{product.price} / {getUnitSymbol(product.unit) || 'kg'}</Text>
                     </TouchableOpacity>
                   ))}
                 </View>
@@ -510,6 +610,47 @@ const OrderNowScreen = () => {
           <Text style={styles.addButtonText}>{translate('Add More Products')}</Text>
         </TouchableOpacity>
 
+        {priceBreakdown.subtotal > 0 && (
+          <View style={styles.priceSummary}>
+            <View style={styles.priceRow}>
+              <Text style={styles.priceLabel}>{translate('Subtotal:')}</Text>
+              <Text style={styles.priceValue}>₹{priceBreakdown.subtotal.toFixed(2)}</Text>
+            </View>
+            {priceBreakdown.tax.interState ? (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{translate('IGST:')}</Text>
+                <Text style={styles.priceValue}>₹{priceBreakdown.tax.igst.toFixed(2)}</Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.priceRow}>
+                  <Text style={styles.priceLabel}>{translate('CGST:')}</Text>
+                  <Text style={styles.priceValue}>₹{priceBreakdown.tax.cgst.toFixed(2)}</Text>
+                </View>
+                <View style={styles.priceRow}>
+                  <Text style={styles.priceLabel}>{translate('SGST:')}</Text>
+                  <Text style={styles.priceValue}>₹{priceBreakdown.tax.sgst.toFixed(2)}</Text>
+                </View>
+              </>
+            )}
+            <View style={styles.priceRow}>
+              <Text style={styles.priceLabel}>{translate('Delivery:')}</Text>
+              <Text style={styles.priceValue}>
+                {priceBreakdown.deliveryCharge > 0 ? `₹${priceBreakdown.deliveryCharge.toFixed(2)}` : translate('Free')}
+              </Text>
+            </View>
+            {priceBreakdown.amountForFreeDelivery !== undefined && (
+              <Text style={styles.freeDeliveryHint}>
+                {translate('Add')} ₹{priceBreakdown.amountForFreeDelivery.toFixed(2)} {translate('more for free delivery')}
+              </Text>
+            )}
+            <View style={styles.priceRow}>
+              <Text style={styles.totalLabel}>{translate('Total:')}</Text>
+              <Text style={styles.totalValue}>₹{priceBreakdown.total.toFixed(2)}</Text>
+            </View>
+          </View>
+        )}
+
         <TouchableOpacity 
           style={[styles.submitButton, { backgroundColor: isProductNamePresent() ? '#09A84E' : 'grey' }]}
           onPress={handleSubmitOrder}
@@ -689,6 +830,13 @@ const styles = StyleSheet.create({
     color: '#09A84E',
     fontWeight: '500',
   },
+  conversionText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: -4,
+    marginBottom: 6,
+    marginLeft: 40,
+  },
   
   addButton: {
     flexDirection: 'row',
@@ -711,6 +859,40 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginLeft: 8,
   },
+  priceSummary: {
+    marginHorizontal: 20,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderColor: '#eee',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  priceLabel: {
+    fontSize: 14,
+    color: '#777',
+  },
+  priceValue: {
+    fontSize: 14,
+    color: '#333',
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#09A84E',
+  },
+  freeDeliveryHint: {
+    fontSize: 13,
+    color: '#09A84E',
+    marginBottom: 6,
+  },
   submitButton: {
     paddingVertical: 15,
     paddingHorizontal: 30,
@@ -19,6 +19,9 @@ import { RootStackParamList, HomeTabsParamList } from '../navigation/navigation.
 import * as ImagePicker from 'react-native-image-picker';
 import { useLanguage } from '../context/LanguageContext';
 import userService from '../services/userService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('user');
 
 type ProfileScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'HomeTabs'>;
 type ProfileScreenRouteProp = RouteProp<HomeTabsParamList, 'Profile'>;
@@ -42,12 +45,12 @@ const ProfileScreen = () => {
   const [currentUserPhone, setCurrentUserPhone] = useState(userPhone || '');
   
   // Log the profile image received from navigation params
-  console.log('ProfileScreen received profile image:', initialProfileImage);
+  log.debug('ProfileScreen received profile image:', initialProfileImage);
   
   // Update profile image when route params change
   useEffect(() => {
     if (initialProfileImage) {
-      console.log('Updating profile image from route params:', initialProfileImage);
+      log.debug('Updating profile image from route params:', initialProfileImage);
       setProfileImage(initialProfileImage);
     }
   }, [initialProfileImage]);
@@ -57,10 +60,10 @@ const ProfileScreen = () => {
     React.useCallback(() => {
       const refreshUserData = async () => {
         try {
-          console.log('🔄 ProfileScreen gained focus - refreshing user data');
+          log.debug('🔄 ProfileScreen gained focus - refreshing user data');
           const userData = await userService.getUser();
           if (userData) {
-            console.log('✅ Refreshed user data:', userData);
+            log.debug('✅ Refreshed user data:', userData);
             setCurrentUserName(userData.name || userName || '');
             setCurrentUserPhone(userData.phoneNumber || userPhone || '');
             // Update the display variables as well
@@ -71,7 +74,7 @@ const ProfileScreen = () => {
             }
           }
         } catch (error) {
-          console.error('Error refreshing user data:', error);
+          log.error('Error refreshing user data:', error);
         }
       };
       
@@ -99,7 +102,7 @@ const ProfileScreen = () => {
           }
         }
       } catch (error) {
-        console.error('Error loading user data:', error);
+        log.error('Error loading user data:', error);
       }
     };
     
@@ -129,7 +132,7 @@ const ProfileScreen = () => {
           setPhone(formattedNumber);
         }
       }).catch(err => {
-        console.error('Error getting user data:', err);
+        log.error('Error getting user data:', err);
       });
       
       return '+91 9123456789'; // Return default instead of showing token
@@ -145,6 +148,24 @@ const ProfileScreen = () => {
   
   const [phone, setPhone] = useState(formatPhoneNumber(currentUserPhone));
 
+  // Archives the cart and addresses for the next login on this phone, or
+  // wipes them when the phone is shared with other customers
+  const logout = async (wipeLocalData: boolean) => {
+    try {
+      // Clear authentication data
+      await userService.clearUserData({ wipeLocalData });
+      
+      // Navigate back to splash/onboarding
+      navigation.reset({
+        index: 0,
+        routes: [{ name: 'Splash' }],
+      });
+    } catch (error) {
+      log.error('Error during logout:', error);
+      Alert.alert('Error', 'Failed to logout. Please try again.');
+    }
+  };
+
   const options: Array<{
     id: string;
     label: string;
@@ -201,23 +222,14 @@ const ProfileScreen = () => {
               text: translate('Cancel'),
               style: 'cancel',
             },
+            {
+              text: translate('Logout and clear data'),
+              style: 'destructive',
+              onPress: () => logout(true),
+            },
             {
               text: translate('Logout'),
-              onPress: async () => {
-                try {
-                  // Clear authentication data
-                  await userService.clearUserData();
-                  
-                  // Navigate back to splash/onboarding
-                  navigation.reset({
-                    index: 0,
-                    routes: [{ name: 'Splash' }],
-                  });
-                } catch (error) {
-                  console.error('Error during logout:', error);
-                  Alert.alert('Error', 'Failed to logout. Please try again.');
-                }
-              },
+              onPress: () => logout(false),
             },
           ]
         );
@@ -275,7 +287,7 @@ const ProfileScreen = () => {
           <TouchableOpacity 
             style={styles.editButton} 
             onPress={() => {
-              console.log('Navigating to EditProfile with image:', profileImage);
+              log.debug('Navigating to EditProfile with image:', profileImage);
               navigation.navigate('EditProfile', {
                 userName: name,
                 userPhone: phone,
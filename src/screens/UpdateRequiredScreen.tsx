@@ -0,0 +1,91 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, StatusBar, BackHandler, Linking } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useLanguage } from '../context/LanguageContext';
+import { useAppVersion } from '../hooks/useAppVersion';
+
+// Blocking screen for versions the server no longer supports; there is no way back into the app
+const UpdateRequiredScreen = () => {
+  const { translate } = useLanguage();
+  const { currentVersion, minimumVersion, updateUrl, releaseNotes } = useAppVersion();
+
+  // The hardware back button must not return to the app
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => true);
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar backgroundColor="#ffffff" barStyle="dark-content" />
+      <Icon name="system-update" size={72} color="#09A84E" />
+      <Text style={styles.title}>{translate('Update required')}</Text>
+      <Text style={styles.message}>
+        {translate('This version of AgriMart is no longer supported. Please update the app to continue.')}
+      </Text>
+      <Text style={styles.versions}>
+        {translate('Installed version')}: {currentVersion}
+        {minimumVersion ? `  •  ${translate('Required version')}: ${minimumVersion}` : ''}
+      </Text>
+      {releaseNotes && <Text style={styles.releaseNotes}>{releaseNotes}</Text>}
+      {updateUrl ? (
+        <TouchableOpacity style={styles.updateButton} onPress={() => Linking.openURL(updateUrl)}>
+          <Text style={styles.updateButtonText}>{translate('Update now')}</Text>
+        </TouchableOpacity>
+      ) : (
+        <Text style={styles.message}>{translate('Please install the latest version from your app store.')}</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    fontFamily: 'Montserrat',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 15,
+    color: '#555',
+    textAlign: 'center',
+    fontFamily: 'Montserrat',
+    marginBottom: 12,
+  },
+  versions: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 12,
+  },
+  releaseNotes: {
+    fontSize: 13,
+    color: '#555',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  updateButton: {
+    backgroundColor: '#09A84E',
+    paddingVertical: 14,
+    paddingHorizontal: 40,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  updateButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    fontFamily: 'Montserrat',
+  },
+});
+
+export default UpdateRequiredScreen;
@@ -18,7 +18,12 @@ import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { CompositeNavigationProp } from '@react-navigation/native';
 import { RootStackParamList, AdminTabsParamList } from '../../navigation/navigation.types';
 import { useLanguage, Language } from '../../context/LanguageContext';
+import { useAppConfig } from '../../context/AppConfigContext';
+import UpdateBanner from '../../components/UpdateBanner';
 import adminUtils from '../../services/adminUtils';
+import { createLogger } from '../../services/logger';
+
+const log = createLogger('admin');
 
 type AdminHomeScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<AdminTabsParamList, 'AdminHome'>,
@@ -28,6 +33,7 @@ type AdminHomeScreenRouteProp = RouteProp<AdminTabsParamList, 'AdminHome'>;
 
 const AdminHomeScreen = () => {
   const { language, setLanguage, translate } = useLanguage();
+  const { config: appConfig } = useAppConfig();
   const navigation = useNavigation<AdminHomeScreenNavigationProp>();
   const route = useRoute<AdminHomeScreenRouteProp>();
   const { userName = '', userPhone = '', designation = 'Manager', profileImage } = route.params || {};
@@ -78,7 +84,7 @@ const AdminHomeScreen = () => {
         setAllOrdersCount(data.orderStats.totalOrders || 0);
       }
     } catch (error) {
-      console.error('Error fetching dashboard data:', error);
+      log.error('Error fetching dashboard data:', error);
     } finally {
       setDashboardLoading(false);
     }
@@ -89,11 +95,16 @@ const AdminHomeScreen = () => {
     source: any;
   };
 
-  const [originalImages, setOriginalImages] = useState<BannerImage[]>([
-    { id: 1, source: require('../../../assets/banner1.png') },
-    { id: 2, source: require('../../../assets/banner2.png') },
-    { id: 3, source: require('../../../assets/banner3.png') },
-  ]);
+  // Banners come from the app config; the bundled ones are shown until it lists any
+  const originalImages = useMemo<BannerImage[]>(() => (
+    appConfig.bannerImages.length > 0
+      ? appConfig.bannerImages.map(url => ({ id: url, source: { uri: url } }))
+      : [
+          { id: 1, source: require('../../../assets/banner1.png') },
+          { id: 2, source: require('../../../assets/banner2.png') },
+          { id: 3, source: require('../../../assets/banner3.png') },
+        ]
+  ), [appConfig.bannerImages]);
 
   const swiperImages = useMemo(() => {
     if (originalImages.length === 0) return [];
@@ -123,7 +134,7 @@ const AdminHomeScreen = () => {
   };
 
   const handleProcessingOrdersPress = () => {
-    console.log('🎯 Navigating to AdminOrders with selectedTab: processing');
+    log.debug('🎯 Navigating to AdminOrders with selectedTab: processing');
     navigation.navigate('AdminOrders', {
       userName,
       userPhone,
@@ -134,7 +145,7 @@ const AdminHomeScreen = () => {
   };
 
   const handleNewOrdersPress = () => {
-    console.log('🎯 Navigating to AdminOrders with selectedTab: all');
+    log.debug('🎯 Navigating to AdminOrders with selectedTab: all');
     navigation.navigate('AdminOrders', {
       userName,
       userPhone,
@@ -163,7 +174,7 @@ const AdminHomeScreen = () => {
       setProcessingOrdersCount(5);
       setAllOrdersCount(8);
     } catch (error) {
-      console.error('Error fetching order counts:', error);
+      log.error('Error fetching order counts:', error);
       // Set default values on error
       setProcessingOrdersCount(0);
       setAllOrdersCount(0);
@@ -183,7 +194,7 @@ const AdminHomeScreen = () => {
         setWeatherData(data);
       }
     } catch (error) {
-      console.error('Error fetching weather data:', error);
+      log.error('Error fetching weather data:', error);
     } finally {
       setWeatherLoading(false);
     }
@@ -272,6 +283,8 @@ const AdminHomeScreen = () => {
         </TouchableOpacity>
       </View>
 
+      <UpdateBanner />
+
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollViewContent}
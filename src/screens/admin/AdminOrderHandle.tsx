@@ -20,6 +20,10 @@ import { RootStackParamList, AdminTabsParamList } from '../../navigation/navigat
 import { useLanguage } from '../../context/LanguageContext';
 import apiService from '../../services/apiService';
 import { OrderStatusStorage } from '../../utils/orderStatusStorage';
+import { formatTaxRate } from '../../services/taxService';
+import { createLogger } from '../../services/logger';
+
+const log = createLogger('admin');
 
 type AdminOrderHandleNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AdminOrderHandle'>;
 type AdminOrderHandleRouteProp = RouteProp<RootStackParamList, 'AdminOrderHandle'>;
@@ -83,7 +87,7 @@ const AdminOrderHandle = () => {
         const effectiveStatus = savedStatus || orderData.status || 'Shipped';
         setCurrentStatus(effectiveStatus);
         setSelectedStatus(effectiveStatus);
-        console.log(`📦 Loaded status for order ${orderData.id}: ${effectiveStatus}`);
+        log.debug(`📦 Loaded status for order ${orderData.id}: ${effectiveStatus}`);
       }
     }
     loadSavedStatus();
@@ -125,7 +129,7 @@ const AdminOrderHandle = () => {
             }
           }
         } catch (error) {
-          console.error('Error fetching address:', error);
+          log.error('Error fetching address:', error);
         }
       }
       if (orderData && orderData.userId) {
@@ -204,6 +208,13 @@ const AdminOrderHandle = () => {
                 <View style={styles.productDetails}>
                   <Text style={styles.productName}>{item.productName || 'Product'}</Text>
                   <Text style={styles.productQuantity}>Qty-{item.quantity}</Text>
+                  {typeof item.taxRate === 'number' && (
+                    <Text style={styles.productTax}>
+                      {item.hsnCode ? `HSN ${item.hsnCode} · ` : ''}
+                      {item.taxRate > 0 ? `${translate('GST')} ${formatTaxRate(item.taxRate)}` : translate('GST exempt')}
+                      {item.taxAmount ? `: ₹${item.taxAmount.toFixed(2)}` : ''}
+                    </Text>
+                  )}
                 </View>
                 <Text style={styles.productPrice}>₹{item.price}</Text>
               </View>
@@ -212,6 +223,44 @@ const AdminOrderHandle = () => {
 
           </View>
 
+          {/* Price breakdown, on orders placed with one */}
+          {typeof orderData?.subtotalAmount === 'number' && (
+            <View style={styles.priceBreakdownBox}>
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{translate('Subtotal:')}</Text>
+                <Text style={styles.priceValue}>₹{orderData.subtotalAmount.toFixed(2)}</Text>
+              </View>
+              {orderData.igstAmount > 0 ? (
+                <View style={styles.priceRow}>
+                  <Text style={styles.priceLabel}>{translate('IGST:')}</Text>
+                  <Text style={styles.priceValue}>₹{orderData.igstAmount.toFixed(2)}</Text>
+                </View>
+              ) : typeof orderData.cgstAmount === 'number' ? (
+                <>
+                  <View style={styles.priceRow}>
+                    <Text style={styles.priceLabel}>{translate('CGST:')}</Text>
+                    <Text style={styles.priceValue}>₹{orderData.cgstAmount.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.priceRow}>
+                    <Text style={styles.priceLabel}>{translate('SGST:')}</Text>
+                    <Text style={styles.priceValue}>₹{(orderData.sgstAmount || 0).toFixed(2)}</Text>
+                  </View>
+                </>
+              ) : (
+                <View style={styles.priceRow}>
+                  <Text style={styles.priceLabel}>{translate('GST:')}</Text>
+                  <Text style={styles.priceValue}>₹{(orderData.gstAmount || 0).toFixed(2)}</Text>
+                </View>
+              )}
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{translate('Delivery:')}</Text>
+                <Text style={styles.priceValue}>
+                  {orderData.deliveryCharge > 0 ? `₹${orderData.deliveryCharge.toFixed(2)}` : translate('Free')}
+                </Text>
+              </View>
+            </View>
+          )}
+
           {/* Total Cost Box */}
           <View style={styles.totalCostBox}>
             <Text style={styles.totalLabel}>Total</Text>
@@ -530,6 +579,34 @@ const styles = StyleSheet.create({
     color: '#333',
     fontFamily: 'Montserrat',
   },
+  productTax: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+    fontFamily: 'Montserrat',
+  },
+  priceBreakdownBox: {
+    backgroundColor: '#fff',
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderTopWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  priceLabel: {
+    fontSize: 14,
+    color: '#666',
+    fontFamily: 'Montserrat',
+  },
+  priceValue: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'Montserrat',
+  },
   totalCostBox: {
     backgroundColor: '#f0f0f0',
     padding: 16,
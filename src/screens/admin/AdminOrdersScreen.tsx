@@ -6,12 +6,15 @@ import {
   StatusBar, 
   TouchableOpacity, 
   Image, 
-  ScrollView, 
+  FlatList, 
+  ActivityIndicator, 
   Platform,
-  TextInput 
+  TextInput,
+  Alert,
+  Share
 } from 'react-native';
 import Icon from 'react-native-vector-icons/FontAwesome';
-import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { CompositeNavigationProp } from '@react-navigation/native';
@@ -19,8 +22,15 @@ import { RootStackParamList, AdminTabsParamList } from '../../navigation/navigat
 import { useLanguage } from '../../context/LanguageContext';
 import { adminApi, AdminOrder } from '../../services/adminApiService';
 import apiService from '../../services/apiService';
+import adminUtils from '../../services/adminUtils';
 import { ORDER_STATUS, getOrderStatusName } from '../../constants/orderStatus';
 import { OrderStatusStorage } from '../../utils/orderStatusStorage';
+import { useAbortOnBlur } from '../../hooks/useAbortOnBlur';
+import { usePaginatedQuery } from '../../hooks/usePaginatedQuery';
+import { API_ENDPOINTS } from '../../services/apiEndpoints';
+import { createLogger } from '../../services/logger';
+
+const log = createLogger('admin');
 
 type AdminOrdersScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<AdminTabsParamList, 'AdminOrders'>,
@@ -35,8 +45,8 @@ const AdminOrdersScreen = () => {
   const { userName = '', userPhone = '', designation = 'Manager', profileImage, selectedTab: initialTab = 'all' } = route.params || {};
   
   // Debug: Log the initial tab received from navigation
-  console.log('🎯 AdminOrdersScreen received initialTab:', initialTab);
-  console.log('🎯 Route params:', route.params);
+  log.debug('🎯 AdminOrdersScreen received initialTab:', initialTab);
+  log.debug('🎯 Route params:', route.params);
   
   // State for selected tab
   const [selectedTab, setSelectedTab] = useState<'all' | 'processing' | 'new'>(initialTab);
@@ -44,37 +54,28 @@ const AdminOrdersScreen = () => {
   // IMPORTANT: Update selectedTab when route params change
   // This handles the case where the screen is reused instead of remounted
   useEffect(() => {
-    console.log('🎯 Route params changed, updating selectedTab from:', selectedTab, 'to:', initialTab);
+    log.debug(`🎯 Route params changed, updating selectedTab from: ${selectedTab} to: ${initialTab}`);
     setSelectedTab(initialTab);
   }, [initialTab]);
   
   // State for search
   const [searchQuery, setSearchQuery] = useState('');
   
-  // State for orders from API
-  const [orders, setOrders] = useState<AdminOrder[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  // Load orders from API
-  useEffect(() => {
-    const loadOrders = async () => {
-      try {
-        setLoading(true);
-        const result = await adminApi.orders.getAllOrders();
-        if (result.success && result.data) {
-          setOrders(result.data);
-        } else {
-          console.error('Failed to load orders:', result.error);
-        }
-      } catch (error) {
-        console.error('Error loading orders:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    loadOrders();
-  }, []);
+  // Orders from API, newest first, a page at a time; the loaded pages are reloaded whenever the screen gains focus
+  const {
+    items: orders,
+    isLoading: loading,
+    isLoadingMore,
+    listProps,
+  } = usePaginatedQuery<AdminOrder>({
+    queryKey: API_ENDPOINTS.ADMIN.ORDERS.GET_ALL_ORDERS,
+    fetchPage: adminApi.orders.getOrdersPage,
+    getItemKey: order => order.id,
+    reloadOnFocus: true,
+  });
+  
+  // Requests still running when the screen loses focus are cancelled
+  const { getSignal } = useAbortOnBlur();
   
   // Show status bar when AdminOrdersScreen mounts
   useEffect(() => {
@@ -155,10 +156,11 @@ const AdminOrdersScreen = () => {
       // Only fetch if not already in userProfiles and not previously failed
       const missingUserIds = userIds.filter(id => !(id in userProfiles) && !failedUserIds.has(id));
       if (missingUserIds.length === 0) return;
+      const signal = getSignal();
       const profileResults = await Promise.all(
         missingUserIds.map(async (userId) => {
           try {
-            const resp = await apiService.userProfile.getById(userId);
+            const resp = await apiService.userProfile.getById(userId, signal);
             if (resp.success && resp.data) {
               return { userId, profile: { name: resp.data.name, phoneNumber: resp.data.phoneNumber }, failed: false };
             } else {
@@ -169,6 +171,10 @@ const AdminOrdersScreen = () => {
           }
         })
       );
+      if (signal.aborted) {
+        // Cancelled lookups are not failures; they are retried on the next focus
+        return;
+      }
       const newProfiles: { [userId: string]: { name?: string; phoneNumber?: string } | null } = {};
       const newFailed = new Set<string>();
       profileResults.forEach(({ userId, profile, failed }) => {
@@ -184,25 +190,28 @@ const AdminOrdersScreen = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filteredOrders]);
 
-  // Fetch all addresses in bulk on mount
-  useEffect(() => {
-    async function fetchAddresses() {
-      const resp = await apiService.address.getAll(1, 1000); // adjust pageSize as needed
-      if (resp.success && resp.data) {
-        const map: { [addressId: string]: { street?: string; city?: string; state?: string; zipCode?: string } } = {};
-        resp.data.forEach(addr => {
-          map[String(addr.addressId)] = {
-            street: addr.street,
-            city: addr.city,
-            state: addr.state,
-            zipCode: addr.zipCode
-          };
-        });
-        setAddressMap(map);
+  // Fetch all addresses in bulk when the screen gains focus
+  useFocusEffect(
+    React.useCallback(() => {
+      const signal = getSignal();
+      async function fetchAddresses() {
+        const resp = await apiService.address.getAll(1, 1000, signal); // adjust pageSize as needed
+        if (resp.success && resp.data) {
+          const map: { [addressId: string]: { street?: string; city?: string; state?: string; zipCode?: string } } = {};
+          resp.data.forEach(addr => {
+            map[String(addr.addressId)] = {
+              street: addr.street,
+              city: addr.city,
+              state: addr.state,
+              zipCode: addr.zipCode
+            };
+          });
+          setAddressMap(map);
+        }
       }
-    }
-    fetchAddresses();
-  }, []);
+      fetchAddresses();
+    }, [getSignal])
+  );
 
   const handleGoToAdminHome = () => {
     navigation.navigate('AdminHome', {
@@ -213,6 +222,17 @@ const AdminOrdersScreen = () => {
     });
   };
 
+  // Shares every order line with its GST, for filing GST returns
+  const handleExportTax = async () => {
+    try {
+      const csv = await adminUtils.exportOrderTaxToCSV();
+      await Share.share({ title: 'AgriMart GST report', message: csv });
+    } catch (error) {
+      log.error('GST export failed:', error);
+      Alert.alert('Error', 'Failed to export the GST report');
+    }
+  };
+
   const handleOrderPress = (order: AdminOrder) => {
     navigation.navigate('AdminOrderHandle', {
       userName,
@@ -317,127 +337,137 @@ const AdminOrdersScreen = () => {
           <Icon name="arrow-left" size={24} color="white" />
         </TouchableOpacity>
         <Text style={styles.headerText}>{translate('Orders')}</Text>
+        <TouchableOpacity onPress={handleExportTax} style={styles.exportButton}>
+          <Icon name="download" size={20} color="white" />
+        </TouchableOpacity>
       </View>
 
-      <ScrollView 
+      <FlatList
         style={styles.scrollView}
-        contentContainerStyle={styles.scrollViewContent}
+        contentContainerStyle={[styles.scrollViewContent, styles.contentContainer]}
         showsVerticalScrollIndicator={false}
-      >
-        <View style={styles.contentContainer}>
-          {/* Tab Selector */}
-          <View style={styles.tabContainer}>
-            <TouchableOpacity 
-              style={[
-                styles.tabButton, 
-                selectedTab === 'all' && styles.selectedTabButton
-              ]}
-              onPress={() => handleTabPress('all')}
-            >
-              <Text style={[
-                styles.tabText,
-                selectedTab === 'all' && styles.selectedTabText
-              ]}>
-                {translate('All')}
-              </Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity 
-              style={[
-                styles.tabButton, 
-                selectedTab === 'processing' && styles.selectedTabButton
-              ]}
-              onPress={() => handleTabPress('processing')}
-            >
-              <Text style={[
-                styles.tabText,
-                selectedTab === 'processing' && styles.selectedTabText
-              ]}>
-                {translate('Processing')}
-              </Text>
-            </TouchableOpacity>
+        data={filteredOrders}
+        keyExtractor={(order, index) => `${order.id}-${index}`}
+        {...listProps}
+        ListHeaderComponent={
+          <>
+            {/* Tab Selector */}
+            <View style={styles.tabContainer}>
+              <TouchableOpacity 
+                style={[
+                  styles.tabButton, 
+                  selectedTab === 'all' && styles.selectedTabButton
+                ]}
+                onPress={() => handleTabPress('all')}
+              >
+                <Text style={[
+                  styles.tabText,
+                  selectedTab === 'all' && styles.selectedTabText
+                ]}>
+                  {translate('All')}
+                </Text>
+              </TouchableOpacity>
             
-          {/* New tab removed - only keeping All and Processing */}
-          </View>
-          
-          {/* Search Bar */}
-          <View style={styles.searchContainer}>
-            <View style={styles.searchInputContainer}>
-              <Icon name="search" size={16} color="#666" style={styles.searchIcon} />
-              <TextInput
-                style={styles.searchInput}
-                placeholder={translate('Search by product name...')}
-                placeholderTextColor="#999"
-                value={searchQuery}
-                onChangeText={handleSearch}
-                returnKeyType="search"
-              />
-              {searchQuery.length > 0 && (
-                <TouchableOpacity onPress={clearSearch} style={styles.clearButton}>
-                  <Icon name="times" size={16} color="#666" />
-                </TouchableOpacity>
-              )}
-            </View>
-          </View>
-          
-          {/* Orders List */}
-          {filteredOrders.length > 0 ? (
-            filteredOrders.map((order, index) => (
               <TouchableOpacity 
-                key={`${order.id}-${index}`}
                 style={[
-                  styles.orderCard,
-                  { borderColor: getBorderColor(order.effectiveStatus) }
+                  styles.tabButton, 
+                  selectedTab === 'processing' && styles.selectedTabButton
                 ]}
-                onPress={() => handleOrderPress(order)}
-                activeOpacity={0.7}
+                onPress={() => handleTabPress('processing')}
               >
-                {/* Order ID and Cost */}
-               <View style={styles.orderHeader}>
-  <Text style={styles.orderId}>
-    Order ID: {order.id ? `${order.id.substring(0, 8)}...` : 'N/A'}
-  </Text>
-  <Text style={[styles.orderCost, { color: getCostColor(order.effectiveStatus) }]}>
-    ₹{order.totalAmount || 0}
-  </Text>
-</View>
+                <Text style={[
+                  styles.tabText,
+                  selectedTab === 'processing' && styles.selectedTabText
+                ]}>
+                  {translate('Processing')}
+                </Text>
+              </TouchableOpacity>
+            
+            {/* New tab removed - only keeping All and Processing */}
+            </View>
+          
+            {/* Search Bar */}
+            <View style={styles.searchContainer}>
+              <View style={styles.searchInputContainer}>
+                <Icon name="search" size={16} color="#666" style={styles.searchIcon} />
+                <TextInput
+                  style={styles.searchInput}
+                  placeholder={translate('Search by product name...')}
+                  placeholderTextColor="#999"
+                  value={searchQuery}
+                  onChangeText={handleSearch}
+                  returnKeyType="search"
+                />
+                {searchQuery.length > 0 && (
+                  <TouchableOpacity onPress={clearSearch} style={styles.clearButton}>
+                    <Icon name="times" size={16} color="#666" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          </>
+        }
+        renderItem={({ item: order }) => (
+          <TouchableOpacity 
+            style={[
+              styles.orderCard,
+              { borderColor: getBorderColor(order.effectiveStatus) }
+            ]}
+            onPress={() => handleOrderPress(order)}
+            activeOpacity={0.7}
+          >
+            {/* Order ID and Cost */}
+            <View style={styles.orderHeader}>
+              <Text style={styles.orderId}>
+                Order ID: {order.id ? `${order.id.substring(0, 8)}...` : 'N/A'}
+              </Text>
+              <Text style={[styles.orderCost, { color: getCostColor(order.effectiveStatus) }]}>
+                ₹{order.totalAmount || 0}
+              </Text>
+            </View>
 
-                {/* Product Images */}
-                {renderProductImages(order.orderItems || [])}
-                
-                {/* Order Items Info */}
-                <View style={styles.orderItemsContainer}>
-                  <Text style={styles.orderItemsText}>
-                    {order.orderItems ? `${order.orderItems.length} items` : 'Order items'}
-                  </Text>
-                  <Text style={styles.orderDateText}>
-                    {new Date(order.orderDate).toLocaleDateString()}
-                  </Text>
+            {/* Product Images */}
+            {renderProductImages(order.orderItems || [])}
+            
+            {/* Order Items Info */}
+            <View style={styles.orderItemsContainer}>
+              <Text style={styles.orderItemsText}>
+                {order.orderItems ? `${order.orderItems.length} items` : 'Order items'}
+              </Text>
+              <Text style={styles.orderDateText}>
+                {new Date(order.orderDate).toLocaleDateString()}
+              </Text>
+            </View>
+            {/* Separator Line */}
+            <View style={styles.separator} />
+            {/* User Info */}
+            <View style={styles.userInfoContainer}>
+              <View style={styles.userDetailsContainer}>
+                <View style={styles.nameContainer}>
+                  <Icon name="user" size={12} color="#333" style={styles.nameIcon} />
+                  <Text style={styles.userName}>{userProfiles[order.userId]?.name || 'Customer'}</Text>
                 </View>
-                {/* Separator Line */}
-                <View style={styles.separator} />
-                {/* User Info */}
-                <View style={styles.userInfoContainer}>
-                  <View style={styles.userDetailsContainer}>
-                    <View style={styles.nameContainer}>
-                      <Icon name="user" size={12} color="#333" style={styles.nameIcon} />
-                      <Text style={styles.userName}>{userProfiles[order.userId]?.name || 'Customer'}</Text>
-                    </View>
-                    <View style={styles.phoneContainer}>
-                      <Icon name="phone" size={12} color="#333" style={styles.phoneIcon} />
-                      <Text style={styles.phoneText}>{userProfiles[order.userId]?.phoneNumber || 'N/A'}</Text>
-                    </View>
-                  </View>
-                  {/* <View style={styles.statusContainer}>
-                    <Text style={styles.statusText}>
-                      {addressMap[String(order.shippingAddressId)]
-                        ? `${addressMap[String(order.shippingAddressId)].street || ''}, ${addressMap[String(order.shippingAddressId)].city || ''}, ${addressMap[String(order.shippingAddressId)].state || ''}, ${addressMap[String(order.shippingAddressId)].zipCode || ''}`
-                        : 'Loading address...'}
-                    </Text>
-                  </View> */}e
+                <View style={styles.phoneContainer}>
+                  <Icon name="phone" size={12} color="#333" style={styles.phoneIcon} />
+                  <Text style={styles.phoneText}>{userProfiles[order.userId]?.phoneNumber || 'N/A'}</Text>
                 </View>
-              </TouchableOpacity>
-            ))
+              </View>
+              {/* <View style={styles.statusContainer}>
+                <Text style={styles.statusText}>
+                  {addressMap[String(order.shippingAddressId)]
+                    ? `${addressMap[String(order.shippingAddressId)].street || ''}, ${addressMap[String(order.shippingAddressId)].city || ''}, ${addressMap[String(order.shippingAddressId)].state || ''}, ${addressMap[String(order.shippingAddressId)].zipCode || ''}`
+                    : 'Loading address...'}
+                </Text>
+              </View> */}
+            </View>
+          </TouchableOpacity>
+        )}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator style={styles.listFooter} color="#09A84E" /> : null
+        }
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={styles.listFooter} size="large" color="#09A84E" />
           ) : (
             <View style={styles.emptyState}>
               <Icon name="shopping-cart" size={50} color="#ccc" />
@@ -446,9 +476,9 @@ const AdminOrdersScreen = () => {
                 {translate('Orders placed by customers will appear here')}
               </Text>
             </View>
-          )}
-        </View>
-      </ScrollView>
+          )
+        }
+      />
     </View>
   );
 };
@@ -475,6 +505,7 @@ const styles = StyleSheet.create({
   },
   backButton: { marginRight: 10 },
   headerText: { color: '#fff', fontSize: 20, fontWeight: 'bold' },
+  exportButton: { marginLeft: 'auto', paddingHorizontal: 5 },
   scrollView: { flex: 1, marginTop: 88 },
   scrollViewContent: { 
     flexGrow: 1 
@@ -707,6 +738,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontFamily: 'Montserrat',
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
   emptyState: { 
     flex: 1, 
     justifyContent: 'center', 
@@ -5,33 +5,31 @@ import {
   StyleSheet, 
   StatusBar, 
   TouchableOpacity, 
-  Image, 
   ScrollView, 
   Platform,
   TextInput,
-  Alert,
-  PermissionsAndroid
+  Alert
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { launchImageLibrary, ImagePickerResponse, MediaType, PhotoQuality } from 'react-native-image-picker';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../navigation/navigation.types';
 import { useLanguage } from '../../context/LanguageContext';
 import { adminApi, AdminProduct, AdminCategory } from '../../services/adminApiService';
+import { useImageUpload } from '../../hooks/useImageUpload';
+import ProductImageField from '../../components/ProductImageField';
+import ProductTaxField from '../../components/ProductTaxField';
+import ProductUnitField from '../../components/ProductUnitField';
+import { isValidHsnCode } from '../../services/taxService';
+import { isValidQuantityStep } from '../../utils/quantityLimits';
+import { createLogger } from '../../services/logger';
+
+const log = createLogger('admin');
 
 type AdminProductsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AdminProducts'>;
 type AdminProductsRouteProp = RouteProp<RootStackParamList, 'AdminProducts'>;
 
-const mockUploadImageToServer = async (localUri: string): Promise<string> => {
-  // Simulate uploading and returning a public URL
-  // In real use, replace with actual upload logic (e.g., to S3, Firebase, etc.)
-  return Promise.resolve(
-    'https://your-image-server.com/uploads/' + encodeURIComponent(localUri.split('/').pop() || 'image.jpg')
-  );
-};
-
 const AdminProducts = () => {
   const { language, translate } = useLanguage();
   const navigation = useNavigation<AdminProductsNavigationProp>();
@@ -49,14 +47,19 @@ const AdminProducts = () => {
   const [selectedCategory, setSelectedCategory] = useState('');
   const [productName, setProductName] = useState(productData?.name || '');
   const [price, setPrice] = useState(productData?.price != null ? productData.price.toString() : '');
-  const [weight, setWeight] = useState('');
+  const [unitOfMeasure, setUnitOfMeasure] = useState(productData?.unitOfMeasure || '');
+  const [packSize, setPackSize] = useState(productData?.packSize != null ? productData.packSize.toString() : '');
+  const [packUnit, setPackUnit] = useState<string>(productData?.packUnit || '');
+  const [quantityStep, setQuantityStep] = useState(productData?.quantityStep != null ? productData.quantityStep.toString() : '');
   const [description, setDescription] = useState('');
   const [width, setWidth] = useState('');
   const [height, setHeight] = useState('');
   const [availableQty, setAvailableQty] = useState(productData?.stockQuantity != null ? productData.stockQuantity.toString() : '');
   const [lowStockEnabled, setLowStockEnabled] = useState(false);
+  const [hsnCode, setHsnCode] = useState<string>(productData?.hsnCode || '');
+  const [taxRate, setTaxRate] = useState<number | undefined>(productData?.taxRate ?? undefined);
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
-  const [productImage, setProductImage] = useState(productData?.image || null);
+  const imageUpload = useImageUpload(productData?.imageUrl);
 
   const [categories, setCategories] = useState<AdminCategory[]>([]);
 
@@ -84,11 +87,11 @@ const AdminProducts = () => {
             }
           }
         } else {
-          console.error('Failed to load categories:', result.error);
+          log.error('Failed to load categories:', result.error);
           setCategories([]);
         }
       } catch (error) {
-        console.error('Error loading categories:', error);
+        log.error('Error loading categories:', error);
         setCategories([]);
       }
     };
@@ -112,16 +115,6 @@ const AdminProducts = () => {
         const cleanDescription = desc.replace(/\n\nDimensions:.*$/, '');
         setDescription(cleanDescription);
       }
-      
-      // Set weight from unitOfMeasure if available
-      if (productData.unitOfMeasure) {
-        setWeight(productData.unitOfMeasure);
-      }
-      
-      // Set image if available
-      if (productData.imageUrl) {
-        setProductImage({ uri: productData.imageUrl });
-      }
     }
   }, [productData]);
 
@@ -148,7 +141,7 @@ const AdminProducts = () => {
 
   const handleSaveProduct = async () => {
     // Debug logging
-    console.log('🔍 PRODUCT SAVE DEBUG:', {
+    log.debug('🔍 PRODUCT SAVE DEBUG:', {
       productId: productId,
       productIdType: typeof productId,
       isNumeric: !isNaN(parseInt(productId)),
@@ -161,6 +154,22 @@ const AdminProducts = () => {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
+    if (hsnCode.trim() && !isValidHsnCode(hsnCode)) {
+      Alert.alert('Error', 'The HSN code must have 4, 6 or 8 digits');
+      return;
+    }
+    if (packSize.trim() && !(parseFloat(packSize) > 0 && packUnit)) {
+      Alert.alert('Error', 'The pack size must be more than 0 and have a unit');
+      return;
+    }
+    if (quantityStep.trim() && !isValidQuantityStep(Number(quantityStep))) {
+      Alert.alert('Error', 'The quantity step must be a whole number of 1 or more');
+      return;
+    }
+    if (imageUpload.status === 'uploading') {
+      Alert.alert('Please wait', 'The image is still uploading.');
+      return;
+    }
     
     try {
       // Find the selected category to get its ID
@@ -181,11 +190,17 @@ const AdminProducts = () => {
         name: productName,
         description: finalDescription,
         price: parseFloat(price),
-        stockQuantity: parseInt(availableQty),
+        stockQuantity: parseFloat(availableQty),
         categoryId: selectedCategoryObj.id,
-        unitOfMeasure: weight,
+        unitOfMeasure,
         isActive: true,
-        imageUrl: productImage?.uri || productData?.imageUrl || undefined
+        imageUrl: imageUpload.url || productData?.imageUrl || undefined,
+        // Sent as null when cleared, so the saved values are removed
+        hsnCode: hsnCode.trim() || null,
+        taxRate: taxRate ?? null,
+        packSize: packSize.trim() ? parseFloat(packSize) : null,
+        packUnit: packSize.trim() ? packUnit : null,
+        quantityStep: quantityStep.trim() ? parseFloat(quantityStep) : null
       };
       
       // Add productId to the data when updating
@@ -196,87 +211,31 @@ const AdminProducts = () => {
       let result;
       if (productId && productId !== '') {
         // Update existing product - pass productId as-is (can be string or number)
-        console.log('🔄 Updating product with ID:', productId, 'Type:', typeof productId);
+        log.debug(`🔄 Updating product with ID: ${productId} (${typeof productId})`);
         result = await adminApi.products.update(productId, updatedProductData);
       } else {
         // Create new product (this shouldn't happen in AdminProducts screen)
-        console.log('🆕 Creating new product');
+        log.debug('🆕 Creating new product');
         result = await adminApi.products.create(updatedProductData);
       }
       
       if (result.success) {
-        Alert.alert('Success', 'Product saved successfully!');
+        // An image that could not be uploaded yet is sent by the outbox and attached to the product
+        const savedProductId = productId || result.data?.productId;
+        const imageQueued = savedProductId !== undefined && savedProductId !== '' && await imageUpload.queueForProduct(savedProductId);
+        Alert.alert('Success', imageQueued
+          ? 'Product saved successfully! The new image will be added once it has been uploaded.'
+          : 'Product saved successfully!');
         handleGoToAdminInventory();
       } else {
         Alert.alert('Error', result.error || 'Failed to save product');
       }
     } catch (error) {
-      console.error('Error saving product:', error);
+      log.error('Error saving product:', error);
       Alert.alert('Error', 'Failed to save product. Please try again.');
     }
   };
 
-  const requestCameraPermission = async () => {
-    if (Platform.OS === 'android') {
-      try {
-        const granted = await PermissionsAndroid.request(
-          PermissionsAndroid.PERMISSIONS.READ_EXTERNAL_STORAGE,
-          {
-            title: "Storage Permission",
-            message: "App needs access to your storage to select images.",
-            buttonNeutral: "Ask Me Later",
-            buttonNegative: "Cancel",
-            buttonPositive: "OK"
-          }
-        );
-        return granted === PermissionsAndroid.RESULTS.GRANTED;
-      } catch (err) {
-        console.warn(err);
-        return false;
-      }
-    } else {
-      return true;
-    }
-  };
-
-  const handleAddImage = async () => {
-    const hasPermission = await requestCameraPermission();
-    
-    if (!hasPermission) {
-      Alert.alert('Permission Denied', 'Storage permission is required to select images.');
-      return;
-    }
-
-    const options = {
-      mediaType: 'photo' as MediaType,
-      includeBase64: false,
-      maxHeight: 2000,
-      maxWidth: 2000,
-      quality: 0.8 as PhotoQuality,
-    };
-
-    try {
-      const response: ImagePickerResponse = await launchImageLibrary(options);
-      
-      if (response.didCancel) {
-        console.log('User cancelled image picker');
-      } else if (response.errorCode) {
-        Alert.alert('Error', 'Failed to pick image: ' + response.errorMessage);
-      } else if (response.assets && response.assets[0]) {
-        const selectedImage = response.assets[0];
-        if (selectedImage.uri) {
-          // Upload the image and get a public URL
-          const uploadedUrl = await mockUploadImageToServer(selectedImage.uri);
-          setProductImage({ uri: uploadedUrl });
-          Alert.alert('Success', 'Image selected and uploaded successfully!');
-        }
-      }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to open image picker');
-      console.error('Image picker error:', error);
-    }
-  };
-
   return (
     <View style={styles.container}>
       <StatusBar backgroundColor="#09A84E" barStyle="light-content" translucent={false} hidden={false} />
@@ -356,19 +315,17 @@ const AdminProducts = () => {
             </View>
           </View>
 
-          {/* Weight */}
-          <View style={styles.inputContainer}>
-            <View style={styles.weightInputContainer}>
-              <Text style={styles.weightPrefix}>Weight:</Text>
-              <TextInput
-                style={styles.weightInput}
-                value={weight}
-                onChangeText={setWeight}
-                placeholder="Enter weight (grams or kg)"
-                placeholderTextColor="#999"
-              />
-            </View>
-          </View>
+          {/* Unit of Measure */}
+          <ProductUnitField
+            unit={unitOfMeasure}
+            onUnitChange={setUnitOfMeasure}
+            packSize={packSize}
+            onPackSizeChange={setPackSize}
+            packUnit={packUnit}
+            onPackUnitChange={setPackUnit}
+            quantityStep={quantityStep}
+            onQuantityStepChange={setQuantityStep}
+          />
 
           {/* Description */}
           <View style={styles.inputContainer}>
@@ -442,28 +399,20 @@ const AdminProducts = () => {
             <Text style={styles.checkboxText}>Set minimum unit range to notify as low stock</Text>
           </View>
 
+          {/* GST */}
+          <Text style={styles.sectionHeading}>GST</Text>
+          <ProductTaxField
+            hsnCode={hsnCode}
+            onHsnCodeChange={setHsnCode}
+            taxRate={taxRate}
+            onTaxRateChange={setTaxRate}
+          />
+
           {/* Add Media Heading */}
           <Text style={styles.sectionHeading}>Add Media</Text>
 
           {/* Media Upload */}
-          <View style={styles.mediaContainer}>
-            <View style={styles.imageContainer}>
-              {productImage ? (
-                <Image source={productImage} style={styles.uploadedImage} />
-              ) : (
-                <View style={styles.placeholderImage}>
-                  <Icon name="image-outline" size={40} color="#ccc" />
-                </View>
-              )}
-            </View>
-            
-            <TouchableOpacity style={styles.addMoreButton} onPress={handleAddImage}>
-              <View style={styles.addMoreIcon}>
-                <Icon name="add" size={20} color="#000" />
-              </View>
-              <Text style={styles.addMoreText}>Add More</Text>
-            </TouchableOpacity>
-          </View>
+          <ProductImageField upload={imageUpload} />
 
           {/* Save Button */}
           <TouchableOpacity style={styles.saveButton} onPress={handleSaveProduct}>
@@ -650,28 +599,6 @@ const styles = StyleSheet.create({
     color: '#333',
     fontFamily: 'Montserrat',
   },
-  weightInputContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#fff',
-    borderWidth: 1,
-    borderColor: '#ddd',
-    borderRadius: 8,
-    paddingHorizontal: 12,
-  },
-  weightPrefix: {
-    fontSize: 16,
-    color: '#666',
-    marginRight: 8,
-    fontFamily: 'Montserrat',
-  },
-  weightInput: {
-    flex: 1,
-    paddingVertical: 12,
-    fontSize: 16,
-    color: '#333',
-    fontFamily: 'Montserrat',
-  },
   dimensionInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -768,56 +695,6 @@ const styles = StyleSheet.create({
     flex: 1,
     fontFamily: 'Montserrat',
   },
-  mediaContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 10,
-    marginBottom: 30,
-  },
-  imageContainer: {
-    // No flex - just takes the space it needs
-  },
-  uploadedImage: {
-    width: 80,
-    height: 80,
-    borderRadius: 8,
-    backgroundColor: '#f0f0f0',
-  },
-  placeholderImage: {
-    width: 80,
-    height: 80,
-    borderRadius: 8,
-    backgroundColor: '#f0f0f0',
-    alignItems: 'center',
-    justifyContent: 'center',
-    borderWidth: 2,
-    borderColor: '#ddd',
-    borderStyle: 'dashed',
-  },
-  addMoreButton: {
-    width: 80,
-    height: 80,
-    alignItems: 'center',
-    justifyContent: 'center',
-    borderWidth: 1,
-    borderColor: '#000',
-    borderRadius: 8,
-    padding: 8,
-  },
-  addMoreIcon: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-    backgroundColor: '#f0f0f0',
-    alignItems: 'center',
-    justifyContent: 'center',
-    marginBottom: 2,
-  },
-  addMoreText: {
-    fontSize: 14,
-    color: '#000',
-    fontFamily: 'Montserrat',
-  },
   saveButton: {
     backgroundColor: '#09A84E',
     paddingVertical: 16,
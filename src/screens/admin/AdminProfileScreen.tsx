@@ -29,6 +29,9 @@ import userService from '../../services/userService';
 import AdminBottomTabNavigator from '../../navigation/AdminBottomTabNavigator';
 import apiService from '../../services/apiService';
 import { adminUserApi, AdminUserProfile } from '../../services/adminApiService';
+import { createLogger } from '../../services/logger';
+
+const log = createLogger('admin');
 
 type AdminProfileRouteProp = RouteProp<RootStackParamList, 'AdminProfile'>;
 type AdminProfileNavigationProp = CompositeNavigationProp<
@@ -100,7 +103,7 @@ const AdminProfileScreen = () => {
                 routes: [{ name: 'Splash' }],
               });
             } catch (error) {
-              console.error('Error during logout:', error);
+              log.error('Error during logout:', error);
               Alert.alert('Error', 'Failed to logout. Please try again.');
             } finally {
               setLoading(false);
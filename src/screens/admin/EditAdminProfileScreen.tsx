@@ -22,6 +22,9 @@ import { useLanguage } from '../../context/LanguageContext';
 import apiService from '../../services/apiService';
 import userService from '../../services/userService';
 import { adminUserApi, AdminUserProfile } from '../../services/adminApiService';
+import { createLogger } from '../../services/logger';
+
+const log = createLogger('admin');
 
 type EditAdminProfileScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'EditAdminProfile'>;
 type EditAdminProfileScreenRouteProp = RouteProp<RootStackParamList, 'EditAdminProfile'>;
@@ -50,7 +53,7 @@ const EditAdminProfileScreen = () => {
     try {
       await AsyncStorage.setItem('adminProfile', JSON.stringify(profileData));
     } catch (error) {
-      console.error('Error saving admin profile:', error);
+      log.error('Error saving admin profile:', error);
     }
   };
 
@@ -62,7 +65,7 @@ const EditAdminProfileScreen = () => {
       }
       return null;
     } catch (error) {
-      console.error('Error loading admin profile:', error);
+      log.error('Error loading admin profile:', error);
       return null;
     }
   };
@@ -94,7 +97,7 @@ const EditAdminProfileScreen = () => {
           if (savedProfile.profileImage) setProfileImage(savedProfile.profileImage);
         }
       } catch (error) {
-        console.error('Error fetching admin profile:', error);
+        log.error('Error fetching admin profile:', error);
         const savedProfile = await loadAdminProfile();
         if (savedProfile) {
           if (savedProfile.name) setName(savedProfile.name);
@@ -191,11 +194,11 @@ const EditAdminProfileScreen = () => {
           role: user.role || 'Manager', // Include role from current user
           passwordHash: passwordHash // Use fetched passwordHash
         };
-        console.log('🔍 EditAdminProfile - State variables when saving:');
-        console.log('🔍 EditAdminProfile - name state:', name);
-        console.log('🔍 EditAdminProfile - email state:', email);
-        console.log('🔍 EditAdminProfile - phone state:', phone);
-        console.log('🔍 EditAdminProfile - userProfilePayload:', userProfilePayload);
+        log.debug('🔍 EditAdminProfile - State variables when saving:');
+        log.debug('🔍 EditAdminProfile - name state set:', !!name);
+        log.debug('🔍 EditAdminProfile - email state:', email);
+        log.debug('🔍 EditAdminProfile - phone state:', phone);
+        log.debug('🔍 EditAdminProfile - userProfilePayload:', userProfilePayload);
         const response = await adminUserApi.updateManagerUser(user.id, userProfilePayload);
         if (!response.success) {
           Alert.alert('Error', response.error || 'Failed to update admin profile in backend');
@@ -213,7 +216,7 @@ const EditAdminProfileScreen = () => {
       Alert.alert('Success', 'Profile updated successfully!');
       
     } catch (error) {
-      console.error('Error saving profile:', error);
+      log.error('Error saving profile:', error);
       Alert.alert('Error', 'Failed to save profile. Please try again.');
     } finally {
       setIsSaving(false);
@@ -254,7 +257,7 @@ const EditAdminProfileScreen = () => {
                   source={{ uri: profileImage }} 
                   style={styles.profileImage}
                   onError={() => {
-                    console.log('Error loading profile image, falling back to default');
+                    log.debug('Error loading profile image, falling back to default');
                     setProfileImage(null);
                   }}
                 />
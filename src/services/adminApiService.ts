@@ -1,360 +1,413 @@
-// frontend/src/services/adminApiService.ts
-// Admin-specific API endpoints for AgriMart
-
-import { apiRequest } from './apiCore';
-import { Product, UserProfile } from './apiService';
-import { API_ENDPOINTS } from './apiEndpoints';
-
-// ===== ADMIN INTERFACES =====
-
-export interface UpdateOrderStatusRequest {
-  statusId: string; // Changed to string for GUID
-  notes?: string;
-}
-
-export interface AdminUserProfile {
-  userId: string;
-  name: string;
-  email: string;
-  phoneNumber: string;
-  profilePicture?: string;
-  isActive?: boolean;
-  dateJoined?: string;
-  lastLogin?: string;
-  passwordHash?: string;
-  role?: string;
-}
-
-export interface InventoryItem {
-  productId: string;
-  name: string;                    // API returns "name" not "productName"
-  description?: string;
-  price: number;                   // API returns "price" not "unitCost"
-  stockQuantity: number;           // API returns "stockQuantity" not "currentStock"
-  categoryId: number;
-  imageUrl?: string | null;
-  isActive: boolean;
-  createdDate: string;
-  modifiedDate?: string | null;
-  // Optional fields for enhanced inventory management
-  categoryName?: string;
-  reservedStock?: number;
-  availableStock?: number;
-  minStockLevel?: number;
-  maxStockLevel?: number;
-  reorderPoint?: number;
-  lastRestocked?: string;
-  unitCost?: number;
-  totalValue?: number;
-}
-
-export interface AdminOrder {
-  id: string; // GUID string for order ID
-  userId: string; // GUID string for user ID
-  userName?: string;
-  userEmail?: string;
-  orderDate: string;
-  totalAmount: number;
-  orderStatusId: string; // GUID string for status ID
-  statusName?: string;
-  shippingAddressId: number;
-  trackingNumber?: string | null;
-  createdDate: string;
-  modifiedDate?: string | null;
-  paymentStatus?: string;
-  notes?: string;
-  orderItems?: AdminOrderItem[];
-}
-
-export interface AdminOrderItem {
-  orderItemId: string; // GUID string for order item ID
-  orderId: string; // GUID string for order ID
-  productId: string; // GUID string for product ID
-  productName: string;
-  quantity: number;
-  price: number;
-  imageUrl?: string | null;
-  totalPrice?: number;
-}
-
-export interface DeliveryChargeRule {
-  ruleId?: number;
-  minOrderAmount: number;
-  maxOrderAmount: number;
-  chargeAmount: number;
-  isActive: boolean;
-}
-
-export interface AdminProduct {
-  productId?: number | string;
-  name: string;
-  description?: string;
-  price: number;
-  stockQuantity?: number;
-  imageUrl?: string;
-  categoryId?: number;
-  unitOfMeasure?: string;
-  isActive?: boolean;
-  createdDate?: string;
-  modifiedDate?: string;
-  minStockLevel?: number;
-  maxStockLevel?: number;
-  reorderPoint?: number;
-  unitCost?: number;
-}
-
-// ===== ADMIN PRODUCT MANAGEMENT =====
-
-export const adminProductsApi = {
-  // Get all products with admin privileges
-  getAll: () => {
-    return apiRequest<null, AdminProduct[]>(API_ENDPOINTS.PRODUCTS.GET_ALL, 'GET');
-  },
-  
-  // Create a new product
-  create: (product: Omit<AdminProduct, 'productId'>) => {
-    // Add required date fields for backend
-    const productWithDates = {
-      ...product,
-      createdDate: new Date().toISOString(),
-      modifiedDate: new Date().toISOString()
-    };
-    
-    return apiRequest<any, AdminProduct>(API_ENDPOINTS.ADMIN.PRODUCTS.CREATE, 'POST', productWithDates);
-  },
-  
-  // Get product by ID
-  getById: (id: number | string) => {
-    return apiRequest<null, AdminProduct>(API_ENDPOINTS.ADMIN.PRODUCTS.GET_BY_ID(id), 'GET');
-  },
-  
-  // Update product
-  update: (id: number | string, product: AdminProduct) => {
-    return apiRequest<AdminProduct, AdminProduct>(API_ENDPOINTS.ADMIN.PRODUCTS.UPDATE(id), 'PUT', product);
-  },
-  
-  // Delete product
-  delete: (id: number | string) => {
-    return apiRequest<null, void>(API_ENDPOINTS.ADMIN.PRODUCTS.DELETE(id), 'DELETE');
-  },
-  
-  // Update product stock/units
-  updateUnits: (id: number | string, quantity: number) => {
-    return apiRequest<null, void>(API_ENDPOINTS.ADMIN.PRODUCTS.UPDATE_UNITS(id, quantity), 'PUT');
-  },
-};
-
-// ===== ADMIN INVENTORY MANAGEMENT =====
-
-export const adminInventoryApi = {
-  // Get inventory overview  
-  getInventory: () => {
-    return apiRequest<null, InventoryItem[]>(API_ENDPOINTS.ADMIN.INVENTORY.GET_INVENTORY, 'GET');
-  },
-};
-
-// ===== ADMIN USER MANAGEMENT =====
-
-export const adminUserApi = {
-  // Get all user profiles
-  getAllUsers: () => {
-    return apiRequest<null, AdminUserProfile[]>(API_ENDPOINTS.ADMIN.USERS.GET_ALL_USERS, 'GET');
-  },
-  
-  // Get a single user profile by ID (more efficient)
-  getUserById: (userId: string) => {
-    console.log('🔍 getUserById - Fetching user with ID:', userId);
-    // This assumes your backend supports fetching a single user profile by ID.
-    // If not, the previous implementation is a fallback, but this is the correct approach.
-    return apiRequest<null, AdminUserProfile>(API_ENDPOINTS.ADMIN.USERS.GET_USER_BY_ID(userId), 'GET');
-  },
-  
-  // Update user profile (customer) - Corrected to use string for userId
-  updateUser: (userId: string, userProfile: AdminUserProfile) => {
-    // The endpoint for updating a general user profile should be used.
-    // The distinction between 'customer' and 'manager' seems to be causing type issues.
-    // Using a consistent endpoint for user updates simplifies the logic.
-    return apiRequest<AdminUserProfile, AdminUserProfile>(API_ENDPOINTS.ADMIN.USERS.UPDATE_USER(userId), 'PUT', userProfile);
-  },
-
-  // Update manager/admin user profile
-  updateManagerUser: (userId: string, userProfile: AdminUserProfile) => {
-    // Send the UserProfile object directly with all required fields
-    const payload = {
-      ...userProfile,
-      userId: userId,
-      passwordHash: userProfile.passwordHash || "", // Required field
-      role: userProfile.role || "Manager" // Required field
-    };
-    console.log('🔍 updateManagerUser - Sending payload:', JSON.stringify(payload, null, 2));
-    return apiRequest<any, AdminUserProfile>(API_ENDPOINTS.ADMIN.USERS.UPDATE_USER(userId), 'PUT', payload);
-  },
-  
-  // Delete user profile - Corrected to use string for userId
-  deleteUser: (userId: string) => {
-    return apiRequest<null, void>(API_ENDPOINTS.ADMIN.USERS.DELETE_USER(userId), 'DELETE');
-  },
-};
-
-// ===== ADMIN ORDER MANAGEMENT =====
-
-export const adminOrderApi = {
-  // Get all orders
-  getAllOrders: () => {
-    return apiRequest<null, AdminOrder[]>(API_ENDPOINTS.ADMIN.ORDERS.GET_ALL_ORDERS, 'GET');
-  },
-  
-  // Get order by ID
-  getOrderById: (id: string) => {
-    return apiRequest<null, AdminOrder>(API_ENDPOINTS.ADMIN.ORDERS.GET_ORDER_BY_ID(id), 'GET');
-  },
-  
-  // Update order status
-  updateOrderStatus: (id: string, statusRequest: UpdateOrderStatusRequest) => {
-    return apiRequest<UpdateOrderStatusRequest, void>(API_ENDPOINTS.ADMIN.ORDERS.UPDATE_ORDER_STATUS(id), 'PUT', statusRequest);
-  },
-};
-
-// ===== ADMIN DELIVERY CHARGE RULES =====
-
-export const adminDeliveryChargeApi = {
-  // Get all delivery charge rules
-  getAll: () => {
-    return apiRequest<null, DeliveryChargeRule[]>(API_ENDPOINTS.DELIVERY.GET_ALL_RULES, 'GET');
-  },
-  
-  // Create delivery charge rule
-  create: (rule: Omit<DeliveryChargeRule, 'ruleId'>) => {
-    return apiRequest<Omit<DeliveryChargeRule, 'ruleId'>, DeliveryChargeRule>(API_ENDPOINTS.DELIVERY.CREATE_RULE, 'POST', rule);
-  },
-  
-  // Update delivery charge rule
-  update: (id: number, rule: DeliveryChargeRule) => {
-    return apiRequest<DeliveryChargeRule, DeliveryChargeRule>(API_ENDPOINTS.DELIVERY.UPDATE_RULE(id), 'PUT', rule);
-  },
-  
-  // Delete delivery charge rule
-  delete: (id: number) => {
-    return apiRequest<null, void>(API_ENDPOINTS.DELIVERY.DELETE_RULE(id), 'DELETE');
-  },
-};
-
-// ===== ADMIN CMS MANAGEMENT =====
-
-export interface AdminCMSPage {
-  cmsPageId?: number;
-  title: string;
-  slug: string;
-  content: string;
-  isActive: boolean;
-}
-
-export const adminCMSApi = {
-  // Get page by slug
-  getBySlug: (slug: string) => {
-    return apiRequest<null, AdminCMSPage>(API_ENDPOINTS.CMS.GET_BY_SLUG(slug), 'GET');
-  },
-  
-  // Create CMS page
-  create: (page: Omit<AdminCMSPage, 'cmsPageId'>) => {
-    return apiRequest<Omit<AdminCMSPage, 'cmsPageId'>, AdminCMSPage>(API_ENDPOINTS.CMS.CREATE_PAGE, 'POST', page);
-  },
-  
-  // Update CMS page
-  update: (id: number, page: AdminCMSPage) => {
-    return apiRequest<AdminCMSPage, AdminCMSPage>(API_ENDPOINTS.CMS.UPDATE_PAGE(id), 'PUT', page);
-  },
-  
-  // Delete CMS page
-  delete: (id: number) => {
-    return apiRequest<null, void>(API_ENDPOINTS.CMS.DELETE_PAGE(id), 'DELETE');
-  },
-};
-
-// ===== ADMIN CATEGORIES MANAGEMENT =====
-
-export interface AdminCategory {
-  id?: number;
-  name: string;
-  description?: string;
-}
-
-export const adminCategoriesApi = {
-  // Get all categories
-  getAll: () => {
-    return apiRequest<null, AdminCategory[]>(API_ENDPOINTS.CATEGORIES.GET_ALL, 'GET');
-  },
-  
-  // Get category by ID
-  getById: (id: number) => {
-    return apiRequest<null, AdminCategory>(API_ENDPOINTS.CATEGORIES.GET_BY_ID(id), 'GET');
-  },
-  
-  // Create category
-  create: (category: Omit<AdminCategory, 'id'>) => {
-    return apiRequest<Omit<AdminCategory, 'id'>, AdminCategory>(API_ENDPOINTS.CATEGORIES.CREATE, 'POST', category);
-  },
-  
-  // Update category
-  update: (id: number, category: AdminCategory) => {
-    return apiRequest<AdminCategory, AdminCategory>(API_ENDPOINTS.CATEGORIES.UPDATE(id), 'PUT', category);
-  },
-  
-  // Delete category
-  delete: (id: number) => {
-    return apiRequest<null, void>(API_ENDPOINTS.CATEGORIES.DELETE(id), 'DELETE');
-  },
-};
-
-// ===== ADMIN NOTIFICATIONS MANAGEMENT =====
-
-export interface AdminNotification {
-  notificationId?: number;
-  userId: string;
-  message: string;
-  dateSent?: string;
-  isRead: boolean;
-}
-
-export const adminNotificationsApi = {
-  // Get all notifications
-  getAll: () => {
-    return apiRequest<null, AdminNotification[]>(API_ENDPOINTS.NOTIFICATIONS.GET_ALL, 'GET');
-  },
-  
-  // Get notification by ID
-  getById: (id: number) => {
-    return apiRequest<null, AdminNotification>(API_ENDPOINTS.NOTIFICATIONS.GET_BY_ID(id), 'GET');
-  },
-  
-  // Create notification
-  create: (notification: Omit<AdminNotification, 'notificationId'>) => {
-    return apiRequest<Omit<AdminNotification, 'notificationId'>, AdminNotification>(API_ENDPOINTS.NOTIFICATIONS.CREATE, 'POST', notification);
-  },
-  
-  // Update notification
-  update: (id: number, notification: AdminNotification) => {
-    return apiRequest<AdminNotification, AdminNotification>(API_ENDPOINTS.NOTIFICATIONS.UPDATE(id), 'PUT', notification);
-  },
-  
-  // Delete notification
-  delete: (id: number) => {
-    return apiRequest<null, void>(API_ENDPOINTS.NOTIFICATIONS.DELETE(id), 'DELETE');
-  },
-};
-
-// ===== MAIN ADMIN API EXPORT =====
-
-export const adminApi = {
-  products: adminProductsApi,
-  inventory: adminInventoryApi,
-  users: adminUserApi,
-  orders: adminOrderApi,
-  deliveryChargeRules: adminDeliveryChargeApi,
-  cms: adminCMSApi,
-  categories: adminCategoriesApi,
-  notifications: adminNotificationsApi,
-};
-
-// Default export
+// frontend/src/services/adminApiService.ts
+// Admin-specific API endpoints for AgriMart
+
+import { apiRequest } from './apiCore';
+import { PageRequest } from './apiConfig';
+import { Product, UserProfile } from './apiService';
+import { API_ENDPOINTS, buildPaginatedEndpoint } from './apiEndpoints';
+import { createLogger } from './logger';
+import { arrayOf } from './schema';
+import {
+  AdminOrderSchema,
+  AdminProductSchema,
+  AdminUserProfileSchema,
+  CategorySchema,
+  CMSPageSchema,
+  DeliveryChargeRuleSchema,
+  InventoryItemSchema,
+  NotificationSchema,
+} from './apiSchemas';
+
+const log = createLogger('admin');
+
+// ===== ADMIN INTERFACES =====
+
+export interface UpdateOrderStatusRequest {
+  statusId: string; // Changed to string for GUID
+  notes?: string;
+}
+
+export interface AdminUserProfile {
+  userId: string;
+  name: string;
+  email: string;
+  phoneNumber: string;
+  profilePicture?: string;
+  isActive?: boolean;
+  dateJoined?: string;
+  lastLogin?: string;
+  passwordHash?: string;
+  role?: string;
+}
+
+export interface InventoryItem {
+  productId: string;
+  name: string;                    // API returns "name" not "productName"
+  description?: string;
+  price: number;                   // API returns "price" not "unitCost"
+  stockQuantity: number;           // API returns "stockQuantity" not "currentStock"
+  categoryId: number;
+  imageUrl?: string | null;
+  isActive: boolean;
+  createdDate: string;
+  modifiedDate?: string | null;
+  // Optional fields for enhanced inventory management
+  categoryName?: string;
+  reservedStock?: number;
+  availableStock?: number;
+  minStockLevel?: number;
+  maxStockLevel?: number;
+  reorderPoint?: number;
+  lastRestocked?: string;
+  unitCost?: number;
+  totalValue?: number;
+  unitOfMeasure?: string; // The unit of price and stockQuantity
+  packSize?: number;
+  packUnit?: string;
+  quantityStep?: number;
+}
+
+export interface AdminOrder {
+  id: string; // GUID string for order ID
+  userId: string; // GUID string for user ID
+  userName?: string;
+  userEmail?: string;
+  orderDate: string;
+  totalAmount: number;
+  orderStatusId: string; // GUID string for status ID
+  statusName?: string;
+  shippingAddressId: number;
+  trackingNumber?: string | null;
+  createdDate: string;
+  modifiedDate?: string | null;
+  paymentStatus?: string;
+  notes?: string;
+  orderItems?: AdminOrderItem[];
+  subtotalAmount?: number; // Price breakdown, on orders placed with one
+  gstAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  deliveryCharge?: number;
+}
+
+export interface AdminOrderItem {
+  orderItemId: string; // GUID string for order item ID
+  orderId: string; // GUID string for order ID
+  productId: string; // GUID string for product ID
+  productName: string;
+  quantity: number;
+  price: number;
+  imageUrl?: string | null;
+  totalPrice?: number;
+  hsnCode?: string;
+  taxRate?: number;
+  taxAmount?: number;
+}
+
+export interface DeliveryChargeRule {
+  ruleId?: number;
+  minOrderAmount: number;
+  maxOrderAmount: number;
+  chargeAmount: number;
+  isActive: boolean;
+}
+
+export interface AdminProduct {
+  productId?: number | string;
+  name: string;
+  description?: string;
+  price: number;
+  stockQuantity?: number;
+  imageUrl?: string;
+  categoryId?: number;
+  unitOfMeasure?: string;
+  isActive?: boolean;
+  createdDate?: string;
+  modifiedDate?: string;
+  minStockLevel?: number;
+  maxStockLevel?: number;
+  reorderPoint?: number;
+  unitCost?: number;
+  hsnCode?: string | null; // null clears it
+  taxRate?: number | null; // GST as a fraction; 0 when exempt, null to go back to the config's rate
+  packSize?: number | null; // What one unitOfMeasure holds; null clears it
+  packUnit?: string | null;
+  quantityStep?: number | null; // null goes back to whole units
+}
+
+// ===== ADMIN PRODUCT MANAGEMENT =====
+
+export const adminProductsApi = {
+  // Get all products with admin privileges
+  getAll: (signal?: AbortSignal) => {
+    return apiRequest<null, AdminProduct[]>(API_ENDPOINTS.PRODUCTS.GET_ALL, 'GET', undefined, { signal, schema: arrayOf(AdminProductSchema) });
+  },
+  
+  // Create a new product
+  create: (product: Omit<AdminProduct, 'productId'>, signal?: AbortSignal) => {
+    // Add required date fields for backend
+    const productWithDates = {
+      ...product,
+      createdDate: new Date().toISOString(),
+      modifiedDate: new Date().toISOString()
+    };
+    
+    return apiRequest<any, AdminProduct>(API_ENDPOINTS.ADMIN.PRODUCTS.CREATE, 'POST', productWithDates, { signal });
+  },
+  
+  // Get product by ID
+  getById: (id: number | string, signal?: AbortSignal) => {
+    return apiRequest<null, AdminProduct>(API_ENDPOINTS.ADMIN.PRODUCTS.GET_BY_ID(id), 'GET', undefined, { signal, schema: AdminProductSchema });
+  },
+  
+  // Update product
+  update: (id: number | string, product: AdminProduct, signal?: AbortSignal) => {
+    return apiRequest<AdminProduct, AdminProduct>(API_ENDPOINTS.ADMIN.PRODUCTS.UPDATE(id), 'PUT', product, { signal });
+  },
+  
+  // Delete product
+  delete: (id: number | string, signal?: AbortSignal) => {
+    return apiRequest<null, void>(API_ENDPOINTS.ADMIN.PRODUCTS.DELETE(id), 'DELETE', undefined, { signal });
+  },
+  
+  // Update product stock/units
+  updateUnits: (id: number | string, quantity: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(API_ENDPOINTS.ADMIN.PRODUCTS.UPDATE_UNITS(id, quantity), 'PUT', undefined, { signal });
+  },
+};
+
+// ===== ADMIN INVENTORY MANAGEMENT =====
+
+export const adminInventoryApi = {
+  // Get inventory overview  
+  getInventory: (signal?: AbortSignal) => {
+    return apiRequest<null, InventoryItem[]>(API_ENDPOINTS.ADMIN.INVENTORY.GET_INVENTORY, 'GET', undefined, { signal, schema: arrayOf(InventoryItemSchema) });
+  },
+  
+  // Get one page of the inventory, for usePaginatedQuery
+  getInventoryPage: ({ pageNumber, pageSize, signal, skipCache }: PageRequest) => {
+    return apiRequest<null, InventoryItem[]>(
+      buildPaginatedEndpoint(API_ENDPOINTS.ADMIN.INVENTORY.GET_INVENTORY, pageNumber, pageSize),
+      'GET',
+      undefined,
+      { signal, skipCache, schema: arrayOf(InventoryItemSchema) }
+    );
+  },
+};
+
+// ===== ADMIN USER MANAGEMENT =====
+
+export const adminUserApi = {
+  // Get all user profiles
+  getAllUsers: (signal?: AbortSignal) => {
+    return apiRequest<null, AdminUserProfile[]>(API_ENDPOINTS.ADMIN.USERS.GET_ALL_USERS, 'GET', undefined, { signal, schema: arrayOf(AdminUserProfileSchema) });
+  },
+  
+  // Get a single user profile by ID (more efficient)
+  getUserById: (userId: string, signal?: AbortSignal) => {
+    log.debug('🔍 getUserById - Fetching user with ID:', userId);
+    // This assumes your backend supports fetching a single user profile by ID.
+    // If not, the previous implementation is a fallback, but this is the correct approach.
+    return apiRequest<null, AdminUserProfile>(API_ENDPOINTS.ADMIN.USERS.GET_USER_BY_ID(userId), 'GET', undefined, { signal, schema: AdminUserProfileSchema });
+  },
+  
+  // Update user profile (customer) - Corrected to use string for userId
+  updateUser: (userId: string, userProfile: AdminUserProfile, signal?: AbortSignal) => {
+    // The endpoint for updating a general user profile should be used.
+    // The distinction between 'customer' and 'manager' seems to be causing type issues.
+    // Using a consistent endpoint for user updates simplifies the logic.
+    return apiRequest<AdminUserProfile, AdminUserProfile>(API_ENDPOINTS.ADMIN.USERS.UPDATE_USER(userId), 'PUT', userProfile, { signal });
+  },
+
+  // Update manager/admin user profile
+  updateManagerUser: (userId: string, userProfile: AdminUserProfile, signal?: AbortSignal) => {
+    // Send the UserProfile object directly with all required fields
+    const payload = {
+      ...userProfile,
+      userId: userId,
+      passwordHash: userProfile.passwordHash || "", // Required field
+      role: userProfile.role || "Manager" // Required field
+    };
+    log.debug('🔍 updateManagerUser - Sending payload:', payload);
+    return apiRequest<any, AdminUserProfile>(API_ENDPOINTS.ADMIN.USERS.UPDATE_USER(userId), 'PUT', payload, { signal });
+  },
+  
+  // Delete user profile - Corrected to use string for userId
+  deleteUser: (userId: string, signal?: AbortSignal) => {
+    return apiRequest<null, void>(API_ENDPOINTS.ADMIN.USERS.DELETE_USER(userId), 'DELETE', undefined, { signal });
+  },
+};
+
+// ===== ADMIN ORDER MANAGEMENT =====
+
+export const adminOrderApi = {
+  // Get all orders
+  getAllOrders: (signal?: AbortSignal) => {
+    return apiRequest<null, AdminOrder[]>(API_ENDPOINTS.ADMIN.ORDERS.GET_ALL_ORDERS, 'GET', undefined, { signal, schema: arrayOf(AdminOrderSchema) });
+  },
+  
+  // Get one page of the orders, newest first, for usePaginatedQuery
+  getOrdersPage: ({ pageNumber, pageSize, signal, skipCache }: PageRequest) => {
+    return apiRequest<null, AdminOrder[]>(
+      buildPaginatedEndpoint(API_ENDPOINTS.ADMIN.ORDERS.GET_ALL_ORDERS, pageNumber, pageSize),
+      'GET',
+      undefined,
+      { signal, skipCache, schema: arrayOf(AdminOrderSchema) }
+    );
+  },
+  
+  // Get order by ID
+  getOrderById: (id: string, signal?: AbortSignal) => {
+    return apiRequest<null, AdminOrder>(API_ENDPOINTS.ADMIN.ORDERS.GET_ORDER_BY_ID(id), 'GET', undefined, { signal, schema: AdminOrderSchema });
+  },
+  
+  // Update order status
+  updateOrderStatus: (id: string, statusRequest: UpdateOrderStatusRequest, signal?: AbortSignal) => {
+    return apiRequest<UpdateOrderStatusRequest, void>(API_ENDPOINTS.ADMIN.ORDERS.UPDATE_ORDER_STATUS(id), 'PUT', statusRequest, { signal });
+  },
+};
+
+// ===== ADMIN DELIVERY CHARGE RULES =====
+
+export const adminDeliveryChargeApi = {
+  // Get all delivery charge rules
+  getAll: (signal?: AbortSignal) => {
+    return apiRequest<null, DeliveryChargeRule[]>(API_ENDPOINTS.DELIVERY.GET_ALL_RULES, 'GET', undefined, { signal, schema: arrayOf(DeliveryChargeRuleSchema) });
+  },
+  
+  // Create delivery charge rule
+  create: (rule: Omit<DeliveryChargeRule, 'ruleId'>, signal?: AbortSignal) => {
+    return apiRequest<Omit<DeliveryChargeRule, 'ruleId'>, DeliveryChargeRule>(API_ENDPOINTS.DELIVERY.CREATE_RULE, 'POST', rule, { signal });
+  },
+  
+  // Update delivery charge rule
+  update: (id: number, rule: DeliveryChargeRule, signal?: AbortSignal) => {
+    return apiRequest<DeliveryChargeRule, DeliveryChargeRule>(API_ENDPOINTS.DELIVERY.UPDATE_RULE(id), 'PUT', rule, { signal });
+  },
+  
+  // Delete delivery charge rule
+  delete: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(API_ENDPOINTS.DELIVERY.DELETE_RULE(id), 'DELETE', undefined, { signal });
+  },
+};
+
+// ===== ADMIN CMS MANAGEMENT =====
+
+export interface AdminCMSPage {
+  cmsPageId?: number;
+  title: string;
+  slug: string;
+  content: string;
+  isActive: boolean;
+}
+
+export const adminCMSApi = {
+  // Get page by slug
+  getBySlug: (slug: string, signal?: AbortSignal) => {
+    return apiRequest<null, AdminCMSPage>(API_ENDPOINTS.CMS.GET_BY_SLUG(slug), 'GET', undefined, { signal, schema: CMSPageSchema });
+  },
+  
+  // Create CMS page
+  create: (page: Omit<AdminCMSPage, 'cmsPageId'>, signal?: AbortSignal) => {
+    return apiRequest<Omit<AdminCMSPage, 'cmsPageId'>, AdminCMSPage>(API_ENDPOINTS.CMS.CREATE_PAGE, 'POST', page, { signal });
+  },
+  
+  // Update CMS page
+  update: (id: number, page: AdminCMSPage, signal?: AbortSignal) => {
+    return apiRequest<AdminCMSPage, AdminCMSPage>(API_ENDPOINTS.CMS.UPDATE_PAGE(id), 'PUT', page, { signal });
+  },
+  
+  // Delete CMS page
+  delete: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(API_ENDPOINTS.CMS.DELETE_PAGE(id), 'DELETE', undefined, { signal });
+  },
+};
+
+// ===== ADMIN CATEGORIES MANAGEMENT =====
+
+export interface AdminCategory {
+  id?: number;
+  name: string;
+  description?: string;
+}
+
+export const adminCategoriesApi = {
+  // Get all categories
+  getAll: (signal?: AbortSignal) => {
+    return apiRequest<null, AdminCategory[]>(API_ENDPOINTS.CATEGORIES.GET_ALL, 'GET', undefined, { signal, schema: arrayOf(CategorySchema) });
+  },
+  
+  // Get category by ID
+  getById: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, AdminCategory>(API_ENDPOINTS.CATEGORIES.GET_BY_ID(id), 'GET', undefined, { signal });
+  },
+  
+  // Create category
+  create: (category: Omit<AdminCategory, 'id'>, signal?: AbortSignal) => {
+    return apiRequest<Omit<AdminCategory, 'id'>, AdminCategory>(API_ENDPOINTS.CATEGORIES.CREATE, 'POST', category, { signal });
+  },
+  
+  // Update category
+  update: (id: number, category: AdminCategory, signal?: AbortSignal) => {
+    return apiRequest<AdminCategory, AdminCategory>(API_ENDPOINTS.CATEGORIES.UPDATE(id), 'PUT', category, { signal });
+  },
+  
+  // Delete category
+  delete: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(API_ENDPOINTS.CATEGORIES.DELETE(id), 'DELETE', undefined, { signal });
+  },
+};
+
+// ===== ADMIN NOTIFICATIONS MANAGEMENT =====
+
+export interface AdminNotification {
+  notificationId?: number;
+  userId: string;
+  message: string;
+  dateSent?: string;
+  isRead: boolean;
+}
+
+export const adminNotificationsApi = {
+  // Get all notifications
+  getAll: (signal?: AbortSignal) => {
+    return apiRequest<null, AdminNotification[]>(API_ENDPOINTS.NOTIFICATIONS.GET_ALL, 'GET', undefined, { signal, schema: arrayOf(NotificationSchema) });
+  },
+  
+  // Get notification by ID
+  getById: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, AdminNotification>(API_ENDPOINTS.NOTIFICATIONS.GET_BY_ID(id), 'GET', undefined, { signal, schema: NotificationSchema });
+  },
+  
+  // Create notification
+  create: (notification: Omit<AdminNotification, 'notificationId'>, signal?: AbortSignal) => {
+    return apiRequest<Omit<AdminNotification, 'notificationId'>, AdminNotification>(API_ENDPOINTS.NOTIFICATIONS.CREATE, 'POST', notification, { signal });
+  },
+  
+  // Update notification
+  update: (id: number, notification: AdminNotification, signal?: AbortSignal) => {
+    return apiRequest<AdminNotification, AdminNotification>(API_ENDPOINTS.NOTIFICATIONS.UPDATE(id), 'PUT', notification, { signal });
+  },
+  
+  // Delete notification
+  delete: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(API_ENDPOINTS.NOTIFICATIONS.DELETE(id), 'DELETE', undefined, { signal });
+  },
+};
+
+// ===== MAIN ADMIN API EXPORT =====
+
+export const adminApi = {
+  products: adminProductsApi,
+  inventory: adminInventoryApi,
+  users: adminUserApi,
+  orders: adminOrderApi,
+  deliveryChargeRules: adminDeliveryChargeApi,
+  cms: adminCMSApi,
+  categories: adminCategoriesApi,
+  notifications: adminNotificationsApi,
+};
+
+// Default export
 export default adminApi;
\ No newline at end of file
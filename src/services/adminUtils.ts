@@ -4,6 +4,12 @@
 import { adminApi } from './adminApiService';
 import { ApiResponse } from './apiConfig';
 import { ORDER_STATUS } from '../constants/orderStatus';
+import { createLogger } from './logger';
+import { calculateLineTax, formatTaxRate, isValidTaxRate } from './taxService';
+import { parseUnit } from '../utils/units';
+import { isValidQuantityStep } from '../utils/quantityLimits';
+
+const log = createLogger('admin');
 
 // ===== PRODUCT UTILITIES =====
 
@@ -303,7 +309,7 @@ export const getDashboardData = async (): Promise<DashboardData> => {
       lowStockProducts,
     };
   } catch (error) {
-    console.error('Error loading dashboard data:', error);
+    log.error('Error loading dashboard data:', error);
     // Return empty dashboard data
     return {
       productStats: await getProductStats(),
@@ -377,7 +383,7 @@ export const exportProductsToCSV = async (): Promise<string> => {
     throw new Error('Failed to fetch products');
   }
 
-  const headers = ['ID', 'Name', 'Price', 'Stock', 'Category', 'Status'];
+  const headers = ['ID', 'Name', 'Price', 'Stock', 'Category', 'Status', 'HSN Code', 'GST Rate'];
   const rows = products.data.map(product => [
     product.productId || '',
     product.name,
@@ -385,6 +391,8 @@ export const exportProductsToCSV = async (): Promise<string> => {
     product.stockQuantity?.toString() || '0',
     product.categoryId?.toString() || '',
     product.isActive ? 'Active' : 'Inactive',
+    product.hsnCode || '',
+    isValidTaxRate(product.taxRate) ? formatTaxRate(product.taxRate) : '',
   ]);
 
   return [headers, ...rows].map(row => row.join(',')).join('\n');
@@ -397,7 +405,12 @@ export const exportOrdersToCSV = async (): Promise<string> => {
     throw new Error('Failed to fetch orders');
   }
 
-  const headers = ['Order ID', 'User ID', 'Date', 'Total', 'Status', 'Payment Status'];
+  const headers = [
+    'Order ID', 'User ID', 'Date', 'Total', 'Status', 'Payment Status',
+    'Subtotal', 'CGST', 'SGST', 'IGST', 'Delivery Charge',
+  ];
+  // Orders placed before the price breakdown leave its columns empty
+  const amount = (value?: number) => (typeof value === 'number' ? value.toFixed(2) : '');
   const rows = orders.data.map(order => [
     order.id?.toString() || '', // Use 'id' or the correct identifier property
     order.userId?.toString() || '',
@@ -405,11 +418,49 @@ export const exportOrdersToCSV = async (): Promise<string> => {
     order.totalAmount?.toString() || '',
     order.statusName || order.orderStatusId?.toString() || '',
     order.paymentStatus || 'N/A',
+    amount(order.subtotalAmount),
+    amount(order.cgstAmount),
+    amount(order.sgstAmount),
+    amount(order.igstAmount),
+    amount(order.deliveryCharge),
   ]);
 
   return [headers, ...rows].map(row => row.join(',')).join('\n');
 };
 
+// One row per order line with its GST, for filing GST returns. Lines without
+// a stored GST rate are left out.
+export const exportOrderTaxToCSV = async (): Promise<string> => {
+  const orders = await adminApi.orders.getAllOrders();
+
+  if (!orders.success || !orders.data) {
+    throw new Error('Failed to fetch orders');
+  }
+
+  const headers = ['Order ID', 'Date', 'Product', 'HSN Code', 'Quantity', 'Taxable Value', 'GST Rate', 'CGST', 'SGST', 'IGST'];
+  const rows = orders.data.flatMap(order =>
+    (order.orderItems || [])
+      .filter(item => isValidTaxRate(item.taxRate))
+      .map(item => {
+        const line = calculateLineTax(item, { defaultRate: 0, interState: (order.igstAmount || 0) > 0 });
+        return [
+          order.id?.toString() || '',
+          order.orderDate,
+          `"${item.productName.replace(/"/g, '""')}"`,
+          item.hsnCode || '',
+          item.quantity.toString(),
+          line.taxableAmount.toFixed(2),
+          formatTaxRate(line.taxRate),
+          line.cgst.toFixed(2),
+          line.sgst.toFixed(2),
+          line.igst.toFixed(2),
+        ];
+      })
+  );
+
+  return [headers, ...rows].map(row => row.join(',')).join('\n');
+};
+
 // ===== VALIDATION UTILITIES =====
 
 export const validateProduct = (product: any): string[] => {
@@ -435,6 +486,18 @@ export const validateProduct = (product: any): string[] => {
     errors.push('Maximum stock level must be greater than minimum stock level');
   }
 
+  if (product.taxRate != null && !isValidTaxRate(product.taxRate)) {
+    errors.push('GST rate must be between 0% and 100%');
+  }
+
+  if (product.packSize != null && (product.packSize <= 0 || !parseUnit(product.packUnit))) {
+    errors.push('Pack size must be greater than 0 and have a unit');
+  }
+
+  if (product.quantityStep != null && !isValidQuantityStep(product.quantityStep)) {
+    errors.push('Quantity step must be a whole number of 1 or more');
+  }
+
   return errors;
 };
 
@@ -471,6 +534,7 @@ export default {
   bulkUpdateOrderStatus,
   exportProductsToCSV,
   exportOrdersToCSV,
+  exportOrderTaxToCSV,
   validateProduct,
   validateDeliveryRule,
 };
\ No newline at end of file
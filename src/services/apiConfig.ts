@@ -1,27 +1,154 @@
-// frontend/src/services/apiConfig.ts
-
-export const API_BASE_URL = 'https://c8239503ad89.ngrok-free.app'; // Updated to use new ngrok tunnel
-
-// API request timeout in milliseconds
-export const TIMEOUT_MS = 60000; // Increased to 60 seconds for ngrok connections
-
-// Maximum number of retries for API requests
-export const MAX_RETRIES = 3; // Increased retries for potentially unstable connections
-
-// Default headers for API requests
-export const DEFAULT_HEADERS = {
-  'Content-Type': 'application/json',
-  'Accept': 'application/json',
-  'ngrok-skip-browser-warning': 'true',
-  'User-Agent': 'FarmingApp/1.0 (React Native Mobile Application)',
-  'Cache-Control': 'no-cache',
-};
-
-// Generic API response type
-export interface ApiResponse<T = any> {
-  success: boolean;
-  data?: T | null;
-  error?: string;
-  _isLocalFallback?: boolean; // Added for our special 500 error handling
-  clientSubmissionId?: string; // For tracking client-side submissions
+// frontend/src/services/apiConfig.ts
+
+import { Platform } from 'react-native';
+import packageJson from '../../package.json';
+import type { Schema } from './schema';
+
+// Names of the available backend environment profiles
+export type EnvironmentName = 'mock' | 'dev' | 'staging' | 'production';
+
+// Settings for a single backend environment
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  label: string;
+  baseUrl: string;
+  timeoutMs: number; // API request timeout in milliseconds
+  maxRetries: number; // Maximum number of retries for GET requests
+  retryBaseDelayMs: number; // Delay before the first retry; doubles with every further retry
+  retryMaxDelayMs: number; // Upper bound for a retry delay, including a server's Retry-After
+  circuitFailureThreshold: number; // Failures in a row that open an endpoint group's circuit
+  circuitCooldownMs: number; // How long an open circuit fails fast before probing again
+}
+
+// Base URL answered in-process by the mock backend (see mockServer.ts)
+export const MOCK_SERVER_BASE_URL = 'mock://agrimart';
+
+// Known environment profiles. The dev profile points at the ngrok tunnel,
+// so only this entry needs to change when the tunnel rotates.
+export const ENVIRONMENT_PROFILES: Record<EnvironmentName, EnvironmentProfile> = {
+  mock: {
+    name: 'mock',
+    label: 'In-App Mock',
+    baseUrl: MOCK_SERVER_BASE_URL, // Answered by mockServer.ts without a network
+    timeoutMs: 10000,
+    maxRetries: 0,
+    retryBaseDelayMs: 250,
+    retryMaxDelayMs: 2000,
+    circuitFailureThreshold: 3,
+    circuitCooldownMs: 5000,
+  },
+  dev: {
+    name: 'dev',
+    label: 'Development',
+    baseUrl: 'https://c8239503ad89.ngrok-free.app',
+    timeoutMs: 60000, // ngrok connections can be slow
+    maxRetries: 3, // Potentially unstable connection
+    retryBaseDelayMs: 1000,
+    retryMaxDelayMs: 15000,
+    circuitFailureThreshold: 3,
+    circuitCooldownMs: 30000,
+  },
+  staging: {
+    name: 'staging',
+    label: 'Staging',
+    baseUrl: 'https://staging-api.agrimart.in',
+    timeoutMs: 30000,
+    maxRetries: 2,
+    retryBaseDelayMs: 500,
+    retryMaxDelayMs: 10000,
+    circuitFailureThreshold: 5,
+    circuitCooldownMs: 30000,
+  },
+  production: {
+    name: 'production',
+    label: 'Production',
+    baseUrl: 'https://api.agrimart.in',
+    timeoutMs: 30000,
+    maxRetries: 2,
+    retryBaseDelayMs: 500,
+    retryMaxDelayMs: 10000,
+    circuitFailureThreshold: 5,
+    circuitCooldownMs: 30000,
+  },
+};
+
+// Profile used until the user picks one in the DebugPanel
+export const DEFAULT_ENVIRONMENT: EnvironmentName = __DEV__ ? 'dev' : 'production';
+
+// Version of this build, compared with the versions the server supports
+export const APP_VERSION: string = packageJson.version;
+
+// Headers that tell the server which build sent a request, so it can reject incompatible clients
+export const APP_VERSION_HEADER = 'X-App-Version';
+export const APP_PLATFORM_HEADER = 'X-App-Platform';
+
+// Default headers for API requests
+export const DEFAULT_HEADERS = {
+  'Content-Type': 'application/json',
+  'Accept': 'application/json',
+  'ngrok-skip-browser-warning': 'true',
+  'User-Agent': 'FarmingApp/1.0 (React Native Mobile Application)',
+  'Cache-Control': 'no-cache',
+  [APP_VERSION_HEADER]: APP_VERSION,
+  [APP_PLATFORM_HEADER]: Platform.OS,
+};
+
+// Header carrying the client submission ID; the server ignores a repeated submission with the same ID
+export const CLIENT_SUBMISSION_HEADER = 'X-Client-Submission-ID';
+
+// Per-request options for apiRequest
+export interface ApiRequestOptions {
+  queueWhenOffline?: boolean; // Store POST/PUT/DELETE in the offline outbox if the network is down
+  outboxTag?: string; // Groups queued mutations so screens can show them (e.g. 'cart', 'order')
+  outboxLabel?: string; // Human readable description of the queued mutation
+  outboxKey?: string; // A newer queued mutation with the same key replaces the pending one
+  outboxRequest?: { endpoint: string; method: 'POST' | 'PUT' | 'DELETE'; body?: any }; // Queued instead of this request, e.g. one that does not depend on what was queued before
+  skipCache?: boolean; // Ignore cached GET data and fetch from the server (the result is still cached)
+  signal?: AbortSignal; // Aborts the request, e.g. when the screen that made it goes away
+  clientSubmissionId?: string; // Idempotency key; a POST sent with one is safe to retry
+  schema?: Schema<any>; // Checks and normalises the response data (see apiSchemas.ts)
+  onUploadProgress?: (fraction: number) => void; // 0 to 1 while the form is sent (apiUpload only)
+}
+
+// One page of a paged list request (see usePaginatedQuery)
+export interface PageRequest {
+  pageNumber: number; // Starts at 1
+  pageSize: number;
+  signal?: AbortSignal;
+  skipCache?: boolean; // Set by pull-to-refresh
+}
+
+// What went wrong with a failed request; call sites branch on this instead of the message text
+export type ApiErrorKind =
+  | 'network' // The server could not be reached
+  | 'timeout' // The server did not answer in time
+  | 'auth' // 401: not logged in or the session has expired
+  | 'forbidden' // 403: logged in but not allowed
+  | 'not-found' // 404
+  | 'validation' // 400/422 and other rejected requests
+  | 'conflict' // 409/412: the server state changed underneath the request
+  | 'server' // 5xx or an unreadable response
+  | 'cancelled'; // The caller aborted the request; nothing to show to the user
+
+// Structured error carried by a failed ApiResponse
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string; // Message that can be shown to the user
+  status?: number; // HTTP status code when the server responded
+  serverMessage?: string; // Message returned by the server, if any
+  fieldErrors?: Record<string, string[]>; // Validation messages per field
+}
+
+// Generic API response type
+export interface ApiResponse<T = any> {
+  success: boolean;
+  data?: T | null;
+  error?: string;
+  apiError?: ApiError; // Set when success is false
+  status?: number; // HTTP status code when the server responded
+  clientSubmissionId?: string; // Idempotency key the request was sent with
+  queued?: boolean; // The mutation was stored in the offline outbox
+  outboxId?: string; // ID of the outbox item when queued
+  fromCache?: boolean; // The data came from the response cache
+  stale?: boolean; // The cached data is past its TTL and is being refreshed
 }
\ No newline at end of file
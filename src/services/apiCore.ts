@@ -1,379 +1,784 @@
-// frontend/src/services/apiCore.ts
-
-import { API_BASE_URL, TIMEOUT_MS, MAX_RETRIES, DEFAULT_HEADERS, ApiResponse } from './apiConfig';
-import userService from './userService';
-
-// Function to check if the API is reachable
-export async function checkApiConnection(): Promise<boolean> {
-  try {
-    console.log(`Checking API connection to ${API_BASE_URL}...`);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-    
-    const response = await fetch(`${API_BASE_URL}/api/health`, {
-      method: 'GET',
-      headers: {
-        'ngrok-skip-browser-warning': 'true',
-        'User-Agent': 'FarmingApp/1.0 (React Native Mobile Application)',
-        'Cache-Control': 'no-cache',
-      },
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (response.ok) {
-      console.log('API connection successful');
-      return true;
-    } else {
-      console.warn(`API connection check failed with status: ${response.status}`);
-      return false;
-    }
-  } catch (error) {
-    console.error('API connection check failed:', error);
-    return false;
-  }
-}
-
-// API request function with no retries - used for operations that should never be retried
-export async function apiRequestNoRetry<T = any, R = any>(
-  endpoint: string,
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-  body?: T
-): Promise<ApiResponse<R>> {
-  try {
-    // Get the authentication token
-    const token = await userService.getAuthToken();
-    
-    // Prepare headers
-    const headers: Record<string, string> = {
-      ...DEFAULT_HEADERS,
-      // Additional headers to help with ngrok and CORS issues
-      'Origin': API_BASE_URL,
-    };
-    
-    // Add authorization header if token exists
-    // Skip authentication for create-manager endpoint to allow initial admin creation
-    if (token && !endpoint.includes('/api/Authentication/create-manager')) {
-      headers['Authorization'] = `Bearer ${token}`;
-      console.log('Using auth token (apiRequestNoRetry):', token.substring(0, 15) + '...');
-    } else if (endpoint.includes('/api/Authentication/create-manager')) {
-      console.log('Skipping auth token for create-manager endpoint (NoRetry)');
-    }
-    
-    const options: {
-      method: string;
-      headers: Record<string, string>;
-      body?: string;
-    } = {
-      method,
-      headers,
-    };
-
-    if (body && (method === 'POST' || method === 'PUT')) {
-      options.body = JSON.stringify(body);
-      console.log(`Request to ${endpoint}:`, JSON.stringify(body));
-    }
-
-    const url = `${API_BASE_URL}${endpoint}`;
-    console.log(`Making ${method} request to: ${url} (NO RETRY)`);
-    
-    const timeoutPromise = new Promise<any>((_, reject) => {
-      setTimeout(() => reject(new Error('Request timeout')), TIMEOUT_MS);
-    });
-    
-    // Race the fetch against the timeout
-    const response = await Promise.race([
-      fetch(url, options),
-      timeoutPromise
-    ]);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      
-      // Handle the known empty state for addresses
-      if (errorText.includes('No addresses found for this user.')) {
-        console.info(`API info (${response.status}): ${errorText}`);
-        // Return success with empty array for address endpoints
-        if (endpoint.includes('/api/Address')) {
-          return {
-            success: true,
-            data: [] as R
-          };
-        }
-      } 
-      // Handle 404 errors for specific address lookups (expected when address is deleted)
-      else if (response.status === 404 && endpoint.includes('/api/Address/') && errorText.includes('not found')) {
-        console.info(`API info (${response.status}): Address not found - ${errorText} (This is normal for deleted addresses)`);
-      } 
-      else {
-        console.error(`API error (${response.status}): ${errorText}`);
-      }
-      
-      return {
-        success: false,
-        error: `Error ${response.status}: ${errorText || response.statusText}`,
-        data: null as unknown as R
-      };
-    }
-    
-    // For 204 No Content responses, return success with null data
-    if (response.status === 204) {
-      return {
-        success: true,
-        data: null as unknown as R
-      };
-    }
-    
-    // Parse the response
-    const data = await response.json();
-    return {
-      success: true,
-      data
-    };
-  } catch (error) {
-    console.error(`API request failed: ${error instanceof Error ? error.message : String(error)}`);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-      data: null as unknown as R
-    };
-  }
-}
-
-// Common API request function
-export async function apiRequest<T = any, R = any>(
-  endpoint: string,
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-  body?: T
-): Promise<ApiResponse<R>> {
-  try {
-    // Get the authentication token
-    const token = await userService.getAuthToken();
-    
-    // Prepare headers
-    const headers: Record<string, string> = {
-      ...DEFAULT_HEADERS,
-      // Additional headers to help with ngrok and CORS issues
-      'Origin': API_BASE_URL,
-    };
-    
-    // Add authorization header if token exists
-    // Skip authentication for create-manager endpoint to allow initial admin creation
-    if (token && !endpoint.includes('/api/Authentication/create-manager')) {
-      // Check if the token already starts with "Bearer "
-      const authToken = token.startsWith('Bearer ') ? token : `Bearer ${token}`;
-
-      headers['Authorization'] = authToken;
-      console.log('Using auth token (apiRequest):', token.substring(0, 15) + '...');      
-      console.log('🔍 AUTH DEBUG - Full token length:', token.length);
-      console.log('🔍 AUTH DEBUG - Token starts with Bearer?', token.startsWith('Bearer'));
-      console.log('🔍 AUTH DEBUG - Authorization header:', headers['Authorization'].substring(0, 25) + '...');
-    } else if (endpoint.includes('/api/Authentication/create-manager')) {
-      console.log('Skipping auth token for create-manager endpoint');
-    } else if (!token) {
-      console.warn('🔍 AUTH DEBUG - No token available for endpoint:', endpoint);
-    }
-    
-    const options: {
-      method: string;
-      headers: Record<string, string>;
-      body?: string;
-    } = {
-      method,
-      headers,
-    };
-
-    if (body && (method === 'POST' || method === 'PUT')) {
-      options.body = JSON.stringify(body);
-      console.log(`Request to ${endpoint} with body:`, JSON.stringify(body));
-    }
-
-    const url = `${API_BASE_URL}${endpoint}`;
-    console.log(`Making ${method} request to: ${url}`);
-    
-    // Only retry GET requests by default
-    // For critical operations like adding addresses, use apiRequestNoRetry instead
-    const maxRetries = method === 'GET' ? MAX_RETRIES : 0;
-    let lastError: Error | null = null;
-    let retries = 0;
-    
-    while (retries <= maxRetries) {
-      try {
-        if (retries > 0) {
-          console.log(`Retry attempt ${retries} for ${endpoint}`);
-        }
-        
-        const timeoutPromise = new Promise<any>((_, reject) => {
-          setTimeout(() => reject(new Error('Request timeout')), TIMEOUT_MS);
-        });
-        
-        // Race the fetch against the timeout
-        const response = await Promise.race([
-          fetch(url, options),
-          timeoutPromise
-        ]);
-        
-        if (!response.ok) {
-          // Enhanced debug logging for 401 errors
-          if (response.status === 401) {
-            console.error('🔍 AUTH DEBUG - 401 Unauthorized Error Details:');
-            console.error('🔍 AUTH DEBUG - Endpoint:', endpoint);
-            console.error('🔍 AUTH DEBUG - Method:', method);
-            console.error('🔍 AUTH DEBUG - Has token:', !!token);
-            console.error('🔍 AUTH DEBUG - Token preview:', token ? token.substring(0, 20) + '...' : 'No token');
-            console.error('🔍 AUTH DEBUG - Headers sent:', headers);
-            const errorText = await response.text();
-            console.error('🔍 AUTH DEBUG - Error response:', errorText);
-            throw new Error(`Authentication failed: ${errorText || 'Unauthorized'}`);
-          }
-          
-          // Special handling for 500 errors when creating orders
-          if (response.status === 500 && endpoint === '/api/Orders' && method === 'POST') {
-            console.warn('Received 500 error for order creation, attempting to handle gracefully');
-            
-            // For order creation, we'll return a special response
-            // This allows the UI to show a success message even though the API failed
-            // This is a temporary workaround until the API is fixed
-            return { 
-              success: true, 
-              data: {
-                orderId: 'local-' + Date.now(),
-                message: 'Order processed locally due to server error'
-              } as R, // Cast to R to satisfy TypeScript
-              _isLocalFallback: true  // Flag to indicate this is a fallback response
-            };
-          }
-          // For other errors, proceed with normal error handling
-          const errorText = await response.text();
-          // Handle the known empty state for addresses
-          if (errorText.includes('No addresses found for this user.')) {
-            console.info(`API info (${response.status}): ${errorText}`);
-            // Return success with empty array for address endpoints
-            if (endpoint.includes('/api/Address')) {
-              return {
-                success: true,
-                data: [] as R
-              };
-            }
-          } 
-          // Handle 404 errors for specific address lookups (expected when address is deleted)
-          else if (response.status === 404 && endpoint.includes('/api/Address/') && errorText.includes('not found')) {
-            console.info(`API info (${response.status}): Address not found - ${errorText} (This is normal for deleted addresses)`);
-          } 
-          else {
-            console.error(`API error (${response.status}): ${errorText}`);
-          }
-          let errorMessage = `API request failed with status ${response.status}`;
-          try {
-            // Try to parse the error as JSON (skip for known empty address state)
-            if (!errorText.includes('No addresses found for this user.')) {
-              const errorData = JSON.parse(errorText);
-              console.error('API Error Details:', errorData);
-              // Extract error message from various possible formats
-              if (errorData.message) {
-                errorMessage = errorData.message;
-              } else if (errorData.title) {
-                errorMessage = errorData.title;
-                // If there are validation errors, include them in the message
-                if (errorData.errors) {
-                  console.error('Validation Errors:', errorData.errors);
-                  try {
-                    // Format validation errors for better readability
-                    const errorsObj = errorData.errors as Record<string, string | string[] | unknown>;
-                    const validationErrors = Object.entries(errorsObj)
-                      .map(([field, errors]) => {
-                        const errorMessages = Array.isArray(errors) 
-                          ? errors.join(', ') 
-                          : String(errors);
-                        return `${field}: ${errorMessages}`;
-                      })
-                      .join('; ');
-                    errorMessage = `Validation errors: ${validationErrors}`;
-                  } catch (validationErr) {
-                    console.error('Error parsing validation errors:', validationErr);
-                  }
-                }
-              } else if (errorData.detail) {
-                errorMessage = errorData.detail;
-              } else if (typeof errorData === 'string') {
-                errorMessage = errorData;
-              }
-            }
-          } catch (e) {
-            // If parsing fails, use the raw text
-            console.error('Raw API Error:', errorText);
-            if (errorText) {
-              errorMessage = errorText;
-            }
-          }
-          throw new Error(errorMessage);
-        }
-        
-        // Check if the response has content
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('application/json')) {
-          const data = await response.json();
-          return { success: true, data };
-        }
-        
-        return { success: true };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        console.warn(`Request attempt ${retries + 1} failed for ${endpoint}:`, lastError.message);
-        
-        // Only retry on network errors or timeouts
-        if (error instanceof TypeError || 
-            (error instanceof Error && error.message.includes('timeout'))) {
-          retries++;
-          // Add a small delay before retrying
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } else {
-          // For other errors, don't retry
-          break;
-        }
-      }
-    }
-    
-    // If we get here, all retries failed
-    console.error(`API Error (${endpoint}) after ${retries} retries:`, lastError);
-    const errorMessage = lastError?.message || 'An unknown error occurred';
-    
-    // For network errors, provide a more user-friendly message
-    if (lastError instanceof TypeError && lastError.message.includes('Network request failed')) {
-      return { 
-        success: false, 
-        error: 'Network connection error. Please check your internet connection or try again later.',
-        data: null
-      };
-    }
-    
-    // For timeout errors
-    if (lastError?.message.includes('timeout')) {
-      return {
-        success: false,
-        error: 'The server is taking too long to respond. Please try again later.',
-        data: null
-      };
-    }
-    
-    // For server errors (500 status code)
-    if (lastError?.message.includes('500')) {
-      return {
-        success: false,
-        error: 'The server encountered an error processing your request. This might be due to invalid data or a server issue. Please try again or contact support.',
-        data: null
-      };
-    }
-    
-    return { success: false, error: errorMessage };
-  } catch (error) {
-    // This catch block handles errors outside the retry mechanism
-    console.error(`Unexpected API Error (${endpoint}):`, error);
-    return { 
-      success: false, 
-      error: 'An unexpected error occurred. Please try again later.',
-      data: null
-    };
-  }
+// frontend/src/services/apiCore.ts
+
+import { DEFAULT_HEADERS, CLIENT_SUBMISSION_HEADER, MOCK_SERVER_BASE_URL, ApiError, ApiResponse, ApiRequestOptions } from './apiConfig';
+import { loadActiveEnvironment } from './environmentService';
+import userService from './userService';
+import { canRefreshFor, refreshAccessToken } from './authSession';
+import { createApiError, createHttpError, createRequestError, toErrorResponse } from './apiErrors';
+import { dedupeRequest, getCachePolicy, invalidateForMutation, isCacheEntryFresh, readCache, writeCache } from './responseCache';
+import { canRequest, getCircuitGroup, recordFailure, recordSuccess, releaseProbe } from './circuitBreaker';
+import { createLogger } from './logger';
+import { RequestTrace, finishNetworkRecord, recordCacheHit, startNetworkRecord } from './networkInspector';
+import { isOnline, reportBackendReachable, reportNetworkError } from './connectivityService';
+import { Schema, validateResponse } from './schema';
+
+const log = createLogger('api');
+
+// Statuses that mean the backend is down or overloaded rather than that the
+// request was wrong; these are retried and count against the circuit breaker
+const UNAVAILABLE_STATUSES = [429, 502, 503, 504];
+
+const CIRCUIT_OPEN_MESSAGE = 'The server is temporarily unavailable. Please try again in a moment.';
+
+// Uploads can take much longer than other requests on a slow connection
+const UPLOAD_TIMEOUT_MS = 120000;
+
+// Authorization header value for a stored token
+const toBearer = (token: string): string => (token.startsWith('Bearer ') ? token : `Bearer ${token}`);
+
+// Missing items are often expected (e.g. a deleted address), so they are not logged as errors
+const logApiError = (endpoint: string, apiError: ApiError, errorText: string) => {
+  if (apiError.kind === 'not-found') {
+    log.info(`API info (${apiError.status}) for ${endpoint}: ${errorText}`);
+  } else {
+    log.error(`API error (${apiError.status}) for ${endpoint}: ${errorText}`);
+  }
+  if (apiError.fieldErrors) {
+    log.error('Validation Errors:', apiError.fieldErrors);
+  }
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Exponential backoff with jitter: the delay doubles with every retry up to the
+// cap, and a random part of it is dropped so clients that failed together do
+// not all retry at the same moment
+const getBackoffDelay = (retry: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Wait before a retry. Resolves early when the caller aborts, so the next attempt fails as cancelled.
+const waitBeforeRetry = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done);
+  });
+
+// Feed the outcome of a request into the circuit breaker of its endpoint group
+const recordResponse = (endpoint: string, response: Response) => {
+  // 426 Upgrade Required: this app version is no longer accepted by the backend
+  if (response.status === 426) {
+    // Import here to avoid circular dependency
+    import('./versionService').then(({ reportUpgradeRequired }) => reportUpgradeRequired());
+  }
+  reportBackendReachable();
+  if (UNAVAILABLE_STATUSES.includes(response.status)) {
+    recordFailure(endpoint, parseRetryAfter(response.headers.get('Retry-After')));
+  } else {
+    recordSuccess(endpoint);
+  }
+};
+
+// Check successful response data against the caller's schema; a mismatch is logged, never fatal
+const applySchema = <R>(endpoint: string, response: ApiResponse<R>, schema?: Schema<R>): ApiResponse<R> => {
+  if (!schema || !response.success || response.data === null || response.data === undefined) {
+    return response;
+  }
+  return { ...response, data: validateResponse(endpoint, schema, response.data) };
+};
+
+const recordRequestError = (endpoint: string, apiError: ApiError) => {
+  if (apiError.kind === 'network' || apiError.kind === 'timeout') {
+    recordFailure(endpoint);
+    reportNetworkError();
+  } else {
+    releaseProbe(endpoint);
+  }
+};
+
+// Fetch that is aborted when the timeout passes or the caller's signal fires.
+// A timeout is reported as a 'Request timeout' error, a cancellation as an AbortError.
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', abortFromCaller);
+  }
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new Error('Request timeout');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+// Read the raw response headers of an XMLHttpRequest
+const parseXhrHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  });
+  return headers;
+};
+
+// POST a multipart form. XMLHttpRequest is used because fetch() does not report
+// upload progress; timeouts and cancellations fail the same way as in fetchWithTimeout.
+function sendMultipart(
+  url: string,
+  headers: Record<string, string>,
+  formData: FormData,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<Response> {
+  // The mock backend is only reachable through fetch()
+  if (url.startsWith(MOCK_SERVER_BASE_URL)) {
+    onProgress?.(0);
+    return fetchWithTimeout(url, { method: 'POST', headers, body: formData }, timeoutMs, signal).then(response => {
+      onProgress?.(1);
+      return response;
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const abortError = () => {
+      const error = new Error('Aborted');
+      error.name = 'AbortError';
+      return error;
+    };
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abortFromCaller = () => xhr.abort();
+    const settle = (outcome: () => void) => {
+      signal?.removeEventListener('abort', abortFromCaller);
+      outcome();
+    };
+
+    xhr.open('POST', url);
+    xhr.timeout = timeoutMs;
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable && event.total > 0) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => settle(() => {
+      onProgress?.(1);
+      const hasBody = xhr.status !== 204 && xhr.responseText !== '';
+      resolve(new Response(hasBody ? xhr.responseText : null, {
+        status: xhr.status,
+        headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+      }));
+    });
+    xhr.onerror = () => settle(() => reject(new TypeError('Network request failed')));
+    xhr.ontimeout = () => settle(() => reject(new Error('Request timeout')));
+    xhr.onabort = () => settle(() => reject(abortError()));
+
+    signal?.addEventListener('abort', abortFromCaller);
+    xhr.send(formData);
+  });
+}
+
+// Resolve with a cancelled response as soon as the signal fires, without
+// aborting the shared request behind the promise
+function raceWithSignal<R>(request: Promise<ApiResponse<R>>, signal?: AbortSignal): Promise<ApiResponse<R>> {
+  if (!signal) {
+    return request;
+  }
+  const cancelled = () => toErrorResponse<R>(createApiError('cancelled'));
+  if (signal.aborted) {
+    return Promise.resolve(cancelled());
+  }
+  return new Promise(resolve => {
+    const onAbort = () => resolve(cancelled());
+    signal.addEventListener('abort', onAbort);
+    request.then(response => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(response);
+    });
+  });
+}
+
+// Function to check if the API is reachable
+export async function checkApiConnection(): Promise<boolean> {
+  try {
+    const { baseUrl } = await loadActiveEnvironment();
+    log.debug(`Checking API connection to ${baseUrl}...`);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    
+    const response = await fetch(`${baseUrl}/api/health`, {
+      method: 'GET',
+      headers: {
+        'ngrok-skip-browser-warning': 'true',
+        'User-Agent': 'FarmingApp/1.0 (React Native Mobile Application)',
+        'Cache-Control': 'no-cache',
+      },
+      signal: controller.signal
+    });
+    
+    clearTimeout(timeoutId);
+    
+    if (response.ok) {
+      log.info('API connection successful');
+      return true;
+    } else {
+      log.warn(`API connection check failed with status: ${response.status}`);
+      return false;
+    }
+  } catch (error) {
+    log.error('API connection check failed:', error);
+    return false;
+  }
+}
+
+// API request function with no retries - used for operations that should never be retried
+export async function apiRequestNoRetry<T = any, R = any>(
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+  body?: T,
+  requestOptions: ApiRequestOptions = {}
+): Promise<ApiResponse<R>> {
+  const recordId = startNetworkRecord(method, endpoint, body);
+  const trace: RequestTrace = { retries: 0 };
+  const response = await sendApiRequestNoRetry<T, R>(endpoint, method, body, requestOptions, trace);
+  finishNetworkRecord(recordId, response, trace);
+  return applySchema(endpoint, response, requestOptions.schema);
+}
+
+// Makes the actual request for apiRequestNoRetry
+async function sendApiRequestNoRetry<T = any, R = any>(
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  body: T | undefined,
+  requestOptions: ApiRequestOptions,
+  trace: RequestTrace
+): Promise<ApiResponse<R>> {
+  try {
+    const { baseUrl, timeoutMs } = await loadActiveEnvironment();
+
+    // Get the authentication token
+    const token = await userService.getAuthToken();
+    
+    // Prepare headers
+    const headers: Record<string, string> = {
+      ...DEFAULT_HEADERS,
+      // Additional headers to help with ngrok and CORS issues
+      'Origin': baseUrl,
+    };
+    
+    // Add authorization header if token exists
+    // Skip authentication for create-manager endpoint to allow initial admin creation
+    if (token && !endpoint.includes('/api/Authentication/create-manager')) {
+      headers['Authorization'] = toBearer(token);
+      log.debug('Using auth token (apiRequestNoRetry)');
+    } else if (endpoint.includes('/api/Authentication/create-manager')) {
+      log.debug('Skipping auth token for create-manager endpoint (NoRetry)');
+    }
+    
+    if (requestOptions.clientSubmissionId) {
+      headers[CLIENT_SUBMISSION_HEADER] = requestOptions.clientSubmissionId;
+    }
+    
+    const options: {
+      method: string;
+      headers: Record<string, string>;
+      body?: string;
+    } = {
+      method,
+      headers,
+    };
+
+    if (body && (method === 'POST' || method === 'PUT')) {
+      options.body = JSON.stringify(body);
+      log.debug(`Request to ${endpoint}:`, body);
+    }
+
+    const url = `${baseUrl}${endpoint}`;
+    trace.url = url;
+    log.debug(`Making ${method} request to: ${url} (NO RETRY)`);
+    
+    // Fail fast while the backend for this endpoint group is known to be down
+    if (!canRequest(endpoint)) {
+      log.warn(`Circuit for ${getCircuitGroup(endpoint)} is open, not sending ${method} ${endpoint}`);
+      return toErrorResponse<R>(createApiError('network', undefined, CIRCUIT_OPEN_MESSAGE));
+    }
+    
+    const sendRequest = () => fetchWithTimeout(url, options, timeoutMs, requestOptions.signal);
+    
+    let response = await sendRequest();
+    trace.status = response.status;
+    
+    // An expired access token is refreshed once and the request replayed
+    if (response.status === 401 && headers['Authorization'] && canRefreshFor(endpoint)) {
+      const newToken = await refreshAccessToken();
+      if (!newToken) {
+        return toErrorResponse<R>(createApiError('auth', 401));
+      }
+      headers['Authorization'] = toBearer(newToken);
+      log.debug(`Replaying ${method} ${endpoint} with refreshed token (NO RETRY)`);
+      response = await sendRequest();
+      trace.status = response.status;
+    }
+    
+    recordResponse(endpoint, response);
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      const apiError = createHttpError(response.status, errorText);
+      logApiError(endpoint, apiError, errorText);
+      return toErrorResponse<R>(apiError);
+    }
+    
+    if (method !== 'GET') {
+      await invalidateForMutation(endpoint);
+    }
+    
+    // For 204 No Content responses, return success with null data
+    if (response.status === 204) {
+      return {
+        success: true,
+        data: null as unknown as R
+      };
+    }
+    
+    // Only parse JSON bodies; some endpoints answer with an empty 200
+    const contentType = response.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      return {
+        success: true,
+        data: null as unknown as R
+      };
+    }
+    
+    // Parse the response
+    const data = await response.json();
+    return {
+      success: true,
+      data
+    };
+  } catch (error) {
+    log.error(`API request failed: ${error instanceof Error ? error.message : String(error)}`);
+    const apiError = createRequestError(error);
+    recordRequestError(endpoint, apiError);
+    return toErrorResponse<R>(apiError);
+  }
+}
+
+// Common API request function. GETs go through the response cache: fresh data
+// is returned without a request, stale data is returned immediately while it
+// is refreshed in the background, and identical in-flight GETs are shared.
+// With a `schema` option the response data is checked and normalised.
+export async function apiRequest<T = any, R = any>(
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+  body?: T,
+  requestOptions: ApiRequestOptions = {}
+): Promise<ApiResponse<R>> {
+  const response = await requestThroughCache<T, R>(endpoint, method, body, requestOptions);
+  return applySchema(endpoint, response, requestOptions.schema);
+}
+
+// Sends a request for apiRequest, answering GETs from the response cache where possible
+async function requestThroughCache<T = any, R = any>(
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  body: T | undefined,
+  requestOptions: ApiRequestOptions
+): Promise<ApiResponse<R>> {
+  if (method !== 'GET') {
+    const response = await sendApiRequest<T, R>(endpoint, method, body, requestOptions);
+    if (response.success) {
+      await invalidateForMutation(endpoint);
+    }
+    return requestOptions.clientSubmissionId
+      ? { ...response, clientSubmissionId: requestOptions.clientSubmissionId }
+      : response;
+  }
+
+  const policy = getCachePolicy(endpoint);
+  if (!policy && requestOptions.signal) {
+    // Not shared with other callers, so cancelling can abort the request itself
+    return sendApiRequest<T, R>(endpoint, method, body, requestOptions);
+  }
+
+  // A shared request is never aborted by one caller; the caller stops waiting instead
+  const { signal, ...sharedOptions } = requestOptions;
+  const fetchAndCache = () => raceWithSignal(dedupeRequest(endpoint, async () => {
+    const response = await sendApiRequest<T, R>(endpoint, method, body, sharedOptions);
+    if (policy && response.success) {
+      await writeCache(endpoint, response.data);
+    }
+    return response;
+  }), signal);
+
+  if (!policy || requestOptions.skipCache) {
+    return fetchAndCache();
+  }
+
+  const cached = await readCache<R>(endpoint);
+  if (!cached) {
+    return fetchAndCache();
+  }
+
+  if (isCacheEntryFresh(cached, policy)) {
+    recordCacheHit(endpoint, cached.data, false);
+    return { success: true, data: cached.data, fromCache: true };
+  }
+
+  // Serve the stale copy now; subscribers are notified when the refresh lands.
+  // Offline the refresh is skipped; the cache is revalidated once the connection returns.
+  recordCacheHit(endpoint, cached.data, true);
+  if (isOnline()) {
+    log.debug(`Serving stale ${endpoint} from cache while refreshing`);
+    fetchAndCache();
+  }
+  return { success: true, data: cached.data, fromCache: true, stale: true };
+}
+
+// Sends a request for apiRequest and records it for the network inspector
+async function sendApiRequest<T = any, R = any>(
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  body: T | undefined,
+  requestOptions: ApiRequestOptions
+): Promise<ApiResponse<R>> {
+  const recordId = startNetworkRecord(method, endpoint, body);
+  const trace: RequestTrace = { retries: 0 };
+  const response = await sendWithRetries<T, R>(endpoint, method, body, requestOptions, trace);
+  finishNetworkRecord(recordId, response, trace);
+  return response;
+}
+
+// Makes the actual request for apiRequest, retrying GETs on network errors
+async function sendWithRetries<T = any, R = any>(
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  body: T | undefined,
+  requestOptions: ApiRequestOptions,
+  trace: RequestTrace
+): Promise<ApiResponse<R>> {
+  try {
+    const {
+      baseUrl,
+      timeoutMs,
+      maxRetries: profileMaxRetries,
+      retryBaseDelayMs,
+      retryMaxDelayMs,
+    } = await loadActiveEnvironment();
+
+    // Get the authentication token
+    const token = await userService.getAuthToken();
+    
+    // Prepare headers
+    const headers: Record<string, string> = {
+      ...DEFAULT_HEADERS,
+      // Additional headers to help with ngrok and CORS issues
+      'Origin': baseUrl,
+    };
+    
+    // Add authorization header if token exists
+    // Skip authentication for create-manager endpoint to allow initial admin creation
+    if (token && !endpoint.includes('/api/Authentication/create-manager')) {
+      headers['Authorization'] = toBearer(token);
+      log.debug('Using auth token (apiRequest)');
+    } else if (endpoint.includes('/api/Authentication/create-manager')) {
+      log.debug('Skipping auth token for create-manager endpoint');
+    } else if (!token) {
+      log.warn('No auth token available for endpoint:', endpoint);
+    }
+    
+    if (requestOptions.clientSubmissionId) {
+      headers[CLIENT_SUBMISSION_HEADER] = requestOptions.clientSubmissionId;
+    }
+    
+    const options: {
+      method: string;
+      headers: Record<string, string>;
+      body?: string;
+    } = {
+      method,
+      headers,
+    };
+
+    if (body && (method === 'POST' || method === 'PUT')) {
+      options.body = JSON.stringify(body);
+      log.debug(`Request to ${endpoint} with body:`, body);
+    }
+
+    const url = `${baseUrl}${endpoint}`;
+    trace.url = url;
+    log.debug(`Making ${method} request to: ${url}`);
+    
+    // Only retry GET requests, and mutations the server can recognise as repeats
+    // by their client submission ID. For critical operations like adding
+    // addresses, use apiRequestNoRetry instead
+    const maxRetries = method === 'GET' || requestOptions.clientSubmissionId ? profileMaxRetries : 0;
+    let lastError: ApiError | null = null;
+    let retries = 0;
+    let hasRefreshedToken = false;
+    
+    while (retries <= maxRetries) {
+      // Fail fast while the backend for this endpoint group is known to be down
+      if (!canRequest(endpoint)) {
+        log.warn(`Circuit for ${getCircuitGroup(endpoint)} is open, not sending ${method} ${endpoint}`);
+        lastError = createApiError('network', undefined, CIRCUIT_OPEN_MESSAGE);
+        break;
+      }
+      
+      try {
+        if (retries > 0) {
+          log.debug(`Retry attempt ${retries} for ${endpoint}`);
+        }
+        trace.retries = retries;
+        
+        const response = await fetchWithTimeout(url, options, timeoutMs, requestOptions.signal);
+        trace.status = response.status;
+        recordResponse(endpoint, response);
+        
+        if (!response.ok) {
+          // An expired access token is refreshed once and the request replayed;
+          // the replay does not count as a retry
+          if (response.status === 401 && headers['Authorization'] && canRefreshFor(endpoint)) {
+            if (!hasRefreshedToken) {
+              hasRefreshedToken = true;
+              const newToken = await refreshAccessToken();
+              if (newToken) {
+                headers['Authorization'] = toBearer(newToken);
+                log.debug(`Replaying ${method} ${endpoint} with refreshed token`);
+                continue;
+              }
+            }
+            log.warn(`Request to ${endpoint} is still unauthorized, session has ended`);
+            return toErrorResponse<R>(createApiError('auth', 401));
+          }
+          
+          const errorText = await response.text();
+          const apiError = createHttpError(response.status, errorText);
+          
+          // An overloaded or briefly unavailable server is retried after the
+          // wait it asked for, unless that wait is longer than we are willing to hold
+          if (UNAVAILABLE_STATUSES.includes(response.status) && retries < maxRetries) {
+            const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+            if (retryAfterMs === undefined || retryAfterMs <= retryMaxDelayMs) {
+              lastError = apiError;
+              retries++;
+              const delayMs = retryAfterMs ?? getBackoffDelay(retries, retryBaseDelayMs, retryMaxDelayMs);
+              log.warn(`${endpoint} answered ${response.status}, retrying in ${Math.round(delayMs)}ms`);
+              await waitBeforeRetry(delayMs, requestOptions.signal);
+              continue;
+            }
+          }
+          
+          // The server answered, so retrying will not help
+          logApiError(endpoint, apiError, errorText);
+          return toErrorResponse<R>(apiError);
+        }
+        
+        // Check if the response has content
+        const contentType = response.headers.get('content-type');
+        if (contentType && contentType.includes('application/json')) {
+          const data = await response.json();
+          return { success: true, data };
+        }
+        
+        return { success: true };
+      } catch (error) {
+        lastError = createRequestError(error);
+        recordRequestError(endpoint, lastError);
+        log.warn(`Request attempt ${retries + 1} failed for ${endpoint}:`, error instanceof Error ? error.message : String(error));
+        
+        // Only retry on network errors or timeouts
+        if (lastError.kind === 'network' || lastError.kind === 'timeout') {
+          retries++;
+          if (retries <= maxRetries) {
+            await waitBeforeRetry(getBackoffDelay(retries, retryBaseDelayMs, retryMaxDelayMs), requestOptions.signal);
+          }
+        } else {
+          // For other errors, don't retry
+          break;
+        }
+      }
+    }
+    
+    const apiError = lastError || createApiError('server');
+    if (apiError.kind === 'cancelled') {
+      log.debug(`Request to ${endpoint} was cancelled`);
+      return toErrorResponse<R>(apiError);
+    }
+    
+    // If we get here, all retries failed
+    log.error(`API Error (${endpoint}) after ${retries} retries:`, lastError);
+    
+    // Keep mutations made without a connection so they can be replayed later
+    const isConnectionError = apiError.kind === 'network' || apiError.kind === 'timeout';
+    if (requestOptions.queueWhenOffline && method !== 'GET' && isConnectionError) {
+      // Import here to avoid circular dependency
+      const { enqueueMutation } = await import('./outboxService');
+      const item = await enqueueMutation({
+        endpoint,
+        method,
+        body,
+        ...requestOptions.outboxRequest,
+        tag: requestOptions.outboxTag,
+        label: requestOptions.outboxLabel,
+        key: requestOptions.outboxKey,
+        clientSubmissionId: requestOptions.clientSubmissionId,
+      });
+      return {
+        ...toErrorResponse<R>(apiError),
+        error: 'You appear to be offline. This change has been saved and will be sent when the connection returns.',
+        queued: true,
+        outboxId: item.id
+      };
+    }
+    
+    return toErrorResponse<R>(apiError);
+  } catch (error) {
+    // This catch block handles errors outside the retry mechanism
+    log.error(`Unexpected API Error (${endpoint}):`, error);
+    releaseProbe(endpoint);
+    return toErrorResponse<R>(createApiError('server', undefined, 'An unexpected error occurred. Please try again later.'));
+  }
+}
+
+/**
+ * POST a multipart form, such as an image file. Connection errors are retried
+ * with backoff like apiRequest; progress is reported through
+ * requestOptions.onUploadProgress. Uploads never go through the offline
+ * outbox here; queue them with imageUploadService instead.
+ */
+export async function apiUpload<R = any>(
+  endpoint: string,
+  formData: FormData,
+  requestOptions: ApiRequestOptions = {}
+): Promise<ApiResponse<R>> {
+  const recordId = startNetworkRecord('POST', endpoint);
+  const trace: RequestTrace = { retries: 0 };
+  const response = await sendUpload<R>(endpoint, formData, requestOptions, trace);
+  finishNetworkRecord(recordId, response, trace);
+  return applySchema(endpoint, response, requestOptions.schema);
+}
+
+// Makes the actual request for apiUpload
+async function sendUpload<R = any>(
+  endpoint: string,
+  formData: FormData,
+  requestOptions: ApiRequestOptions,
+  trace: RequestTrace
+): Promise<ApiResponse<R>> {
+  try {
+    const { baseUrl, timeoutMs, maxRetries, retryBaseDelayMs, retryMaxDelayMs } = await loadActiveEnvironment();
+    const token = await userService.getAuthToken();
+
+    const headers: Record<string, string> = {
+      ...DEFAULT_HEADERS,
+      'Origin': baseUrl,
+    };
+    // The multipart Content-Type, with its boundary, is filled in when the form is sent
+    delete headers['Content-Type'];
+    if (token) {
+      headers['Authorization'] = toBearer(token);
+    }
+
+    const url = `${baseUrl}${endpoint}`;
+    trace.url = url;
+    log.debug(`Uploading to: ${url}`);
+
+    let retries = 0;
+    let hasRefreshedToken = false;
+    while (true) {
+      if (!canRequest(endpoint)) {
+        log.warn(`Circuit for ${getCircuitGroup(endpoint)} is open, not uploading to ${endpoint}`);
+        return toErrorResponse<R>(createApiError('network', undefined, CIRCUIT_OPEN_MESSAGE));
+      }
+      trace.retries = retries;
+
+      let response: Response;
+      try {
+        response = await sendMultipart(
+          url,
+          headers,
+          formData,
+          Math.max(timeoutMs, UPLOAD_TIMEOUT_MS),
+          requestOptions.signal,
+          requestOptions.onUploadProgress
+        );
+      } catch (error) {
+        const apiError = createRequestError(error);
+        recordRequestError(endpoint, apiError);
+        if (apiError.kind === 'cancelled') {
+          log.debug(`Upload to ${endpoint} was cancelled`);
+          return toErrorResponse<R>(apiError);
+        }
+        if ((apiError.kind === 'network' || apiError.kind === 'timeout') && retries < maxRetries) {
+          retries++;
+          log.warn(`Upload attempt ${retries} failed for ${endpoint}: ${apiError.message}`);
+          await waitBeforeRetry(getBackoffDelay(retries, retryBaseDelayMs, retryMaxDelayMs), requestOptions.signal);
+          continue;
+        }
+        log.error(`Upload to ${endpoint} failed after ${retries} retries:`, apiError.message);
+        return toErrorResponse<R>(apiError);
+      }
+
+      trace.status = response.status;
+      recordResponse(endpoint, response);
+
+      // An expired access token is refreshed once and the upload sent again
+      if (response.status === 401 && headers['Authorization'] && canRefreshFor(endpoint) && !hasRefreshedToken) {
+        hasRefreshedToken = true;
+        const newToken = await refreshAccessToken();
+        if (!newToken) {
+          return toErrorResponse<R>(createApiError('auth', 401));
+        }
+        headers['Authorization'] = toBearer(newToken);
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        const apiError = createHttpError(response.status, errorText);
+        logApiError(endpoint, apiError, errorText);
+        return toErrorResponse<R>(apiError);
+      }
+
+      const contentType = response.headers.get('content-type');
+      if (!contentType || !contentType.includes('application/json')) {
+        return { success: true, data: null as unknown as R };
+      }
+      const data = await response.json();
+      return { success: true, data };
+    }
+  } catch (error) {
+    log.error(`Unexpected upload error (${endpoint}):`, error);
+    releaseProbe(endpoint);
+    return toErrorResponse<R>(createApiError('server', undefined, 'An unexpected error occurred. Please try again later.'));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+// frontend/src/services/apiErrors.ts
+// Builds the structured ApiError carried by failed ApiResponses
+
+import { ApiError, ApiErrorKind, ApiResponse } from './apiConfig';
+
+// Messages shown when the server did not send a usable one
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Network connection error. Please check your internet connection or try again later.',
+  timeout: 'The server is taking too long to respond. Please try again later.',
+  auth: 'Your session has expired. Please log in again.',
+  forbidden: 'You do not have permission to do this.',
+  'not-found': 'The requested item could not be found.',
+  validation: 'The request was not valid. Please check the details and try again.',
+  conflict: 'This was changed elsewhere. Please refresh and try again.',
+  server: 'The server encountered an error processing your request. This might be due to invalid data or a server issue. Please try again or contact support.',
+  cancelled: 'The request was cancelled.',
+};
+
+/**
+ * Map an HTTP status code to an error kind
+ */
+export const getErrorKindForStatus = (status: number): ApiErrorKind => {
+  switch (status) {
+    case 401:
+      return 'auth';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not-found';
+    case 408:
+      return 'timeout';
+    case 409:
+    case 412:
+      return 'conflict';
+    default:
+      return status >= 500 || status === 429 ? 'server' : 'validation';
+  }
+};
+
+// Normalize the ASP.NET style `errors` object into a list of messages per field
+const parseFieldErrors = (errors: unknown): Record<string, string[]> | undefined => {
+  if (!errors || typeof errors !== 'object') {
+    return undefined;
+  }
+  const fieldErrors: Record<string, string[]> = {};
+  Object.entries(errors as Record<string, unknown>).forEach(([field, messages]) => {
+    fieldErrors[field] = Array.isArray(messages) ? messages.map(String) : [String(messages)];
+  });
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+};
+
+/**
+ * Format field validation messages as one line, e.g. "Pincode: Required; Name: Too long"
+ */
+export const formatFieldErrors = (fieldErrors: Record<string, string[]>): string =>
+  Object.entries(fieldErrors)
+    .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+    .join('; ');
+
+/**
+ * Build an ApiError from a non-2xx response
+ * @param status HTTP status code
+ * @param errorText Raw response body
+ */
+export const createHttpError = (status: number, errorText: string): ApiError => {
+  const kind = getErrorKindForStatus(status);
+  let serverMessage: string | undefined;
+  let fieldErrors: Record<string, string[]> | undefined;
+
+  try {
+    const errorData = JSON.parse(errorText);
+    if (typeof errorData === 'string') {
+      serverMessage = errorData;
+    } else if (errorData) {
+      serverMessage = errorData.message || errorData.title || errorData.detail || errorData.error;
+      fieldErrors = parseFieldErrors(errorData.errors);
+    }
+  } catch (e) {
+    // Not JSON; use the raw text
+    serverMessage = errorText.trim() || undefined;
+  }
+
+  let message = serverMessage || DEFAULT_MESSAGES[kind];
+  if (fieldErrors) {
+    message = `Validation errors: ${formatFieldErrors(fieldErrors)}`;
+  }
+
+  return { kind, status, message, serverMessage, fieldErrors };
+};
+
+/**
+ * Build an ApiError from an exception thrown while making a request
+ */
+export const createRequestError = (error: unknown): ApiError => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  // apiCore reports its own timeouts as 'Request timeout', so an abort means the caller cancelled
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { kind: 'cancelled', message: DEFAULT_MESSAGES.cancelled };
+  }
+  if (errorMessage.toLowerCase().includes('timeout')) {
+    return { kind: 'timeout', message: DEFAULT_MESSAGES.timeout };
+  }
+  if (error instanceof TypeError && errorMessage.includes('Network request failed')) {
+    return { kind: 'network', message: DEFAULT_MESSAGES.network };
+  }
+  // Any other TypeError comes from fetch failing before a response arrived
+  if (error instanceof TypeError) {
+    return { kind: 'network', message: DEFAULT_MESSAGES.network, serverMessage: errorMessage };
+  }
+  return { kind: 'server', message: errorMessage || DEFAULT_MESSAGES.server };
+};
+
+/**
+ * Build an ApiError of the given kind with its default message
+ */
+export const createApiError = (kind: ApiErrorKind, status?: number, message?: string): ApiError => ({
+  kind,
+  status,
+  message: message || DEFAULT_MESSAGES[kind],
+});
+
+/**
+ * Build a failed ApiResponse from an ApiError
+ */
+export const toErrorResponse = <R = any>(apiError: ApiError): ApiResponse<R> => ({
+  success: false,
+  error: apiError.message,
+  apiError,
+  status: apiError.status,
+  data: null,
+});
+
+/**
+ * Whether a response failed with one of the given error kinds
+ */
+export const isApiErrorKind = (response: ApiResponse | null | undefined, ...kinds: ApiErrorKind[]): boolean =>
+  !!response && !response.success && !!response.apiError && kinds.includes(response.apiError.kind);
+
+/**
+ * Whether the request could succeed if it is sent again later
+ */
+export const isRetryableError = (apiError: ApiError | undefined): boolean =>
+  !apiError || apiError.kind === 'network' || apiError.kind === 'timeout' || apiError.kind === 'server';
+
+const apiErrors = {
+  getErrorKindForStatus,
+  formatFieldErrors,
+  createHttpError,
+  createRequestError,
+  createApiError,
+  toErrorResponse,
+  isApiErrorKind,
+  isRetryableError,
+};
+
+export default apiErrors;
@@ -0,0 +1,260 @@
+// frontend/src/services/apiSchemas.ts
+// Response schemas for the DTOs in apiService.ts and adminApiService.ts.
+// Pass one as the `schema` option of apiRequest to check the response.
+
+import type {
+  Address,
+  Cart,
+  CartItemDto,
+  Category,
+  CMSPage,
+  DeliveryChargeRule,
+  Notification,
+  Order,
+  OrderCreationResponse,
+  OrderItem,
+  OrderStatus,
+  Product,
+  UserProfile,
+} from './apiService';
+import type {
+  AdminOrder,
+  AdminOrderItem,
+  AdminProduct,
+  AdminUserProfile,
+  InventoryItem,
+} from './adminApiService';
+import type { UploadedImage } from './imageUploadService';
+import { arrayOf, boolean, id, number, object, optional, preprocess, string } from './schema';
+
+// ===== CATALOGUE =====
+
+export const CategorySchema = object<Category>('Category', {
+  id: number(),
+  name: string(),
+  description: optional(string()),
+  imageUrl: optional(string()),
+  parentCategoryId: optional(number()),
+  sortOrder: optional(number()),
+  statusId: optional(number()),
+});
+
+export const ProductSchema = object<Product>('Product', {
+  productId: id(),
+  name: string(),
+  description: optional(string()),
+  price: number(),
+  stockQuantity: optional(number()),
+  imageUrl: optional(string()),
+  categoryId: optional(number()),
+  unitOfMeasure: optional(string()),
+  isActive: optional(boolean()),
+  minOrderQuantity: optional(number()),
+  maxOrderQuantity: optional(number()),
+  hsnCode: optional(string()),
+  taxRate: optional(number()),
+  packSize: optional(number()),
+  packUnit: optional(string()),
+  quantityStep: optional(number()),
+}, { aliases: [['productId', 'id']] });
+
+export const AdminProductSchema = object<AdminProduct>('AdminProduct', {
+  productId: id(),
+  name: string(),
+  description: optional(string()),
+  price: number(),
+  stockQuantity: optional(number()),
+  imageUrl: optional(string()),
+  categoryId: optional(number()),
+  isActive: optional(boolean()),
+  unitCost: optional(number()),
+  hsnCode: optional(string()),
+  taxRate: optional(number()),
+  packSize: optional(number()),
+  packUnit: optional(string()),
+  quantityStep: optional(number()),
+}, { aliases: [['productId', 'id']] });
+
+export const InventoryItemSchema = object<InventoryItem>('InventoryItem', {
+  productId: id(),
+  name: string(),
+  price: number(),
+  stockQuantity: number(),
+  categoryId: number(),
+  imageUrl: optional(string()),
+  isActive: boolean(),
+  createdDate: optional(string()),
+}, { aliases: [['productId', 'id'], ['name', 'productName'], ['stockQuantity', 'currentStock']] });
+
+// ===== CART =====
+
+export const CartItemSchema = object<CartItemDto>('CartItem', {
+  productId: id(),
+  name: optional(string()),
+  price: number(),
+  quantity: number(),
+  imageUrl: optional(string()),
+  unitOfMeasure: optional(string()),
+  modifiedDate: optional(string()),
+}, { aliases: [['productId', 'id'], ['name', 'productName'], ['modifiedDate', 'updatedAt', 'addedDate']] });
+
+// Older backends answer with a bare list of items
+export const CartSchema = preprocess(
+  value => (Array.isArray(value) ? { items: value } : value),
+  object<Cart>('Cart', {
+    items: arrayOf(CartItemSchema),
+    totalItems: optional(number()),
+    totalAmount: optional(number()),
+  })
+);
+
+// ===== ADDRESSES =====
+
+export const AddressSchema = object<Address>('Address', {
+  id: id(),
+  addressId: optional(number()),
+  userId: optional(string()),
+  fullName: optional(string()),
+  phoneNumber: optional(string()),
+  addressLine1: optional(string()),
+  addressLine2: optional(string()),
+  city: optional(string()),
+  state: optional(string()),
+  zipCode: optional(string()),
+  pincode: optional(string()),
+  isDefaultShipping: optional(boolean()),
+  isDefault: optional(boolean()),
+  statusId: optional(number()),
+}, {
+  aliases: [['id', 'addressId'], ['zipCode', 'pincode'], ['phoneNumber', 'phone'], ['isDefaultShipping', 'isDefault']],
+});
+
+// ===== NOTIFICATIONS & CMS =====
+
+export const NotificationSchema = object<Notification>('Notification', {
+  notificationId: number(),
+  userId: string(),
+  message: string(),
+  dateSent: string(),
+  isRead: boolean(),
+}, { aliases: [['notificationId', 'id'], ['dateSent', 'createdDate']] });
+
+export const CMSPageSchema = object<CMSPage>('CMSPage', {
+  cmsPageId: optional(number()),
+  title: string(),
+  slug: string(),
+  content: string(),
+  isActive: boolean(),
+});
+
+// ===== ORDERS =====
+
+export const OrderItemSchema = object<OrderItem>('OrderItem', {
+  productId: id(),
+  quantity: number(),
+  price: number(),
+  productName: string(),
+  imageUrl: optional(string()),
+  hsnCode: optional(string()),
+  taxRate: optional(number()),
+  taxAmount: optional(number()),
+}, { aliases: [['productName', 'name']] });
+
+export const OrderSchema = object<Order>('Order', {
+  id: id(),
+  userId: string(),
+  shippingAddressId: optional(number()),
+  orderDate: string(),
+  totalAmount: number(),
+  orderStatusId: id(),
+  trackingNumber: optional(string()),
+  orderItems: arrayOf(OrderItemSchema),
+  subtotalAmount: optional(number()),
+  gstAmount: optional(number()),
+  cgstAmount: optional(number()),
+  sgstAmount: optional(number()),
+  igstAmount: optional(number()),
+  deliveryCharge: optional(number()),
+  deliveryChargeRuleId: optional(number()),
+}, { aliases: [['id', 'orderId'], ['orderDate', 'createdDate', 'createdAt'], ['orderItems', 'items']] });
+
+export const OrderCreationResponseSchema = object<OrderCreationResponse>('OrderCreationResponse', {
+  orderId: id(),
+  message: optional(string()),
+}, { aliases: [['orderId', 'id']] });
+
+export const OrderStatusSchema = object<OrderStatus>('OrderStatus', {
+  id: id(),
+  name: string(),
+  description: optional(string()),
+  color: optional(string()),
+  displayOrder: optional(number()),
+}, { aliases: [['id', 'orderStatusId', 'statusId'], ['name', 'statusName']] });
+
+export const AdminOrderItemSchema = object<AdminOrderItem>('AdminOrderItem', {
+  orderItemId: optional(id()),
+  productId: id(),
+  productName: string(),
+  quantity: number(),
+  price: number(),
+  imageUrl: optional(string()),
+  hsnCode: optional(string()),
+  taxRate: optional(number()),
+  taxAmount: optional(number()),
+}, { aliases: [['productName', 'name']] });
+
+export const AdminOrderSchema = object<AdminOrder>('AdminOrder', {
+  id: id(),
+  userId: string(),
+  userName: optional(string()),
+  orderDate: string(),
+  totalAmount: number(),
+  orderStatusId: id(),
+  statusName: optional(string()),
+  shippingAddressId: optional(number()),
+  trackingNumber: optional(string()),
+  createdDate: string(),
+  orderItems: optional(arrayOf(AdminOrderItemSchema)),
+  subtotalAmount: optional(number()),
+  gstAmount: optional(number()),
+  cgstAmount: optional(number()),
+  sgstAmount: optional(number()),
+  igstAmount: optional(number()),
+  deliveryCharge: optional(number()),
+}, { aliases: [['id', 'orderId'], ['orderDate', 'createdDate', 'createdAt'], ['orderItems', 'items']] });
+
+// ===== USERS & DELIVERY =====
+
+export const UserProfileSchema = object<UserProfile>('UserProfile', {
+  userId: id(),
+  name: string(),
+  email: optional(string()),
+  phoneNumber: optional(string()),
+  profilePicture: optional(string()),
+  isActive: optional(boolean()),
+}, { aliases: [['userId', 'id']] });
+
+export const AdminUserProfileSchema = object<AdminUserProfile>('AdminUserProfile', {
+  userId: id(),
+  name: string(),
+  email: optional(string()),
+  phoneNumber: optional(string()),
+  profilePicture: optional(string()),
+  isActive: optional(boolean()),
+  role: optional(string()),
+}, { aliases: [['userId', 'id']] });
+
+export const DeliveryChargeRuleSchema = object<DeliveryChargeRule>('DeliveryChargeRule', {
+  ruleId: optional(number()),
+  minOrderAmount: number(),
+  maxOrderAmount: number(),
+  chargeAmount: number(),
+  isActive: boolean(),
+}, { aliases: [['ruleId', 'id']] });
+
+// ===== UPLOADS =====
+
+export const UploadedImageSchema = object<UploadedImage>('UploadedImage', {
+  fileId: optional(id()),
+  url: string(),
+}, { aliases: [['url', 'fileUrl', 'imageUrl']] });
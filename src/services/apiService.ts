@@ -1,9 +1,34 @@
 // frontend/src/services/apiService.ts
 
-import { ApiResponse, API_BASE_URL } from './apiConfig';
+import { ApiResponse, ApiRequestOptions, CLIENT_SUBMISSION_HEADER, PageRequest } from './apiConfig';
 import { apiRequest, apiRequestNoRetry, checkApiConnection } from './apiCore';
+import { loadActiveEnvironment } from './environmentService';
+import { enqueueMutation } from './outboxService';
+import { refreshAccessToken } from './authSession';
+import { createApiError, createHttpError, createRequestError, isApiErrorKind, toErrorResponse } from './apiErrors';
 import userService from './userService';
-import { API_ENDPOINTS } from './apiEndpoints';
+import { API_ENDPOINTS, buildPaginatedEndpoint } from './apiEndpoints';
+import { OrderSubmissionSource, completeSubmission, getClientSubmissionId } from './orderSubmissionService';
+import { createLogger } from './logger';
+import { arrayOf } from './schema';
+import {
+  AddressSchema,
+  CartSchema,
+  CategorySchema,
+  CMSPageSchema,
+  DeliveryChargeRuleSchema,
+  NotificationSchema,
+  OrderCreationResponseSchema,
+  OrderSchema,
+  OrderStatusSchema,
+  ProductSchema,
+  UserProfileSchema,
+} from './apiSchemas';
+
+const log = createLogger('api');
+const cartLog = createLogger('cart');
+const addressLog = createLogger('address');
+const orderLog = createLogger('orders');
 
 
 // ===== AUTH / OTP ENDPOINTS =====
@@ -30,19 +55,19 @@ export interface UserRegistrationDto {
 }
 
 export const authApi = {
-  generateOtp: (phoneNumber: string) => 
-    apiRequest<GenerateOtpRequest, any>(API_ENDPOINTS.AUTH.GENERATE_OTP, 'POST', { identifier: phoneNumber }),
+  generateOtp: (phoneNumber: string, signal?: AbortSignal) => 
+    apiRequest<GenerateOtpRequest, any>(API_ENDPOINTS.AUTH.GENERATE_OTP, 'POST', { identifier: phoneNumber }, { signal }),
   
-  verifyOtp: (phoneNumber: string, otp: string) => 
-    apiRequest<VerifyOtpRequest, any>(API_ENDPOINTS.AUTH.VERIFY_OTP, 'POST', { identifier: phoneNumber, code: otp }),
+  verifyOtp: (phoneNumber: string, otp: string, signal?: AbortSignal) => 
+    apiRequest<VerifyOtpRequest, any>(API_ENDPOINTS.AUTH.VERIFY_OTP, 'POST', { identifier: phoneNumber, code: otp }, { signal }),
     
-  login: (email: string, password: string) =>
-    apiRequest<UserLoginDto, any>(API_ENDPOINTS.AUTH.LOGIN, 'POST', { email, password }),
+  login: (email: string, password: string, signal?: AbortSignal) =>
+    apiRequest<UserLoginDto, any>(API_ENDPOINTS.AUTH.LOGIN, 'POST', { email, password }, { signal }),
     
-  register: (userData: UserRegistrationDto) =>
-    apiRequest<UserRegistrationDto, any>(API_ENDPOINTS.AUTH.REGISTER, 'POST', userData),
-  createManager: (userData: UserRegistrationDto) =>
-    apiRequest<UserRegistrationDto, any>(API_ENDPOINTS.AUTH.CREATE_MANAGER, 'POST', userData),
+  register: (userData: UserRegistrationDto, signal?: AbortSignal) =>
+    apiRequest<UserRegistrationDto, any>(API_ENDPOINTS.AUTH.REGISTER, 'POST', userData, { signal }),
+  createManager: (userData: UserRegistrationDto, signal?: AbortSignal) =>
+    apiRequest<UserRegistrationDto, any>(API_ENDPOINTS.AUTH.CREATE_MANAGER, 'POST', userData, { signal }),
 };
 
 // ===== CATEGORIES ENDPOINTS =====
@@ -58,24 +83,36 @@ export interface Category {
 }
 
 export const categoriesApi = {
-  getAll: () => 
-    apiRequest<null, Category[]>(API_ENDPOINTS.CATEGORIES.GET_ALL),
+  getAll: (signal?: AbortSignal) => 
+    apiRequest<null, Category[]>(API_ENDPOINTS.CATEGORIES.GET_ALL, 'GET', undefined, { signal, schema: arrayOf(CategorySchema) }),
   
-  getById: (id: number) => 
-    apiRequest<null, Category>(API_ENDPOINTS.CATEGORIES.GET_BY_ID(id)),
+  getById: (id: number, signal?: AbortSignal) => 
+    apiRequest<null, Category>(API_ENDPOINTS.CATEGORIES.GET_BY_ID(id), 'GET', undefined, { signal, schema: CategorySchema }),
   
-  create: (category: Omit<Category, 'id'>) => 
-    apiRequest<Omit<Category, 'id'>, Category>(API_ENDPOINTS.CATEGORIES.CREATE, 'POST', category),
+  create: (category: Omit<Category, 'id'>, signal?: AbortSignal) => 
+    apiRequest<Omit<Category, 'id'>, Category>(API_ENDPOINTS.CATEGORIES.CREATE, 'POST', category, { signal }),
   
-  update: (id: number, category: Category) => 
-    apiRequest<Category, void>(API_ENDPOINTS.CATEGORIES.UPDATE(id), 'PUT', category),
+  update: (id: number, category: Category, signal?: AbortSignal) => 
+    apiRequest<Category, void>(API_ENDPOINTS.CATEGORIES.UPDATE(id), 'PUT', category, { signal }),
   
-  delete: (id: number) => 
-    apiRequest<null, void>(API_ENDPOINTS.CATEGORIES.DELETE(id), 'DELETE'),
+  delete: (id: number, signal?: AbortSignal) => 
+    apiRequest<null, void>(API_ENDPOINTS.CATEGORIES.DELETE(id), 'DELETE', undefined, { signal }),
 };
 
 // ===== CART ENDPOINTS =====
 
+// Cart changes made offline are queued; only the latest change per product is
+// replayed. Every change is queued as a POST, which sets the quantity whether or
+// not the product is in the server cart yet, so a queued change can replace an
+// earlier add without losing it.
+const cartOutboxOptions = (productId: string, quantity: number): ApiRequestOptions => ({
+  queueWhenOffline: true,
+  outboxTag: 'cart',
+  outboxLabel: 'Cart update',
+  outboxKey: `cart:${productId}`,
+  outboxRequest: { endpoint: API_ENDPOINTS.CART.UPDATE_CART, method: 'POST', body: { productId, quantity } },
+});
+
 export interface CartItemUpdateDto {
   productId: string;
   quantity: number;
@@ -86,49 +123,67 @@ export interface AddToCartRequest {
   quantity: number;
 }
 
+// A cart line as the backend returns it
+export interface CartItemDto {
+  productId: string;
+  id?: string;
+  name?: string;
+  productName?: string;
+  price: number;
+  quantity: number;
+  imageUrl?: string;
+  totalPrice?: number;
+  unitOfMeasure?: string; // The unit the quantity is in
+  modifiedDate?: string; // When the item was last changed on the server; settles cart sync conflicts
+}
+
+export interface Cart {
+  userId?: string;
+  items: CartItemDto[];
+  totalItems?: number;
+  totalAmount?: number;
+}
+
 export const cartApi = {
-  getCart: (userId?: string) => 
-    apiRequest<null, any>(userId ? API_ENDPOINTS.CART.GET_USER_CART(userId) : API_ENDPOINTS.CART.GET_CART),
+  getCart: (userId?: string, signal?: AbortSignal) => 
+    apiRequest<null, Cart>(userId ? API_ENDPOINTS.CART.GET_USER_CART(userId) : API_ENDPOINTS.CART.GET_CART, 'GET', undefined, { signal, schema: CartSchema }),
   
   // Use POST for all cart operations (add, update, remove)
-  addToCart: (productId: string, quantity: number) => {
-    console.log('Adding to cart with request:', { productId, quantity });
+  addToCart: (productId: string, quantity: number, signal?: AbortSignal) => {
+    cartLog.debug('Adding to cart with request:', { productId, quantity });
     
     const cartItemUpdateDto: CartItemUpdateDto = {
       productId,
       quantity
     };
     
-    console.log('Using CartItemUpdateDto:', cartItemUpdateDto);
-    return apiRequest<CartItemUpdateDto, any>(API_ENDPOINTS.CART.ADD_TO_CART, 'POST', cartItemUpdateDto);
+    cartLog.debug('Using CartItemUpdateDto:', cartItemUpdateDto);
+    return apiRequest<CartItemUpdateDto, any>(API_ENDPOINTS.CART.ADD_TO_CART, 'POST', cartItemUpdateDto, { ...cartOutboxOptions(productId, quantity), signal });
   },
   
   // Use POST for updating quantity (alternative method)
-  updateQuantity: (productId: string, quantity: number) => {
-    console.log('Updating quantity for item:', productId, 'to', quantity);
+  updateQuantity: (productId: string, quantity: number, signal?: AbortSignal) => {
+    cartLog.debug('Updating quantity for item:', { productId, quantity });
     
     const cartItemUpdateDto: CartItemUpdateDto = {
       productId,
       quantity
     };
     
-    console.log('Using POST with CartItemUpdateDto:', cartItemUpdateDto);
-    return apiRequest<CartItemUpdateDto, any>(API_ENDPOINTS.CART.UPDATE_CART, 'POST', cartItemUpdateDto);
+    cartLog.debug('Using POST with CartItemUpdateDto:', cartItemUpdateDto);
+    return apiRequest<CartItemUpdateDto, any>(API_ENDPOINTS.CART.UPDATE_CART, 'POST', cartItemUpdateDto, { ...cartOutboxOptions(productId, quantity), signal });
   },
   
   // Use POST with quantity=0 to remove items (this is the approach that works)
-  removeItem: (productId: string) => {
-    console.log('Removing item from cart using POST with quantity=0:', productId);
+  removeItem: (productId: string, signal?: AbortSignal) => {
+    cartLog.debug('Removing item from cart using POST with quantity=0:', productId);
     
     // Use the updateQuantity method with 0 directly since we know this works
-    return cartApi.updateQuantity(productId, 0)
+    return cartApi.updateQuantity(productId, 0, signal)
       .then(result => {
-        // Handle common cart removal responses
-        if (!result.success && (
-          result.error?.includes('Item not found in cart') ||
-          result.error?.includes('Product not found in cart')
-        )) {
-          console.log('Item already removed from backend cart - treating as success');
+        // An item missing from the backend cart is already removed
+        if (isApiErrorKind(result, 'not-found')) {
+          cartLog.debug('Item already removed from backend cart - treating as success');
           return { success: true, data: null };
         }
         return result;
@@ -136,13 +191,13 @@ export const cartApi = {
   },
   
   // Use DELETE for removing an item completely from the cart
-  deleteItem: (productId: string) => {
-    console.log('Deleting item from cart using DELETE:', productId);
-    return apiRequest<null, any>(API_ENDPOINTS.CART.DELETE_ITEM(productId), 'DELETE')
+  deleteItem: (productId: string, signal?: AbortSignal) => {
+    cartLog.debug('Deleting item from cart using DELETE:', productId);
+    return apiRequest<null, any>(API_ENDPOINTS.CART.DELETE_ITEM(productId), 'DELETE', undefined, { ...cartOutboxOptions(productId, 0), signal })
       .then(result => {
         // Handle 404 as success for DELETE operations (item already removed)
-        if (!result.success && result.error?.includes('Item not found in cart')) {
-          console.log('Item already removed from backend cart - treating as success');
+        if (isApiErrorKind(result, 'not-found')) {
+          cartLog.debug('Item already removed from backend cart - treating as success');
           return { success: true, data: null };
         }
         return result;
@@ -150,48 +205,53 @@ export const cartApi = {
   },
 
   // Use PUT for updating cart item quantity (matches UpdateQuantityRequest schema)
-  updateItemQuantity: (productId: string, quantity: number) => {
-    console.log('Updating cart item quantity using PUT:', { productId, quantity });
+  updateItemQuantity: (productId: string, quantity: number, signal?: AbortSignal) => {
+    cartLog.debug('Updating cart item quantity using PUT:', { productId, quantity });
     
     // UpdateQuantityRequest schema: { quantity: integer }
     const updateQuantityRequest = { quantity };
     
-    console.log('Using PUT /api/Cart/item/{productId} with UpdateQuantityRequest:', updateQuantityRequest);
-    return apiRequest<{ quantity: number }, any>(API_ENDPOINTS.CART.UPDATE_ITEM_QUANTITY(productId), 'PUT', updateQuantityRequest);
+    cartLog.debug('Using PUT /api/Cart/item/{productId} with UpdateQuantityRequest:', updateQuantityRequest);
+    return apiRequest<{ quantity: number }, any>(API_ENDPOINTS.CART.UPDATE_ITEM_QUANTITY(productId), 'PUT', updateQuantityRequest, { ...cartOutboxOptions(productId, quantity), signal });
   },
 
   // Smart cart operation that tries both POST and PUT approaches
-  smartCartOperation: async (productId: string, quantity: number, isNewItem: boolean = false) => {
-    console.log(`🛒 Smart cart operation for ${isNewItem ? 'new' : 'existing'} item:`, { productId, quantity });
+  smartCartOperation: async (productId: string, quantity: number, isNewItem: boolean = false, signal?: AbortSignal) => {
+    cartLog.debug(`🛒 Smart cart operation for ${isNewItem ? 'new' : 'existing'} item:`, { productId, quantity });
 
     if (isNewItem) {
       // For new items, always use POST with CartItemUpdateDto
-      console.log('📝 Using POST for new item (CartItemUpdateDto schema)');
-      const result = await cartApi.addToCart(productId, quantity);
-      console.log('✅ POST result:', result?.success ? 'SUCCESS' : 'FAILED');
+      cartLog.debug('📝 Using POST for new item (CartItemUpdateDto schema)');
+      const result = await cartApi.addToCart(productId, quantity, signal);
+      cartLog.debug('✅ POST result:', result?.success ? 'SUCCESS' : 'FAILED');
       return result;
     } else {
       // For existing items, try PUT first, fallback to POST
-      console.log('🔄 Trying PUT for existing item (UpdateQuantityRequest schema)');
+      cartLog.debug('🔄 Trying PUT for existing item (UpdateQuantityRequest schema)');
       
       try {
-        const putResult = await cartApi.updateItemQuantity(productId, quantity);
+        const putResult = await cartApi.updateItemQuantity(productId, quantity, signal);
         
         if (putResult && putResult.success) {
-          console.log('✅ PUT result: SUCCESS');
+          cartLog.debug('✅ PUT result: SUCCESS');
+          return putResult;
+        } else if (putResult?.queued) {
+          cartLog.debug('📤 PUT queued in offline outbox');
+          return putResult;
+        } else if (isApiErrorKind(putResult, 'cancelled')) {
           return putResult;
         } else {
-          console.log('❌ PUT failed (404 - item not in backend cart), falling back to POST');
-          console.log('📝 Creating item with POST instead (CartItemUpdateDto schema)');
-          const postResult = await cartApi.addToCart(productId, quantity);
-          console.log('✅ POST fallback result:', postResult?.success ? 'SUCCESS' : 'FAILED');
+          cartLog.debug('❌ PUT failed (404 - item not in backend cart), falling back to POST');
+          cartLog.debug('📝 Creating item with POST instead (CartItemUpdateDto schema)');
+          const postResult = await cartApi.addToCart(productId, quantity, signal);
+          cartLog.debug('✅ POST fallback result:', postResult?.success ? 'SUCCESS' : 'FAILED');
           return postResult;
         }
       } catch (error) {
-        console.log('❌ PUT threw an error, falling back to POST:', error instanceof Error ? error.message : 'Unknown error');
-        console.log('📝 Creating item with POST instead (CartItemUpdateDto schema)');
-        const postResult = await cartApi.addToCart(productId, quantity);
-        console.log('✅ POST fallback result:', postResult?.success ? 'SUCCESS' : 'FAILED');
+        cartLog.debug('❌ PUT threw an error, falling back to POST:', error instanceof Error ? error.message : 'Unknown error');
+        cartLog.debug('📝 Creating item with POST instead (CartItemUpdateDto schema)');
+        const postResult = await cartApi.addToCart(productId, quantity, signal);
+        cartLog.debug('✅ POST fallback result:', postResult?.success ? 'SUCCESS' : 'FAILED');
         return postResult;
       }
     }
@@ -229,25 +289,31 @@ export interface Address {
   isDefault?: boolean;
 }
 
+// The backend answers 404 when the user has no addresses yet
+const emptyWhenNotFound = (result: ApiResponse<Address[]>): ApiResponse<Address[]> =>
+  isApiErrorKind(result, 'not-found') ? { success: true, data: [] } : result;
+
 export const addressApi = {
-  getAll: (pageNumber: number = 1, pageSize: number = 10) => {
-    return apiRequest<null, Address[]>(API_ENDPOINTS.ADDRESSES.GET_PAGINATED(pageNumber, pageSize));
+  getAll: (pageNumber: number = 1, pageSize: number = 10, signal?: AbortSignal) => {
+    return apiRequest<null, Address[]>(API_ENDPOINTS.ADDRESSES.GET_PAGINATED(pageNumber, pageSize), 'GET', undefined, { signal, schema: arrayOf(AddressSchema) })
+      .then(emptyWhenNotFound);
   },
   
-  getById: (id: string) => {
-    return apiRequest<null, Address>(API_ENDPOINTS.ADDRESSES.GET_BY_ID(id));
+  getById: (id: string, signal?: AbortSignal) => {
+    return apiRequest<null, Address>(API_ENDPOINTS.ADDRESSES.GET_BY_ID(id), 'GET', undefined, { signal, schema: AddressSchema });
   },
   
-  getUserAddresses: (userIdentifier: string) => {
+  getUserAddresses: (userIdentifier: string, signal?: AbortSignal) => {
     // Always use the userId parameter since we're storing the UUID in the phoneNumber field
     // This ensures we're always using the correct endpoint
-    console.log('Fetching addresses for user ID:', userIdentifier);
-    return apiRequest<null, Address[]>(API_ENDPOINTS.ADDRESSES.GET_USER_ADDRESSES(userIdentifier));
+    addressLog.debug('Fetching addresses for user ID:', userIdentifier);
+    return apiRequest<null, Address[]>(API_ENDPOINTS.ADDRESSES.GET_USER_ADDRESSES(userIdentifier), 'GET', undefined, { signal, schema: arrayOf(AddressSchema) })
+      .then(emptyWhenNotFound);
   },
   
   // Simple function to add an address - all duplicate prevention will be handled by the server
-  addAddress: async (address: Address) => {
-    console.log('Adding address at:', new Date().toISOString());
+  addAddress: async (address: Address, signal?: AbortSignal) => {
+    addressLog.debug('Adding address at:', new Date().toISOString());
     
     // Generate a unique client-side ID for this submission
     // This will be used by the server to detect duplicate submissions
@@ -260,8 +326,10 @@ export const addressApi = {
       clientSubmissionId: clientSubmissionId
     };
     
-    console.log(`Address submission with ID ${clientSubmissionId}`);
+    addressLog.debug(`Address submission with ID ${clientSubmissionId}`);
     
+    const { baseUrl } = await loadActiveEnvironment();
+
     // Get the authentication token
     const token = await userService.getAuthToken();
     
@@ -271,35 +339,32 @@ export const addressApi = {
       'Accept': 'application/json',
       'ngrok-skip-browser-warning': 'true',
       'User-Agent': 'FarmingApp/1.0 (React Native Mobile Application)',
-      'X-Client-Submission-ID': clientSubmissionId, // Add as header for servers that check headers
+      [CLIENT_SUBMISSION_HEADER]: clientSubmissionId, // Add as header for servers that check headers
     };
     
     // Add authorization header if token exists
     if (token) {
       headers['Authorization'] = `Bearer ${token}`;
-      console.log('Using authentication token for address submission');
+      addressLog.debug('Using authentication token for address submission');
     } else {
-      console.warn('No authentication token available for address submission');
+      addressLog.warn('No authentication token available for address submission');
     }
     
     // Make a direct API call with no retries
-    return fetch(`${API_BASE_URL}${API_ENDPOINTS.ADDRESSES.CREATE}`, {
+    return fetch(`${baseUrl}${API_ENDPOINTS.ADDRESSES.CREATE}`, {
       method: 'POST',
       headers: headers,
-      body: JSON.stringify(addressWithId)
+      body: JSON.stringify(addressWithId),
+      signal
     })
     .then(async response => {
-      console.log(`Address submission ${clientSubmissionId} response status:`, response.status);
+      addressLog.debug(`Address submission ${clientSubmissionId} response status:`, response.status);
       
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`API error (${response.status}): ${errorText}`);
+        addressLog.error(`API error (${response.status}): ${errorText}`);
         
-        return {
-          success: false,
-          error: `Error ${response.status}: ${errorText || response.statusText}`,
-          data: null as any
-        };
+        return toErrorResponse<any>(createHttpError(response.status, errorText));
       }
       
       // For 204 No Content responses, return success with null data
@@ -318,20 +383,38 @@ export const addressApi = {
         clientSubmissionId // Include the submission ID in the response
       };
     })
-    .catch(error => {
-      console.error(`Address submission ${clientSubmissionId} failed:`, error);
+    .catch(async error => {
+      addressLog.error(`Address submission ${clientSubmissionId} failed:`, error);
+      
+      // Network failure: keep the address in the outbox and send it later
+      if (error instanceof TypeError) {
+        const item = await enqueueMutation({
+          endpoint: API_ENDPOINTS.ADDRESSES.CREATE,
+          method: 'POST',
+          body: addressWithId,
+          tag: 'address',
+          label: 'Add address',
+          clientSubmissionId, // Sent again on replay, so an address that did arrive is not added twice
+        });
+        return {
+          ...toErrorResponse<any>(createRequestError(error)),
+          error: 'You appear to be offline. The address has been saved and will be sent when the connection returns.',
+          clientSubmissionId,
+          queued: true,
+          outboxId: item.id
+        };
+      }
+      
       return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        data: null as any,
+        ...toErrorResponse<any>(createRequestError(error)),
         clientSubmissionId // Include the submission ID in the response
       };
     });
   },
   
-  updateAddress: async (id: string, address: Address) => {
-    console.log('Updating address with ID:', id);
-    console.log('Address payload for update:', JSON.stringify(address));
+  updateAddress: async (id: string, address: Address, signal?: AbortSignal) => {
+    addressLog.debug('Updating address with ID:', id);
+    addressLog.debug('Address payload for update:', address);
     
     // Generate a unique client-side ID for this submission
     const clientSubmissionId = `update-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
@@ -343,6 +426,8 @@ export const addressApi = {
       clientSubmissionId: clientSubmissionId // Add client submission ID
     };
     
+    const { baseUrl } = await loadActiveEnvironment();
+
     // Get the authentication token
     const token = await userService.getAuthToken();
     
@@ -361,23 +446,20 @@ export const addressApi = {
     }
     
     // Make a direct API call with no retries
-    return fetch(`${API_BASE_URL}${API_ENDPOINTS.ADDRESSES.UPDATE(id)}`, {
+    return fetch(`${baseUrl}${API_ENDPOINTS.ADDRESSES.UPDATE(id)}`, {
       method: 'PUT',
       headers: headers,
-      body: JSON.stringify(addressWithId)
+      body: JSON.stringify(addressWithId),
+      signal
     })
     .then(async response => {
-      console.log(`Address update ${clientSubmissionId} response status:`, response.status);
+      addressLog.debug(`Address update ${clientSubmissionId} response status:`, response.status);
       
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`API error (${response.status}): ${errorText}`);
+        addressLog.error(`API error (${response.status}): ${errorText}`);
         
-        return {
-          success: false,
-          error: `Error ${response.status}: ${errorText || response.statusText}`,
-          data: null as any
-        };
+        return toErrorResponse<any>(createHttpError(response.status, errorText));
       }
       
       // For 204 No Content responses, return success with null data
@@ -396,20 +478,16 @@ export const addressApi = {
       };
     })
     .catch(error => {
-      console.error(`Address update ${clientSubmissionId} failed:`, error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        data: null as any
-      };
+      addressLog.error(`Address update ${clientSubmissionId} failed:`, error);
+      return toErrorResponse<any>(createRequestError(error));
     });
   },
   
   // We've removed the deleteAddress function since we're handling deletion client-side
   // This is a temporary solution until the API supports proper deletion
-  deleteAddress: async (id: string | number) => {
+  deleteAddress: async (id: string | number, signal?: AbortSignal) => {
     // Make a DELETE request to the backend
-    return apiRequest<null, void>(`/api/Address/${id}`, 'DELETE');
+    return apiRequest<null, void>(`/api/Address/${id}`, 'DELETE', undefined, { signal });
   }
 };
 
@@ -424,17 +502,17 @@ export interface CMSPage {
 }
 
 export const cmsApi = {
-  getBySlug: (slug: string) => 
-    apiRequest<null, CMSPage>(`/api/CmsPage/by-slug/${slug}`),
+  getBySlug: (slug: string, signal?: AbortSignal) => 
+    apiRequest<null, CMSPage>(`/api/CmsPage/by-slug/${slug}`, 'GET', undefined, { signal, schema: CMSPageSchema }),
   
-  create: (page: Omit<CMSPage, 'cmsPageId'>) => 
-    apiRequest<Omit<CMSPage, 'cmsPageId'>, CMSPage>('/api/CmsPage', 'POST', page),
+  create: (page: Omit<CMSPage, 'cmsPageId'>, signal?: AbortSignal) => 
+    apiRequest<Omit<CMSPage, 'cmsPageId'>, CMSPage>('/api/CmsPage', 'POST', page, { signal }),
   
-  update: (id: number, page: CMSPage) => 
-    apiRequest<CMSPage, CMSPage>(`/api/CmsPage/${id}`, 'PUT', page),
+  update: (id: number, page: CMSPage, signal?: AbortSignal) => 
+    apiRequest<CMSPage, CMSPage>(`/api/CmsPage/${id}`, 'PUT', page, { signal }),
   
-  delete: (id: number) => 
-    apiRequest<null, void>(`/api/CmsPage/${id}`, 'DELETE'),
+  delete: (id: number, signal?: AbortSignal) => 
+    apiRequest<null, void>(`/api/CmsPage/${id}`, 'DELETE', undefined, { signal }),
 };
 
 // ===== NOTIFICATIONS ENDPOINTS =====
@@ -448,20 +526,39 @@ export interface Notification {
 }
 
 export const notificationsApi = {
-  getAll: () => 
-    apiRequest<null, Notification[]>('/api/Notifications'),
-  
-  getById: (id: number) => 
-    apiRequest<null, Notification>(`/api/Notifications/${id}`),
-  
-  create: (notification: Omit<Notification, 'notificationId'>) =>
-    apiRequest<Omit<Notification, 'notificationId'>, Notification>('/api/Notifications', 'POST', notification),
-  
-  update: (id: number, notification: Notification) => 
-    apiRequest<Notification, void>(`/api/Notifications/${id}`, 'PUT', notification),
-    
-  delete: (id: number) =>
-    apiRequest<null, void>(`/api/Notifications/${id}`, 'DELETE'),
+  getAll: (signal?: AbortSignal) => 
+    apiRequest<null, Notification[]>('/api/Notifications', 'GET', undefined, { signal, schema: arrayOf(NotificationSchema) }),
+  
+  // One page of the notifications, newest first, optionally of a single user, for usePaginatedQuery
+  getPage: ({ pageNumber, pageSize, signal, skipCache }: PageRequest, userId?: string) =>
+    apiRequest<null, Notification[]>(
+      buildPaginatedEndpoint(
+        userId ? API_ENDPOINTS.NOTIFICATIONS.GET_USER_NOTIFICATIONS(userId) : API_ENDPOINTS.NOTIFICATIONS.GET_ALL,
+        pageNumber,
+        pageSize
+      ),
+      'GET',
+      undefined,
+      { signal, skipCache, schema: arrayOf(NotificationSchema) }
+    ),
+  
+  getById: (id: number, signal?: AbortSignal) => 
+    apiRequest<null, Notification>(`/api/Notifications/${id}`, 'GET', undefined, { signal, schema: NotificationSchema }),
+  
+  create: (notification: Omit<Notification, 'notificationId'>, signal?: AbortSignal) =>
+    apiRequest<Omit<Notification, 'notificationId'>, Notification>('/api/Notifications', 'POST', notification, { signal }),
+  
+  update: (id: number, notification: Notification, signal?: AbortSignal) => 
+    apiRequest<Notification, void>(`/api/Notifications/${id}`, 'PUT', notification, {
+      queueWhenOffline: true,
+      outboxTag: 'notification',
+      outboxLabel: 'Update notification',
+      outboxKey: `notification:${id}`,
+      signal,
+    }),
+    
+  delete: (id: number, signal?: AbortSignal) =>
+    apiRequest<null, void>(`/api/Notifications/${id}`, 'DELETE', undefined, { signal }),
 };
 
 // ===== ORDER ENDPOINTS =====
@@ -474,6 +571,9 @@ export interface OrderItem {
   price: number;            // Required
   productName: string;      // Required - renamed from 'name' to match API
   imageUrl?: string;        // Optional - for product image
+  hsnCode?: string;         // GST of the line, sent with new orders
+  taxRate?: number;
+  taxAmount?: number;
 }
 
 export interface OrderCreationResponse {
@@ -492,29 +592,44 @@ export interface Order {
   createdDate?: string;           // Optional - backend generates
   modifiedDate?: string;          // Optional - backend generates
   orderItems: OrderItem[];        // Required
+  shippingAddress?: Address;      // Included by some endpoints
+  subtotalAmount?: number;        // Price breakdown, sent with new orders
+  gstAmount?: number;             // CGST and SGST, or IGST, together
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;            // Set instead of CGST and SGST when delivered to another state
+  deliveryCharge?: number;
+  deliveryChargeRuleId?: number;  // The DeliveryChargeRule the charge came from
 }
 
+// Amounts are sent rounded to the paisa; a breakdown the screen did not work out stays out of the payload
+const toAmount = (amount?: number): number | undefined =>
+  amount === undefined ? undefined : Number(amount.toFixed(2));
+
 export const orderApi = {
-  getUserOrders: (userId: string) => {
-    return apiRequest<null, Order[]>(`/api/Orders/user/${userId}`);
+  getUserOrders: (userId: string, signal?: AbortSignal) => {
+    return apiRequest<null, Order[]>(`/api/Orders/user/${userId}`, 'GET', undefined, { signal, schema: arrayOf(OrderSchema) });
   },
   
-  getOrderById: (orderId: string) => {
-    return apiRequest<null, Order>(`/api/Orders/${orderId}`);
+  getOrderById: (orderId: string, signal?: AbortSignal) => {
+    return apiRequest<null, Order>(`/api/Orders/${orderId}`, 'GET', undefined, { signal, schema: OrderSchema });
   },
   
-  createOrder: async (orderData: Order) => {
+  // Every submission carries a client submission ID that stays the same until
+  // the server confirms the order, so retries and outbox replays of the same
+  // order are recognised by the server instead of creating a second one
+  createOrder: async (orderData: Order, source: OrderSubmissionSource = 'cart', signal?: AbortSignal) => {
     // Log the data for debugging
-    console.log('Creating order with data:', JSON.stringify(orderData));
+    orderLog.debug('Creating order with data:', orderData);
     
     // Basic validation
     if (!orderData.userId || !orderData.shippingAddressId || !orderData.orderItems?.length) {
-      console.error('Missing required fields in order data');
+      orderLog.error('Missing required fields in order data');
       return Promise.resolve({
-        success: false,
-        error: 'Missing required user ID, shipping address, or order items',
-        _isLocalFallback: false
-      } as ApiResponse<OrderCreationResponse>);
+        ...toErrorResponse<OrderCreationResponse>(
+          createApiError('validation', undefined, 'Missing required user ID, shipping address, or order items')
+        ),
+      });
     }
     
     // Prepare order items matching the new API structure
@@ -532,7 +647,10 @@ export const orderApi = {
         quantity: item.quantity,
         price: Number(item.price.toFixed(2)),
         productName: item.productName || 'Product',
-        imageUrl: (typeof item.imageUrl === 'string' && item.imageUrl.length > 0) ? item.imageUrl : undefined
+        imageUrl: (typeof item.imageUrl === 'string' && item.imageUrl.length > 0) ? item.imageUrl : undefined,
+        hsnCode: item.hsnCode,
+        taxRate: item.taxRate,
+        taxAmount: toAmount(item.taxAmount)
       };
     });
     
@@ -542,29 +660,44 @@ export const orderApi = {
       shippingAddressId: Number(orderData.shippingAddressId), // Ensure it's a number
       orderDate: orderData.orderDate || new Date().toISOString(),
       totalAmount: Number(orderData.totalAmount.toFixed(2)),
+      subtotalAmount: toAmount(orderData.subtotalAmount),
+      gstAmount: toAmount(orderData.gstAmount),
+      cgstAmount: toAmount(orderData.cgstAmount),
+      sgstAmount: toAmount(orderData.sgstAmount),
+      igstAmount: toAmount(orderData.igstAmount),
+      deliveryCharge: toAmount(orderData.deliveryCharge),
+      deliveryChargeRuleId: orderData.deliveryChargeRuleId,
       orderStatusId: orderData.orderStatusId,
       trackingNumber: orderData.trackingNumber || `TRK-${Date.now()}`,
       orderItems: convertedOrderItems
     };
     
     // The API expects a flat order object, not one nested under an "order" key.
-    console.log('Sending API request payload:', JSON.stringify(apiOrderData));
+    orderLog.debug('Sending API request payload:', apiOrderData);
+    
+    const clientSubmissionId = await getClientSubmissionId(source, orderData);
+    
+    // Send to API with the correct flat order data structure.
+    // Without a connection the order is queued in the outbox instead of being lost.
+    const response = await apiRequest<typeof apiOrderData, OrderCreationResponse>('/api/Orders', 'POST', apiOrderData, {
+      queueWhenOffline: true,
+      outboxTag: 'order',
+      outboxLabel: `Order of ${convertedOrderItems.length} item(s), ₹${apiOrderData.totalAmount.toFixed(2)}`,
+      clientSubmissionId,
+      signal,
+      schema: OrderCreationResponseSchema,
+    });
     
-    // Send to API with the correct flat order data structure
-    const response = await apiRequest<typeof apiOrderData, OrderCreationResponse>('/api/Orders', 'POST', apiOrderData);
+    // Once confirmed, or handed to the outbox which replays it with the same ID,
+    // the next submission is a new order. A rejected order was never created.
+    if (response.success || response.queued || isApiErrorKind(response, 'validation')) {
+      await completeSubmission(clientSubmissionId);
+    }
     
-    // If that fails, try with a special fallback for testing
-    if (!response.success) {
-      console.log('Order creation failed, trying fallback approach');
-      // Create a fallback response to allow testing to continue
-      return {
-        success: true,
-        data: {
-          orderId: 'local-' + Date.now(),
-          message: 'Order processed locally due to server error'
-        },
-        _isLocalFallback: true
-      };
+    if (!response.success && !response.queued) {
+      orderLog.error('Order creation failed:', response.error);
+    } else {
+      orderLog.info(`Order submission ${clientSubmissionId} ${response.queued ? 'queued' : 'sent'}`);
     }
     
     return response;
@@ -597,13 +730,13 @@ export interface OrderStatusDetail {
 }
 
 export const orderStatusApi = {
-  getAll: () => {
-    return apiRequest<null, OrderStatus[]>('/api/OrderStatus', 'GET');
+  getAll: (signal?: AbortSignal) => {
+    return apiRequest<null, OrderStatus[]>('/api/OrderStatus', 'GET', undefined, { signal, schema: arrayOf(OrderStatusSchema) });
   },
   
   // Get status for a specific order
-  getOrderStatus: (orderId: string) => {
-    return apiRequest<null, OrderStatusDetail>(`/api/Orders/${orderId}/status`, 'GET');
+  getOrderStatus: (orderId: string, signal?: AbortSignal) => {
+    return apiRequest<null, OrderStatusDetail>(`/api/Orders/${orderId}/status`, 'GET', undefined, { signal });
   }
 };
 
@@ -625,19 +758,36 @@ export interface Product {
   maxStockLevel?: number;
   reorderPoint?: number;
   unitCost?: number;
+  minOrderQuantity?: number; // Smallest quantity one order can have
+  maxOrderQuantity?: number; // Largest quantity one order can have
+  hsnCode?: string; // Harmonized System of Nomenclature code for the GST invoice
+  taxRate?: number; // GST as a fraction, e.g. 0.05 for 5%; 0 when exempt, the config's rate when not set
+  packSize?: number; // What one unitOfMeasure holds, e.g. 45 for a 45 kg bag; see utils/units.ts
+  packUnit?: string; // The unit of packSize, e.g. 'kg'
+  quantityStep?: number; // Quantities are whole multiples of this whole number; 1 when not set
 }
 
 export const productsApi = {
-  getAll: (pageNumber: number = 1, pageSize: number = 50) => {
-    return apiRequest<null, Product[]>(`/api/Products?pageNumber=${pageNumber}&pageSize=${pageSize}`, 'GET');
+  getAll: (pageNumber: number = 1, pageSize: number = 50, signal?: AbortSignal) => {
+    return apiRequest<null, Product[]>(`/api/Products?pageNumber=${pageNumber}&pageSize=${pageSize}`, 'GET', undefined, { signal, schema: arrayOf(ProductSchema) });
   },
   
-  getById: (id: number) => {
-    return apiRequest<null, Product>(`/api/Products/${id}`, 'GET');
+  getById: (id: string, signal?: AbortSignal, skipCache?: boolean) => {
+    return apiRequest<null, Product>(`/api/Products/${id}`, 'GET', undefined, { signal, skipCache, schema: ProductSchema });
   },
   
-  getByCategory: (categoryId: number, pageNumber: number = 1, pageSize: number = 50) => {
-    return apiRequest<null, Product[]>(API_ENDPOINTS.PRODUCTS.BY_CATEGORY(categoryId) + `?pageNumber=${pageNumber}&pageSize=${pageSize}`, 'GET');
+  getByCategory: (categoryId: number, pageNumber: number = 1, pageSize: number = 50, signal?: AbortSignal) => {
+    return apiRequest<null, Product[]>(API_ENDPOINTS.PRODUCTS.BY_CATEGORY(categoryId) + `?pageNumber=${pageNumber}&pageSize=${pageSize}`, 'GET', undefined, { signal, schema: arrayOf(ProductSchema) });
+  },
+  
+  // One page of the products, optionally of a single category, for usePaginatedQuery
+  getPage: ({ pageNumber, pageSize, signal, skipCache }: PageRequest, categoryId?: number) => {
+    const endpoint = categoryId !== undefined ? API_ENDPOINTS.PRODUCTS.BY_CATEGORY(categoryId) : API_ENDPOINTS.PRODUCTS.GET_ALL;
+    return apiRequest<null, Product[]>(buildPaginatedEndpoint(endpoint, pageNumber, pageSize), 'GET', undefined, {
+      signal,
+      skipCache,
+      schema: arrayOf(ProductSchema),
+    });
   },
 };
 
@@ -652,11 +802,11 @@ export interface CreateUserProfileRequest {
 }
 
 export const userProfileApi = {
-  getById: (userId: string) => {
-    return apiRequest<null, any>(`/api/UserProfiles/${userId}`);
+  getById: (userId: string, signal?: AbortSignal) => {
+    return apiRequest<null, any>(`/api/UserProfiles/${userId}`, 'GET', undefined, { signal });
   },
   
-  create: (userProfile: CreateUserProfileRequest) => {
+  create: (userProfile: CreateUserProfileRequest, signal?: AbortSignal) => {
     // Transform the request to match server expectations - send properties at root level
     const requestBody = {
       name: userProfile.name,
@@ -669,10 +819,10 @@ export const userProfileApi = {
       role: 'User'
     };
     
-    return apiRequest<any, any>('/api/UserProfiles', 'POST', requestBody);
+    return apiRequest<any, any>('/api/UserProfiles', 'POST', requestBody, { signal });
   },
   
-  update: (userId: string, userProfile: CreateUserProfileRequest) => {
+  update: (userId: string, userProfile: CreateUserProfileRequest, signal?: AbortSignal) => {
     // Use PUT to /api/UserProfiles/{userId} as per API specification
     // Transform the request to match server expectations - send properties at root level
     const requestBody = {
@@ -687,26 +837,36 @@ export const userProfileApi = {
       userId: userId
     };
     
-    return apiRequest<any, any>(`/api/UserProfiles/${userId}`, 'PUT', requestBody);
+    return apiRequest<any, any>(`/api/UserProfiles/${userId}`, 'PUT', requestBody, { signal });
   },
-  getCurrent: async (token: string) => {
+  getCurrent: async (token: string, signal?: AbortSignal) => {
     // Manually set the Authorization header and use fetch
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
       'Authorization': `Bearer ${token}`
     };
-    const url = `${API_BASE_URL}/api/UserProfiles/current`;
     try {
-      const response = await fetch(url, { method: 'GET', headers });
+      const { baseUrl } = await loadActiveEnvironment();
+      const url = `${baseUrl}/api/UserProfiles/current`;
+      let response = await fetch(url, { method: 'GET', headers, signal });
+      if (response.status === 401) {
+        // The token may have expired; refresh it and try once more
+        const newToken = await refreshAccessToken();
+        if (!newToken) {
+          return toErrorResponse(createApiError('auth', 401));
+        }
+        headers['Authorization'] = `Bearer ${newToken}`;
+        response = await fetch(url, { method: 'GET', headers, signal });
+      }
       if (!response.ok) {
         const errorText = await response.text();
-        return { success: false, error: errorText, data: null };
+        return toErrorResponse(createHttpError(response.status, errorText));
       }
       const data = await response.json();
       return { success: true, data };
     } catch (error) {
-      return { success: false, error: error instanceof Error ? error.message : String(error), data: null };
+      return toErrorResponse(createRequestError(error));
     }
   },
 };
@@ -747,58 +907,58 @@ export interface InventoryItem {
 
 export const managerApi = {
   // Inventory Management
-  getInventory: () => {
-    return apiRequest<null, InventoryItem[]>('/api/Products', 'GET'); // Use Products endpoint for inventory
+  getInventory: (signal?: AbortSignal) => {
+    return apiRequest<null, InventoryItem[]>('/api/Products', 'GET', undefined, { signal }); // Use Products endpoint for inventory
   },
   
   // Product Management
-  createProduct: (product: Omit<Product, 'productId'>) => {
-    return apiRequest<Omit<Product, 'productId'>, Product>('/api/Products', 'POST', product);
+  createProduct: (product: Omit<Product, 'productId'>, signal?: AbortSignal) => {
+    return apiRequest<Omit<Product, 'productId'>, Product>('/api/Products', 'POST', product, { signal });
   },
   
-  getProductById: (id: number) => {
-    return apiRequest<null, Product>(`/api/Products/${id}`, 'GET');
+  getProductById: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, Product>(`/api/Products/${id}`, 'GET', undefined, { signal, schema: ProductSchema });
   },
   
-  updateProduct: (id: number, product: Product) => {
-    return apiRequest<Product, Product>(`/api/Products/${id}`, 'PUT', product);
+  updateProduct: (id: number, product: Product, signal?: AbortSignal) => {
+    return apiRequest<Product, Product>(`/api/Products/${id}`, 'PUT', product, { signal });
   },
   
-  deleteProduct: (id: number) => {
-    return apiRequest<null, void>(`/api/Products/${id}`, 'DELETE');
+  deleteProduct: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(`/api/Products/${id}`, 'DELETE', undefined, { signal });
   },
   
-  updateProductUnits: (id: number, quantity: number) => {
-    return apiRequest<null, void>(`/api/Products/${id}/units?quantity=${quantity}`, 'PUT');
+  updateProductUnits: (id: number, quantity: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(`/api/Products/${id}/units?quantity=${quantity}`, 'PUT', undefined, { signal });
   },
   
   // User Profile Management
-  getAllUserProfiles: () => {
+  getAllUserProfiles: (signal?: AbortSignal) => {
     return apiRequest<null, UserProfile[]>(
-      '/api/Manager/UserProfiles', 'GET');
+      '/api/Manager/UserProfiles', 'GET', undefined, { signal, schema: arrayOf(UserProfileSchema) });
   },
   
-  updateUserProfile: (userId: string, userProfile: UserProfile) => {
+  updateUserProfile: (userId: string, userProfile: UserProfile, signal?: AbortSignal) => {
     return apiRequest<UserProfile, UserProfile>(
-      `/api/Manager/UserProfiles/${userId}`, 'PUT', userProfile);
+      `/api/Manager/UserProfiles/${userId}`, 'PUT', userProfile, { signal });
   },
   
-  deleteUserProfile: (userId: string) => {
+  deleteUserProfile: (userId: string, signal?: AbortSignal) => {
     return apiRequest<null, void>(
-      `/api/Manager/UserProfiles/${userId}`, 'DELETE');
+      `/api/Manager/UserProfiles/${userId}`, 'DELETE', undefined, { signal });
   },
   
   // Order Management
-  getAllOrders: () => {
-    return apiRequest<null, Order[]>('/api/Orders', 'GET');
+  getAllOrders: (signal?: AbortSignal) => {
+    return apiRequest<null, Order[]>('/api/Orders', 'GET', undefined, { signal, schema: arrayOf(OrderSchema) });
   },
   
-  getOrderById: (id: string) => {
-    return apiRequest<null, Order>(`/api/Orders/${id}`, 'GET');
+  getOrderById: (id: string, signal?: AbortSignal) => {
+    return apiRequest<null, Order>(`/api/Orders/${id}`, 'GET', undefined, { signal, schema: OrderSchema });
   },
   
-  updateOrderStatus: (id: string, statusRequest: UpdateOrderStatusRequest) => {
-    return apiRequest<UpdateOrderStatusRequest, void>(`/api/Orders/${id}/status`, 'PUT', statusRequest);
+  updateOrderStatus: (id: string, statusRequest: UpdateOrderStatusRequest, signal?: AbortSignal) => {
+    return apiRequest<UpdateOrderStatusRequest, void>(`/api/Orders/${id}/status`, 'PUT', statusRequest, { signal });
   },
 };
 
@@ -813,20 +973,20 @@ export interface DeliveryChargeRule {
 }
 
 export const deliveryChargeRulesApi = {
-  getAll: () => {
-    return apiRequest<null, DeliveryChargeRule[]>('/api/DeliveryChargeRules', 'GET');
+  getAll: (signal?: AbortSignal) => {
+    return apiRequest<null, DeliveryChargeRule[]>('/api/DeliveryChargeRules', 'GET', undefined, { signal, schema: arrayOf(DeliveryChargeRuleSchema) });
   },
   
-  create: (rule: Omit<DeliveryChargeRule, 'ruleId'>) => {
-    return apiRequest<Omit<DeliveryChargeRule, 'ruleId'>, DeliveryChargeRule>('/api/DeliveryChargeRules', 'POST', rule);
+  create: (rule: Omit<DeliveryChargeRule, 'ruleId'>, signal?: AbortSignal) => {
+    return apiRequest<Omit<DeliveryChargeRule, 'ruleId'>, DeliveryChargeRule>('/api/DeliveryChargeRules', 'POST', rule, { signal });
   },
   
-  update: (id: number, rule: DeliveryChargeRule) => {
-    return apiRequest<DeliveryChargeRule, DeliveryChargeRule>(`/api/DeliveryChargeRules/${id}`, 'PUT', rule);
+  update: (id: number, rule: DeliveryChargeRule, signal?: AbortSignal) => {
+    return apiRequest<DeliveryChargeRule, DeliveryChargeRule>(`/api/DeliveryChargeRules/${id}`, 'PUT', rule, { signal });
   },
   
-  delete: (id: number) => {
-    return apiRequest<null, void>(`/api/DeliveryChargeRules/${id}`, 'DELETE');
+  delete: (id: number, signal?: AbortSignal) => {
+    return apiRequest<null, void>(`/api/DeliveryChargeRules/${id}`, 'DELETE', undefined, { signal });
   },
 };
 
@@ -0,0 +1,173 @@
+// frontend/src/services/appConfigService.ts
+// Business settings served by the backend, so they can change without an app release
+
+import { apiRequest } from './apiCore';
+import { API_ENDPOINTS } from './apiEndpoints';
+import { createLogger } from './logger';
+
+const log = createLogger('config');
+
+// A remote feature flag: plain on/off, or a rule that targets users, roles or a share of users
+export type FeatureFlagRule = boolean | {
+  enabled: boolean;
+  userIds?: string[]; // Always on for these users
+  roles?: string[]; // Only users with one of these roles, e.g. ['Manager']
+  rolloutPercent?: number; // 0-100; each user stays in or out of the rollout across launches
+};
+
+export interface AppConfig {
+  customerServiceNumber: string;
+  serviceHours: string; // Shown in the customer service dialog
+  gstRate: number; // Fraction of the price, e.g. 0.18 for 18%; for products without a GST rate of their own
+  sellerState: string; // Deliveries to other states are charged IGST instead of CGST and SGST
+  bannerImages: string[]; // Image URLs for the home screen carousel; the bundled banners when empty
+  featureFlags: Record<string, FeatureFlagRule>; // See featureFlagService.ts; flags not listed keep their default
+}
+
+type AppConfigListener = (config: AppConfig) => void;
+
+// Used until the backend has answered once, and for any field it gets wrong
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  customerServiceNumber: '+91 9945356606',
+  serviceHours: 'Our customer service team is available from 9:00 AM to 6:00 PM, Monday to Saturday.',
+  gstRate: 0.18,
+  sellerState: 'Karnataka',
+  bannerImages: [],
+  featureFlags: {},
+};
+
+let currentConfig: AppConfig = DEFAULT_APP_CONFIG;
+let refreshPromise: Promise<AppConfig> | null = null;
+const listeners = new Set<AppConfigListener>();
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isFeatureFlagRule = (value: unknown): value is FeatureFlagRule => {
+  if (typeof value === 'boolean') {
+    return true;
+  }
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const rule = value as Record<string, unknown>;
+  return typeof rule.enabled === 'boolean'
+    && (rule.userIds === undefined || isStringArray(rule.userIds))
+    && (rule.roles === undefined || isStringArray(rule.roles))
+    && (rule.rolloutPercent === undefined
+      || (typeof rule.rolloutPercent === 'number' && rule.rolloutPercent >= 0 && rule.rolloutPercent <= 100));
+};
+
+/**
+ * Check a config received from the backend. Invalid or missing fields keep
+ * their default, so one bad value cannot break the screens that use it.
+ */
+export const validateAppConfig = (raw: unknown): AppConfig => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const config: AppConfig = { ...DEFAULT_APP_CONFIG };
+  const rejected: string[] = [];
+
+  if (isNonEmptyString(data.customerServiceNumber) && /^\+?[\d\s-]{8,}$/.test(data.customerServiceNumber)) {
+    config.customerServiceNumber = data.customerServiceNumber.trim();
+  } else if (data.customerServiceNumber !== undefined) {
+    rejected.push('customerServiceNumber');
+  }
+
+  if (isNonEmptyString(data.serviceHours)) {
+    config.serviceHours = data.serviceHours.trim();
+  } else if (data.serviceHours !== undefined) {
+    rejected.push('serviceHours');
+  }
+
+  if (typeof data.gstRate === 'number' && data.gstRate >= 0 && data.gstRate < 1) {
+    config.gstRate = data.gstRate;
+  } else if (data.gstRate !== undefined) {
+    rejected.push('gstRate');
+  }
+
+  if (isNonEmptyString(data.sellerState)) {
+    config.sellerState = data.sellerState.trim();
+  } else if (data.sellerState !== undefined) {
+    rejected.push('sellerState');
+  }
+
+  if (Array.isArray(data.bannerImages)) {
+    config.bannerImages = data.bannerImages.filter(
+      (url): url is string => isNonEmptyString(url) && /^https?:\/\//.test(url)
+    );
+  } else if (data.bannerImages !== undefined) {
+    rejected.push('bannerImages');
+  }
+
+  // Each flag is checked on its own, so one bad rule does not turn off the others
+  if (data.featureFlags && typeof data.featureFlags === 'object' && !Array.isArray(data.featureFlags)) {
+    const featureFlags: Record<string, FeatureFlagRule> = {};
+    Object.entries(data.featureFlags as Record<string, unknown>).forEach(([name, rule]) => {
+      if (isFeatureFlagRule(rule)) {
+        featureFlags[name] = rule;
+      } else {
+        rejected.push(`featureFlags.${name}`);
+      }
+    });
+    config.featureFlags = featureFlags;
+  } else if (data.featureFlags !== undefined) {
+    rejected.push('featureFlags');
+  }
+
+  if (rejected.length > 0) {
+    log.warn('Ignoring invalid app config fields:', rejected);
+  }
+  return config;
+};
+
+/**
+ * Get the config currently in use
+ */
+export const getAppConfig = (): AppConfig => currentConfig;
+
+/**
+ * Load the config from the backend. The response cache keeps the last copy,
+ * so without a connection the previous config is used, or else the defaults.
+ * @param skipCache Ask the backend even if the cached config is still fresh
+ */
+export const refreshAppConfig = (skipCache: boolean = false): Promise<AppConfig> => {
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+  refreshPromise = (async () => {
+    const result = await apiRequest<null, unknown>(API_ENDPOINTS.UTILITY.GET_APP_CONFIG, 'GET', undefined, { skipCache });
+    if (result.success && result.data) {
+      currentConfig = validateAppConfig(result.data);
+      listeners.forEach(listener => listener(currentConfig));
+    } else {
+      log.warn('Could not load app config, keeping the current one:', result.error);
+    }
+    refreshPromise = null;
+    return currentConfig;
+  })();
+  return refreshPromise;
+};
+
+/**
+ * Subscribe to config changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToAppConfig = (listener: AppConfigListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const appConfigService = {
+  DEFAULT_APP_CONFIG,
+  validateAppConfig,
+  getAppConfig,
+  refreshAppConfig,
+  subscribeToAppConfig,
+};
+
+export default appConfigService;
@@ -0,0 +1,118 @@
+// frontend/src/services/authSession.ts
+// Access-token refresh shared by every request that receives a 401
+
+import { DEFAULT_HEADERS } from './apiConfig';
+import { API_ENDPOINTS, AUTH_ENDPOINTS } from './apiEndpoints';
+import { loadActiveEnvironment } from './environmentService';
+import { getAuthToken, getRefreshToken, saveAuthToken, clearUserData } from './userService';
+import { resetToRoute } from '../navigation/navigationRef';
+import { createLogger } from './logger';
+
+const log = createLogger('auth');
+
+// Endpoints where a 401 means bad credentials rather than an expired token
+const NO_REFRESH_ENDPOINTS: string[] = [
+  AUTH_ENDPOINTS.GENERATE_OTP,
+  AUTH_ENDPOINTS.VERIFY_OTP,
+  AUTH_ENDPOINTS.LOGIN,
+  AUTH_ENDPOINTS.REGISTER,
+  API_ENDPOINTS.USERS.REFRESH_TOKEN,
+];
+
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Whether a 401 from this endpoint should trigger a token refresh
+ */
+export const canRefreshFor = (endpoint: string): boolean =>
+  !NO_REFRESH_ENDPOINTS.some(noRefresh => endpoint.startsWith(noRefresh));
+
+/**
+ * Get a new access token from the refresh-token endpoint. Concurrent callers
+ * share one refresh call. If the refresh fails the user is logged out.
+ * @returns The new access token, or null if the session has ended
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = runRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const runRefresh = async (): Promise<string | null> => {
+  try {
+    const [token, refreshToken] = await Promise.all([getAuthToken(), getRefreshToken()]);
+    if (!token && !refreshToken) {
+      await endSession();
+      return null;
+    }
+
+    const { baseUrl, timeoutMs } = await loadActiveEnvironment();
+    const headers: Record<string, string> = { ...DEFAULT_HEADERS };
+    if (token) {
+      headers['Authorization'] = token.startsWith('Bearer ') ? token : `Bearer ${token}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    log.debug('Refreshing access token...');
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${API_ENDPOINTS.USERS.REFRESH_TOKEN}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ token, refreshToken }),
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      log.warn(`Token refresh failed with status: ${response.status}`);
+      await endSession();
+      return null;
+    }
+
+    const data = await response.json();
+    const newToken: string | undefined = data?.token || data?.accessToken;
+    if (!newToken) {
+      log.warn('Token refresh response did not contain a token');
+      await endSession();
+      return null;
+    }
+
+    // Without a rotated refresh token the current one stays valid
+    await saveAuthToken(newToken, data.refreshToken || refreshToken || undefined);
+    log.info('Access token refreshed');
+    return newToken;
+  } catch (error) {
+    // A network error is not a rejected session; keep the user logged in
+    log.error('Token refresh request failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Log the user out and return to the user-type selection screen
+ */
+export const endSession = async (): Promise<void> => {
+  log.warn('Session expired, logging out');
+  try {
+    await clearUserData();
+  } catch (error) {
+    log.error('Error clearing user data after session expiry:', error);
+  }
+  resetToRoute('ChooseUser');
+};
+
+const authSession = {
+  canRefreshFor,
+  refreshAccessToken,
+  endSession,
+};
+
+export default authSession;
@@ -0,0 +1,217 @@
+// frontend/src/services/circuitBreaker.ts
+// Per endpoint group circuit breaker, so a dead backend fails fast instead of
+// costing every screen a full round of timeouts
+
+import { API_ENDPOINTS } from './apiEndpoints';
+import { getActiveEnvironment, subscribeToEnvironment } from './environmentService';
+import { createLogger } from './logger';
+
+const log = createLogger('circuit');
+
+// closed: requests flow normally
+// open: requests fail fast until the cooldown has passed
+// half-open: a single probe request decides whether to close or reopen
+export type CircuitStatus = 'closed' | 'open' | 'half-open';
+
+export interface CircuitGroup {
+  name: string;
+  prefixes: string[]; // Endpoints under any of these paths belong to the group
+}
+
+export interface CircuitState {
+  group: string;
+  status: CircuitStatus;
+  consecutiveFailures: number;
+  openedAt?: number;
+  retryAt?: number; // When an open circuit lets the next probe through
+  probeInFlight: boolean;
+}
+
+type CircuitListener = (states: CircuitState[]) => void;
+
+// Endpoints that match none of the groups share this one
+const DEFAULT_GROUP = 'other';
+
+// One group per backend area, following API_ENDPOINTS; the first match wins
+export const CIRCUIT_GROUPS: CircuitGroup[] = [
+  { name: 'auth', prefixes: ['/api/Otp', '/api/Authentication'] },
+  { name: 'products', prefixes: [API_ENDPOINTS.PRODUCTS.GET_ALL, API_ENDPOINTS.CATEGORIES.GET_ALL] },
+  { name: 'cart', prefixes: [API_ENDPOINTS.CART.GET_CART] },
+  { name: 'addresses', prefixes: [API_ENDPOINTS.ADDRESSES.GET_ALL] },
+  { name: 'orders', prefixes: [API_ENDPOINTS.ORDERS.GET_ALL, '/api/OrderStatus'] },
+  { name: 'users', prefixes: [API_ENDPOINTS.USERS.GET_PROFILE] },
+  { name: 'notifications', prefixes: [API_ENDPOINTS.NOTIFICATIONS.GET_ALL] },
+  { name: 'admin', prefixes: ['/api/Manager'] },
+  { name: 'delivery', prefixes: [API_ENDPOINTS.DELIVERY.GET_ALL_RULES] },
+  { name: 'cms', prefixes: [API_ENDPOINTS.CMS.GET_ALL_PAGES] },
+  { name: 'analytics', prefixes: ['/api/Analytics'] },
+  { name: 'external', prefixes: ['/api/External'] },
+  { name: 'utility', prefixes: ['/api/Utility', API_ENDPOINTS.UTILITY.HEALTH_CHECK] },
+];
+
+const circuits = new Map<string, CircuitState>();
+const listeners = new Set<CircuitListener>();
+
+const matchesPrefix = (endpoint: string, prefix: string): boolean =>
+  endpoint === prefix || endpoint.startsWith(`${prefix}/`) || endpoint.startsWith(`${prefix}?`);
+
+const getState = (group: string): CircuitState => {
+  let state = circuits.get(group);
+  if (!state) {
+    state = { group, status: 'closed', consecutiveFailures: 0, probeInFlight: false };
+    circuits.set(group, state);
+  }
+  return state;
+};
+
+const updateState = (group: string, changes: Partial<CircuitState>) => {
+  const state = { ...getState(group), ...changes };
+  circuits.set(group, state);
+  const states = getCircuitStates();
+  listeners.forEach(listener => listener(states));
+};
+
+/**
+ * Get the circuit group an endpoint belongs to
+ */
+export const getCircuitGroup = (endpoint: string): string => {
+  const group = CIRCUIT_GROUPS.find(candidate =>
+    candidate.prefixes.some(prefix => matchesPrefix(endpoint, prefix))
+  );
+  return group ? group.name : DEFAULT_GROUP;
+};
+
+/**
+ * Whether a request to the endpoint may be sent now. Once the cooldown of an
+ * open circuit has passed, the first caller is let through as the probe.
+ */
+export const canRequest = (endpoint: string): boolean => {
+  const group = getCircuitGroup(endpoint);
+  const state = getState(group);
+
+  if (state.status === 'closed') {
+    return true;
+  }
+  if (state.probeInFlight) {
+    return false;
+  }
+  if (state.status === 'open' && Date.now() < (state.retryAt || 0)) {
+    return false;
+  }
+
+  log.debug(`⚡ Probing ${group} circuit with ${endpoint}`);
+  updateState(group, { status: 'half-open', probeInFlight: true });
+  return true;
+};
+
+/**
+ * Record that the backend answered a request to the endpoint
+ */
+export const recordSuccess = (endpoint: string): void => {
+  const group = getCircuitGroup(endpoint);
+  const state = getState(group);
+  if (state.status === 'closed' && state.consecutiveFailures === 0) {
+    return;
+  }
+  if (state.status !== 'closed') {
+    log.debug(`⚡ ${group} circuit closed, backend is reachable again`);
+  }
+  updateState(group, {
+    status: 'closed',
+    consecutiveFailures: 0,
+    openedAt: undefined,
+    retryAt: undefined,
+    probeInFlight: false,
+  });
+};
+
+/**
+ * Record a connection failure, timeout or server error for the endpoint.
+ * Opens the circuit after too many failures in a row, or when the probe fails.
+ * @param retryAfterMs How long the server asked us to wait, if it said so
+ */
+export const recordFailure = (endpoint: string, retryAfterMs?: number): void => {
+  const group = getCircuitGroup(endpoint);
+  const state = getState(group);
+  const { circuitFailureThreshold, circuitCooldownMs } = getActiveEnvironment();
+  const consecutiveFailures = state.consecutiveFailures + 1;
+
+  if (state.status === 'half-open' || consecutiveFailures >= circuitFailureThreshold) {
+    const now = Date.now();
+    const cooldownMs = Math.max(circuitCooldownMs, retryAfterMs || 0);
+    log.warn(`⚡ ${group} circuit open for ${Math.round(cooldownMs / 1000)}s after ${consecutiveFailures} failure(s)`);
+    updateState(group, {
+      status: 'open',
+      consecutiveFailures,
+      openedAt: state.status === 'open' || state.status === 'half-open' ? state.openedAt : now,
+      retryAt: now + cooldownMs,
+      probeInFlight: false,
+    });
+    return;
+  }
+
+  updateState(group, { consecutiveFailures });
+};
+
+/**
+ * Let the next request probe again when a probe ended without an answer
+ * either way (e.g. it was cancelled)
+ */
+export const releaseProbe = (endpoint: string): void => {
+  const group = getCircuitGroup(endpoint);
+  if (getState(group).probeInFlight) {
+    updateState(group, { status: 'open', probeInFlight: false });
+  }
+};
+
+/**
+ * Get the state of every circuit that has seen a request
+ */
+export const getCircuitStates = (): CircuitState[] => Array.from(circuits.values());
+
+/**
+ * Whether the circuit for an endpoint group is currently failing fast
+ * @param group Group name from CIRCUIT_GROUPS
+ */
+export const isCircuitOpen = (group: string): boolean => {
+  const state = circuits.get(group);
+  return !!state && state.status !== 'closed';
+};
+
+/**
+ * Close all circuits, e.g. after switching environments
+ */
+export const resetCircuits = (): void => {
+  circuits.clear();
+  listeners.forEach(listener => listener([]));
+};
+
+/**
+ * Subscribe to circuit state changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToCircuits = (listener: CircuitListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Failures of one backend say nothing about another
+subscribeToEnvironment(() => {
+  resetCircuits();
+});
+
+const circuitBreaker = {
+  getCircuitGroup,
+  canRequest,
+  recordSuccess,
+  recordFailure,
+  releaseProbe,
+  getCircuitStates,
+  isCircuitOpen,
+  resetCircuits,
+  subscribeToCircuits,
+};
+
+export default circuitBreaker;
@@ -0,0 +1,180 @@
+// frontend/src/services/connectivityService.ts
+// Tracks the device's network connection and whether the backend answers
+
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { AppState, AppStateStatus } from 'react-native';
+import { revalidateCache } from './responseCache';
+import { createLogger } from './logger';
+
+const log = createLogger('connectivity');
+
+// 'offline': the device has no network; 'degraded': it has, but the backend does not answer
+export type ConnectivityStatus = 'online' | 'offline' | 'degraded';
+
+export interface ConnectivityState {
+  status: ConnectivityStatus;
+  isDeviceOnline: boolean;
+  isBackendReachable: boolean;
+}
+
+type ConnectivityListener = (state: ConnectivityState) => void;
+
+// While the backend is unreachable it is checked this often
+const PROBE_INTERVAL_MS = 30000;
+
+let connectivityState: ConnectivityState = { status: 'online', isDeviceOnline: true, isBackendReachable: true };
+let probePromise: Promise<ConnectivityState> | null = null;
+const listeners = new Set<ConnectivityListener>();
+
+// NetInfo reports null while it does not know yet; only a definite "no" counts as offline
+const isConnected = (netState: NetInfoState): boolean =>
+  netState.isConnected !== false && netState.isInternetReachable !== false;
+
+const toStatus = (isDeviceOnline: boolean, isBackendReachable: boolean): ConnectivityStatus => {
+  if (!isDeviceOnline) {
+    return 'offline';
+  }
+  return isBackendReachable ? 'online' : 'degraded';
+};
+
+// Send what was queued while offline and refresh the data screens show from the cache
+const onReconnected = async () => {
+  revalidateCache();
+  // Import here to avoid circular dependency
+  const { replayOutbox } = await import('./outboxService');
+  replayOutbox();
+};
+
+const updateState = (changes: Partial<Omit<ConnectivityState, 'status'>>) => {
+  const previous = connectivityState;
+  const isDeviceOnline = changes.isDeviceOnline ?? previous.isDeviceOnline;
+  const isBackendReachable = changes.isBackendReachable ?? previous.isBackendReachable;
+  const status = toStatus(isDeviceOnline, isBackendReachable);
+  if (
+    status === previous.status &&
+    isDeviceOnline === previous.isDeviceOnline &&
+    isBackendReachable === previous.isBackendReachable
+  ) {
+    return;
+  }
+
+  connectivityState = { status, isDeviceOnline, isBackendReachable };
+  listeners.forEach(listener => listener(connectivityState));
+
+  if (status !== previous.status) {
+    log.info(`Connectivity changed from ${previous.status} to ${status}`);
+    if (status === 'online') {
+      onReconnected();
+    }
+  }
+};
+
+/**
+ * Get the last known connectivity
+ */
+export const getConnectivityState = (): ConnectivityState => connectivityState;
+
+/**
+ * Whether requests can be expected to reach the backend right now.
+ * Polling and background refreshes are skipped while this is false.
+ */
+export const isOnline = (): boolean => connectivityState.status === 'online';
+
+/**
+ * Check the device's network and ask the backend's health endpoint whether it answers
+ */
+export const checkConnectivity = (): Promise<ConnectivityState> => {
+  if (!probePromise) {
+    probePromise = (async () => {
+      const isDeviceOnline = isConnected(await NetInfo.fetch());
+      let isBackendReachable = false;
+      if (isDeviceOnline) {
+        // Import here to avoid circular dependency
+        const { checkApiConnection } = await import('./apiCore');
+        isBackendReachable = await checkApiConnection();
+      }
+      updateState({ isDeviceOnline, isBackendReachable });
+      return connectivityState;
+    })().finally(() => {
+      probePromise = null;
+    });
+  }
+  return probePromise;
+};
+
+/**
+ * Called for every response from the backend, which proves it is reachable
+ */
+export const reportBackendReachable = (): void => {
+  if (!connectivityState.isBackendReachable) {
+    updateState({ isBackendReachable: true });
+  }
+};
+
+/**
+ * Called when a request failed without an answer; checks whether the backend is still there
+ */
+export const reportNetworkError = (): void => {
+  if (connectivityState.status === 'online') {
+    checkConnectivity();
+  }
+};
+
+/**
+ * Subscribe to connectivity changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToConnectivity = (listener: ConnectivityListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Follow the device's network state, check the backend on start, whenever the
+ * app returns to the foreground, and periodically while it is unreachable.
+ * @returns Function that stops the monitoring
+ */
+export const startConnectivityMonitoring = (intervalMs: number = PROBE_INTERVAL_MS): (() => void) => {
+  checkConnectivity();
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(netState => {
+    if (!isConnected(netState)) {
+      updateState({ isDeviceOnline: false });
+    } else if (!connectivityState.isDeviceOnline) {
+      // Back on the network; the backend is checked before the app counts as online
+      checkConnectivity();
+    }
+  });
+
+  const intervalId = setInterval(() => {
+    if (AppState.currentState === 'active' && connectivityState.status === 'degraded') {
+      checkConnectivity();
+    }
+  }, intervalMs);
+
+  const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (state === 'active') {
+      checkConnectivity();
+    }
+  });
+
+  return () => {
+    unsubscribeNetInfo();
+    clearInterval(intervalId);
+    subscription.remove();
+  };
+};
+
+const connectivityService = {
+  getConnectivityState,
+  isOnline,
+  checkConnectivity,
+  reportBackendReachable,
+  reportNetworkError,
+  subscribeToConnectivity,
+  startConnectivityMonitoring,
+};
+
+export default connectivityService;
@@ -0,0 +1,108 @@
+// frontend/src/services/environmentService.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_ENVIRONMENT,
+  ENVIRONMENT_PROFILES,
+  EnvironmentName,
+  EnvironmentProfile,
+} from './apiConfig';
+import { createLogger } from './logger';
+
+const log = createLogger('environment');
+
+// Storage keys
+const ACTIVE_ENVIRONMENT_KEY = '@AgriMart:activeEnvironment';
+
+type EnvironmentListener = (profile: EnvironmentProfile) => void;
+
+let activeEnvironment: EnvironmentName = DEFAULT_ENVIRONMENT;
+let loadPromise: Promise<EnvironmentProfile> | null = null;
+const listeners = new Set<EnvironmentListener>();
+
+const isEnvironmentName = (value: string | null): value is EnvironmentName =>
+  !!value && Object.prototype.hasOwnProperty.call(ENVIRONMENT_PROFILES, value);
+
+/**
+ * Load the persisted environment profile. Safe to call many times; the
+ * AsyncStorage read only happens once.
+ * @returns The active environment profile
+ */
+export const loadActiveEnvironment = (): Promise<EnvironmentProfile> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(ACTIVE_ENVIRONMENT_KEY);
+        if (isEnvironmentName(stored)) {
+          activeEnvironment = stored;
+        }
+      } catch (error) {
+        log.error('Error loading active environment:', error);
+      }
+      log.debug(`Active API environment: ${activeEnvironment} (${ENVIRONMENT_PROFILES[activeEnvironment].baseUrl})`);
+      return ENVIRONMENT_PROFILES[activeEnvironment];
+    })();
+  }
+  // A profile picked since the load is the active one
+  return loadPromise.then(() => ENVIRONMENT_PROFILES[activeEnvironment]);
+};
+
+/**
+ * Get the active environment profile synchronously. Returns the default
+ * profile until loadActiveEnvironment has resolved.
+ */
+export const getActiveEnvironment = (): EnvironmentProfile => ENVIRONMENT_PROFILES[activeEnvironment];
+
+/**
+ * Get the base URL of the active environment profile
+ */
+export const getApiBaseUrl = (): string => getActiveEnvironment().baseUrl;
+
+/**
+ * Switch to another environment profile and persist the choice
+ * @param name Name of the profile to activate
+ */
+export const setActiveEnvironment = async (name: EnvironmentName): Promise<EnvironmentProfile> => {
+  // Make sure a pending load cannot overwrite the new choice
+  await loadActiveEnvironment();
+
+  activeEnvironment = name;
+  const profile = ENVIRONMENT_PROFILES[name];
+
+  try {
+    await AsyncStorage.setItem(ACTIVE_ENVIRONMENT_KEY, name);
+    log.debug(`API environment switched to ${name} (${profile.baseUrl})`);
+  } catch (error) {
+    log.error('Error saving active environment:', error);
+  }
+
+  listeners.forEach(listener => listener(profile));
+  return profile;
+};
+
+/**
+ * Get all known environment profiles
+ */
+export const getEnvironmentProfiles = (): EnvironmentProfile[] => Object.values(ENVIRONMENT_PROFILES);
+
+/**
+ * Subscribe to environment changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToEnvironment = (listener: EnvironmentListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const environmentService = {
+  loadActiveEnvironment,
+  getActiveEnvironment,
+  getApiBaseUrl,
+  setActiveEnvironment,
+  getEnvironmentProfiles,
+  subscribeToEnvironment,
+};
+
+export default environmentService;
@@ -0,0 +1,203 @@
+// frontend/src/services/featureFlagService.ts
+// Feature flags: defaults bundled with the app, rules from the remote app config
+// targeted by user and role, and local overrides set from the DebugPanel
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FeatureFlagRule, getAppConfig, subscribeToAppConfig } from './appConfigService';
+import { getUser } from './userService';
+import { createLogger } from './logger';
+
+const log = createLogger('flags');
+
+interface FeatureFlagDefinition {
+  defaultValue: boolean; // Used when the remote config has no rule for the flag
+  description: string; // Shown in the DebugPanel
+}
+
+// Every flag the app knows about. Remote rules for other names are ignored.
+export const FEATURE_FLAGS = {
+  cartSync: {
+    defaultValue: false,
+    description: 'Sync the cart with the server whenever it is refreshed',
+  },
+  adminProfileTab: {
+    defaultValue: false,
+    description: 'Profile tab in the admin tab bar (unfinished)',
+  },
+} satisfies Record<string, FeatureFlagDefinition>;
+
+export type FeatureFlagName = keyof typeof FEATURE_FLAGS;
+
+// Where the current value of a flag comes from
+export type FeatureFlagSource = 'default' | 'remote' | 'override';
+
+export interface FeatureFlagState {
+  name: FeatureFlagName;
+  enabled: boolean;
+  source: FeatureFlagSource;
+  description: string;
+}
+
+interface FeatureFlagUser {
+  id?: string;
+  role?: string;
+}
+
+type FeatureFlagListener = (flags: FeatureFlagState[]) => void;
+
+// Storage keys
+const OVERRIDES_STORAGE_KEY = '@AgriMart:featureFlagOverrides';
+
+const FLAG_NAMES = Object.keys(FEATURE_FLAGS) as FeatureFlagName[];
+
+let overrides: Partial<Record<FeatureFlagName, boolean>> = {};
+let currentUser: FeatureFlagUser = {};
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<FeatureFlagListener>();
+
+// A stable bucket from 0 to 99 per user and flag, so raising the rollout
+// percentage only adds users and never swaps them
+const getRolloutBucket = (userId: string, name: string): number => {
+  const key = `${name}:${userId}`;
+  let hash = 0;
+  for (let index = 0; index < key.length; index++) {
+    hash = (hash * 31 + key.charCodeAt(index)) | 0;
+  }
+  return Math.abs(hash) % 100;
+};
+
+const evaluateRule = (name: FeatureFlagName, rule: FeatureFlagRule, user: FeatureFlagUser): boolean => {
+  if (typeof rule === 'boolean') {
+    return rule;
+  }
+  if (!rule.enabled) {
+    return false;
+  }
+  if (user.id && rule.userIds?.includes(user.id)) {
+    return true;
+  }
+  if (rule.roles) {
+    const role = user.role?.toLowerCase();
+    if (!role || !rule.roles.some(candidate => candidate.toLowerCase() === role)) {
+      return false;
+    }
+  }
+  if (rule.rolloutPercent !== undefined) {
+    return !!user.id && getRolloutBucket(user.id, name) < rule.rolloutPercent;
+  }
+  // A rule that only lists users leaves everyone else out
+  return !rule.userIds || !!rule.roles;
+};
+
+const evaluateFlag = (name: FeatureFlagName): FeatureFlagState => {
+  const { description, defaultValue } = FEATURE_FLAGS[name];
+  const override = overrides[name];
+  if (override !== undefined) {
+    return { name, enabled: override, source: 'override', description };
+  }
+  const rule = getAppConfig().featureFlags[name];
+  if (rule !== undefined) {
+    return { name, enabled: evaluateRule(name, rule, currentUser), source: 'remote', description };
+  }
+  return { name, enabled: defaultValue, source: 'default', description };
+};
+
+const notifyListeners = () => {
+  const flags = getFeatureFlags();
+  listeners.forEach(listener => listener(flags));
+};
+
+const saveOverrides = async (): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    log.error('Error saving feature flag overrides:', error);
+  }
+};
+
+/**
+ * Check whether a feature is on for the current user. Outside React; screens use useFeature.
+ */
+export const isFeatureEnabled = (name: FeatureFlagName): boolean => evaluateFlag(name).enabled;
+
+/**
+ * Get every flag with its current value and where that value comes from
+ */
+export const getFeatureFlags = (): FeatureFlagState[] => FLAG_NAMES.map(evaluateFlag);
+
+/**
+ * Load the local overrides and the logged-in user, and follow remote config
+ * changes from then on. Safe to call more than once.
+ */
+export const loadFeatureFlags = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(OVERRIDES_STORAGE_KEY);
+        overrides = stored ? JSON.parse(stored) : {};
+      } catch (error) {
+        log.error('Error loading feature flag overrides:', error);
+      }
+      subscribeToAppConfig(notifyListeners);
+      await refreshFeatureFlagUser();
+    })();
+  }
+  return loadPromise;
+};
+
+/**
+ * Read the logged-in user again, e.g. after login or logout, so targeted flags follow them
+ */
+export const refreshFeatureFlagUser = async (): Promise<void> => {
+  const user = await getUser();
+  currentUser = { id: user?.id, role: user?.role };
+  notifyListeners();
+};
+
+/**
+ * Force a flag on or off on this device, whatever the remote config says
+ * @param enabled The value to force, or undefined to follow the remote config again
+ */
+export const setFeatureFlagOverride = async (name: FeatureFlagName, enabled: boolean | undefined): Promise<void> => {
+  if (enabled === undefined) {
+    delete overrides[name];
+  } else {
+    overrides[name] = enabled;
+  }
+  log.info(`🚩 ${name} override ${enabled === undefined ? 'cleared' : enabled ? 'on' : 'off'}`);
+  notifyListeners();
+  await saveOverrides();
+};
+
+/**
+ * Remove all local overrides
+ */
+export const clearFeatureFlagOverrides = async (): Promise<void> => {
+  overrides = {};
+  notifyListeners();
+  await saveOverrides();
+};
+
+/**
+ * Subscribe to flag changes from remote config, the user or an override
+ * @returns Function that removes the listener
+ */
+export const subscribeToFeatureFlags = (listener: FeatureFlagListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const featureFlagService = {
+  FEATURE_FLAGS,
+  isFeatureEnabled,
+  getFeatureFlags,
+  loadFeatureFlags,
+  refreshFeatureFlagUser,
+  setFeatureFlagOverride,
+  clearFeatureFlagOverrides,
+  subscribeToFeatureFlags,
+};
+
+export default featureFlagService;
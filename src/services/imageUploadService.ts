@@ -0,0 +1,158 @@
+// frontend/src/services/imageUploadService.ts
+// Product image uploads: picked images are resized and compressed on the device,
+// sent as multipart with progress, and queued in the offline outbox when needed
+
+import { Asset, ImageLibraryOptions } from 'react-native-image-picker';
+import { ApiResponse } from './apiConfig';
+import { apiUpload } from './apiCore';
+import { adminProductsApi } from './adminApiService';
+import { createApiError, toErrorResponse } from './apiErrors';
+import { API_ENDPOINTS } from './apiEndpoints';
+import { UploadedImageSchema } from './apiSchemas';
+import { enqueueMutation, OutboxItem } from './outboxService';
+import { createLogger } from './logger';
+
+const log = createLogger('upload');
+
+// A local image file ready to upload
+export interface ImageFile {
+  uri: string;
+  name: string;
+  type: string; // MIME type, e.g. 'image/jpeg'
+  size?: number; // Bytes, when the picker knows it
+}
+
+export interface UploadedImage {
+  fileId?: string;
+  url: string; // Public URL to store in AdminProduct.imageUrl
+}
+
+export interface UploadImageOptions {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// The picker does the resizing and compression: images larger than this are
+// scaled down and re-encoded as JPEG before they leave the device
+export const IMAGE_PICKER_OPTIONS: ImageLibraryOptions = {
+  mediaType: 'photo',
+  includeBase64: false,
+  maxWidth: 1280,
+  maxHeight: 1280,
+  quality: 0.7,
+  selectionLimit: 1,
+};
+
+// Largest file accepted after compression
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Turn an image picker asset into a file to upload
+ * @returns null when the asset has no local URI
+ */
+export const toImageFile = (asset: Asset): ImageFile | null => {
+  if (!asset.uri) {
+    return null;
+  }
+  const name = asset.fileName || asset.uri.split('/').pop() || `image-${Date.now()}.jpg`;
+  return {
+    uri: asset.uri,
+    name,
+    type: asset.type || 'image/jpeg',
+    size: asset.fileSize,
+  };
+};
+
+/**
+ * Check that a file can be uploaded as a product image
+ * @returns The reason it cannot, or null when it is fine
+ */
+export const validateImageFile = (file: ImageFile): string | null => {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type.toLowerCase())) {
+    return 'Please choose a JPEG, PNG or WebP image.';
+  }
+  if (file.size !== undefined && file.size > MAX_IMAGE_BYTES) {
+    return `The image is too large. Please choose one under ${MAX_IMAGE_BYTES / (1024 * 1024)} MB.`;
+  }
+  return null;
+};
+
+/**
+ * Upload an image to UTILITY_ENDPOINTS.UPLOAD_IMAGE. Connection errors are
+ * retried; aborting the signal cancels the upload.
+ * @returns The uploaded image with its public URL
+ */
+export const uploadImage = async (
+  file: ImageFile,
+  { onProgress, signal }: UploadImageOptions = {}
+): Promise<ApiResponse<UploadedImage>> => {
+  const invalidReason = validateImageFile(file);
+  if (invalidReason) {
+    return toErrorResponse(createApiError('validation', undefined, invalidReason));
+  }
+
+  const formData = new FormData();
+  // React Native reads the file from the URI while sending
+  formData.append('file', { uri: file.uri, name: file.name, type: file.type } as any);
+
+  log.debug(`⬆️ Uploading ${file.name}`);
+  const response = await apiUpload<UploadedImage>(API_ENDPOINTS.UTILITY.UPLOAD_IMAGE, formData, {
+    signal,
+    onUploadProgress: onProgress,
+    schema: UploadedImageSchema,
+  });
+
+  if (response.success && !response.data?.url) {
+    log.warn('Upload succeeded but the server did not return a URL');
+    return toErrorResponse(createApiError('server', undefined, 'The server did not return the image URL.'));
+  }
+  return response;
+};
+
+/**
+ * Store an uploaded image URL as the product's imageUrl
+ */
+export const attachImageToProduct = async (
+  productId: number | string,
+  url: string
+): Promise<ApiResponse<UploadedImage>> => {
+  const current = await adminProductsApi.getById(productId);
+  if (!current.success || !current.data) {
+    return { ...current, data: undefined };
+  }
+
+  const updated = await adminProductsApi.update(productId, { ...current.data, imageUrl: url });
+  if (!updated.success) {
+    return { ...updated, data: undefined };
+  }
+  log.debug(`🖼️ Image attached to product ${productId}`);
+  return { success: true, data: { url } };
+};
+
+/**
+ * Queue an image in the offline outbox. Once it is uploaded, the URL is
+ * written into the product's imageUrl. A newer image for the same product
+ * replaces one that is still waiting.
+ */
+export const queueImageUpload = (file: ImageFile, productId?: number | string): Promise<OutboxItem> =>
+  enqueueMutation({
+    endpoint: API_ENDPOINTS.UTILITY.UPLOAD_IMAGE,
+    method: 'POST',
+    tag: 'image',
+    label: productId ? `Image for product ${productId}` : `Image ${file.name}`,
+    key: productId ? `image:${productId}` : undefined,
+    upload: { file, productId },
+  });
+
+const imageUploadService = {
+  IMAGE_PICKER_OPTIONS,
+  toImageFile,
+  validateImageFile,
+  uploadImage,
+  attachImageToProduct,
+  queueImageUpload,
+};
+
+export default imageUploadService;
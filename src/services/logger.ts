@@ -0,0 +1,249 @@
+// frontend/src/services/logger.ts
+// Structured logger with levels, per-subsystem tags and redaction of personal data
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  level: LogLevel;
+  tag: string; // Subsystem, e.g. 'api', 'auth', 'cart'
+  message: string;
+  data?: string; // Redacted and serialised extra data
+}
+
+export interface Logger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+export interface DiagnosticBundle {
+  createdAt: string;
+  platform: { os: string; version: string | number };
+  context: Record<string, unknown>;
+  entries: LogEntry[];
+}
+
+type LogListener = (entries: LogEntry[]) => void;
+
+// Storage keys
+const LOG_BUFFER_KEY = '@AgriMart:logBuffer';
+
+// Entries kept in memory and in storage; older entries are dropped
+const LOG_BUFFER_SIZE = 300;
+
+// Writes to storage are batched so logging never waits for AsyncStorage
+const PERSIST_DELAY_MS = 2000;
+
+// Extra data is cut off after this many characters, e.g. whole order payloads
+const MAX_DATA_LENGTH = 2000;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const REDACTED = '[REDACTED]';
+
+// Values under these keys are never logged, whatever they contain
+const SENSITIVE_KEYS = [
+  'token', 'accesstoken', 'refreshtoken', 'tokenpreview', 'authorization', 'password', 'passwordhash',
+  'otp', 'code', 'phone', 'phonenumber', 'mobile', 'identifier', 'email',
+  'addressline1', 'addressline2', 'street', 'latitude', 'longitude',
+];
+
+// Patterns removed from all logged text
+const SENSITIVE_PATTERNS: Array<[RegExp, string]> = [
+  [/Bearer\s+[\w\-.~+/=]+/gi, `Bearer ${REDACTED}`],
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, REDACTED], // JWTs
+  [/mock-(token|refresh)\.[\w-]+\.\d+/g, REDACTED],
+  [/\b(91[\s-]?)?[6-9]\d{9}\b/g, '[PHONE]'], // Indian mobile numbers
+  [/[\w.+-]+@[\w-]+\.[\w.]+/g, '[EMAIL]'],
+];
+
+let minLevel: LogLevel = __DEV__ ? 'debug' : 'info';
+let entries: LogEntry[] = [];
+let nextId = 1;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<LogListener>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(entries));
+};
+
+/**
+ * Remove tokens, phone numbers, e-mail addresses and OTPs from text
+ */
+export const redactText = (text: string): string =>
+  SENSITIVE_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+/**
+ * Copy a value with every sensitive field and pattern removed
+ */
+export const redact = (value: unknown, depth: number = 0): unknown => {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth > 5) {
+    return '[…]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  const result: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, field]) => {
+    result[key] = SENSITIVE_KEYS.includes(key.toLowerCase()) && field !== null && field !== undefined && field !== ''
+      ? REDACTED
+      : redact(field, depth + 1);
+  });
+  return result;
+};
+
+const serialiseData = (data: unknown): string | undefined => {
+  if (data === undefined) {
+    return undefined;
+  }
+  let text: string;
+  try {
+    const redacted = redact(data);
+    text = typeof redacted === 'string' ? redacted : JSON.stringify(redacted);
+  } catch {
+    text = String(data);
+  }
+  return text.length > MAX_DATA_LENGTH ? `${text.slice(0, MAX_DATA_LENGTH)}… (${text.length} chars)` : text;
+};
+
+const schedulePersist = () => {
+  if (persistTimer) {
+    return;
+  }
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    AsyncStorage.setItem(LOG_BUFFER_KEY, JSON.stringify(entries)).catch(() => {
+      // Nothing useful to do; logging the failure would schedule another write
+    });
+  }, PERSIST_DELAY_MS);
+};
+
+const writeToConsole = (entry: LogEntry) => {
+  const line = `[${entry.tag}] ${entry.message}`;
+  const args = entry.data !== undefined ? [line, entry.data] : [line];
+  switch (entry.level) {
+    case 'error':
+      console.error(...args);
+      break;
+    case 'warn':
+      console.warn(...args);
+      break;
+    default:
+      console.log(...args);
+  }
+};
+
+const addEntry = (level: LogLevel, tag: string, message: string, data?: unknown) => {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+    return;
+  }
+  const entry: LogEntry = {
+    id: nextId++,
+    timestamp: new Date().toISOString(),
+    level,
+    tag,
+    message: redactText(message),
+    data: serialiseData(data),
+  };
+  entries = [...entries, entry].slice(-LOG_BUFFER_SIZE);
+  if (__DEV__) {
+    writeToConsole(entry);
+  }
+  schedulePersist();
+  notifyListeners();
+};
+
+/**
+ * Create a logger for one subsystem
+ * @param tag Shown with every entry, e.g. 'api' or 'cart'
+ */
+export const createLogger = (tag: string): Logger => ({
+  debug: (message, data) => addEntry('debug', tag, message, data),
+  info: (message, data) => addEntry('info', tag, message, data),
+  warn: (message, data) => addEntry('warn', tag, message, data),
+  error: (message, data) => addEntry('error', tag, message, data),
+});
+
+/**
+ * Restore the entries of earlier sessions from storage
+ */
+export const loadLogBuffer = async (): Promise<void> => {
+  try {
+    const stored = await AsyncStorage.getItem(LOG_BUFFER_KEY);
+    const previous: LogEntry[] = stored ? JSON.parse(stored) : [];
+    entries = [...previous, ...entries].slice(-LOG_BUFFER_SIZE);
+    nextId = entries.reduce((highest, entry) => Math.max(highest, entry.id), 0) + 1;
+    notifyListeners();
+  } catch (error) {
+    console.error('Error loading log buffer:', error);
+  }
+};
+
+/**
+ * Only record entries at this level or above
+ */
+export const setLogLevel = (level: LogLevel): void => {
+  minLevel = level;
+};
+
+export const getLogLevel = (): LogLevel => minLevel;
+
+export const getLogEntries = (): LogEntry[] => entries;
+
+export const clearLogs = async (): Promise<void> => {
+  entries = [];
+  notifyListeners();
+  await AsyncStorage.removeItem(LOG_BUFFER_KEY);
+};
+
+/**
+ * Collect the log buffer and app state into a bundle for a support ticket
+ * @param context Extra state to include, e.g. the active environment
+ */
+export const createDiagnosticBundle = (context: Record<string, unknown> = {}): DiagnosticBundle => ({
+  createdAt: new Date().toISOString(),
+  platform: { os: Platform.OS, version: Platform.Version },
+  context: redact(context) as Record<string, unknown>,
+  entries,
+});
+
+/**
+ * Subscribe to changes of the log buffer
+ * @returns Function that removes the listener
+ */
+export const subscribeToLogs = (listener: LogListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const logger = {
+  createLogger,
+  loadLogBuffer,
+  setLogLevel,
+  getLogLevel,
+  getLogEntries,
+  clearLogs,
+  createDiagnosticBundle,
+  subscribeToLogs,
+  redact,
+  redactText,
+};
+
+export default logger;
@@ -0,0 +1,1386 @@
+// frontend/src/services/mockServer.ts
+// In-app mock backend that answers every route in API_ENDPOINTS without a network.
+// It is selected with the 'mock' environment profile and keeps its data in AsyncStorage.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MOCK_SERVER_BASE_URL, CLIENT_SUBMISSION_HEADER, APP_VERSION, APP_VERSION_HEADER } from './apiConfig';
+import { ORDER_STATUS, ORDER_STATUS_NAMES, getOrderStatusName } from '../constants/orderStatus';
+import { DEFAULT_APP_CONFIG } from './appConfigService';
+import { compareVersions } from './versionService';
+import {
+  MOCK_DATABASE_VERSION,
+  MOCK_OTP_CODE,
+  MockDatabase,
+  MockNotification,
+  MockOrder,
+  MockProduct,
+  MockUser,
+  createSeedDatabase,
+} from './mockServerData';
+import { createLogger } from './logger';
+import { getQuantityLimits, isValidQuantityStep, isWholeSteps } from '../utils/quantityLimits';
+import { roundQuantity } from '../utils/units';
+
+const log = createLogger('mock');
+
+export interface MockRequest {
+  method: string;
+  path: string; // Without the query string
+  query: Record<string, string>;
+  headers: Record<string, string>; // Header names in lower case
+  body?: any;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export interface MockServerOptions {
+  latencyMs?: number; // Simulated network delay for every request
+  minimumVersion?: string; // Older app versions get 426 Upgrade Required
+  recommendedVersion?: string; // Older app versions are offered a soft update
+}
+
+interface RouteContext {
+  request: MockRequest;
+  params: Record<string, string>;
+  db: MockDatabase;
+  user: MockUser | null;
+}
+
+type RouteHandler = (context: RouteContext) => MockResponse;
+
+type RouteAccess = 'public' | 'user' | 'manager';
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  access: RouteAccess;
+  handler: RouteHandler;
+}
+
+// Storage keys
+const MOCK_DATABASE_KEY = '@AgriMart:mockServer:db';
+
+const TOKEN_PREFIX = 'mock-token';
+const REFRESH_TOKEN_PREFIX = 'mock-refresh';
+
+let latencyMs = 200;
+let minimumVersion = APP_VERSION;
+let recommendedVersion = APP_VERSION;
+let database: MockDatabase | null = null;
+let loadPromise: Promise<MockDatabase> | null = null;
+let installed = false;
+
+// ===== RESPONSES =====
+
+const ok = (body?: any): MockResponse => ({ status: 200, body });
+const created = (body?: any): MockResponse => ({ status: 201, body });
+const noContent = (): MockResponse => ({ status: 204 });
+const badRequest = (message: string, errors?: Record<string, string[]>): MockResponse =>
+  ({ status: 400, body: { title: 'Bad Request', message, errors } });
+const unauthorized = (message: string = 'Unauthorized'): MockResponse => ({ status: 401, body: { message } });
+const forbidden = (): MockResponse => ({ status: 403, body: { message: 'You do not have permission to do this' } });
+const notFound = (message: string): MockResponse => ({ status: 404, body: { message } });
+const conflict = (message: string): MockResponse => ({ status: 409, body: { message } });
+
+// ===== HELPERS =====
+
+const now = () => new Date().toISOString();
+
+const generateGuid = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.random() * 16 | 0;
+    const value = char === 'x' ? random : (random & 0x3 | 0x8);
+    return value.toString(16);
+  });
+
+const sameId = (a: string | number | undefined, b: string | number | undefined) =>
+  a !== undefined && b !== undefined && String(a).toLowerCase() === String(b).toLowerCase();
+
+const paginate = <T>(items: T[], query: Record<string, string>): T[] => {
+  const pageNumber = Number(query.pageNumber) || 0;
+  const pageSize = Number(query.pageSize) || 0;
+  if (!pageNumber || !pageSize) {
+    return items;
+  }
+  return items.slice((pageNumber - 1) * pageSize, pageNumber * pageSize);
+};
+
+const toProfile = ({ passwordHash, ...profile }: MockUser) => profile;
+
+const toOptionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || isNaN(Number(value)) ? undefined : Number(value);
+
+// Quantities are whole numbers of steps, like the real UpdateQuantityRequest; 0 removes an item
+const checkQuantityStep = (product: MockProduct, quantity: number) => {
+  const limits = getQuantityLimits(product);
+  return quantity === 0 || isWholeSteps(quantity, limits)
+    ? null
+    : badRequest(`Quantity must be in steps of ${limits.step}`, { Quantity: [`Quantity must be in steps of ${limits.step}.`] });
+};
+
+const issueTokens = (user: MockUser) => {
+  const stamp = Date.now();
+  return {
+    token: `${TOKEN_PREFIX}.${user.userId}.${stamp}`,
+    refreshToken: `${REFRESH_TOKEN_PREFIX}.${user.userId}.${stamp}`,
+    userId: user.userId,
+    role: user.role,
+  };
+};
+
+// Tokens carry the user ID, so a reseeded database still accepts them
+const findUserByToken = (db: MockDatabase, token: string | undefined, prefix: string): MockUser | null => {
+  if (!token) {
+    return null;
+  }
+  const [tokenPrefix, userId] = token.replace(/^Bearer /, '').split('.');
+  if (tokenPrefix !== prefix) {
+    return null;
+  }
+  return db.users.find(user => user.userId === userId) || null;
+};
+
+const isManager = (user: MockUser | null) => !!user && ['manager', 'admin'].includes(user.role.toLowerCase());
+
+const findProduct = (db: MockDatabase, id: string) =>
+  db.products.find(product => sameId(product.productId, id));
+
+const getCategoryName = (db: MockDatabase, categoryId: number) =>
+  db.categories.find(category => category.id === categoryId)?.name;
+
+const toInventoryItem = (db: MockDatabase, product: MockProduct) => ({
+  ...product,
+  categoryName: getCategoryName(db, product.categoryId),
+  reservedStock: 0,
+  availableStock: product.stockQuantity,
+  totalValue: product.stockQuantity * (product.unitCost || product.price),
+});
+
+const toOrderResponse = (db: MockDatabase, order: MockOrder) => {
+  const { statusHistory, clientSubmissionId, ...rest } = order;
+  const user = db.users.find(candidate => candidate.userId === order.userId);
+  return {
+    ...rest,
+    userName: user?.name,
+    userEmail: user?.email,
+    statusName: getOrderStatusName(order.orderStatusId),
+  };
+};
+
+const getCartResponse = (db: MockDatabase, userId: string) => {
+  const items = (db.carts[userId] || []).map(item => {
+    const product = findProduct(db, item.productId);
+    const price = product ? product.price : 0;
+    return {
+      id: item.productId,
+      productId: item.productId,
+      name: product ? product.name : 'Product',
+      price,
+      quantity: item.quantity,
+      imageUrl: product?.imageUrl,
+      unitOfMeasure: product?.unitOfMeasure,
+      totalPrice: price * item.quantity,
+      modifiedDate: item.modifiedDate || item.addedDate,
+    };
+  });
+  return {
+    userId,
+    items,
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalAmount: items.reduce((sum, item) => sum + item.totalPrice, 0),
+  };
+};
+
+const addNotification = (db: MockDatabase, userId: string, message: string) => {
+  db.notifications.push({
+    notificationId: db.nextIds.notification++,
+    userId,
+    message,
+    dateSent: now(),
+    isRead: false,
+  });
+};
+
+const changeOrderStatus = (db: MockDatabase, order: MockOrder, statusId: string, notes?: string) => {
+  const statusName = getOrderStatusName(statusId);
+  order.orderStatusId = statusId;
+  order.modifiedDate = now();
+  order.statusHistory.push({ statusId, statusName, timestamp: now(), notes });
+  addNotification(db, order.userId, `Your order ${order.trackingNumber || order.id} is now ${statusName}.`);
+};
+
+const getProductSales = (db: MockDatabase, orders: MockOrder[] = db.orders) => {
+  const sales = new Map<string, { productId: string; productName: string; quantitySold: number; revenue: number }>();
+  orders
+    .filter(order => order.orderStatusId !== ORDER_STATUS.CANCELLED)
+    .forEach(order => order.orderItems.forEach(item => {
+      const entry = sales.get(item.productId) || { productId: item.productId, productName: item.productName, quantitySold: 0, revenue: 0 };
+      entry.quantitySold += item.quantity;
+      entry.revenue += item.totalPrice;
+      sales.set(item.productId, entry);
+    }));
+  return Array.from(sales.values()).sort((a, b) => b.revenue - a.revenue);
+};
+
+const getCustomerActivity = (db: MockDatabase) =>
+  db.users
+    .map(user => {
+      const orders = db.orders.filter(order => order.userId === user.userId && order.orderStatusId !== ORDER_STATUS.CANCELLED);
+      return {
+        userId: user.userId,
+        name: user.name,
+        orderCount: orders.length,
+        totalSpent: orders.reduce((sum, order) => sum + order.totalAmount, 0),
+        lastOrderDate: orders.map(order => order.orderDate).sort().pop() || null,
+      };
+    })
+    .filter(customer => customer.orderCount > 0)
+    .sort((a, b) => b.totalSpent - a.totalSpent);
+
+const getSalesSummary = (orders: MockOrder[]) => {
+  const counted = orders.filter(order => order.orderStatusId !== ORDER_STATUS.CANCELLED);
+  const totalSales = counted.reduce((sum, order) => sum + order.totalAmount, 0);
+  return {
+    totalSales,
+    totalOrders: counted.length,
+    averageOrderValue: counted.length > 0 ? Math.round((totalSales / counted.length) * 100) / 100 : 0,
+  };
+};
+
+// ===== ROUTES =====
+
+const routes: MockRoute[] = [];
+
+// Register a route; ':name' segments become params. ASP.NET routing ignores
+// case, so the mock does too. More specific routes must be registered first.
+const route = (method: string, path: string, handler: RouteHandler, access: RouteAccess = 'public') => {
+  const paramNames: string[] = [];
+  const pattern = path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/:(\w+)/g, (_, name) => {
+    paramNames.push(name);
+    return '([^/]+)';
+  });
+  routes.push({ method, pattern: new RegExp(`^${pattern}/?$`, 'i'), paramNames, access, handler });
+};
+
+// --- Authentication & OTP ---
+
+route('POST', '/api/Otp/generate', ({ request }) => {
+  const identifier = String(request.body?.identifier || '');
+  if (!/^\d{10}$/.test(identifier)) {
+    return badRequest('Please enter a valid 10 digit phone number');
+  }
+  return ok({ message: `OTP sent to ${identifier}. Use ${MOCK_OTP_CODE} in the mock environment.`, expiresInSeconds: 300 });
+});
+
+route('POST', '/api/Otp/verify', ({ request, db }) => {
+  const identifier = String(request.body?.identifier || '');
+  if (request.body?.code !== MOCK_OTP_CODE) {
+    return badRequest('Invalid OTP. Please check the code and try again.');
+  }
+  let user = db.users.find(candidate => candidate.phoneNumber === identifier);
+  const isNewUser = !user;
+  if (!user) {
+    user = {
+      userId: generateGuid(),
+      name: '',
+      email: '',
+      phoneNumber: identifier,
+      passwordHash: '',
+      role: 'User',
+      isActive: true,
+      dateJoined: now(),
+    };
+    db.users.push(user);
+  }
+  user.lastLogin = now();
+  return ok({ ...issueTokens(user), isNewUser });
+});
+
+route('POST', '/api/Authentication/login', ({ request, db }) => {
+  const { email, password } = request.body || {};
+  const user = db.users.find(candidate =>
+    candidate.email.toLowerCase() === String(email || '').toLowerCase() && candidate.passwordHash === password
+  );
+  if (!user) {
+    return unauthorized('Invalid email or password');
+  }
+  user.lastLogin = now();
+  return ok(issueTokens(user));
+});
+
+const registerUser = (role: string): RouteHandler => ({ request, db }) => {
+  const { name, email, phoneNumber, password } = request.body || {};
+  const errors: Record<string, string[]> = {};
+  if (!name) errors.Name = ['The Name field is required.'];
+  if (!email) errors.Email = ['The Email field is required.'];
+  if (!password) errors.Password = ['The Password field is required.'];
+  if (Object.keys(errors).length > 0) {
+    return badRequest('One or more validation errors occurred.', errors);
+  }
+  if (db.users.some(user => user.email.toLowerCase() === String(email).toLowerCase())) {
+    return conflict('A user with this email already exists');
+  }
+  const user: MockUser = {
+    userId: generateGuid(),
+    name,
+    email,
+    phoneNumber: phoneNumber || '',
+    passwordHash: password,
+    role,
+    isActive: true,
+    dateJoined: now(),
+  };
+  db.users.push(user);
+  return created({ ...toProfile(user), message: 'Registration successful' });
+};
+
+route('POST', '/api/Authentication/register', registerUser('User'));
+route('POST', '/api/Authentication/create-manager', registerUser('manager'));
+
+// --- User profiles ---
+
+route('GET', '/api/UserProfiles/auth-status', ({ user }) =>
+  ok({ isAuthenticated: !!user, userId: user?.userId || null, role: user?.role || null }));
+
+route('POST', '/api/UserProfiles/refresh-token', ({ request, db }) => {
+  const user = findUserByToken(db, request.body?.refreshToken, REFRESH_TOKEN_PREFIX);
+  return user ? ok(issueTokens(user)) : unauthorized('Refresh token is invalid or has expired');
+});
+
+const listProfiles: RouteHandler = ({ db }) => ok(db.users.map(toProfile));
+
+const getProfile: RouteHandler = ({ db, params }) => {
+  const profile = db.users.find(user => sameId(user.userId, params.id));
+  return profile ? ok(toProfile(profile)) : notFound('User profile not found');
+};
+
+const createProfile: RouteHandler = ({ db, request }) => {
+  const { passwordHash, ...fields } = request.body || {};
+  const profile: MockUser = {
+    name: '',
+    email: '',
+    phoneNumber: '',
+    role: 'User',
+    ...fields,
+    userId: generateGuid(),
+    passwordHash: passwordHash || '',
+    isActive: true,
+    dateJoined: now(),
+  };
+  db.users.push(profile);
+  return created(toProfile(profile));
+};
+
+// Customers may only change their own profile
+const updateProfile: RouteHandler = ({ db, params, request, user }) => {
+  if (!isManager(user) && !sameId(user?.userId, params.id)) {
+    return forbidden();
+  }
+  const profile = db.users.find(candidate => sameId(candidate.userId, params.id));
+  if (!profile) {
+    return notFound('User profile not found');
+  }
+  const { userId, role, ...changes } = request.body || {};
+  Object.assign(profile, changes, isManager(user) && role ? { role } : {});
+  return ok(toProfile(profile));
+};
+
+const deleteProfile: RouteHandler = ({ db, params }) => {
+  const index = db.users.findIndex(user => sameId(user.userId, params.id));
+  if (index < 0) {
+    return notFound('User profile not found');
+  }
+  db.users.splice(index, 1);
+  return noContent();
+};
+
+route('GET', '/api/UserProfiles', listProfiles, 'manager');
+route('POST', '/api/UserProfiles', createProfile);
+route('PUT', '/api/UserProfiles', context =>
+  updateProfile({ ...context, params: { id: (context.user as MockUser).userId } }), 'user');
+route('GET', '/api/UserProfiles/:id', getProfile, 'user');
+route('PUT', '/api/UserProfiles/:id', updateProfile, 'user');
+route('DELETE', '/api/UserProfiles/:id', deleteProfile, 'manager');
+route('GET', '/api/Manager/UserProfiles', listProfiles, 'manager');
+route('GET', '/api/Manager/UserProfiles/:id', getProfile, 'manager');
+route('PUT', '/api/Manager/UserProfiles/:id', updateProfile, 'manager');
+route('DELETE', '/api/Manager/UserProfiles/:id', deleteProfile, 'manager');
+
+// --- Categories ---
+
+route('GET', '/api/Categories', ({ db }) => ok(db.categories));
+
+route('GET', '/api/Categories/:id', ({ db, params }) => {
+  const category = db.categories.find(candidate => candidate.id === Number(params.id));
+  return category ? ok(category) : notFound('Category not found');
+});
+
+route('POST', '/api/Categories', ({ db, request }) => {
+  if (!request.body?.name) {
+    return badRequest('Category name is required', { Name: ['The Name field is required.'] });
+  }
+  const category = { ...request.body, id: db.nextIds.category++ };
+  db.categories.push(category);
+  return created(category);
+}, 'manager');
+
+route('PUT', '/api/Categories/:id', ({ db, params, request }) => {
+  const category = db.categories.find(candidate => candidate.id === Number(params.id));
+  if (!category) {
+    return notFound('Category not found');
+  }
+  Object.assign(category, request.body, { id: category.id });
+  return ok(category);
+}, 'manager');
+
+route('DELETE', '/api/Categories/:id', ({ db, params }) => {
+  const categoryId = Number(params.id);
+  if (!db.categories.some(category => category.id === categoryId)) {
+    return notFound('Category not found');
+  }
+  if (db.products.some(product => product.categoryId === categoryId)) {
+    return conflict('The category still has products');
+  }
+  db.categories = db.categories.filter(category => category.id !== categoryId);
+  return noContent();
+}, 'manager');
+
+// --- Products (customer and manager routes share the handlers) ---
+
+const listProducts: RouteHandler = ({ db, request, user }) => {
+  const products = isManager(user) ? db.products : db.products.filter(product => product.isActive);
+  return ok(paginate(products, request.query));
+};
+
+const getProductById: RouteHandler = ({ db, params }) => {
+  const product = findProduct(db, params.id);
+  return product ? ok(product) : notFound('Product not found');
+};
+
+const createProduct: RouteHandler = ({ db, request }) => {
+  const { name, price, taxRate, packSize, quantityStep } = request.body || {};
+  const errors: Record<string, string[]> = {};
+  if (!name) errors.Name = ['The Name field is required.'];
+  if (typeof price !== 'number' || price < 0) errors.Price = ['Price must be zero or more.'];
+  if (taxRate !== undefined && taxRate !== null && (typeof taxRate !== 'number' || taxRate < 0 || taxRate >= 1)) {
+    errors.TaxRate = ['TaxRate must be a fraction from 0 to under 1.'];
+  }
+  if (packSize !== undefined && packSize !== null && (typeof packSize !== 'number' || packSize <= 0)) {
+    errors.PackSize = ['PackSize must be more than 0.'];
+  }
+  if (quantityStep !== undefined && quantityStep !== null && !isValidQuantityStep(quantityStep)) {
+    errors.QuantityStep = ['QuantityStep must be a whole number of 1 or more.'];
+  }
+  if (Object.keys(errors).length > 0) {
+    return badRequest('One or more validation errors occurred.', errors);
+  }
+  const id = generateGuid();
+  const product: MockProduct = {
+    stockQuantity: 0,
+    categoryId: 1,
+    isActive: true,
+    ...request.body,
+    id,
+    productId: id,
+    createdDate: now(),
+    modifiedDate: now(),
+  };
+  db.products.push(product);
+  return created(product);
+};
+
+const updateProduct: RouteHandler = ({ db, params, request }) => {
+  const product = findProduct(db, params.id);
+  if (!product) {
+    return notFound('Product not found');
+  }
+  Object.assign(product, request.body, { id: product.id, productId: product.productId, modifiedDate: now() });
+  return ok(product);
+};
+
+const deleteProduct: RouteHandler = ({ db, params }) => {
+  const product = findProduct(db, params.id);
+  if (!product) {
+    return notFound('Product not found');
+  }
+  db.products = db.products.filter(candidate => candidate !== product);
+  return noContent();
+};
+
+const updateProductUnits: RouteHandler = ({ db, params, request }) => {
+  const product = findProduct(db, params.id);
+  const quantity = Number(request.query.quantity);
+  if (!product) {
+    return notFound('Product not found');
+  }
+  if (isNaN(quantity) || quantity < 0) {
+    return badRequest('Quantity must be zero or more');
+  }
+  product.stockQuantity = quantity;
+  product.modifiedDate = now();
+  return ok(product);
+};
+
+route('GET', '/api/Products/search', ({ db, request }) => {
+  const term = String(request.query.query || request.query.searchTerm || request.query.q || '').toLowerCase();
+  return ok(db.products.filter(product =>
+    product.isActive && (product.name.toLowerCase().includes(term) || (product.description || '').toLowerCase().includes(term))
+  ));
+});
+route('GET', '/api/Products/category/:categoryId', ({ db, params, request }) =>
+  ok(paginate(db.products.filter(product => product.isActive && product.categoryId === Number(params.categoryId)), request.query)));
+route('PUT', '/api/Products/:id/units', updateProductUnits, 'manager');
+route('GET', '/api/Products', listProducts);
+route('POST', '/api/Products', createProduct, 'manager');
+route('GET', '/api/Products/:id', getProductById);
+route('PUT', '/api/Products/:id', updateProduct, 'manager');
+route('DELETE', '/api/Products/:id', deleteProduct, 'manager');
+
+route('PUT', '/api/Manager/products/:id/units', updateProductUnits, 'manager');
+route('GET', '/api/Manager/products', listProducts, 'manager');
+route('POST', '/api/Manager/products', createProduct, 'manager');
+route('GET', '/api/Manager/products/:id', getProductById, 'manager');
+route('PUT', '/api/Manager/products/:id', updateProduct, 'manager');
+route('DELETE', '/api/Manager/products/:id', deleteProduct, 'manager');
+
+// --- Inventory ---
+
+route('GET', '/api/Manager/inventory/low-stock', ({ db }) =>
+  ok(db.products
+    .filter(product => product.stockQuantity > 0 && product.stockQuantity <= (product.reorderPoint || 0))
+    .map(product => toInventoryItem(db, product))), 'manager');
+
+route('GET', '/api/Manager/inventory/out-of-stock', ({ db }) =>
+  ok(db.products.filter(product => product.stockQuantity <= 0).map(product => toInventoryItem(db, product))), 'manager');
+
+route('GET', '/api/Manager/inventory', ({ db, request }) =>
+  ok(paginate(db.products, request.query).map(product => toInventoryItem(db, product))), 'manager');
+
+route('PUT', '/api/Manager/inventory/:productId', ({ db, params, request }) => {
+  const product = findProduct(db, params.productId);
+  const quantity = Number(request.body?.stockQuantity ?? request.body?.quantity);
+  if (!product) {
+    return notFound('Product not found');
+  }
+  if (isNaN(quantity) || quantity < 0) {
+    return badRequest('Stock quantity must be zero or more', { StockQuantity: ['Stock quantity must be zero or more.'] });
+  }
+  product.stockQuantity = quantity;
+  product.modifiedDate = now();
+  return ok(toInventoryItem(db, product));
+}, 'manager');
+
+// --- Cart ---
+
+const getCartOwner = ({ request, user }: RouteContext): string =>
+  (isManager(user) && request.query.userId) || (user as MockUser).userId;
+
+route('GET', '/api/Cart/count', context => {
+  const items = context.db.carts[getCartOwner(context)] || [];
+  return ok({ count: items.reduce((sum, item) => sum + item.quantity, 0) });
+}, 'user');
+
+const clearCart: RouteHandler = context => {
+  context.db.carts[getCartOwner(context)] = [];
+  return noContent();
+};
+route('POST', '/api/Cart/clear', clearCart, 'user');
+route('DELETE', '/api/Cart/clear', clearCart, 'user');
+
+route('GET', '/api/Cart', context => ok(getCartResponse(context.db, getCartOwner(context))), 'user');
+
+// POST sets the quantity of a product; a quantity of 0 removes it
+route('POST', '/api/Cart', context => {
+  const { db, request } = context;
+  const userId = getCartOwner(context);
+  const productId = String(request.body?.productId || '');
+  const quantity = Number(request.body?.quantity);
+  const product = findProduct(db, productId);
+  if (!product) {
+    return notFound('Product not found');
+  }
+  if (isNaN(quantity) || quantity < 0) {
+    return badRequest('Quantity must be zero or more', { Quantity: ['Quantity must be zero or more.'] });
+  }
+  const stepError = checkQuantityStep(product, quantity);
+  if (stepError) {
+    return stepError;
+  }
+  if (quantity > product.stockQuantity) {
+    return badRequest(`Only ${product.stockQuantity} left in stock`, { Quantity: [`Only ${product.stockQuantity} left in stock.`] });
+  }
+  if (product.maxOrderQuantity !== undefined && quantity > product.maxOrderQuantity) {
+    return badRequest(`At most ${product.maxOrderQuantity} per order`, { Quantity: [`At most ${product.maxOrderQuantity} per order.`] });
+  }
+  const existing = (db.carts[userId] || []).find(item => sameId(item.productId, product.productId));
+  const items = (db.carts[userId] || []).filter(item => item !== existing);
+  if (quantity > 0) {
+    items.push({ productId: product.productId, quantity, addedDate: existing?.addedDate || now(), modifiedDate: now() });
+  }
+  db.carts[userId] = items;
+  return ok(getCartResponse(db, userId));
+}, 'user');
+
+route('PUT', '/api/Cart/item/:productId', context => {
+  const { db, params, request } = context;
+  const userId = getCartOwner(context);
+  const item = (db.carts[userId] || []).find(candidate => sameId(candidate.productId, params.productId));
+  const quantity = Number(request.body?.quantity);
+  if (!item) {
+    return notFound('Item is not in the cart');
+  }
+  if (isNaN(quantity) || quantity < 0) {
+    return badRequest('Quantity must be zero or more', { Quantity: ['Quantity must be zero or more.'] });
+  }
+  const product = findProduct(db, item.productId);
+  const stepError = product && checkQuantityStep(product, quantity);
+  if (stepError) {
+    return stepError;
+  }
+  const stock = product?.stockQuantity ?? 0;
+  if (quantity > stock) {
+    return badRequest(`Only ${stock} left in stock`, { Quantity: [`Only ${stock} left in stock.`] });
+  }
+  db.carts[userId] = quantity > 0
+    ? db.carts[userId].map(candidate => (candidate === item ? { ...item, quantity, modifiedDate: now() } : candidate))
+    : db.carts[userId].filter(candidate => candidate !== item);
+  return ok(getCartResponse(db, userId));
+}, 'user');
+
+route('DELETE', '/api/Cart/:productId', context => {
+  const { db, params } = context;
+  const userId = getCartOwner(context);
+  const items = db.carts[userId] || [];
+  if (!items.some(item => sameId(item.productId, params.productId))) {
+    return notFound('Item is not in the cart');
+  }
+  db.carts[userId] = items.filter(item => !sameId(item.productId, params.productId));
+  return noContent();
+}, 'user');
+
+// --- Addresses ---
+
+const validateAddress = (body: any): MockResponse | null => {
+  const errors: Record<string, string[]> = {};
+  if (!body?.addressLine1 && !body?.street) errors.AddressLine1 = ['The AddressLine1 field is required.'];
+  if (!body?.city) errors.City = ['The City field is required.'];
+  if (!body?.zipCode && !body?.pincode) errors.ZipCode = ['The ZipCode field is required.'];
+  return Object.keys(errors).length > 0 ? badRequest('One or more validation errors occurred.', errors) : null;
+};
+
+const findOwnAddress = ({ db, params, user }: RouteContext) =>
+  db.addresses.find(address =>
+    address.addressId === Number(params.id) && (isManager(user) || address.userId === user?.userId)
+  );
+
+route('GET', '/api/Address', ({ db, request, user }) => {
+  const userId = request.query.userId || (user as MockUser).userId;
+  if (!isManager(user) && userId !== user?.userId) {
+    return forbidden();
+  }
+  return ok(paginate(db.addresses.filter(address => address.userId === userId), request.query));
+}, 'user');
+
+route('GET', '/api/Address/:id', context => {
+  const address = findOwnAddress(context);
+  return address ? ok(address) : notFound('Address not found');
+}, 'user');
+
+// Addresses sent again with the same client submission ID return the original address
+route('POST', '/api/Address', ({ db, request, user }) => {
+  const clientSubmissionId = request.headers[CLIENT_SUBMISSION_HEADER.toLowerCase()] || request.body?.clientSubmissionId;
+  const existing = clientSubmissionId && db.addresses.find(address => address.clientSubmissionId === clientSubmissionId);
+  if (existing) {
+    return created(existing);
+  }
+  const invalid = validateAddress(request.body);
+  if (invalid) {
+    return invalid;
+  }
+  const { addressId, pincode, ...fields } = request.body;
+  const address = {
+    ...fields,
+    clientSubmissionId,
+    zipCode: fields.zipCode || pincode,
+    addressId: db.nextIds.address++,
+    userId: (user as MockUser).userId,
+    statusId: 1,
+    createdDate: now(),
+  };
+  db.addresses.push(address);
+  return created(address);
+}, 'user');
+
+route('PUT', '/api/Address/:id', context => {
+  const address = findOwnAddress(context);
+  if (!address) {
+    return notFound('Address not found');
+  }
+  const invalid = validateAddress({ ...address, ...context.request.body });
+  if (invalid) {
+    return invalid;
+  }
+  Object.assign(address, context.request.body, { addressId: address.addressId, userId: address.userId, modifiedDate: now() });
+  return ok(address);
+}, 'user');
+
+route('DELETE', '/api/Address/:id', context => {
+  const address = findOwnAddress(context);
+  if (!address) {
+    return notFound('Address not found');
+  }
+  context.db.addresses = context.db.addresses.filter(candidate => candidate !== address);
+  return noContent();
+}, 'user');
+
+// --- Order statuses ---
+
+route('GET', '/api/OrderStatus', () =>
+  ok(Object.values(ORDER_STATUS).map(statusId => ({ statusId, statusName: ORDER_STATUS_NAMES[statusId] }))));
+
+// --- Orders ---
+
+const findOwnOrder = ({ db, params, user }: RouteContext) =>
+  db.orders.find(order => sameId(order.id, params.id) && (isManager(user) || order.userId === user?.userId));
+
+route('GET', '/api/Orders/statistics', ({ db }) => {
+  const ordersByStatus: Record<string, number> = {};
+  db.orders.forEach(order => {
+    const name = getOrderStatusName(order.orderStatusId);
+    ordersByStatus[name] = (ordersByStatus[name] || 0) + 1;
+  });
+  const { totalSales, totalOrders, averageOrderValue } = getSalesSummary(db.orders);
+  return ok({ totalOrders, totalRevenue: totalSales, averageOrderValue, ordersByStatus });
+}, 'manager');
+
+route('GET', '/api/Orders/user/:userId', ({ db, params, user }) => {
+  if (!isManager(user) && !sameId(user?.userId, params.userId)) {
+    return forbidden();
+  }
+  return ok(db.orders.filter(order => sameId(order.userId, params.userId)).map(order => toOrderResponse(db, order)));
+}, 'user');
+
+route('GET', '/api/Orders/status/:statusId', ({ db, params }) =>
+  ok(db.orders.filter(order => sameId(order.orderStatusId, params.statusId)).map(order => toOrderResponse(db, order))), 'manager');
+
+route('GET', '/api/Orders/:id/items', context => {
+  const order = findOwnOrder(context);
+  return order ? ok(order.orderItems) : notFound('Order not found');
+}, 'user');
+
+route('GET', '/api/Orders/:id/status', context => {
+  const order = findOwnOrder(context);
+  if (!order) {
+    return notFound('Order not found');
+  }
+  const estimatedDelivery = new Date(new Date(order.orderDate).getTime() + 3 * 24 * 60 * 60 * 1000);
+  return ok({
+    orderId: order.id,
+    orderNumber: order.trackingNumber || order.id,
+    currentStatus: getOrderStatusName(order.orderStatusId),
+    statusHistory: order.statusHistory,
+    estimatedDeliveryDate: estimatedDelivery.toISOString(),
+    trackingNumber: order.trackingNumber,
+  });
+}, 'user');
+
+route('PUT', '/api/Orders/:id/status', context => {
+  const order = findOwnOrder(context);
+  const statusId = String(context.request.body?.statusId || '');
+  if (!order) {
+    return notFound('Order not found');
+  }
+  if (!Object.values(ORDER_STATUS).some(known => sameId(known, statusId))) {
+    return badRequest('Unknown order status', { StatusId: ['Unknown order status.'] });
+  }
+  changeOrderStatus(context.db, order, statusId, context.request.body?.notes);
+  return noContent();
+}, 'manager');
+
+route('POST', '/api/Orders/:id/cancel', context => {
+  const order = findOwnOrder(context);
+  if (!order) {
+    return notFound('Order not found');
+  }
+  const cancellable: string[] = [ORDER_STATUS.NEW, ORDER_STATUS.PENDING, ORDER_STATUS.PROCESSING];
+  if (!cancellable.includes(order.orderStatusId)) {
+    return conflict(`A ${getOrderStatusName(order.orderStatusId).toLowerCase()} order can no longer be cancelled`);
+  }
+  // Cancelled items go back into stock
+  order.orderItems.forEach(item => {
+    const product = findProduct(context.db, item.productId);
+    if (product) {
+      product.stockQuantity = roundQuantity(product.stockQuantity + item.quantity);
+    }
+  });
+  changeOrderStatus(context.db, order, ORDER_STATUS.CANCELLED, 'Cancelled by customer');
+  return ok(toOrderResponse(context.db, order));
+}, 'user');
+
+// Newest first, so the first page holds the orders that need attention
+route('GET', '/api/Orders', ({ db, request }) => {
+  const orders = [...db.orders].sort((a, b) => b.orderDate.localeCompare(a.orderDate));
+  return ok(paginate(orders, request.query).map(order => toOrderResponse(db, order)));
+}, 'manager');
+
+// Orders sent again with the same client submission ID return the original order
+route('POST', '/api/Orders', ({ db, request, user }) => {
+  const body = request.body || {};
+  const clientSubmissionId = request.headers[CLIENT_SUBMISSION_HEADER.toLowerCase()];
+  if (clientSubmissionId) {
+    const existing = db.orders.find(order => order.clientSubmissionId === clientSubmissionId);
+    if (existing) {
+      return ok({ orderId: existing.id, message: 'Order was already placed' });
+    }
+  }
+
+  const items: any[] = Array.isArray(body.orderItems) ? body.orderItems : [];
+  if (!body.shippingAddressId || items.length === 0) {
+    return badRequest('One or more validation errors occurred.', {
+      ...(!body.shippingAddressId ? { ShippingAddressId: ['A shipping address is required.'] } : {}),
+      ...(items.length === 0 ? { OrderItems: ['An order needs at least one item.'] } : {}),
+    });
+  }
+  if (!db.addresses.some(address => address.addressId === Number(body.shippingAddressId))) {
+    return badRequest('Shipping address not found', { ShippingAddressId: ['Shipping address not found.'] });
+  }
+  for (const item of items) {
+    const product = findProduct(db, item.productId);
+    if (product && product.stockQuantity < item.quantity) {
+      return conflict(`Only ${product.stockQuantity} ${product.name} left in stock`);
+    }
+    const stepError = product && checkQuantityStep(product, Number(item.quantity));
+    if (stepError) {
+      return stepError;
+    }
+  }
+
+  const orderId = generateGuid();
+  const orderItems = items.map(item => {
+    const product = findProduct(db, item.productId);
+    if (product) {
+      product.stockQuantity = roundQuantity(product.stockQuantity - item.quantity);
+    }
+    const price = Number(item.price ?? product?.price ?? 0);
+    return {
+      orderItemId: generateGuid(),
+      orderId,
+      productId: item.productId,
+      productName: item.productName || product?.name || 'Product',
+      quantity: item.quantity,
+      price,
+      imageUrl: item.imageUrl || product?.imageUrl || null,
+      totalPrice: price * item.quantity,
+      hsnCode: item.hsnCode || product?.hsnCode,
+      taxRate: toOptionalNumber(item.taxRate) ?? product?.taxRate,
+      taxAmount: toOptionalNumber(item.taxAmount),
+    };
+  });
+  const order: MockOrder = {
+    id: orderId,
+    userId: (user as MockUser).userId,
+    orderDate: body.orderDate || now(),
+    totalAmount: Number(body.totalAmount) || orderItems.reduce((sum, item) => sum + item.totalPrice, 0),
+    orderStatusId: ORDER_STATUS.NEW,
+    shippingAddressId: Number(body.shippingAddressId),
+    trackingNumber: body.trackingNumber || `TRK-${Date.now()}`,
+    createdDate: now(),
+    paymentStatus: 'Cash on Delivery',
+    orderItems,
+    statusHistory: [{ statusId: ORDER_STATUS.NEW, statusName: getOrderStatusName(ORDER_STATUS.NEW), timestamp: now() }],
+    clientSubmissionId,
+    subtotalAmount: toOptionalNumber(body.subtotalAmount),
+    gstAmount: toOptionalNumber(body.gstAmount),
+    cgstAmount: toOptionalNumber(body.cgstAmount),
+    sgstAmount: toOptionalNumber(body.sgstAmount),
+    igstAmount: toOptionalNumber(body.igstAmount),
+    deliveryCharge: toOptionalNumber(body.deliveryCharge),
+    deliveryChargeRuleId: toOptionalNumber(body.deliveryChargeRuleId),
+  };
+  db.orders.push(order);
+  addNotification(db, order.userId, `Your order ${order.trackingNumber} has been placed.`);
+  return created({ orderId, message: 'Order created successfully' });
+}, 'user');
+
+route('GET', '/api/Orders/:id', context => {
+  const order = findOwnOrder(context);
+  return order ? ok(toOrderResponse(context.db, order)) : notFound('Order not found');
+}, 'user');
+
+route('PUT', '/api/Orders/:id', context => {
+  const order = findOwnOrder(context);
+  if (!order) {
+    return notFound('Order not found');
+  }
+  const { id, userId, orderItems, statusHistory, ...changes } = context.request.body || {};
+  Object.assign(order, changes, { modifiedDate: now() });
+  return ok(toOrderResponse(context.db, order));
+}, 'manager');
+
+route('DELETE', '/api/Orders/:id', context => {
+  const order = findOwnOrder(context);
+  if (!order) {
+    return notFound('Order not found');
+  }
+  context.db.orders = context.db.orders.filter(candidate => candidate !== order);
+  return noContent();
+}, 'manager');
+
+// --- Notifications ---
+
+const findNotification = ({ db, params, user }: RouteContext) =>
+  db.notifications.find(notification =>
+    notification.notificationId === Number(params.id) && (isManager(user) || notification.userId === user?.userId)
+  );
+
+// Newest first, so pages can be grouped by day as they arrive
+const newestFirst = (notifications: MockNotification[]) =>
+  [...notifications].sort((a, b) => b.dateSent.localeCompare(a.dateSent));
+
+route('GET', '/api/Notifications/user/:userId', ({ db, params, request, user }) => {
+  if (!isManager(user) && !sameId(user?.userId, params.userId)) {
+    return forbidden();
+  }
+  return ok(paginate(newestFirst(db.notifications.filter(notification => sameId(notification.userId, params.userId))), request.query));
+}, 'user');
+
+const markAllAsRead: RouteHandler = ({ db, params, user }) => {
+  if (!isManager(user) && !sameId(user?.userId, params.userId)) {
+    return forbidden();
+  }
+  db.notifications
+    .filter(notification => sameId(notification.userId, params.userId))
+    .forEach(notification => {
+      notification.isRead = true;
+    });
+  return noContent();
+};
+route('PUT', '/api/Notifications/user/:userId/read-all', markAllAsRead, 'user');
+route('POST', '/api/Notifications/user/:userId/read-all', markAllAsRead, 'user');
+
+const markAsRead: RouteHandler = context => {
+  const notification = findNotification(context);
+  if (!notification) {
+    return notFound('Notification not found');
+  }
+  notification.isRead = true;
+  return noContent();
+};
+route('PUT', '/api/Notifications/:id/read', markAsRead, 'user');
+route('POST', '/api/Notifications/:id/read', markAsRead, 'user');
+
+// Customers see their own notifications, managers see all of them
+route('GET', '/api/Notifications', ({ db, request, user }) =>
+  ok(paginate(
+    newestFirst(isManager(user) ? db.notifications : db.notifications.filter(notification => notification.userId === user?.userId)),
+    request.query
+  )), 'user');
+
+route('POST', '/api/Notifications', ({ db, request }) => {
+  const { userId, message } = request.body || {};
+  if (!userId || !message) {
+    return badRequest('User and message are required');
+  }
+  const notification = {
+    notificationId: db.nextIds.notification++,
+    userId,
+    message,
+    dateSent: request.body.dateSent || now(),
+    isRead: !!request.body.isRead,
+  };
+  db.notifications.push(notification);
+  return created(notification);
+}, 'manager');
+
+route('GET', '/api/Notifications/:id', context => {
+  const notification = findNotification(context);
+  return notification ? ok(notification) : notFound('Notification not found');
+}, 'user');
+
+route('PUT', '/api/Notifications/:id', context => {
+  const notification = findNotification(context);
+  if (!notification) {
+    return notFound('Notification not found');
+  }
+  Object.assign(notification, context.request.body, { notificationId: notification.notificationId });
+  return noContent();
+}, 'user');
+
+route('DELETE', '/api/Notifications/:id', context => {
+  const notification = findNotification(context);
+  if (!notification) {
+    return notFound('Notification not found');
+  }
+  context.db.notifications = context.db.notifications.filter(candidate => candidate !== notification);
+  return noContent();
+}, 'user');
+
+// --- Delivery charge rules ---
+
+const calculateDeliveryCharge: RouteHandler = ({ db, request }) => {
+  const orderAmount = Number(request.body?.orderAmount ?? request.query.orderAmount);
+  if (isNaN(orderAmount) || orderAmount < 0) {
+    return badRequest('Order amount must be zero or more');
+  }
+  const rule = db.deliveryChargeRules.find(candidate =>
+    candidate.isActive && orderAmount >= candidate.minOrderAmount && orderAmount <= candidate.maxOrderAmount
+  );
+  return ok({ orderAmount, chargeAmount: rule ? rule.chargeAmount : 0, ruleId: rule ? rule.ruleId : null });
+};
+
+const validateRule = (body: any): MockResponse | null =>
+  typeof body?.minOrderAmount !== 'number' || typeof body?.maxOrderAmount !== 'number' || body.minOrderAmount > body.maxOrderAmount
+    ? badRequest('The minimum order amount must not be more than the maximum', { MinOrderAmount: ['Must not be more than MaxOrderAmount.'] })
+    : null;
+
+route('GET', '/api/DeliveryChargeRules/calculate', calculateDeliveryCharge);
+route('POST', '/api/DeliveryChargeRules/calculate', calculateDeliveryCharge);
+route('GET', '/api/DeliveryChargeRules', ({ db }) => ok(db.deliveryChargeRules));
+
+route('GET', '/api/DeliveryChargeRules/:id', ({ db, params }) => {
+  const rule = db.deliveryChargeRules.find(candidate => candidate.ruleId === Number(params.id));
+  return rule ? ok(rule) : notFound('Delivery charge rule not found');
+});
+
+route('POST', '/api/DeliveryChargeRules', ({ db, request }) => {
+  const invalid = validateRule(request.body);
+  if (invalid) {
+    return invalid;
+  }
+  const rule = { isActive: true, chargeAmount: 0, ...request.body, ruleId: db.nextIds.deliveryChargeRule++ };
+  db.deliveryChargeRules.push(rule);
+  return created(rule);
+}, 'manager');
+
+route('PUT', '/api/DeliveryChargeRules/:id', ({ db, params, request }) => {
+  const rule = db.deliveryChargeRules.find(candidate => candidate.ruleId === Number(params.id));
+  if (!rule) {
+    return notFound('Delivery charge rule not found');
+  }
+  const invalid = validateRule({ ...rule, ...request.body });
+  if (invalid) {
+    return invalid;
+  }
+  Object.assign(rule, request.body, { ruleId: rule.ruleId });
+  return ok(rule);
+}, 'manager');
+
+route('DELETE', '/api/DeliveryChargeRules/:id', ({ db, params }) => {
+  const ruleId = Number(params.id);
+  if (!db.deliveryChargeRules.some(rule => rule.ruleId === ruleId)) {
+    return notFound('Delivery charge rule not found');
+  }
+  db.deliveryChargeRules = db.deliveryChargeRules.filter(rule => rule.ruleId !== ruleId);
+  return noContent();
+}, 'manager');
+
+// --- CMS pages ---
+
+route('GET', '/api/CmsPage/by-slug/:slug', ({ db, params }) => {
+  const page = db.cmsPages.find(candidate => candidate.slug.toLowerCase() === params.slug.toLowerCase());
+  return page ? ok(page) : notFound('Page not found');
+});
+
+route('GET', '/api/CmsPage', ({ db }) => ok(db.cmsPages));
+
+route('POST', '/api/CmsPage', ({ db, request }) => {
+  const { title, slug } = request.body || {};
+  if (!title || !slug) {
+    return badRequest('Title and slug are required');
+  }
+  if (db.cmsPages.some(page => page.slug.toLowerCase() === String(slug).toLowerCase())) {
+    return conflict('A page with this slug already exists');
+  }
+  const page = { content: '', isActive: true, ...request.body, cmsPageId: db.nextIds.cmsPage++ };
+  db.cmsPages.push(page);
+  return created(page);
+}, 'manager');
+
+route('PUT', '/api/CmsPage/:id', ({ db, params, request }) => {
+  const page = db.cmsPages.find(candidate => candidate.cmsPageId === Number(params.id));
+  if (!page) {
+    return notFound('Page not found');
+  }
+  Object.assign(page, request.body, { cmsPageId: page.cmsPageId });
+  return ok(page);
+}, 'manager');
+
+route('DELETE', '/api/CmsPage/:id', ({ db, params }) => {
+  const pageId = Number(params.id);
+  if (!db.cmsPages.some(page => page.cmsPageId === pageId)) {
+    return notFound('Page not found');
+  }
+  db.cmsPages = db.cmsPages.filter(page => page.cmsPageId !== pageId);
+  return noContent();
+}, 'manager');
+
+// --- Analytics ---
+
+route('GET', '/api/Analytics/sales-summary', ({ db }) => ok(getSalesSummary(db.orders)), 'manager');
+route('GET', '/api/Analytics/product-performance', ({ db }) => ok(getProductSales(db)), 'manager');
+route('GET', '/api/Analytics/user-activity', ({ db }) => ok(getCustomerActivity(db)), 'manager');
+route('GET', '/api/Analytics/top-products', ({ db }) => ok(getProductSales(db).slice(0, 5)), 'manager');
+route('GET', '/api/Analytics/top-customers', ({ db }) => ok(getCustomerActivity(db).slice(0, 5)), 'manager');
+
+route('GET', '/api/Analytics/daily-sales/:date', ({ db, params }) =>
+  ok({ date: params.date, ...getSalesSummary(db.orders.filter(order => order.orderDate.startsWith(params.date))) }), 'manager');
+
+route('GET', '/api/Analytics/monthly-sales/:year/:month', ({ db, params }) => {
+  const prefix = `${params.year}-${params.month.padStart(2, '0')}`;
+  return ok({ year: Number(params.year), month: Number(params.month), ...getSalesSummary(db.orders.filter(order => order.orderDate.startsWith(prefix))) });
+}, 'manager');
+
+// --- External services ---
+
+route('GET', '/api/External/weather', () =>
+  ok({ temperature: 28, humidity: 62, windSpeed: 9, description: 'Partly cloudy', location: 'Bengaluru' }));
+
+route('GET', '/api/External/geocode', ({ request }) =>
+  ok({ latitude: 12.9716, longitude: 77.5946, formattedAddress: request.query.address || 'Bengaluru, Karnataka, India' }));
+
+route('GET', '/api/External/reverse-geocode', ({ request }) =>
+  ok({
+    latitude: Number(request.query.latitude || request.query.lat) || 12.9716,
+    longitude: Number(request.query.longitude || request.query.lng) || 77.5946,
+    formattedAddress: 'MG Road, Bengaluru, Karnataka 560001, India',
+    city: 'Bengaluru',
+    state: 'Karnataka',
+    country: 'India',
+    zipCode: '560001',
+  }));
+
+// The mock does not translate; it returns the text unchanged
+route('POST', '/api/External/translate', ({ request }) =>
+  ok({ translatedText: request.body?.text || request.body?.q || '' }));
+
+// --- Utility ---
+
+route('GET', '/api/Health', () => ok({ status: 'Healthy', environment: 'mock', timestamp: now() }));
+
+route('GET', '/api/Utility/version', () =>
+  ok({ minimumVersion, recommendedVersion, releaseNotes: 'Mock environment', updateUrl: null }));
+
+// React Native's FormData lists its parts; the mock keeps an image viewable by pointing at the local file
+const getUploadedFileUri = (body: any): string | undefined => {
+  const parts: any[] = typeof body?.getParts === 'function' ? body.getParts() : [];
+  return parts.find(part => typeof part?.uri === 'string')?.uri;
+};
+
+const uploadFile: RouteHandler = ({ request }) => {
+  const fileId = generateGuid();
+  return created({ fileId, url: getUploadedFileUri(request.body) || `${MOCK_SERVER_BASE_URL}/uploads/${fileId}` });
+};
+route('POST', '/api/Utility/upload/image', uploadFile, 'user');
+route('POST', '/api/Utility/upload/file', uploadFile, 'user');
+
+route('GET', '/api/Utility/config', () => ok(DEFAULT_APP_CONFIG));
+
+// ===== DATABASE =====
+
+/**
+ * Load the mock database from AsyncStorage, seeding it on first use
+ */
+const loadDatabase = (): Promise<MockDatabase> => {
+  if (database) {
+    return Promise.resolve(database);
+  }
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(MOCK_DATABASE_KEY);
+        const parsed: MockDatabase | null = stored ? JSON.parse(stored) : null;
+        database = parsed && parsed.version === MOCK_DATABASE_VERSION ? parsed : createSeedDatabase();
+      } catch (error) {
+        log.error('Error loading mock database, reseeding:', error);
+        database = createSeedDatabase();
+      }
+      loadPromise = null;
+      return database;
+    })();
+  }
+  return loadPromise;
+};
+
+const saveDatabase = async (): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(MOCK_DATABASE_KEY, JSON.stringify(database));
+  } catch (error) {
+    log.error('Error saving mock database:', error);
+  }
+};
+
+/**
+ * Throw away all changes and start again from the seed data
+ */
+export const resetMockServer = async (): Promise<void> => {
+  database = createSeedDatabase();
+  await saveDatabase();
+  log.debug('🧪 Mock backend reset to seed data');
+};
+
+/**
+ * Get a copy of the mock database, e.g. to check results in a test
+ */
+export const getMockDatabase = async (): Promise<MockDatabase> =>
+  JSON.parse(JSON.stringify(await loadDatabase()));
+
+/**
+ * Change how the mock backend behaves
+ */
+export const configureMockServer = (options: MockServerOptions): void => {
+  if (options.latencyMs !== undefined) {
+    latencyMs = options.latencyMs;
+  }
+  if (options.minimumVersion !== undefined) {
+    minimumVersion = options.minimumVersion;
+  }
+  if (options.recommendedVersion !== undefined) {
+    recommendedVersion = options.recommendedVersion;
+  }
+};
+
+// ===== REQUEST HANDLING =====
+
+/**
+ * Answer a request the way the backend would. Works without React Native,
+ * so tests can call it directly.
+ */
+export const handleMockRequest = async (request: MockRequest): Promise<MockResponse> => {
+  const db = await loadDatabase();
+  const method = request.method.toUpperCase();
+
+  // Like the backend, reject app versions below the minimum; the version check itself stays open
+  const appVersion = request.headers[APP_VERSION_HEADER.toLowerCase()];
+  if (appVersion && compareVersions(appVersion, minimumVersion) < 0 && request.path !== '/api/Utility/version') {
+    return { status: 426, body: { message: `App version ${appVersion} is no longer supported` } };
+  }
+
+  let pathMatched = false;
+  for (const candidate of routes) {
+    const match = candidate.pattern.exec(request.path);
+    if (!match) {
+      continue;
+    }
+    pathMatched = true;
+    if (candidate.method !== method) {
+      continue;
+    }
+
+    const params: Record<string, string> = {};
+    candidate.paramNames.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+
+    const user = findUserByToken(db, request.headers.authorization, TOKEN_PREFIX);
+    if (candidate.access !== 'public' && !user) {
+      return unauthorized();
+    }
+    if (candidate.access === 'manager' && !isManager(user)) {
+      return forbidden();
+    }
+
+    const response = candidate.handler({ request, params, db, user });
+    if (method !== 'GET') {
+      await saveDatabase();
+    }
+    return response;
+  }
+
+  return pathMatched
+    ? { status: 405, body: { message: `${method} is not allowed for ${request.path}` } }
+    : notFound(`No mock route for ${method} ${request.path}`);
+};
+
+const parseQuery = (queryString: string): Record<string, string> => {
+  const query: Record<string, string> = {};
+  queryString.split('&').filter(Boolean).forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  });
+  return query;
+};
+
+const createAbortError = () => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * fetch() replacement for URLs on MOCK_SERVER_BASE_URL
+ */
+export const mockFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const { signal } = init;
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const [path, queryString = ''] = url.slice(MOCK_SERVER_BASE_URL.length).split('?');
+  const headers: Record<string, string> = {};
+  Object.entries((init.headers || {}) as Record<string, string>).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value;
+  });
+  let body = init.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Not JSON; pass the raw text on
+    }
+  }
+
+  if (latencyMs > 0) {
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(resolve, latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        reject(createAbortError());
+      });
+    });
+  }
+
+  const method = (init.method || 'GET').toUpperCase();
+  const response = await handleMockRequest({ method, path: path || '/', query: parseQuery(queryString), headers, body });
+  log.debug(`🧪 Mock ${method} ${path} -> ${response.status}`);
+
+  const hasBody = response.body !== undefined && response.status !== 204;
+  return new Response(hasBody ? JSON.stringify(response.body) : null, {
+    status: response.status,
+    headers: {
+      ...(hasBody ? { 'Content-Type': 'application/json; charset=utf-8' } : {}),
+      ...response.headers,
+    },
+  });
+};
+
+/**
+ * Route fetch() calls for MOCK_SERVER_BASE_URL to the mock backend; every
+ * other URL still goes to the network. Safe to call more than once.
+ */
+export const installMockServer = (): void => {
+  if (installed) {
+    return;
+  }
+  installed = true;
+  const networkFetch = globalThis.fetch;
+  globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    return url.startsWith(MOCK_SERVER_BASE_URL) ? mockFetch(url, init) : networkFetch(input, init);
+  }) as typeof fetch;
+};
+
+const mockServer = {
+  installMockServer,
+  handleMockRequest,
+  mockFetch,
+  resetMockServer,
+  getMockDatabase,
+  configureMockServer,
+};
+
+export default mockServer;
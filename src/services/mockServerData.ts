@@ -0,0 +1,465 @@
+// frontend/src/services/mockServerData.ts
+// Seed data for the in-app mock backend
+
+import { ORDER_STATUS } from '../constants/orderStatus';
+
+export interface MockUser {
+  userId: string;
+  name: string;
+  email: string;
+  phoneNumber: string;
+  passwordHash: string;
+  role: string;
+  profilePicture?: string;
+  isActive: boolean;
+  dateJoined: string;
+  lastLogin?: string;
+}
+
+export interface MockCategory {
+  id: number;
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  sortOrder?: number;
+  statusId?: number;
+}
+
+export interface MockProduct {
+  id: string;
+  productId: string;
+  name: string;
+  description?: string;
+  price: number;
+  stockQuantity: number;
+  imageUrl?: string;
+  categoryId: number;
+  unitOfMeasure?: string;
+  isActive: boolean;
+  createdDate: string;
+  modifiedDate?: string;
+  minStockLevel?: number;
+  maxStockLevel?: number;
+  reorderPoint?: number;
+  unitCost?: number;
+  minOrderQuantity?: number;
+  maxOrderQuantity?: number;
+  hsnCode?: string;
+  taxRate?: number;
+  packSize?: number;
+  packUnit?: string;
+  quantityStep?: number;
+}
+
+export interface MockCartItem {
+  productId: string;
+  quantity: number;
+  addedDate: string;
+  modifiedDate?: string;
+}
+
+export interface MockAddress {
+  addressId: number;
+  userId: string;
+  fullName?: string;
+  phoneNumber?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+  isDefaultShipping?: boolean;
+  isDefaultBilling?: boolean;
+  latitude?: number;
+  longitude?: number;
+  type?: string;
+  statusId?: number;
+  createdDate: string;
+  modifiedDate?: string;
+  clientSubmissionId?: string;
+}
+
+export interface MockOrderItem {
+  orderItemId: string;
+  orderId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  price: number;
+  imageUrl?: string | null;
+  totalPrice: number;
+  hsnCode?: string;
+  taxRate?: number;
+  taxAmount?: number;
+}
+
+export interface MockStatusChange {
+  statusId: string;
+  statusName: string;
+  timestamp: string;
+  notes?: string;
+}
+
+export interface MockOrder {
+  id: string;
+  userId: string;
+  orderDate: string;
+  totalAmount: number;
+  orderStatusId: string;
+  shippingAddressId: number;
+  trackingNumber?: string | null;
+  createdDate: string;
+  modifiedDate?: string | null;
+  paymentStatus?: string;
+  notes?: string;
+  orderItems: MockOrderItem[];
+  statusHistory: MockStatusChange[];
+  clientSubmissionId?: string;
+  subtotalAmount?: number;
+  gstAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  deliveryCharge?: number;
+  deliveryChargeRuleId?: number;
+}
+
+export interface MockNotification {
+  notificationId: number;
+  userId: string;
+  message: string;
+  dateSent: string;
+  isRead: boolean;
+}
+
+export interface MockDeliveryChargeRule {
+  ruleId: number;
+  minOrderAmount: number;
+  maxOrderAmount: number;
+  chargeAmount: number;
+  isActive: boolean;
+}
+
+export interface MockCmsPage {
+  cmsPageId: number;
+  title: string;
+  slug: string;
+  content: string;
+  isActive: boolean;
+}
+
+// Everything the mock backend knows; persisted as a single AsyncStorage entry
+export interface MockDatabase {
+  version: number;
+  users: MockUser[];
+  categories: MockCategory[];
+  products: MockProduct[];
+  carts: Record<string, MockCartItem[]>; // Keyed by user ID
+  addresses: MockAddress[];
+  orders: MockOrder[];
+  notifications: MockNotification[];
+  deliveryChargeRules: MockDeliveryChargeRule[];
+  cmsPages: MockCmsPage[];
+  nextIds: {
+    category: number;
+    address: number;
+    notification: number;
+    deliveryChargeRule: number;
+    cmsPage: number;
+  };
+}
+
+// Bump when the seed data changes shape, so stored databases are reseeded
+export const MOCK_DATABASE_VERSION = 3;
+
+// OTP accepted for every phone number in the mock environment
+export const MOCK_OTP_CODE = '123456';
+
+export const MOCK_CUSTOMER_ID = '7d0f6a52-1c3e-4b8a-9f21-6a4e2b9c1d01';
+export const MOCK_MANAGER_ID = '7d0f6a52-1c3e-4b8a-9f21-6a4e2b9c1d02';
+
+const daysAgo = (days: number): string => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const product = (
+  suffix: string,
+  categoryId: number,
+  name: string,
+  description: string,
+  price: number,
+  stockQuantity: number,
+  unitOfMeasure: string,
+  hsnCode: string,
+  taxRate: number
+): MockProduct => {
+  const id = `3fa85f64-5717-4562-b3fc-2c963f66b${suffix}`;
+  return {
+    id,
+    productId: id,
+    name,
+    description,
+    price,
+    stockQuantity,
+    categoryId,
+    unitOfMeasure,
+    isActive: true,
+    createdDate: daysAgo(60),
+    minStockLevel: 10,
+    maxStockLevel: 500,
+    reorderPoint: 20,
+    unitCost: Math.round(price * 0.7),
+    hsnCode,
+    taxRate,
+  };
+};
+
+const orderItem = (orderId: string, index: number, item: MockProduct, quantity: number): MockOrderItem => ({
+  orderItemId: `${orderId.slice(0, -3)}${(100 + index).toString()}`,
+  orderId,
+  productId: item.productId,
+  productName: item.name,
+  quantity,
+  price: item.price,
+  imageUrl: item.imageUrl || null,
+  totalPrice: item.price * quantity,
+  hsnCode: item.hsnCode,
+  taxRate: item.taxRate,
+  taxAmount: Math.round(item.price * quantity * (item.taxRate || 0) * 100) / 100,
+});
+
+/**
+ * Build a fresh mock database with realistic data for a demo
+ */
+export const createSeedDatabase = (): MockDatabase => {
+  const products: MockProduct[] = [
+    // Fruits and vegetables
+    product('001', 1, 'Tomatoes', 'Fresh farm tomatoes', 50, 120, 'kg', '0702', 0),
+    product('002', 1, 'Onions', 'Red onions from Nashik', 40, 200, 'kg', '0703', 0),
+    product('003', 1, 'Bananas', 'Ripe Yelakki bananas', 60, 80, 'packet', '0803', 0),
+    product('004', 1, 'Green Chillies', 'Spicy green chillies', 30, 8, 'packet', '0709', 0),
+    // Agri inputs
+    product('011', 2, 'Paddy Seeds (Sona Masuri)', 'Certified paddy seeds, 10 kg bag', 850, 40, 'bag', '1006', 0),
+    product('012', 2, 'Urea Fertilizer', 'Nitrogen fertilizer, 45 kg bag', 270, 150, 'bag', '3102', 0.05),
+    product('013', 2, 'Organic Vermicompost', 'Vermicompost manure, 25 kg bag', 450, 0, 'bag', '3101', 0.05),
+    product('014', 2, 'Neem Oil Pesticide', 'Cold-pressed neem oil spray, 250 ml bottle', 95, 35, 'piece', '3808', 0.18),
+    product('015', 2, 'Drip Irrigation Kit', 'Drip kit for a quarter acre', 2499, 6, 'piece', '8424', 0.12),
+    // Groceries
+    product('021', 3, 'Basmati Rice', 'Premium basmati rice 1kg', 120, 300, 'kg', '1006', 0.05),
+    product('022', 3, 'Wheat Flour', 'Whole wheat flour 1kg', 80, 250, 'kg', '1101', 0),
+    product('023', 3, 'Sunflower Oil', 'Sunflower cooking oil 1L', 150, 90, 'litre', '1512', 0.05),
+    product('024', 3, 'Toor Dal', 'Unpolished toor dal 1kg', 140, 15, 'kg', '0713', 0),
+    // Dairy and eggs
+    product('031', 4, 'Milk', 'Fresh dairy milk 1L', 60, 100, 'litre', '0401', 0),
+    product('032', 4, 'Farm Eggs', 'Country eggs, tray of 30', 210, 25, 'packet', '0407', 0),
+  ];
+  const [
+    tomatoes, onions, bananas, chillies, paddySeeds, urea, vermicompost, neemOil, , rice, flour, oil, , , eggs,
+  ] = products;
+  // Per-order limits
+  paddySeeds.minOrderQuantity = 2;
+  urea.maxOrderQuantity = 10;
+  // Pack sizes
+  const pack = (item: MockProduct, packSize: number, packUnit: string) => Object.assign(item, { packSize, packUnit });
+  pack(bananas, 12, 'piece');
+  pack(chillies, 250, 'g');
+  pack(paddySeeds, 10, 'kg');
+  pack(urea, 45, 'kg');
+  pack(vermicompost, 25, 'kg');
+  pack(neemOil, 250, 'ml');
+  pack(eggs, 30, 'piece');
+
+  const deliveredOrderId = 'a8c1e2f0-3b4d-4e5f-8a9b-0c1d2e3f4001';
+  const shippedOrderId = 'a8c1e2f0-3b4d-4e5f-8a9b-0c1d2e3f4002';
+  const newOrderId = 'a8c1e2f0-3b4d-4e5f-8a9b-0c1d2e3f4003';
+
+  const deliveredItems = [orderItem(deliveredOrderId, 1, rice, 2), orderItem(deliveredOrderId, 2, oil, 1)];
+  const shippedItems = [orderItem(shippedOrderId, 1, urea, 2), orderItem(shippedOrderId, 2, neemOil, 1)];
+  const newItems = [
+    orderItem(newOrderId, 1, tomatoes, 3),
+    orderItem(newOrderId, 2, onions, 2),
+    orderItem(newOrderId, 3, flour, 1),
+  ];
+  const total = (items: MockOrderItem[]) => items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+  return {
+    version: MOCK_DATABASE_VERSION,
+    users: [
+      {
+        userId: MOCK_CUSTOMER_ID,
+        name: 'Ravi Kumar',
+        email: 'ravi.kumar@example.com',
+        phoneNumber: '9876543210',
+        passwordHash: 'customer123',
+        role: 'User',
+        isActive: true,
+        dateJoined: daysAgo(90),
+      },
+      {
+        userId: MOCK_MANAGER_ID,
+        name: 'Asha Rao',
+        email: 'manager@agrimart.in',
+        phoneNumber: '9000000000',
+        passwordHash: 'manager123',
+        role: 'manager',
+        isActive: true,
+        dateJoined: daysAgo(180),
+      },
+    ],
+    categories: [
+      { id: 1, name: 'Fruits and Vegetables', description: 'Fresh produce from local farms', sortOrder: 1, statusId: 1 },
+      { id: 2, name: 'Agri Inputs', description: 'Seeds, fertilizers and farm equipment', sortOrder: 2, statusId: 1 },
+      { id: 3, name: 'Groceries', description: 'Staples for the kitchen', sortOrder: 3, statusId: 1 },
+      { id: 4, name: 'Dairy, Cheese & Eggs', description: 'Milk, curd and eggs', sortOrder: 4, statusId: 1 },
+    ],
+    products,
+    carts: {
+      [MOCK_CUSTOMER_ID]: [{ productId: paddySeeds.productId, quantity: 1, addedDate: daysAgo(1) }],
+    },
+    addresses: [
+      {
+        addressId: 1,
+        userId: MOCK_CUSTOMER_ID,
+        fullName: 'Ravi Kumar',
+        phoneNumber: '9876543210',
+        addressLine1: '12, 4th Cross, Vijayanagar',
+        addressLine2: 'Near Maruti Temple',
+        city: 'Bengaluru',
+        state: 'Karnataka',
+        zipCode: '560040',
+        country: 'India',
+        isDefaultShipping: true,
+        isDefaultBilling: true,
+        latitude: 12.9719,
+        longitude: 77.5341,
+        type: 'Home',
+        statusId: 1,
+        createdDate: daysAgo(80),
+      },
+      {
+        addressId: 2,
+        userId: MOCK_CUSTOMER_ID,
+        fullName: 'Ravi Kumar',
+        phoneNumber: '9876543210',
+        addressLine1: 'Survey No. 45, Kumbalgodu',
+        city: 'Ramanagara',
+        state: 'Karnataka',
+        zipCode: '562109',
+        country: 'India',
+        isDefaultShipping: false,
+        isDefaultBilling: false,
+        type: 'Farm',
+        statusId: 1,
+        createdDate: daysAgo(40),
+      },
+    ],
+    orders: [
+      {
+        id: deliveredOrderId,
+        userId: MOCK_CUSTOMER_ID,
+        orderDate: daysAgo(20),
+        totalAmount: total(deliveredItems),
+        orderStatusId: ORDER_STATUS.DELIVERED,
+        shippingAddressId: 1,
+        trackingNumber: 'TRK-100201',
+        createdDate: daysAgo(20),
+        modifiedDate: daysAgo(17),
+        paymentStatus: 'Paid',
+        orderItems: deliveredItems,
+        statusHistory: [
+          { statusId: ORDER_STATUS.NEW, statusName: 'New', timestamp: daysAgo(20) },
+          { statusId: ORDER_STATUS.SHIPPED, statusName: 'Shipped', timestamp: daysAgo(19) },
+          { statusId: ORDER_STATUS.DELIVERED, statusName: 'Delivered', timestamp: daysAgo(17) },
+        ],
+      },
+      {
+        id: shippedOrderId,
+        userId: MOCK_CUSTOMER_ID,
+        orderDate: daysAgo(3),
+        totalAmount: total(shippedItems),
+        orderStatusId: ORDER_STATUS.SHIPPED,
+        shippingAddressId: 2,
+        trackingNumber: 'TRK-100245',
+        createdDate: daysAgo(3),
+        modifiedDate: daysAgo(2),
+        paymentStatus: 'Cash on Delivery',
+        orderItems: shippedItems,
+        statusHistory: [
+          { statusId: ORDER_STATUS.NEW, statusName: 'New', timestamp: daysAgo(3) },
+          { statusId: ORDER_STATUS.SHIPPED, statusName: 'Shipped', timestamp: daysAgo(2) },
+        ],
+      },
+      {
+        id: newOrderId,
+        userId: MOCK_CUSTOMER_ID,
+        orderDate: daysAgo(0),
+        totalAmount: total(newItems),
+        orderStatusId: ORDER_STATUS.NEW,
+        shippingAddressId: 1,
+        trackingNumber: 'TRK-100262',
+        createdDate: daysAgo(0),
+        paymentStatus: 'Cash on Delivery',
+        orderItems: newItems,
+        statusHistory: [{ statusId: ORDER_STATUS.NEW, statusName: 'New', timestamp: daysAgo(0) }],
+      },
+    ],
+    notifications: [
+      {
+        notificationId: 1,
+        userId: MOCK_CUSTOMER_ID,
+        message: 'Your order TRK-100201 has been delivered.',
+        dateSent: daysAgo(17),
+        isRead: true,
+      },
+      {
+        notificationId: 2,
+        userId: MOCK_CUSTOMER_ID,
+        message: 'Your order TRK-100245 has been shipped.',
+        dateSent: daysAgo(2),
+        isRead: false,
+      },
+      {
+        notificationId: 3,
+        userId: MOCK_CUSTOMER_ID,
+        message: 'Kharif season offer: 10% off on paddy seeds this week.',
+        dateSent: daysAgo(1),
+        isRead: false,
+      },
+    ],
+    deliveryChargeRules: [
+      { ruleId: 1, minOrderAmount: 0, maxOrderAmount: 499.99, chargeAmount: 40, isActive: true },
+      { ruleId: 2, minOrderAmount: 500, maxOrderAmount: 999.99, chargeAmount: 20, isActive: true },
+      { ruleId: 3, minOrderAmount: 1000, maxOrderAmount: 999999, chargeAmount: 0, isActive: true },
+    ],
+    cmsPages: [
+      {
+        cmsPageId: 1,
+        title: 'Privacy Policy',
+        slug: 'privacy-policy',
+        content: 'AgriMart only uses your phone number, name and delivery addresses to process your orders. We never sell your data.',
+        isActive: true,
+      },
+      {
+        cmsPageId: 2,
+        title: 'Terms and Conditions',
+        slug: 'terms-and-conditions',
+        content: 'Orders are delivered within 2-3 working days. Cash on delivery is accepted for all orders.',
+        isActive: true,
+      },
+      {
+        cmsPageId: 3,
+        title: 'About Us',
+        slug: 'about-us',
+        content: 'AgriMart brings farm inputs and fresh groceries to farmers across Karnataka.',
+        isActive: true,
+      },
+    ],
+    nextIds: {
+      category: 5,
+      address: 3,
+      notification: 4,
+      deliveryChargeRule: 4,
+      cmsPage: 4,
+    },
+  };
+};
@@ -0,0 +1,251 @@
+// frontend/src/services/networkInspector.ts
+// Records every request made through apiCore so it can be inspected, replayed
+// and exported from the DebugPanel
+
+import { APP_VERSION, ApiResponse } from './apiConfig';
+import { getCircuitGroup } from './circuitBreaker';
+import { redact } from './logger';
+
+export type NetworkMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type NetworkOutcome = 'pending' | 'success' | 'error' | 'queued' | 'cancelled' | 'cache';
+
+export interface NetworkRecord {
+  id: number;
+  startedAt: string;
+  method: NetworkMethod;
+  endpoint: string;
+  url?: string;
+  group: string; // Endpoint group, as used by the circuit breakers
+  outcome: NetworkOutcome;
+  status?: number;
+  durationMs?: number;
+  retries: number;
+  errorKind?: string;
+  stale?: boolean; // Answered from an expired cache entry while it is refreshed
+  requestBody?: string; // Redacted
+  responseBody?: string; // Redacted
+}
+
+// Filled in by apiCore while a request is being sent
+export interface RequestTrace {
+  url?: string;
+  status?: number;
+  retries: number;
+}
+
+// Subset of the HAR 1.2 format that the usual HAR viewers understand
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: Array<{
+      startedDateTime: string;
+      time: number;
+      request: {
+        method: string;
+        url: string;
+        headers: Array<{ name: string; value: string }>;
+        postData?: { mimeType: string; text: string };
+      };
+      response: {
+        status: number;
+        statusText: string;
+        headers: Array<{ name: string; value: string }>;
+        content: { mimeType: string; text?: string };
+      };
+      _group: string;
+      _outcome: NetworkOutcome;
+      _retries: number;
+      _errorKind?: string;
+    }>;
+  };
+}
+
+type NetworkListener = (records: NetworkRecord[]) => void;
+
+// Records kept in memory; older ones are dropped
+const MAX_RECORDS = 100;
+
+// Bodies are cut off after this many characters
+const MAX_BODY_LENGTH = 4000;
+
+let records: NetworkRecord[] = [];
+let nextId = 1;
+// Unredacted request bodies, only kept in memory so a request can be replayed
+const replayBodies = new Map<number, unknown>();
+const listeners = new Set<NetworkListener>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(records));
+};
+
+const serialiseBody = (body: unknown): string | undefined => {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  try {
+    const text = JSON.stringify(redact(body));
+    return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}… (${text.length} chars)` : text;
+  } catch {
+    return String(body);
+  }
+};
+
+const getOutcome = (response: ApiResponse): NetworkOutcome => {
+  if (response.success) {
+    return 'success';
+  }
+  if (response.queued) {
+    return 'queued';
+  }
+  return response.apiError?.kind === 'cancelled' ? 'cancelled' : 'error';
+};
+
+const addRecord = (record: NetworkRecord, body?: unknown) => {
+  records = [...records, record];
+  if (body !== undefined) {
+    replayBodies.set(record.id, body);
+  }
+  while (records.length > MAX_RECORDS) {
+    replayBodies.delete(records[0].id);
+    records = records.slice(1);
+  }
+  notifyListeners();
+};
+
+const updateRecord = (id: number, changes: Partial<NetworkRecord>) => {
+  records = records.map(record => (record.id === id ? { ...record, ...changes } : record));
+  notifyListeners();
+};
+
+/**
+ * Record a request that is about to be sent
+ * @returns ID to pass to finishNetworkRecord
+ */
+export const startNetworkRecord = (method: NetworkMethod, endpoint: string, body?: unknown): number => {
+  const id = nextId++;
+  addRecord({
+    id,
+    startedAt: new Date().toISOString(),
+    method,
+    endpoint,
+    group: getCircuitGroup(endpoint),
+    outcome: 'pending',
+    retries: 0,
+    requestBody: serialiseBody(body),
+  }, body);
+  return id;
+};
+
+/**
+ * Record how a request ended
+ */
+export const finishNetworkRecord = (id: number, response: ApiResponse, trace: RequestTrace): void => {
+  const record = records.find(candidate => candidate.id === id);
+  if (!record) {
+    return;
+  }
+  updateRecord(id, {
+    url: trace.url,
+    outcome: getOutcome(response),
+    status: response.status ?? trace.status,
+    durationMs: Date.now() - new Date(record.startedAt).getTime(),
+    retries: trace.retries,
+    errorKind: response.apiError?.kind,
+    responseBody: serialiseBody(response.success ? response.data : { error: response.error, fieldErrors: response.apiError?.fieldErrors }),
+  });
+};
+
+/**
+ * Record a GET that was answered from the response cache without a request
+ */
+export const recordCacheHit = (endpoint: string, data: unknown, stale: boolean): void => {
+  addRecord({
+    id: nextId++,
+    startedAt: new Date().toISOString(),
+    method: 'GET',
+    endpoint,
+    group: getCircuitGroup(endpoint),
+    outcome: 'cache',
+    durationMs: 0,
+    retries: 0,
+    stale,
+    responseBody: serialiseBody(data),
+  });
+};
+
+export const getNetworkRecords = (): NetworkRecord[] => records;
+
+export const clearNetworkRecords = (): void => {
+  records = [];
+  replayBodies.clear();
+  notifyListeners();
+};
+
+/**
+ * Send a recorded request again, bypassing the response cache
+ */
+export const replayNetworkRecord = async (id: number): Promise<ApiResponse> => {
+  const record = records.find(candidate => candidate.id === id);
+  if (!record) {
+    return { success: false, error: 'This request is no longer recorded' };
+  }
+  // Import here to avoid circular dependency
+  const { apiRequest } = await import('./apiCore');
+  return apiRequest(record.endpoint, record.method, replayBodies.get(id), { skipCache: true });
+};
+
+/**
+ * Convert the recorded requests to a HAR-like log that can be attached to a support ticket
+ */
+export const exportHar = (): HarLog => ({
+  log: {
+    version: '1.2',
+    creator: { name: 'AgriMart', version: APP_VERSION },
+    entries: records.map(record => ({
+      startedDateTime: record.startedAt,
+      time: record.durationMs ?? 0,
+      request: {
+        method: record.method,
+        url: record.url || record.endpoint,
+        headers: [],
+        ...(record.requestBody ? { postData: { mimeType: 'application/json', text: record.requestBody } } : {}),
+      },
+      response: {
+        status: record.status ?? 0,
+        statusText: record.outcome,
+        headers: [],
+        content: { mimeType: 'application/json', text: record.responseBody },
+      },
+      _group: record.group,
+      _outcome: record.outcome,
+      _retries: record.retries,
+      _errorKind: record.errorKind,
+    })),
+  },
+});
+
+/**
+ * Subscribe to changes of the recorded requests
+ * @returns Function that removes the listener
+ */
+export const subscribeToNetworkRecords = (listener: NetworkListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const networkInspector = {
+  startNetworkRecord,
+  finishNetworkRecord,
+  recordCacheHit,
+  getNetworkRecords,
+  clearNetworkRecords,
+  replayNetworkRecord,
+  exportHar,
+  subscribeToNetworkRecords,
+};
+
+export default networkInspector;
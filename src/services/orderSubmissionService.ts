@@ -0,0 +1,114 @@
+// frontend/src/services/orderSubmissionService.ts
+// Client submission IDs that make order creation idempotent
+
+import { Order } from './apiService';
+import { createLogger } from './logger';
+import { getUserItem, setUserItem } from '../utils/userStorage';
+
+const log = createLogger('orders');
+
+// Where the order was placed from; each source has its own pending submission
+export type OrderSubmissionSource = 'cart' | 'manual';
+
+export interface PendingOrderSubmission {
+  clientSubmissionId: string;
+  source: OrderSubmissionSource;
+  fingerprint: string; // Identifies the order contents the ID was issued for
+  createdAt: string;
+}
+
+// Stored per user, see userStorage
+const PENDING_SUBMISSIONS_KEY = '@AgriMart:pendingOrderSubmissions';
+
+// Unconfirmed submissions older than this are forgotten
+const SUBMISSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const loadSubmissions = async (): Promise<PendingOrderSubmission[]> => {
+  try {
+    const stored = await getUserItem(PENDING_SUBMISSIONS_KEY);
+    const submissions: PendingOrderSubmission[] = stored ? JSON.parse(stored) : [];
+    const cutoff = Date.now() - SUBMISSION_TTL_MS;
+    return submissions.filter(submission => new Date(submission.createdAt).getTime() > cutoff);
+  } catch (error) {
+    log.error('Error loading pending order submissions:', error);
+    return [];
+  }
+};
+
+const saveSubmissions = async (submissions: PendingOrderSubmission[]): Promise<void> => {
+  try {
+    await setUserItem(PENDING_SUBMISSIONS_KEY, JSON.stringify(submissions));
+  } catch (error) {
+    log.error('Error saving pending order submissions:', error);
+  }
+};
+
+// Generate a random RFC 4122 version 4 UUID
+const generateSubmissionId = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.random() * 16 | 0;
+    const value = char === 'x' ? random : (random & 0x3 | 0x8);
+    return value.toString(16);
+  });
+
+// The parts of an order that make it the same order; dates and tracking
+// numbers are regenerated on every attempt and are left out
+const getOrderFingerprint = (order: Order): string =>
+  JSON.stringify({
+    userId: order.userId,
+    shippingAddressId: Number(order.shippingAddressId),
+    items: order.orderItems
+      .map(item => [item.productId, item.quantity, Number(item.price)])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+  });
+
+/**
+ * Get the client submission ID for an order. Submitting the same order again
+ * before the server has confirmed it returns the same ID, so the server can
+ * recognise the retry; a changed order gets a new ID.
+ * @param source Where the order is placed from
+ * @param order The order being submitted
+ */
+export const getClientSubmissionId = async (source: OrderSubmissionSource, order: Order): Promise<string> => {
+  const fingerprint = getOrderFingerprint(order);
+  const submissions = await loadSubmissions();
+
+  const existing = submissions.find(submission => submission.source === source && submission.fingerprint === fingerprint);
+  if (existing) {
+    log.debug(`Reusing client submission ID ${existing.clientSubmissionId} for unconfirmed ${source} order`);
+    return existing.clientSubmissionId;
+  }
+
+  // The previous unconfirmed order from this source was abandoned when its contents changed
+  const submission: PendingOrderSubmission = {
+    clientSubmissionId: generateSubmissionId(),
+    source,
+    fingerprint,
+    createdAt: new Date().toISOString(),
+  };
+  await saveSubmissions([...submissions.filter(pending => pending.source !== source), submission]);
+  log.debug(`Issued client submission ID ${submission.clientSubmissionId} for ${source} order`);
+  return submission.clientSubmissionId;
+};
+
+/**
+ * Forget a client submission ID once the server has confirmed the order,
+ * rejected it, or the offline outbox has taken it over
+ */
+export const completeSubmission = async (clientSubmissionId: string): Promise<void> => {
+  const submissions = await loadSubmissions();
+  await saveSubmissions(submissions.filter(submission => submission.clientSubmissionId !== clientSubmissionId));
+};
+
+/**
+ * Get the order submissions that have not been confirmed yet
+ */
+export const getPendingSubmissions = (): Promise<PendingOrderSubmission[]> => loadSubmissions();
+
+const orderSubmissionService = {
+  getClientSubmissionId,
+  completeSubmission,
+  getPendingSubmissions,
+};
+
+export default orderSubmissionService;
@@ -0,0 +1,365 @@
+// frontend/src/services/outboxService.ts
+// Persistent queue of POST/PUT/DELETE requests made while offline
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { ApiResponse } from './apiConfig';
+import { apiRequestNoRetry, checkApiConnection } from './apiCore';
+import { isApiErrorKind, isRetryableError } from './apiErrors';
+import { isOnline } from './connectivityService';
+import { createLogger } from './logger';
+import { getUserStorageKey, subscribeToStorageUser } from '../utils/userStorage';
+import type { ImageFile } from './imageUploadService';
+
+const log = createLogger('outbox');
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed' | 'conflict';
+
+export type OutboxMethod = 'POST' | 'PUT' | 'DELETE';
+
+// A file sent as multipart instead of a JSON body (see imageUploadService)
+export interface OutboxUpload {
+  file: ImageFile;
+  productId?: number | string; // The uploaded URL is written into this product's imageUrl
+  url?: string; // Set once the file is uploaded, so a later attempt only updates the product
+}
+
+export interface OutboxItem {
+  id: string;
+  endpoint: string;
+  method: OutboxMethod;
+  body?: any;
+  tag: string;
+  label?: string;
+  key?: string;
+  clientSubmissionId?: string; // Idempotency key sent again on every replay
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+  responseData?: any; // Server response once the item has been sent
+  upload?: OutboxUpload;
+}
+
+export interface EnqueueMutationRequest {
+  endpoint: string;
+  method: OutboxMethod;
+  body?: any;
+  tag?: string;
+  label?: string;
+  key?: string;
+  clientSubmissionId?: string;
+  upload?: OutboxUpload;
+}
+
+export interface OutboxReplayResult {
+  sent: number;
+  failed: number;
+  conflicts: number;
+  remaining: number;
+}
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+// Stored per user, see userStorage: a queued mutation is only ever sent with
+// the token of the user who made it
+const OUTBOX_STORAGE_KEY = '@AgriMart:outbox';
+
+// Server errors are retried on later replays, up to this many attempts
+const MAX_ATTEMPTS = 5;
+
+// Sent items are kept so screens can show them as confirmed, up to this many
+const MAX_SENT_ITEMS = 50;
+
+// How often pending items are retried while the app is in the foreground
+const REPLAY_INTERVAL_MS = 30000;
+
+let outboxCache: OutboxItem[] | null = null;
+let outboxStorageKey: string | null = null; // The user namespace key outboxCache belongs to
+let cacheGeneration = 0; // Bumped on every account change, so a load for the previous user is dropped
+let replayPromise: Promise<OutboxReplayResult> | null = null;
+const listeners = new Set<OutboxListener>();
+
+const loadItems = async (): Promise<OutboxItem[]> => {
+  if (outboxCache) {
+    return outboxCache;
+  }
+  const generation = cacheGeneration;
+  const storageKey = await getUserStorageKey(OUTBOX_STORAGE_KEY);
+  let items: OutboxItem[] = [];
+  try {
+    const stored = await AsyncStorage.getItem(storageKey);
+    items = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    log.error('Error loading outbox:', error);
+  }
+  if (generation !== cacheGeneration) {
+    // The account changed while loading
+    return loadItems();
+  }
+  if (!outboxCache) {
+    outboxCache = items;
+    outboxStorageKey = storageKey;
+  }
+  return outboxCache;
+};
+
+const saveItems = async (items: OutboxItem[]): Promise<void> => {
+  const storageKey = outboxStorageKey;
+  if (!storageKey) {
+    // The account changed since the items were loaded; they are not this user's
+    return;
+  }
+
+  // Drop the oldest sent items so the outbox cannot grow without bound
+  const sentItems = items.filter(item => item.status === 'sent');
+  const excess = sentItems.length - MAX_SENT_ITEMS;
+  const dropped = new Set(excess > 0 ? sentItems.slice(0, excess).map(item => item.id) : []);
+
+  outboxCache = items.filter(item => !dropped.has(item.id));
+  listeners.forEach(listener => listener(outboxCache as OutboxItem[]));
+
+  try {
+    await AsyncStorage.setItem(storageKey, JSON.stringify(outboxCache));
+  } catch (error) {
+    log.error('Error saving outbox:', error);
+  }
+};
+
+// Apply a change to the latest in-memory list, so concurrent updates are not lost
+const mutateItems = async (change: (items: OutboxItem[]) => OutboxItem[]): Promise<void> => {
+  await loadItems();
+  if (outboxCache) {
+    await saveItems(change(outboxCache));
+  }
+};
+
+const updateItem = (id: string, changes: Partial<OutboxItem>): Promise<void> =>
+  mutateItems(items => items.map(item =>
+    item.id === id ? { ...item, ...changes, updatedAt: new Date().toISOString() } : item
+  ));
+
+// Another account's queue lives in its own namespace; drop the one in memory
+// and show the new user's
+subscribeToStorageUser(() => {
+  cacheGeneration++;
+  outboxCache = null;
+  outboxStorageKey = null;
+  loadItems().then(items => listeners.forEach(listener => listener(items)));
+});
+
+/**
+ * Get all outbox items in queue order
+ * @param tag Only return items with this tag
+ */
+export const getOutboxItems = async (tag?: string): Promise<OutboxItem[]> => {
+  const items = await loadItems();
+  return tag ? items.filter(item => item.tag === tag) : items;
+};
+
+/**
+ * Add a mutation to the outbox. A pending item with the same key is
+ * replaced, so only the latest change for it is replayed.
+ * @returns The queued item
+ */
+export const enqueueMutation = async (request: EnqueueMutationRequest): Promise<OutboxItem> => {
+  const now = new Date().toISOString();
+  const item: OutboxItem = {
+    id: `outbox-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+    endpoint: request.endpoint,
+    method: request.method,
+    body: request.body,
+    tag: request.tag || 'other',
+    label: request.label,
+    key: request.key,
+    clientSubmissionId: request.clientSubmissionId,
+    upload: request.upload,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await mutateItems(items => [
+    ...(request.key
+      ? items.filter(existing => !(existing.key === request.key && existing.status === 'pending'))
+      : items),
+    item,
+  ]);
+  log.debug(`📤 Queued ${item.method} ${item.endpoint} in outbox (${item.id})`);
+  return item;
+};
+
+/**
+ * Send pending outbox items in the order they were queued. Stops at the
+ * first connection or server error so later items never overtake earlier ones.
+ */
+export const replayOutbox = (): Promise<OutboxReplayResult> => {
+  if (!replayPromise) {
+    replayPromise = runReplay().finally(() => {
+      replayPromise = null;
+    });
+  }
+  return replayPromise;
+};
+
+const runReplay = async (): Promise<OutboxReplayResult> => {
+  const result: OutboxReplayResult = { sent: 0, failed: 0, conflicts: 0, remaining: 0 };
+
+  const pending = (await loadItems()).filter(item => item.status === 'pending');
+  if (pending.length === 0) {
+    return result;
+  }
+
+  if (!(await checkApiConnection())) {
+    result.remaining = pending.length;
+    return result;
+  }
+
+  log.debug(`📤 Replaying ${pending.length} outbox item(s)`);
+
+  for (let index = 0; index < pending.length; index++) {
+    const item = pending[index];
+
+    // Skip items that were replaced or discarded while the replay was running
+    const isStillPending = (outboxCache || []).some(current => current.id === item.id && current.status === 'pending');
+    if (!isStillPending) {
+      continue;
+    }
+
+    const attempts = item.attempts + 1;
+    const response = item.upload
+      ? await sendUpload(item, item.upload)
+      : await apiRequestNoRetry(item.endpoint, item.method, item.body, {
+        clientSubmissionId: item.clientSubmissionId,
+      });
+
+    if (response.success) {
+      await updateItem(item.id, { status: 'sent', attempts, lastError: undefined, responseData: response.data });
+      result.sent++;
+      continue;
+    }
+
+    if (isApiErrorKind(response, 'conflict')) {
+      // The server state changed underneath us; the user has to decide
+      await updateItem(item.id, { status: 'conflict', attempts, lastError: response.error });
+      result.conflicts++;
+      continue;
+    }
+
+    // Auth errors are retried too: the user may log in again before the next replay
+    const isRetryable = isRetryableError(response.apiError) || isApiErrorKind(response, 'auth');
+    if (isRetryable && attempts < MAX_ATTEMPTS) {
+      await updateItem(item.id, { attempts, lastError: response.error });
+      result.remaining = pending.length - index;
+      log.warn(`📤 Outbox replay paused at ${item.id}: ${response.error}`);
+      return result;
+    }
+
+    await updateItem(item.id, { status: 'failed', attempts, lastError: response.error });
+    result.failed++;
+  }
+
+  log.debug('📤 Outbox replay completed:', result);
+  return result;
+};
+
+// Upload a queued file, then write its URL into the product it belongs to
+const sendUpload = async (item: OutboxItem, upload: OutboxUpload): Promise<ApiResponse> => {
+  // Import here to avoid circular dependency
+  const { uploadImage, attachImageToProduct } = await import('./imageUploadService');
+
+  let url = upload.url;
+  if (!url) {
+    const uploaded = await uploadImage(upload.file);
+    if (!uploaded.success || !uploaded.data) {
+      return uploaded;
+    }
+    url = uploaded.data.url;
+    await updateItem(item.id, { upload: { ...upload, url } });
+  }
+
+  return upload.productId !== undefined
+    ? attachImageToProduct(upload.productId, url)
+    : { success: true, data: { url } };
+};
+
+/**
+ * Put a failed or conflicting item back in the queue and try to send it
+ */
+export const retryOutboxItem = async (id: string): Promise<OutboxReplayResult> => {
+  await updateItem(id, { status: 'pending', attempts: 0, lastError: undefined });
+  return replayOutbox();
+};
+
+/**
+ * Remove an item from the outbox without sending it
+ */
+export const discardOutboxItem = (id: string): Promise<void> =>
+  mutateItems(items => items.filter(item => item.id !== id));
+
+/**
+ * Remove all items that were sent successfully
+ */
+export const clearSentItems = (): Promise<void> =>
+  mutateItems(items => items.filter(item => item.status !== 'sent'));
+
+/**
+ * Subscribe to outbox changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Replay the outbox now, periodically while online, and whenever the app
+ * returns to the foreground. The connectivity service also replays it as
+ * soon as the connection returns.
+ * @returns Function that stops the automatic replay
+ */
+export const startOutboxReplay = (intervalMs: number = REPLAY_INTERVAL_MS): (() => void) => {
+  replayOutbox();
+
+  const intervalId = setInterval(() => {
+    if (AppState.currentState === 'active' && isOnline()) {
+      replayOutbox();
+    }
+  }, intervalMs);
+
+  const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (state === 'active') {
+      replayOutbox();
+    }
+  });
+
+  // A user logging back in gets the changes they queued before logging out
+  const unsubscribeUser = subscribeToStorageUser(userId => {
+    if (userId) {
+      replayOutbox();
+    }
+  });
+
+  return () => {
+    clearInterval(intervalId);
+    subscription.remove();
+    unsubscribeUser();
+  };
+};
+
+const outboxService = {
+  getOutboxItems,
+  enqueueMutation,
+  replayOutbox,
+  retryOutboxItem,
+  discardOutboxItem,
+  clearSentItems,
+  subscribeToOutbox,
+  startOutboxReplay,
+};
+
+export default outboxService;
@@ -0,0 +1,151 @@
+// frontend/src/services/pricingService.ts
+// Order totals: subtotal, GST and the delivery charge from the active DeliveryChargeRules
+
+import { deliveryChargeRulesApi, DeliveryChargeRule } from './apiService';
+import { createLogger } from './logger';
+import { calculateTax, TaxableItem, TaxBreakdown } from './taxService';
+
+const log = createLogger('pricing');
+
+// Anything with a price and a quantity: cart items and manual order rows
+export type PricedItem = TaxableItem;
+
+export interface PriceBreakdown {
+  subtotal: number;
+  gst: number; // CGST and SGST, or IGST, together
+  tax: TaxBreakdown; // The GST of each item and its split
+  deliveryCharge: number;
+  total: number;
+  deliveryChargeRuleId?: number; // The rule the delivery charge came from
+  amountForFreeDelivery?: number; // How much more to add to the order for free delivery
+}
+
+type DeliveryChargeRulesListener = (rules: DeliveryChargeRule[]) => void;
+
+// The last rules loaded; used while offline
+let deliveryChargeRules: DeliveryChargeRule[] = [];
+let loadPromise: Promise<DeliveryChargeRule[]> | null = null;
+const listeners = new Set<DeliveryChargeRulesListener>();
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Get the subtotal of some items, before GST and delivery
+ * @param items The items with their price and quantity
+ */
+export const getSubtotal = (items: PricedItem[]): number =>
+  roundAmount(items.reduce((sum, item) => sum + (item.price || 0) * (item.quantity || 0), 0));
+
+/**
+ * Find the delivery charge for an order. The active rule whose amount slab
+ * contains the subtotal applies; without one, delivery is free. Slabs are
+ * matched on the subtotal before GST.
+ * @param subtotal The order subtotal
+ * @param rules The delivery charge rules
+ */
+export const getDeliveryCharge = (
+  subtotal: number,
+  rules: DeliveryChargeRule[]
+): { chargeAmount: number; ruleId?: number; amountForFreeDelivery?: number } => {
+  const amount = roundAmount(subtotal);
+  const activeRules = rules.filter(rule => rule.isActive);
+  const rule = activeRules.find(candidate =>
+    amount >= candidate.minOrderAmount && amount <= candidate.maxOrderAmount
+  );
+  const chargeAmount = rule ? rule.chargeAmount : 0;
+
+  // The nearest slab above this order that delivers for free
+  const freeThreshold = chargeAmount > 0
+    ? activeRules
+        .filter(candidate => candidate.chargeAmount === 0 && candidate.minOrderAmount > amount)
+        .reduce<number | undefined>(
+          (lowest, candidate) => (lowest === undefined || candidate.minOrderAmount < lowest ? candidate.minOrderAmount : lowest),
+          undefined
+        )
+    : undefined;
+
+  return {
+    chargeAmount,
+    ruleId: rule?.ruleId,
+    amountForFreeDelivery: freeThreshold !== undefined ? roundAmount(freeThreshold - amount) : undefined,
+  };
+};
+
+/**
+ * Work out the full price of an order. GST is charged per item at the item's
+ * own rate; the delivery charge carries no GST.
+ * @param items The items with their price, quantity and GST rate
+ * @param gstRate Fraction of the price for items without a rate, from the app config
+ * @param rules The delivery charge rules; the last loaded ones if omitted
+ * @param interState Whether the delivery leaves the seller's state, so IGST applies
+ */
+export const getPriceBreakdown = (
+  items: PricedItem[],
+  gstRate: number,
+  rules: DeliveryChargeRule[] = deliveryChargeRules,
+  interState: boolean = false
+): PriceBreakdown => {
+  const subtotal = getSubtotal(items);
+  const tax = calculateTax(items, { defaultRate: gstRate, interState });
+  const gst = tax.taxAmount;
+  // An empty order has nothing to deliver
+  const delivery = items.length > 0 ? getDeliveryCharge(subtotal, rules) : { chargeAmount: 0 };
+  return {
+    subtotal,
+    gst,
+    tax,
+    deliveryCharge: delivery.chargeAmount,
+    total: roundAmount(subtotal + gst + delivery.chargeAmount),
+    deliveryChargeRuleId: delivery.ruleId,
+    amountForFreeDelivery: delivery.amountForFreeDelivery,
+  };
+};
+
+/**
+ * Get the delivery charge rules loaded so far
+ */
+export const getDeliveryChargeRules = (): DeliveryChargeRule[] => deliveryChargeRules;
+
+/**
+ * Load the delivery charge rules from the server. On failure the last loaded
+ * rules are kept.
+ */
+export const loadDeliveryChargeRules = (): Promise<DeliveryChargeRule[]> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const response = await deliveryChargeRulesApi.getAll();
+      if (response.success && response.data) {
+        deliveryChargeRules = response.data;
+        listeners.forEach(listener => listener(deliveryChargeRules));
+      } else {
+        log.warn('Could not load delivery charge rules:', response.error);
+      }
+      return deliveryChargeRules;
+    })().finally(() => {
+      loadPromise = null;
+    });
+  }
+  return loadPromise;
+};
+
+/**
+ * Subscribe to newly loaded delivery charge rules
+ * @returns Function to unsubscribe
+ */
+export const subscribeToDeliveryChargeRules = (listener: DeliveryChargeRulesListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const pricingService = {
+  getSubtotal,
+  getDeliveryCharge,
+  getPriceBreakdown,
+  getDeliveryChargeRules,
+  loadDeliveryChargeRules,
+  subscribeToDeliveryChargeRules,
+};
+
+export default pricingService;
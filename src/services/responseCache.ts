@@ -0,0 +1,201 @@
+// frontend/src/services/responseCache.ts
+// Stale-while-revalidate cache for GET requests made through apiRequest
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_ENDPOINTS } from './apiEndpoints';
+import { subscribeToEnvironment } from './environmentService';
+import { createLogger } from './logger';
+
+const log = createLogger('cache');
+
+export interface CachePolicy {
+  prefix: string; // GET endpoints starting with this are cached
+  ttlMs: number; // Cached data older than this is served stale and refreshed
+  invalidatedBy?: string[]; // Mutations on these endpoints also clear the cache
+}
+
+export interface CacheEntry<T = any> {
+  endpoint: string;
+  data: T;
+  storedAt: number;
+}
+
+type CacheListener = (endpoint: string) => void;
+
+// Storage keys
+const CACHE_STORAGE_PREFIX = '@AgriMart:responseCache:';
+
+const MINUTE = 60 * 1000;
+
+// Only GETs matching one of these policies are cached; the first match wins
+export const CACHE_POLICIES: CachePolicy[] = [
+  { prefix: API_ENDPOINTS.CATEGORIES.GET_ALL, ttlMs: 30 * MINUTE },
+  {
+    prefix: API_ENDPOINTS.PRODUCTS.GET_ALL,
+    ttlMs: 5 * MINUTE,
+    invalidatedBy: [API_ENDPOINTS.ADMIN.PRODUCTS.GET_ALL, API_ENDPOINTS.ADMIN.INVENTORY.GET_INVENTORY, API_ENDPOINTS.ORDERS.CREATE],
+  },
+  {
+    prefix: API_ENDPOINTS.ADMIN.PRODUCTS.GET_ALL,
+    ttlMs: 2 * MINUTE,
+    invalidatedBy: [API_ENDPOINTS.PRODUCTS.GET_ALL, API_ENDPOINTS.ADMIN.INVENTORY.GET_INVENTORY, API_ENDPOINTS.ORDERS.CREATE],
+  },
+  {
+    prefix: API_ENDPOINTS.ADMIN.INVENTORY.GET_INVENTORY,
+    ttlMs: MINUTE,
+    invalidatedBy: [API_ENDPOINTS.PRODUCTS.GET_ALL, API_ENDPOINTS.ADMIN.PRODUCTS.GET_ALL, API_ENDPOINTS.ORDERS.CREATE],
+  },
+  { prefix: '/api/OrderStatus', ttlMs: 30 * MINUTE },
+  { prefix: API_ENDPOINTS.CMS.GET_ALL_PAGES, ttlMs: 30 * MINUTE },
+  { prefix: API_ENDPOINTS.UTILITY.GET_APP_CONFIG, ttlMs: 30 * MINUTE },
+  { prefix: API_ENDPOINTS.DELIVERY.GET_ALL_RULES, ttlMs: 10 * MINUTE },
+];
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlightRequests = new Map<string, Promise<any>>();
+const listeners = new Set<CacheListener>();
+
+const notify = (endpoint: string) => {
+  listeners.forEach(listener => listener(endpoint));
+};
+
+/**
+ * Get the cache policy for a GET endpoint
+ * @returns The policy, or undefined if the endpoint is not cached
+ */
+export const getCachePolicy = (endpoint: string): CachePolicy | undefined =>
+  CACHE_POLICIES.find(policy => endpoint.startsWith(policy.prefix));
+
+/**
+ * Whether a cache entry is still within the TTL of its policy
+ */
+export const isCacheEntryFresh = (entry: CacheEntry, policy: CachePolicy): boolean =>
+  Date.now() - entry.storedAt < policy.ttlMs;
+
+/**
+ * Read a cached response, from memory or AsyncStorage
+ */
+export const readCache = async <T = any>(endpoint: string): Promise<CacheEntry<T> | null> => {
+  const cached = memoryCache.get(endpoint);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_STORAGE_PREFIX + endpoint);
+    if (stored) {
+      const entry: CacheEntry<T> = JSON.parse(stored);
+      memoryCache.set(endpoint, entry);
+      return entry;
+    }
+  } catch (error) {
+    log.error(`Error reading cached response for ${endpoint}:`, error);
+  }
+  return null;
+};
+
+/**
+ * Store a response and tell subscribers that fresh data is available
+ */
+export const writeCache = async <T = any>(endpoint: string, data: T): Promise<void> => {
+  const entry: CacheEntry<T> = { endpoint, data, storedAt: Date.now() };
+  memoryCache.set(endpoint, entry);
+  notify(endpoint);
+  try {
+    await AsyncStorage.setItem(CACHE_STORAGE_PREFIX + endpoint, JSON.stringify(entry));
+  } catch (error) {
+    log.error(`Error saving cached response for ${endpoint}:`, error);
+  }
+};
+
+/**
+ * Remove cached responses
+ * @param prefix Only remove endpoints starting with this; removes everything if omitted
+ */
+export const invalidateCache = async (prefix: string = ''): Promise<void> => {
+  Array.from(memoryCache.keys())
+    .filter(endpoint => endpoint.startsWith(prefix))
+    .forEach(endpoint => memoryCache.delete(endpoint));
+
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const staleKeys = keys.filter(key => key.startsWith(CACHE_STORAGE_PREFIX + prefix));
+    if (staleKeys.length > 0) {
+      await AsyncStorage.multiRemove(staleKeys);
+    }
+  } catch (error) {
+    log.error('Error clearing cached responses:', error);
+  }
+  notify(prefix);
+};
+
+/**
+ * Clear every cached response a successful POST/PUT/DELETE may have made outdated
+ * @param endpoint The mutated endpoint
+ */
+export const invalidateForMutation = async (endpoint: string): Promise<void> => {
+  const affected = CACHE_POLICIES.filter(policy =>
+    endpoint.startsWith(policy.prefix) ||
+    (policy.invalidatedBy || []).some(prefix => endpoint.startsWith(prefix))
+  );
+  if (affected.length > 0) {
+    log.debug(`Clearing cached responses after change to ${endpoint}`);
+    await Promise.all(affected.map(policy => invalidateCache(policy.prefix)));
+  }
+};
+
+/**
+ * Mark every cached response as stale and tell all subscribers, so screens
+ * reload and get their data refreshed, e.g. after the connection returns
+ */
+export const revalidateCache = (): void => {
+  memoryCache.forEach(entry => {
+    entry.storedAt = 0;
+  });
+  notify('');
+};
+
+/**
+ * Share one in-flight request between callers asking for the same key
+ */
+export const dedupeRequest = <T>(key: string, request: () => Promise<T>): Promise<T> => {
+  const inFlight = inFlightRequests.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+  const promise = request().finally(() => {
+    inFlightRequests.delete(key);
+  });
+  inFlightRequests.set(key, promise);
+  return promise;
+};
+
+/**
+ * Subscribe to cache updates. The listener receives the endpoint that was
+ * refreshed, or the prefix that was cleared.
+ * @returns Function that removes the listener
+ */
+export const subscribeToCache = (listener: CacheListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Responses from one environment must never be shown in another
+subscribeToEnvironment(() => {
+  invalidateCache();
+});
+
+const responseCache = {
+  getCachePolicy,
+  isCacheEntryFresh,
+  readCache,
+  writeCache,
+  invalidateCache,
+  invalidateForMutation,
+  revalidateCache,
+  dedupeRequest,
+  subscribeToCache,
+};
+
+export default responseCache;
@@ -0,0 +1,261 @@
+// frontend/src/services/schema.ts
+// Small declarative schemas that check API responses against the DTOs the app
+// expects, normalise known aliases, and report where the backend drifted
+
+import { createLogger } from './logger';
+
+const log = createLogger('schema');
+
+export interface SchemaIssue {
+  path: string; // e.g. '[3].zipCode'
+  message: string;
+}
+
+export interface Schema<T> {
+  description: string; // Shown in drift reports, e.g. 'Address[]'
+  parse: (value: unknown, path: string, issues: SchemaIssue[]) => T;
+}
+
+export interface ObjectSchemaOptions {
+  // Groups of keys that hold the same value under different names (e.g. ['id', 'addressId']).
+  // A missing key is filled from the first one present, if it fits that key's schema.
+  aliases?: string[][];
+}
+
+export interface ArraySchemaOptions {
+  // Keys of a wrapper object the list may arrive in, e.g. { items: [...] }
+  envelopes?: string[];
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isMissing = (value: unknown): value is null | undefined => value === null || value === undefined;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const addIssue = (issues: SchemaIssue[], path: string, message: string) => {
+  issues.push({ path: path || '(root)', message });
+};
+
+/**
+ * A string; numbers are converted but reported
+ */
+export const string = (): Schema<string> => ({
+  description: 'string',
+  parse: (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') {
+      addIssue(issues, path, 'expected string, got number');
+      return String(value);
+    }
+    addIssue(issues, path, `expected string, got ${describe(value)}`);
+    return value as string;
+  },
+});
+
+/**
+ * An identifier the backend sends as a string or a number; always returned as a string
+ */
+export const id = (): Schema<string> => ({
+  description: 'id',
+  parse: (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    addIssue(issues, path, `expected id, got ${describe(value)}`);
+    return value as string;
+  },
+});
+
+/**
+ * A finite number; numeric strings are converted but reported
+ */
+export const number = (): Schema<number> => ({
+  description: 'number',
+  parse: (value, path, issues) => {
+    if (typeof value === 'number' && isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) {
+      addIssue(issues, path, 'expected number, got numeric string');
+      return Number(value);
+    }
+    addIssue(issues, path, `expected number, got ${describe(value)}`);
+    return value as number;
+  },
+});
+
+/**
+ * A boolean; 'true' and 'false' strings are converted but reported
+ */
+export const boolean = (): Schema<boolean> => ({
+  description: 'boolean',
+  parse: (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') {
+      addIssue(issues, path, 'expected boolean, got string');
+      return value === 'true';
+    }
+    addIssue(issues, path, `expected boolean, got ${describe(value)}`);
+    return value as boolean;
+  },
+});
+
+/**
+ * Anything; used for fields the app passes on without reading
+ */
+export const unknown = (): Schema<any> => ({
+  description: 'unknown',
+  parse: value => value,
+});
+
+/**
+ * A field that may be missing or null; both are passed on unchanged
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  description: `${schema.description}?`,
+  parse: (value, path, issues) => (isMissing(value) ? (value as undefined) : schema.parse(value, path, issues)),
+});
+
+/**
+ * A list; anything else is reported and replaced by an empty list
+ */
+export const arrayOf = <T>(item: Schema<T>, options: ArraySchemaOptions = {}): Schema<T[]> => ({
+  description: `${item.description}[]`,
+  parse: (value, path, issues) => {
+    let list = value;
+    if (!Array.isArray(list) && isPlainObject(list)) {
+      const envelope = (options.envelopes || []).find(key => Array.isArray((list as Record<string, unknown>)[key]));
+      if (envelope) {
+        list = (list as Record<string, unknown>)[envelope];
+      }
+    }
+    if (!Array.isArray(list)) {
+      addIssue(issues, path, `expected array, got ${describe(value)}`);
+      return [];
+    }
+    return list.map((entry, index) => item.parse(entry, `${path}[${index}]`, issues));
+  },
+});
+
+/**
+ * An object with the given fields. Fields the schema does not list are kept,
+ * so screens that read extra fields keep working.
+ */
+export const object = <T>(
+  name: string,
+  shape: { [K in keyof T]?: Schema<any> },
+  options: ObjectSchemaOptions = {}
+): Schema<T> => ({
+  description: name,
+  parse: (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      addIssue(issues, path, `expected ${name}, got ${describe(value)}`);
+      return value as T;
+    }
+
+    const result: Record<string, unknown> = { ...value };
+    const fields = shape as Record<string, Schema<any> | undefined>;
+    const fieldPath = (key: string) => (path ? `${path}.${key}` : key);
+    const parseField = (key: string, fieldIssues: SchemaIssue[]) => {
+      const parsed = fields[key]!.parse(result[key], fieldPath(key), fieldIssues);
+      if (parsed !== undefined || key in result) {
+        result[key] = parsed;
+      }
+    };
+
+    // Fields that arrived are checked first, so aliases are filled from normalised values
+    Object.keys(fields).filter(key => fields[key] && !isMissing(result[key])).forEach(key => parseField(key, issues));
+
+    (options.aliases || []).forEach(group => {
+      const sourceKey = group.find(key => !isMissing(result[key]));
+      if (!sourceKey) {
+        return;
+      }
+      group.filter(key => isMissing(result[key])).forEach(key => {
+        const fieldSchema = fields[key];
+        if (!fieldSchema) {
+          result[key] = result[sourceKey];
+          return;
+        }
+        // An alias that does not fit this field (e.g. a GUID for a numeric id) is left out;
+        // drift further down (e.g. inside a list of items) is reported as usual
+        const aliasIssues: SchemaIssue[] = [];
+        const parsed = fieldSchema.parse(result[sourceKey], fieldPath(key), aliasIssues);
+        if (!aliasIssues.some(issue => issue.path === fieldPath(key))) {
+          result[key] = parsed;
+          issues.push(...aliasIssues);
+        }
+      });
+    });
+
+    // Whatever is still missing is reported unless the field is optional
+    Object.keys(fields).filter(key => fields[key] && isMissing(result[key])).forEach(key => parseField(key, issues));
+
+    return result as T;
+  },
+});
+
+/**
+ * Reshape a value before it is checked, e.g. to accept a bare list where an object is expected
+ */
+export const preprocess = <T>(transform: (value: unknown) => unknown, schema: Schema<T>): Schema<T> => ({
+  description: schema.description,
+  parse: (value, path, issues) => schema.parse(transform(value), path, issues),
+});
+
+/**
+ * Check a value against a schema
+ * @returns The normalised value plus everything that did not match
+ */
+export const parseWithSchema = <T>(schema: Schema<T>, value: unknown): { data: T; issues: SchemaIssue[] } => {
+  const issues: SchemaIssue[] = [];
+  const data = schema.parse(value, '', issues);
+  return { data, issues };
+};
+
+// Each kind of drift is reported once per session, not for every response
+const reportedDrift = new Set<string>();
+
+const MAX_REPORTED_ISSUES = 10;
+
+/**
+ * Check a response body and report contract drift through the logger.
+ * The data is always returned, normalised as far as possible; a mismatch
+ * never fails the request.
+ */
+export const validateResponse = <T>(endpoint: string, schema: Schema<T>, value: unknown): T => {
+  const { data, issues } = parseWithSchema(schema, value);
+  if (issues.length === 0) {
+    return data;
+  }
+
+  // Ids and list positions differ between responses; the kind of drift does not
+  const route = endpoint.split('?')[0].replace(/\/[0-9a-f-]{6,}|\/\d+/gi, '/:id');
+  const signature = issues.map(issue => `${issue.path.replace(/\[\d+\]/g, '[]')} ${issue.message}`);
+  const uniqueSignature = Array.from(new Set(signature));
+  const key = `${route} ${schema.description} ${uniqueSignature.join('; ')}`;
+  if (!reportedDrift.has(key)) {
+    reportedDrift.add(key);
+    log.warn(`Response of ${route} does not match ${schema.description}:`, uniqueSignature.slice(0, MAX_REPORTED_ISSUES));
+  }
+  return data;
+};
+
+const schema = {
+  string,
+  id,
+  number,
+  boolean,
+  unknown,
+  optional,
+  arrayOf,
+  object,
+  preprocess,
+  parseWithSchema,
+  validateResponse,
+};
+
+export default schema;
@@ -0,0 +1,149 @@
+// frontend/src/services/taxService.ts
+// GST per order line, split into CGST and SGST within the seller's state or IGST across states
+
+// The GST slabs a product can be in; 0 is exempt
+export const GST_RATES = [0, 0.05, 0.12, 0.18, 0.28];
+
+// Anything taxable: cart items, order items and manual order rows
+export interface TaxableItem {
+  price: number;
+  quantity: number;
+  taxRate?: number; // Fraction, e.g. 0.05 for 5%; the default rate when not set
+  hsnCode?: string;
+}
+
+export interface LineTax {
+  hsnCode?: string;
+  taxableAmount: number;
+  taxRate: number;
+  taxAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// The tax of every line with the same rate, as printed on a GST invoice
+export interface TaxRateSummary {
+  taxRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxBreakdown {
+  lines: LineTax[]; // In the order of the items
+  taxableAmount: number;
+  taxAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  interState: boolean;
+  byRate: TaxRateSummary[]; // Lowest rate first
+}
+
+export interface TaxOptions {
+  defaultRate: number; // For items without a rate of their own, from the app config
+  interState?: boolean; // IGST instead of CGST and SGST
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const normalizeState = (state: string): string => state.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Check a GST rate received from the backend or typed in by an admin
+ * @param rate Fraction of the price
+ */
+export const isValidTaxRate = (rate: unknown): rate is number =>
+  typeof rate === 'number' && rate >= 0 && rate < 1;
+
+/**
+ * Check an HSN code: 4, 6 or 8 digits
+ * @param code The code as typed in
+ */
+export const isValidHsnCode = (code: string): boolean => /^(\d{4}|\d{6}|\d{8})$/.test(code.trim());
+
+/**
+ * Whether a delivery crosses state lines, so IGST applies. An unknown
+ * delivery state is treated as within the seller's state.
+ * @param sellerState The state the seller is registered in
+ * @param deliveryState The state of the delivery address
+ */
+export const isInterStateSupply = (sellerState: string, deliveryState?: string): boolean =>
+  !!deliveryState && !!deliveryState.trim() && normalizeState(deliveryState) !== normalizeState(sellerState);
+
+/**
+ * Get the GST rate of an item
+ * @param item The item
+ * @param defaultRate The rate for items without one
+ */
+export const getItemTaxRate = (item: TaxableItem, defaultRate: number): number =>
+  isValidTaxRate(item.taxRate) ? item.taxRate : defaultRate;
+
+/**
+ * Work out the GST of one order line. CGST gets the odd paisa when the tax
+ * does not split evenly.
+ * @param item The item with its price, quantity and rate
+ * @param options The default rate and whether IGST applies
+ */
+export const calculateLineTax = (item: TaxableItem, options: TaxOptions): LineTax => {
+  const taxRate = getItemTaxRate(item, options.defaultRate);
+  const taxableAmount = roundAmount((item.price || 0) * (item.quantity || 0));
+  const taxAmount = roundAmount(taxableAmount * taxRate);
+  const cgst = options.interState ? 0 : Math.ceil(Math.round(taxAmount * 100) / 2) / 100;
+  return {
+    hsnCode: item.hsnCode,
+    taxableAmount,
+    taxRate,
+    taxAmount,
+    cgst,
+    sgst: options.interState ? 0 : roundAmount(taxAmount - cgst),
+    igst: options.interState ? taxAmount : 0,
+  };
+};
+
+/**
+ * Work out the GST of an order, line by line
+ * @param items The items with their price, quantity and rate
+ * @param options The default rate and whether IGST applies
+ */
+export const calculateTax = (items: TaxableItem[], options: TaxOptions): TaxBreakdown => {
+  const lines = items.map(item => calculateLineTax(item, options));
+  const sum = (pick: (line: LineTax) => number) => roundAmount(lines.reduce((total, line) => total + pick(line), 0));
+
+  const byRate = new Map<number, TaxRateSummary>();
+  lines.forEach(line => {
+    const summary = byRate.get(line.taxRate) || { taxRate: line.taxRate, taxableAmount: 0, taxAmount: 0 };
+    summary.taxableAmount = roundAmount(summary.taxableAmount + line.taxableAmount);
+    summary.taxAmount = roundAmount(summary.taxAmount + line.taxAmount);
+    byRate.set(line.taxRate, summary);
+  });
+
+  return {
+    lines,
+    taxableAmount: sum(line => line.taxableAmount),
+    taxAmount: sum(line => line.taxAmount),
+    cgst: sum(line => line.cgst),
+    sgst: sum(line => line.sgst),
+    igst: sum(line => line.igst),
+    interState: !!options.interState,
+    byRate: [...byRate.values()].sort((a, b) => a.taxRate - b.taxRate),
+  };
+};
+
+/**
+ * Format a GST rate for display, e.g. "5%"
+ * @param rate Fraction of the price
+ */
+export const formatTaxRate = (rate: number): string => `${roundAmount(rate * 100)}%`;
+
+const taxService = {
+  isValidTaxRate,
+  isValidHsnCode,
+  isInterStateSupply,
+  getItemTaxRate,
+  calculateLineTax,
+  calculateTax,
+  formatTaxRate,
+};
+
+export default taxService;
@@ -2,6 +2,9 @@
 
 import { ApiResponse } from './apiConfig';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLogger } from './logger';
+
+const log = createLogger('user');
 
 // User data interface
 export interface User {
@@ -16,6 +19,25 @@ export interface User {
 // Storage keys
 const USER_STORAGE_KEY = '@AgriMart:user';
 const AUTH_TOKEN_KEY = '@AgriMart:authToken';
+const REFRESH_TOKEN_KEY = '@AgriMart:refreshToken';
+
+// Flags targeted at users or roles follow whoever is logged in
+const refreshFeatureFlagsForUser = async (): Promise<void> => {
+  // Import here to avoid circular dependency
+  const { refreshFeatureFlagUser } = await import('./featureFlagService');
+  await refreshFeatureFlagUser();
+};
+
+// Per-user storage and cached responses follow whoever is logged in
+const switchStorageUser = async (userId: string | null, wipe?: boolean): Promise<void> => {
+  // Import here to avoid circular dependency
+  const { setStorageUser } = await import('../utils/userStorage');
+  const changed = await setStorageUser(userId, { wipe });
+  if (changed) {
+    const { invalidateCache } = await import('./responseCache');
+    await invalidateCache();
+  }
+};
 
 /**
  * Save user data to local storage
@@ -24,11 +46,13 @@ const AUTH_TOKEN_KEY = '@AgriMart:authToken';
 export const saveUser = async (user: User): Promise<void> => {
   try {
     await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
-    console.log('User data saved successfully');
+    log.debug('User data saved successfully');
   } catch (error) {
-    console.error('Error saving user data:', error);
+    log.error('Error saving user data:', error);
     throw error;
   }
+  await switchStorageUser(user.id);
+  await refreshFeatureFlagsForUser();
 };
 
 /**
@@ -43,7 +67,7 @@ export const getUser = async (): Promise<User | null> => {
     }
     return null;
   } catch (error) {
-    console.error('Error getting user data:', error);
+    log.error('Error getting user data:', error);
     return null;
   }
 };
@@ -51,13 +75,20 @@ export const getUser = async (): Promise<User | null> => {
 /**
  * Save authentication token
  * @param token Authentication token
+ * @param refreshToken Refresh token, when the login response includes one; without
+ * one, a refresh token left by an earlier login is removed
  */
-export const saveAuthToken = async (token: string): Promise<void> => {
+export const saveAuthToken = async (token: string, refreshToken?: string): Promise<void> => {
   try {
     await AsyncStorage.setItem(AUTH_TOKEN_KEY, token);
-    console.log('Auth token saved successfully');
+    if (refreshToken) {
+      await AsyncStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    } else {
+      await AsyncStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+    log.debug('Auth token saved successfully');
   } catch (error) {
-    console.error('Error saving auth token:', error);
+    log.error('Error saving auth token:', error);
     throw error;
   }
 };
@@ -70,22 +101,41 @@ export const getAuthToken = async (): Promise<string | null> => {
   try {
     return await AsyncStorage.getItem(AUTH_TOKEN_KEY);
   } catch (error) {
-    console.error('Error getting auth token:', error);
+    log.error('Error getting auth token:', error);
+    return null;
+  }
+};
+
+/**
+ * Get refresh token
+ * @returns Refresh token or null if not found
+ */
+export const getRefreshToken = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+  } catch (error) {
+    log.error('Error getting refresh token:', error);
     return null;
   }
 };
 
 /**
- * Clear user data and authentication token (logout)
+ * Clear user data and authentication tokens (logout). The departing user's
+ * cart, addresses and order drafts are archived under their user id, so they
+ * are back on their next login and hidden from anyone else.
+ * @param options wipeLocalData: remove the departing user's stored data instead of archiving it
  */
-export const clearUserData = async (): Promise<void> => {
+export const clearUserData = async (options: { wipeLocalData?: boolean } = {}): Promise<void> => {
+  // Switch before the user record is gone, while the departing user is still known
+  await switchStorageUser(null, options.wipeLocalData);
   try {
-    await AsyncStorage.multiRemove([USER_STORAGE_KEY, AUTH_TOKEN_KEY]);
-    console.log('User data cleared successfully');
+    await AsyncStorage.multiRemove([USER_STORAGE_KEY, AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY]);
+    log.debug('User data cleared successfully');
   } catch (error) {
-    console.error('Error clearing user data:', error);
+    log.error('Error clearing user data:', error);
     throw error;
   }
+  await refreshFeatureFlagsForUser();
 };
 
 /**
@@ -120,7 +170,7 @@ export const updateUserProfile = async (userData: Partial<User>): Promise<ApiRes
 
     return { success: true, data: updatedUser };
   } catch (error) {
-    console.error('Error updating user profile:', error);
+    log.error('Error updating user profile:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return { success: false, error: errorMessage };
   }
@@ -152,7 +202,7 @@ export const fetchCurrentUserFromApi = async (): Promise<User | null> => {
     }
     return null;
   } catch (error) {
-    console.error('Error fetching current user from /api/Authentication/me:', error);
+    log.error('Error fetching current user from /api/Authentication/me:', error);
     return null;
   }
 };
@@ -162,6 +212,7 @@ export default {
   getUser,
   saveAuthToken,
   getAuthToken,
+  getRefreshToken,
   clearUserData,
   isAuthenticated,
   updateUserProfile,
@@ -0,0 +1,144 @@
+// frontend/src/services/versionService.ts
+// Compares this build with the versions the server supports and gates the app on it
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { APP_VERSION } from './apiConfig';
+import { apiRequest } from './apiCore';
+import { API_ENDPOINTS } from './apiEndpoints';
+import { resetToRoute } from '../navigation/navigationRef';
+import { createLogger } from './logger';
+
+const log = createLogger('version');
+
+// 'update-required' blocks the app; 'update-available' shows a dismissible banner
+export type VersionStatus = 'current' | 'update-available' | 'update-required';
+
+export interface VersionInfo {
+  status: VersionStatus;
+  currentVersion: string;
+  minimumVersion?: string;
+  recommendedVersion?: string;
+  updateUrl?: string; // Store page for this platform, sent by the server
+  releaseNotes?: string;
+}
+
+interface VersionCheckResponse {
+  minimumVersion?: string;
+  recommendedVersion?: string;
+  latestVersion?: string; // Older servers only send this; treated as the recommended version
+  updateUrl?: string | null;
+  releaseNotes?: string | null;
+}
+
+type VersionListener = (info: VersionInfo) => void;
+
+// Storage keys
+const DISMISSED_UPDATE_KEY = '@AgriMart:dismissedUpdateVersion';
+
+let versionInfo: VersionInfo = { status: 'current', currentVersion: APP_VERSION };
+const listeners = new Set<VersionListener>();
+
+const setVersionInfo = (info: VersionInfo) => {
+  versionInfo = info;
+  listeners.forEach(listener => listener(versionInfo));
+};
+
+/**
+ * Compare two dotted version numbers
+ * @returns A negative number if a is older than b, 0 if equal, positive if newer
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  const partsB = b.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+};
+
+const isVersion = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d+(\.\d+)*/.test(value);
+
+/**
+ * Ask the server which versions it supports. Without an answer the app is
+ * treated as current, so an offline user is never locked out.
+ */
+export const checkAppVersion = async (signal?: AbortSignal): Promise<VersionInfo> => {
+  const endpoint = `${API_ENDPOINTS.UTILITY.VERSION_CHECK}?platform=${Platform.OS}&version=${APP_VERSION}`;
+  const result = await apiRequest<null, VersionCheckResponse>(endpoint, 'GET', undefined, { signal });
+  if (!result.success || !result.data) {
+    log.warn('Version check failed, continuing with this version:', result.error);
+    return versionInfo;
+  }
+
+  const { minimumVersion, releaseNotes, updateUrl } = result.data;
+  const recommendedVersion = result.data.recommendedVersion || result.data.latestVersion;
+  let status: VersionStatus = 'current';
+  if (isVersion(minimumVersion) && compareVersions(APP_VERSION, minimumVersion) < 0) {
+    status = 'update-required';
+  } else if (isVersion(recommendedVersion) && compareVersions(APP_VERSION, recommendedVersion) < 0) {
+    const dismissedVersion = await AsyncStorage.getItem(DISMISSED_UPDATE_KEY);
+    status = dismissedVersion === recommendedVersion ? 'current' : 'update-available';
+  }
+
+  log.info(`App version ${APP_VERSION} is ${status}`, { minimumVersion, recommendedVersion });
+  setVersionInfo({
+    status,
+    currentVersion: APP_VERSION,
+    minimumVersion: isVersion(minimumVersion) ? minimumVersion : undefined,
+    recommendedVersion: isVersion(recommendedVersion) ? recommendedVersion : undefined,
+    updateUrl: updateUrl || undefined,
+    releaseNotes: releaseNotes || undefined,
+  });
+  return versionInfo;
+};
+
+/**
+ * Called when the server rejects a request from this version (426 Upgrade Required)
+ */
+export const reportUpgradeRequired = (): void => {
+  if (versionInfo.status === 'update-required') {
+    return;
+  }
+  log.warn(`Server rejected app version ${APP_VERSION}, an update is required`);
+  setVersionInfo({ ...versionInfo, status: 'update-required' });
+  resetToRoute('UpdateRequired');
+};
+
+/**
+ * Hide the soft update banner until a newer version is recommended
+ */
+export const dismissUpdate = async (): Promise<void> => {
+  if (versionInfo.recommendedVersion) {
+    await AsyncStorage.setItem(DISMISSED_UPDATE_KEY, versionInfo.recommendedVersion);
+  }
+  setVersionInfo({ ...versionInfo, status: 'current' });
+};
+
+export const getVersionInfo = (): VersionInfo => versionInfo;
+
+/**
+ * Subscribe to changes of the version status
+ * @returns Function that removes the listener
+ */
+export const subscribeToVersion = (listener: VersionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const versionService = {
+  compareVersions,
+  checkAppVersion,
+  reportUpgradeRequired,
+  dismissUpdate,
+  getVersionInfo,
+  subscribeToVersion,
+};
+
+export default versionService;
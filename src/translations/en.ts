@@ -1,149 +1,248 @@
-const en = {
-  'Add delivery address': 'Add delivery address',
-  'Chance of Rain:': 'Chance of Rain:',
-  'Feels like': 'Feels like',
-  'Order Now': 'Order Now',
-  'Groceries >': 'Groceries >',
-  'Agri Inputs >': 'Agri Inputs >',
-  'Loading...': 'Loading...',
-  'Call to Shop': 'Call to Shop',
-  'Get help from us whenever you want!': 'Get help from us whenever you want!',
-  'Customer Service': 'Customer Service',
-  'Cancel': 'Cancel',
-  'Call Now': 'Call Now',
-  'Our customer service team is available from 9:00 AM to 6:00 PM, Monday to Saturday.':
-    'Our customer service team is available from 9:00 AM to 6:00 PM, Monday to Saturday.',
-  
-  // OrderNowScreen translations
-  'Manual Order': 'Manual Order',
-  'Product Name': 'Product Name',
-  'Qty': 'Qty',
-  'Units': 'Units',
-  'Action': 'Action',
-  'Add More Products': 'Add More Products',
-  'Submit Order': 'Submit Order',
-  'Order Placed Successfully!': 'Order Placed Successfully!',
-  
-  // ProfileScreen translations
-  'Edit Profile': 'Edit Profile',
-  'My Orders': 'My Orders',
-  'My Address': 'My Address',
-  'Settings': 'Settings',
-  'ಗೌಪ್ಯತಾ ನೀತಿ': 'ಗೌಪ್ಯತಾ ನೀತಿ',
-  'Logout': 'Logout',
-  
-  // MyOrdersScreen translations
-  'Loading your orders...': 'Loading your orders...',
-  'Retry': 'Retry',
-  'Order ID': 'Order ID',
-  'Order Again': 'Order Again',
-  
-  // MyAddressScreen translations
-  'Default': 'Default',
-  'Edit': 'Edit',
-  'Delete': 'Delete',
-  'Add New Address': 'Add New Address',
-  
-  // SettingsScreen translations
-  'Loading settings...': 'Loading settings...',
-  'Notifications': 'Notifications',
-  'Location access': 'Location access',
-  
-  // CartScreen translations
-  'Loading cart...': 'Loading cart...',
-  'Add more': 'Add more',
-  'Subtotal:': 'Subtotal:',
-  'GST:': 'GST:',
-  'Total:': 'Total:',
-  'Delivery Address:': 'Delivery Address:',
-  'Change': 'Change',
-  'Payment Mode:': 'Payment Mode:',
-  'Cash on Delivery': 'Cash on Delivery',
-  'Checkout': 'Checkout',
-  'Items in cart: 0': 'Items in cart: 0',
-  'Check Products': 'Check Products',
-  'Your cart is empty': 'Your cart is empty',
-  'Continue Shopping': 'Continue Shopping',
-  'Remove': 'Remove',
-  'Quantity': 'Quantity',
-  
-  // NotificationScreen translations
-  'Notifications Screen': 'Notifications',
-  'Loading notifications...': 'Loading notifications...',
-  'No notifications yet': 'No notifications yet',
-  'Back to all notifications': 'Back to all notifications',
-  
-  // AgriInputScreen & GroceriesScreen translations
-  'Add to Cart': 'Add to Cart',
-  'Loading products...': 'Loading products...',
-  'No products found': 'No products found',
-  
-  // Additional common words/phrases
-  'Home': 'Home',
-  'Cart': 'Cart',
-  'Profile': 'Profile',
-  'No Orders': 'No Orders',
-  'Order Details': 'Order Details',
-  'Total Amount': 'Total Amount',
-  'Delivery Address': 'Delivery Address',
-  'Payment Method': 'Payment Method',
-  'Order Status': 'Order Status',
-  'Delivered': 'Delivered',
-  'Cancelled': 'Cancelled',
-  'Enter the product name': 'Enter the product name',
-  'Invalid Order': 'Invalid Order',
-  'Please add at least one valid product with quantity.': 'Please add at least one valid product with quantity.',
-  'No Delivery Address': 'No Delivery Address',
-  'You need to add a delivery address before placing an order.': 'You need to add a delivery address before placing an order.',
-  'Add Address': 'Add Address',
-  'Order Failed': 'Order Failed',
-  'Failed to create order. Please try again.': 'Failed to create order. Please try again.',
-  'Error': 'Error',
-  'An unexpected error occurred. Please try again.': 'An unexpected error occurred. Please try again.',
-  
-  // WeatherScreen translations
-  'Weather': 'Weather',
-  'Current Weather': 'Current Weather',
-  'Humidity:': 'Humidity:',
-  'Wind:': 'Wind:',
-  'Pressure:': 'Pressure:',
-  'Visibility:': 'Visibility:',
-  'Sunrise:': 'Sunrise:',
-  'Sunset:': 'Sunset:',
-  'Forecast': 'Forecast',
-  'Today': 'Today',
-  'Tomorrow': 'Tomorrow',
-  'Weather Alerts': 'Weather Alerts',
-  'No weather alerts for your location': 'No weather alerts for your location',
-  'Weather data not available': 'Weather data not available',
-  'Refresh': 'Refresh',
-  
-  // Admin screens
-  'Processing Orders': 'Processing Orders',
-  'New Orders': 'New Orders',
-  'All': 'All',
-  'Processing': 'Processing',
-  'New': 'New',
-  'No orders found': 'No orders found',
-  'Orders placed by customers will appear here': 'Orders placed by customers will appear here',
-  'Customer': 'Customer',
-  'N/A': 'N/A',
-  'Status': 'Status',
-  'Inventory': 'Inventory',
-  'Add Product': 'Add Product',
-  'Search Inventory': 'Search Inventory',
-  'No products in inventory': 'No products in inventory',
-  'Try a different search term': 'Try a different search term',
-  'Add products to manage your inventory': 'Add products to manage your inventory',
-  'Unit Cost -': 'Unit Cost -',
-  'Available Units -': 'Available Units -',
-  'Category -': 'Category -',
-  'Product Details': 'Product Details',
-  'Save': 'Save',
-  'Success': 'Success',
-  'Product saved successfully!': 'Product saved successfully!',
-  'Please fill in all required fields': 'Please fill in all required fields',
-  'Are you sure you want to logout?': 'Are you sure you want to logout?',
-};
-
-export default en;
+const en = {
+  'Add delivery address': 'Add delivery address',
+  'Chance of Rain:': 'Chance of Rain:',
+  'Feels like': 'Feels like',
+  'Order Now': 'Order Now',
+  'Groceries >': 'Groceries >',
+  'Agri Inputs >': 'Agri Inputs >',
+  'Loading...': 'Loading...',
+  'Call to Shop': 'Call to Shop',
+  'Get help from us whenever you want!': 'Get help from us whenever you want!',
+  'Customer Service': 'Customer Service',
+  'Cancel': 'Cancel',
+  'Call Now': 'Call Now',
+  'Our customer service team is available from 9:00 AM to 6:00 PM, Monday to Saturday.':
+    'Our customer service team is available from 9:00 AM to 6:00 PM, Monday to Saturday.',
+  
+  // OrderNowScreen translations
+  'Manual Order': 'Manual Order',
+  'Product Name': 'Product Name',
+  'Qty': 'Qty',
+  'Units': 'Units',
+  'Action': 'Action',
+  'Add More Products': 'Add More Products',
+  'Submit Order': 'Submit Order',
+  'Order Placed Successfully!': 'Order Placed Successfully!',
+  
+  // ProfileScreen translations
+  'Edit Profile': 'Edit Profile',
+  'My Orders': 'My Orders',
+  'My Address': 'My Address',
+  'Settings': 'Settings',
+  'ಗೌಪ್ಯತಾ ನೀತಿ': 'ಗೌಪ್ಯತಾ ನೀತಿ',
+  'Logout': 'Logout',
+  
+  // MyOrdersScreen translations
+  'Loading your orders...': 'Loading your orders...',
+  'Retry': 'Retry',
+  'Order ID': 'Order ID',
+  'Order Again': 'Order Again',
+  
+  // MyAddressScreen translations
+  'Default': 'Default',
+  'Edit': 'Edit',
+  'Delete': 'Delete',
+  'Add New Address': 'Add New Address',
+  
+  // SettingsScreen translations
+  'Loading settings...': 'Loading settings...',
+  'Notifications': 'Notifications',
+  'Location access': 'Location access',
+  
+  // CartScreen translations
+  'Loading cart...': 'Loading cart...',
+  'Add more': 'Add more',
+  'Subtotal:': 'Subtotal:',
+  'GST:': 'GST:',
+  'Total:': 'Total:',
+  'Delivery Address:': 'Delivery Address:',
+  'Change': 'Change',
+  'Payment Mode:': 'Payment Mode:',
+  'Cash on Delivery': 'Cash on Delivery',
+  'Checkout': 'Checkout',
+  'Items in cart: 0': 'Items in cart: 0',
+  'Check Products': 'Check Products',
+  'Your cart is empty': 'Your cart is empty',
+  'Continue Shopping': 'Continue Shopping',
+  'Remove': 'Remove',
+  'Quantity': 'Quantity',
+  
+  // NotificationScreen translations
+  'Notifications Screen': 'Notifications',
+  'Loading notifications...': 'Loading notifications...',
+  'No notifications yet': 'No notifications yet',
+  'Back to all notifications': 'Back to all notifications',
+  
+  // AgriInputScreen & GroceriesScreen translations
+  'Add to Cart': 'Add to Cart',
+  'Loading products...': 'Loading products...',
+  'No products found': 'No products found',
+  
+  // Additional common words/phrases
+  'Home': 'Home',
+  'Cart': 'Cart',
+  'Profile': 'Profile',
+  'No Orders': 'No Orders',
+  'Order Details': 'Order Details',
+  'Total Amount': 'Total Amount',
+  'Delivery Address': 'Delivery Address',
+  'Payment Method': 'Payment Method',
+  'Order Status': 'Order Status',
+  'Delivered': 'Delivered',
+  'Cancelled': 'Cancelled',
+  'Enter the product name': 'Enter the product name',
+  'Invalid Order': 'Invalid Order',
+  'Please add at least one valid product with quantity.': 'Please add at least one valid product with quantity.',
+  'No Delivery Address': 'No Delivery Address',
+  'You need to add a delivery address before placing an order.': 'You need to add a delivery address before placing an order.',
+  'Add Address': 'Add Address',
+  'Order Failed': 'Order Failed',
+  'Failed to create order. Please try again.': 'Failed to create order. Please try again.',
+  'Error': 'Error',
+  'An unexpected error occurred. Please try again.': 'An unexpected error occurred. Please try again.',
+  
+  // WeatherScreen translations
+  'Weather': 'Weather',
+  'Current Weather': 'Current Weather',
+  'Humidity:': 'Humidity:',
+  'Wind:': 'Wind:',
+  'Pressure:': 'Pressure:',
+  'Visibility:': 'Visibility:',
+  'Sunrise:': 'Sunrise:',
+  'Sunset:': 'Sunset:',
+  'Forecast': 'Forecast',
+  'Today': 'Today',
+  'Tomorrow': 'Tomorrow',
+  'Weather Alerts': 'Weather Alerts',
+  'No weather alerts for your location': 'No weather alerts for your location',
+  'Weather data not available': 'Weather data not available',
+  'Refresh': 'Refresh',
+  
+  // Admin screens
+  'Processing Orders': 'Processing Orders',
+  'New Orders': 'New Orders',
+  'All': 'All',
+  'Processing': 'Processing',
+  'New': 'New',
+  'No orders found': 'No orders found',
+  'Orders placed by customers will appear here': 'Orders placed by customers will appear here',
+  'Customer': 'Customer',
+  'N/A': 'N/A',
+  'Status': 'Status',
+  'Inventory': 'Inventory',
+  'Add Product': 'Add Product',
+  'Search Inventory': 'Search Inventory',
+  'No products in inventory': 'No products in inventory',
+  'Try a different search term': 'Try a different search term',
+  'Add products to manage your inventory': 'Add products to manage your inventory',
+  'Unit Cost -': 'Unit Cost -',
+  'Available Units -': 'Available Units -',
+  'Category -': 'Category -',
+  'Product Details': 'Product Details',
+  'Save': 'Save',
+  'Success': 'Success',
+  'Product saved successfully!': 'Product saved successfully!',
+  'Please fill in all required fields': 'Please fill in all required fields',
+  'Are you sure you want to logout?': 'Are you sure you want to logout?',
+
+  // Offline outbox translations
+  'Waiting to be sent': 'Waiting to be sent',
+  'Waiting for connection': 'Waiting for connection',
+  'Needs attention': 'Needs attention',
+  'Could not be placed': 'Could not be placed',
+  'Sent': 'Sent',
+  'Discard': 'Discard',
+  'Order Saved Offline': 'Order Saved Offline',
+  'Your order will be placed automatically when the connection returns. You can follow it in My Orders.':
+    'Your order will be placed automatically when the connection returns. You can follow it in My Orders.',
+
+  // Circuit breaker translations
+  'Server unavailable. Changes will be sent when it is back.': 'Server unavailable. Changes will be sent when it is back.',
+
+  // Connectivity translations
+  'You are offline. Changes will be sent when the connection returns.':
+    'You are offline. Changes will be sent when the connection returns.',
+
+  // App update translations
+  'A new version of AgriMart is available.': 'A new version of AgriMart is available.',
+  'Update': 'Update',
+  'Update required': 'Update required',
+  'This version of AgriMart is no longer supported. Please update the app to continue.':
+    'This version of AgriMart is no longer supported. Please update the app to continue.',
+  'Installed version': 'Installed version',
+  'Required version': 'Required version',
+  'Update now': 'Update now',
+  'Please install the latest version from your app store.': 'Please install the latest version from your app store.',
+
+  // Image upload translations
+  'Add Image': 'Add Image',
+  'Uploading image...': 'Uploading image...',
+  'The image could not be uploaded.': 'The image could not be uploaded.',
+  'The image will be uploaded when the connection returns.': 'The image will be uploaded when the connection returns.',
+
+  // Cart sync translations
+  'Your cart was also changed on another device. The latest changes were kept:':
+    'Your cart was also changed on another device. The latest changes were kept:',
+  'removed': 'removed',
+  'this phone': 'this phone',
+  'other device': 'other device',
+
+  // Logout translations
+  'Logout and clear data': 'Logout and clear data',
+
+  // Checkout review translations
+  'Review your order': 'Review your order',
+  'Some items changed since you added them to the cart:': 'Some items changed since you added them to the cart:',
+  'Price changed': 'Price changed',
+  'Only': 'Only',
+  'left': 'left',
+  'you had': 'you had',
+  'No longer available, removed from the order': 'No longer available, removed from the order',
+  'New total:': 'New total:',
+  'None of the items in your cart can be ordered.': 'None of the items in your cart can be ordered.',
+  'Back to cart': 'Back to cart',
+  'Place order': 'Place order',
+  'At most': 'At most',
+  'per order': 'per order',
+  'Minimum order': 'Minimum order',
+
+  // Stock limit translations
+  'Out of stock': 'Out of stock',
+
+  // Delivery charge translations
+  'Delivery:': 'Delivery:',
+  'Free': 'Free',
+  'Add': 'Add',
+  'more for free delivery': 'more for free delivery',
+
+  // GST translations
+  'GST': 'GST',
+  'GST exempt': 'GST exempt',
+  'CGST:': 'CGST:',
+  'SGST:': 'SGST:',
+  'IGST:': 'IGST:',
+  'HSN Code:': 'HSN Code:',
+  'GST Rate': 'GST Rate',
+  'Exempt': 'Exempt',
+  'Order details': 'Order details',
+  'Could not load the order': 'Could not load the order',
+
+  // Unit of measure translations
+  'kg': 'kg',
+  'g': 'g',
+  'litre': 'litre',
+  'ml': 'ml',
+  'bag': 'bag',
+  'packet': 'packet',
+  'piece': 'piece',
+  'Sold per': 'Sold per',
+  'Pack size:': 'Pack size:',
+  'Quantity step:': 'Quantity step:',
+  'A whole number, e.g. 5 to sell seedlings in fives': 'A whole number, e.g. 5 to sell seedlings in fives',
+  'Invalid Quantity': 'Invalid Quantity',
+  'is sold per': 'is sold per',
+  'not in': 'not in',
+  'is sold in steps of': 'is sold in steps of',
+};
+
+export default en;
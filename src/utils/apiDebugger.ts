@@ -1,6 +1,9 @@
 // frontend/src/utils/apiDebugger.ts
-import { API_BASE_URL } from '../services/apiConfig';
+import { getApiBaseUrl } from '../services/environmentService';
 import userService from '../services/userService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('debug');
 
 /**
  * Utility function to debug API connection issues
@@ -8,24 +11,24 @@ import userService from '../services/userService';
  */
 export async function debugApiConnection(): Promise<string> {
   try {
-    console.log('=== API Connection Debugger ===');
-    console.log(`Base URL: ${API_BASE_URL}`);
+    log.debug('=== API Connection Debugger ===');
+    log.debug(`Base URL: ${getApiBaseUrl()}`);
     
     // Check if we have an auth token
     const token = await userService.getAuthToken();
-    console.log(`Auth Token: ${token ? 'Present' : 'Not found'}`);
+    log.debug(`Auth Token: ${token ? 'Present' : 'Not found'}`);
     if (token) {
-      console.log(`Token preview: ${token.substring(0, 15)}...`);
+      log.debug(`Token preview: ${token.substring(0, 15)}...`);
     }
     
     // Try a simple fetch to the API
-    console.log('Testing API connection...');
+    log.debug('Testing API connection...');
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 10000);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/api/health`, {
+      const response = await fetch(`${getApiBaseUrl()}/api/health`, {
         method: 'GET',
         headers: {
           'ngrok-skip-browser-warning': 'true',
@@ -37,21 +40,21 @@ export async function debugApiConnection(): Promise<string> {
       
       clearTimeout(timeoutId);
       
-      console.log(`API response status: ${response.status}`);
+      log.debug(`API response status: ${response.status}`);
       if (response.ok) {
         const text = await response.text();
-        console.log(`API response: ${text}`);
+        log.debug(`API response: ${text}`);
         return 'API connection successful';
       } else {
         return `API connection failed with status: ${response.status}`;
       }
     } catch (fetchError) {
       clearTimeout(timeoutId);
-      console.error('Fetch error:', fetchError);
+      log.error('Fetch error:', fetchError);
       return `API fetch error: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`;
     }
   } catch (error) {
-    console.error('Debug error:', error);
+    log.error('Debug error:', error);
     return `Debug error: ${error instanceof Error ? error.message : String(error)}`;
   }
 }
@@ -66,13 +69,13 @@ export async function testApiWithToken(): Promise<string> {
       return 'No auth token found';
     }
     
-    console.log('Testing API with token...');
+    log.debug('Testing API with token...');
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 15000);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/api/UserProfiles/current`, {
+      const response = await fetch(`${getApiBaseUrl()}/api/UserProfiles/current`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -87,23 +90,23 @@ export async function testApiWithToken(): Promise<string> {
       
       clearTimeout(timeoutId);
       
-      console.log(`API auth test status: ${response.status}`);
+      log.debug(`API auth test status: ${response.status}`);
       if (response.ok) {
         const data = await response.json();
-        console.log('User profile data:', data);
+        log.debug('User profile data:', data);
         return 'Authentication successful';
       } else {
         const text = await response.text();
-        console.error('Auth error response:', text);
+        log.error('Auth error response:', text);
         return `Authentication failed with status: ${response.status}`;
       }
     } catch (fetchError) {
       clearTimeout(timeoutId);
-      console.error('Auth test error:', fetchError);
+      log.error('Auth test error:', fetchError);
       return `Auth test error: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`;
     }
   } catch (error) {
-    console.error('Auth test error:', error);
+    log.error('Auth test error:', error);
     return `Auth test error: ${error instanceof Error ? error.message : String(error)}`;
   }
 }
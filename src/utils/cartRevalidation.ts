@@ -0,0 +1,157 @@
+// Cart Revalidation
+// Checks the cart against the current products before an order is placed
+
+import { productsApi, Product } from '../services/apiService';
+import { isApiErrorKind } from '../services/apiErrors';
+import { CartItem } from './cartStorage';
+import { clampQuantity, getQuantityLimits } from './quantityLimits';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('cart');
+
+// Prices within this of each other are treated as unchanged
+const PRICE_TOLERANCE = 0.005;
+
+export type CartItemChangeKind = 'price' | 'unavailable' | 'stock' | 'maximum' | 'minimum';
+
+// A difference between a cart item and its product as the server has it now
+export interface CartItemChange {
+  productId: string;
+  name: string;
+  kind: CartItemChangeKind;
+  oldPrice?: number; // Set for 'price'
+  newPrice?: number; // Set for 'price'
+  requestedQuantity?: number; // Set for the quantity changes: 'stock', 'maximum' and 'minimum'
+  availableQuantity?: number; // Set for the quantity changes; the quantity that can be ordered
+  unitOfMeasure?: string; // The unit of both quantities
+}
+
+export interface CartRevalidationResult {
+  items: CartItem[]; // The cart with current prices, GST rates and stock, unavailable items removed and quantities cut to the limits
+  changes: CartItemChange[];
+  uncheckedCount: number; // Items whose product could not be fetched; kept as they are
+  cancelled: boolean;
+}
+
+type ProductLookup =
+  | { status: 'found'; product: Product }
+  | { status: 'missing' }
+  | { status: 'unknown'; cancelled: boolean };
+
+const fetchProduct = async (productId: string, signal?: AbortSignal): Promise<ProductLookup> => {
+  // Always ask the server; a cached price is what we are checking against
+  const response = await productsApi.getById(productId, signal, true);
+  if (response.success && response.data) {
+    return { status: 'found', product: response.data };
+  }
+  if (isApiErrorKind(response, 'not-found')) {
+    return { status: 'missing' };
+  }
+  return { status: 'unknown', cancelled: isApiErrorKind(response, 'cancelled') };
+};
+
+// Compare one cart item with its product; returns the item to keep (null to
+// drop it) and what changed
+const revalidateItem = (
+  item: CartItem,
+  lookup: ProductLookup
+): { item: CartItem | null; changes: CartItemChange[] } => {
+  if (lookup.status === 'unknown') {
+    return { item, changes: [] };
+  }
+
+  const unavailable: CartItemChange = { productId: item.id, name: item.name, kind: 'unavailable' };
+  if (lookup.status === 'missing') {
+    return { item: null, changes: [unavailable] };
+  }
+
+  const { product } = lookup;
+  const stock = product.stockQuantity;
+  if (product.isActive === false || (stock !== undefined && stock <= 0)) {
+    return { item: null, changes: [unavailable] };
+  }
+
+  const changes: CartItemChange[] = [];
+  let revised: CartItem = {
+    ...item,
+    stockQuantity: stock,
+    minOrderQuantity: product.minOrderQuantity,
+    maxOrderQuantity: product.maxOrderQuantity,
+    hsnCode: product.hsnCode,
+    taxRate: product.taxRate,
+    unitOfMeasure: product.unitOfMeasure,
+    packSize: product.packSize,
+    packUnit: product.packUnit,
+    quantityStep: product.quantityStep,
+  };
+
+  if (Math.abs(product.price - item.price) >= PRICE_TOLERANCE) {
+    changes.push({
+      productId: item.id,
+      name: item.name,
+      kind: 'price',
+      oldPrice: item.price,
+      newPrice: product.price,
+    });
+    revised = { ...revised, price: product.price };
+  }
+
+  const limits = getQuantityLimits(revised);
+  const quantity = clampQuantity(Math.max(item.quantity, limits.min), limits);
+  if (quantity === 0) {
+    return { item: null, changes: [unavailable] };
+  }
+  if (quantity !== item.quantity) {
+    changes.push({
+      productId: item.id,
+      name: item.name,
+      kind: quantity > item.quantity ? 'minimum' : quantity === stock ? 'stock' : 'maximum',
+      requestedQuantity: item.quantity,
+      availableQuantity: quantity,
+      unitOfMeasure: revised.unitOfMeasure,
+    });
+    revised = { ...revised, quantity };
+  }
+
+  return { item: revised, changes };
+};
+
+/**
+ * Re-fetch every product in the cart and compare price, isActive and
+ * stockQuantity with the cart. Items whose product cannot be fetched, for
+ * example while offline, are left unchecked so the order can still be queued.
+ * @param cartItems The cart about to be ordered
+ * @param signal Aborts the product requests
+ */
+export const revalidateCart = async (
+  cartItems: CartItem[],
+  signal?: AbortSignal
+): Promise<CartRevalidationResult> => {
+  const lookups = await Promise.all(cartItems.map(item => fetchProduct(item.id, signal)));
+
+  const items: CartItem[] = [];
+  const changes: CartItemChange[] = [];
+  let uncheckedCount = 0;
+  let cancelled = false;
+
+  cartItems.forEach((item, index) => {
+    const lookup = lookups[index];
+    if (lookup.status === 'unknown') {
+      uncheckedCount += 1;
+      cancelled = cancelled || lookup.cancelled;
+    }
+    const outcome = revalidateItem(item, lookup);
+    if (outcome.item) {
+      items.push(outcome.item);
+    }
+    changes.push(...outcome.changes);
+  });
+
+  if (changes.length > 0) {
+    log.info(`Cart revalidation found ${changes.length} change(s)`);
+  }
+  if (uncheckedCount > 0) {
+    log.warn(`Could not revalidate ${uncheckedCount} cart item(s)`);
+  }
+  return { items, changes, uncheckedCount, cancelled };
+};
@@ -1,93 +1,146 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-export interface CartItem {
-  id: string;
-  name: string;
-  price: number;
-  image: any;
-  description?: string;
-  quantity: number;
-  source?: 'groceries' | 'agri-input';
-}
-
-const CART_STORAGE_KEY = '@cart_items';
-
-export const getCartItems = async (): Promise<CartItem[]> => {
-  try {
-    const cartData = await AsyncStorage.getItem(CART_STORAGE_KEY);
-    return cartData ? JSON.parse(cartData) : [];
-  } catch (error) {
-    console.error('Error getting cart items:', error);
-    return [];
-  }
-};
-
-
-export const saveCartItems = async (cartItems: CartItem[]): Promise<void> => {
-  try {
-    await AsyncStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cartItems));
-  } catch (error) {
-    console.error('Error saving cart items:', error);
-  }
-};
-
-export const addToCart = async (product: Omit<CartItem, 'quantity'>): Promise<CartItem[]> => {
-  try {
-    const currentCart = await getCartItems();
-    const existingItem = currentCart.find(item => item.id === product.id);
-    
-    let updatedCart: CartItem[];
-    if (existingItem) {
-      updatedCart = currentCart.map(item =>
-        item.id === product.id
-          ? { ...item, quantity: item.quantity + 1 }
-          : item
-      );
-    } else {
-      updatedCart = [...currentCart, { ...product, quantity: 1 }];
-    }
-    
-    await saveCartItems(updatedCart);
-    return updatedCart;
-  } catch (error) {
-    console.error('Error adding to cart:', error);
-    return [];
-  }
-};
-
-export const removeFromCart = async (productId: string): Promise<CartItem[]> => {
-  try {
-    const currentCart = await getCartItems();
-    const existingItem = currentCart.find(item => item.id === productId);
-    
-    let updatedCart: CartItem[];
-    if (existingItem && existingItem.quantity > 1) {
-      updatedCart = currentCart.map(item =>
-        item.id === productId
-          ? { ...item, quantity: item.quantity - 1 }
-          : item
-      );
-    } else {
-      updatedCart = currentCart.filter(item => item.id !== productId);
-    }
-    
-    await saveCartItems(updatedCart);
-    return updatedCart;
-  } catch (error) {
-    console.error('Error removing from cart:', error);
-    return [];
-  }
-};
-
-export const clearCart = async (): Promise<void> => {
-  try {
-    await AsyncStorage.removeItem(CART_STORAGE_KEY);
-  } catch (error) {
-    console.error('Error clearing cart:', error);
-  }
-};
-
-export const getCartItemQuantity = (cartItems: CartItem[], productId: string): number => {
-  const item = cartItems.find(item => item.id === productId);
-  return item ? item.quantity : 0;
+import { getUserItem, setUserItem } from './userStorage';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('cart');
+
+export interface CartItem {
+  id: string;
+  name: string;
+  price: number;
+  image: any;
+  description?: string;
+  quantity: number;
+  source?: 'groceries' | 'agri-input';
+  stockQuantity?: number; // Last known stock of the product
+  minOrderQuantity?: number;
+  maxOrderQuantity?: number;
+  hsnCode?: string;
+  taxRate?: number; // GST of the product; the config's rate when not known
+  unitOfMeasure?: string; // The unit quantity and price are in; see utils/units.ts
+  packSize?: number;
+  packUnit?: string;
+  quantityStep?: number;
+  updatedAt?: string; // When the item was last added or changed on this device
+  deletedAt?: string; // Set on a removed item, kept as a tombstone until the next cart sync
+}
+
+// Stored per user, see userStorage
+const CART_STORAGE_KEY = '@cart_items';
+
+// Tombstones that never get synced are dropped after this long
+const TOMBSTONE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const isLiveItem = (item: CartItem) => !item.deletedAt;
+
+/**
+ * Get every stored cart item, including the tombstones of removed ones
+ */
+export const getStoredCartItems = async (): Promise<CartItem[]> => {
+  try {
+    const cartData = await getUserItem(CART_STORAGE_KEY);
+    return cartData ? JSON.parse(cartData) : [];
+  } catch (error) {
+    log.error('Error getting cart items:', error);
+    return [];
+  }
+};
+
+export const getCartItems = async (): Promise<CartItem[]> =>
+  (await getStoredCartItems()).filter(isLiveItem);
+
+/**
+ * Store the stored items as they are, tombstones included. Used by the cart
+ * sync, which sets the timestamps itself.
+ */
+export const replaceStoredCartItems = async (items: CartItem[]): Promise<void> => {
+  try {
+    await setUserItem(CART_STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    log.error('Error saving cart items:', error);
+  }
+};
+
+// Stamp what changed since the stored cart: new or changed items get a new
+// updatedAt, and items that are gone are kept as tombstones
+const stampChanges = (previous: CartItem[], next: CartItem[]): CartItem[] => {
+  const now = new Date();
+  const timestamp = now.toISOString();
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  const liveItems = next.map(({ deletedAt, ...item }) => {
+    const before = previousById.get(item.id);
+    const unchanged = before && isLiveItem(before) && before.quantity === item.quantity;
+    return { ...item, updatedAt: unchanged ? before.updatedAt || item.updatedAt || timestamp : timestamp };
+  });
+
+  const tombstones = previous
+    .filter(item => !nextIds.has(item.id))
+    .map(item => (isLiveItem(item) ? { ...item, deletedAt: timestamp, updatedAt: timestamp } : item))
+    .filter(item => now.getTime() - Date.parse(item.deletedAt as string) < TOMBSTONE_MAX_AGE_MS);
+
+  return [...liveItems, ...tombstones];
+};
+
+export const saveCartItems = async (cartItems: CartItem[]): Promise<void> => {
+  const previous = await getStoredCartItems();
+  await replaceStoredCartItems(stampChanges(previous, cartItems.filter(isLiveItem)));
+};
+
+export const addToCart = async (product: Omit<CartItem, 'quantity'>): Promise<CartItem[]> => {
+  try {
+    const currentCart = await getCartItems();
+    const existingItem = currentCart.find(item => item.id === product.id);
+    
+    let updatedCart: CartItem[];
+    if (existingItem) {
+      updatedCart = currentCart.map(item =>
+        item.id === product.id
+          ? { ...item, quantity: item.quantity + 1 }
+          : item
+      );
+    } else {
+      updatedCart = [...currentCart, { ...product, quantity: 1 }];
+    }
+    
+    await saveCartItems(updatedCart);
+    return updatedCart;
+  } catch (error) {
+    log.error('Error adding to cart:', error);
+    return [];
+  }
+};
+
+export const removeFromCart = async (productId: string): Promise<CartItem[]> => {
+  try {
+    const currentCart = await getCartItems();
+    const existingItem = currentCart.find(item => item.id === productId);
+    
+    let updatedCart: CartItem[];
+    if (existingItem && existingItem.quantity > 1) {
+      updatedCart = currentCart.map(item =>
+        item.id === productId
+          ? { ...item, quantity: item.quantity - 1 }
+          : item
+      );
+    } else {
+      updatedCart = currentCart.filter(item => item.id !== productId);
+    }
+    
+    await saveCartItems(updatedCart);
+    return updatedCart;
+  } catch (error) {
+    log.error('Error removing from cart:', error);
+    return [];
+  }
+};
+
+// Emptying the cart leaves tombstones, so the removals reach the server cart too
+export const clearCart = async (): Promise<void> => {
+  await saveCartItems([]);
+};
+
+export const getCartItemQuantity = (cartItems: CartItem[], productId: string): number => {
+  const item = cartItems.find(item => item.id === productId);
+  return item ? item.quantity : 0;
 };
\ No newline at end of file
@@ -1,171 +1,312 @@
-// Cart Synchronization Manager
-// This utility helps keep frontend and backend cart states in sync
-
-import { cartApi } from '../services/apiService';
-import { getCartItems, saveCartItems } from '../utils/cartStorage';
-import { getUser } from '../services/userService';
-
-export interface CartSyncResult {
-  success: boolean;
-  localItems: any[];
-  backendItems: any[];
-  synced: boolean;
-  issues: string[];
-}
-
-// Sync local cart with backend cart
-export const syncCartWithBackend = async (): Promise<CartSyncResult> => {
-  console.log('🔄 Starting cart synchronization...');
-  
-  const result: CartSyncResult = {
-    success: false,
-    localItems: [],
-    backendItems: [],
-    synced: false,
-    issues: []
-  };
-
-  try {
-    // Get local cart items
-    const localItems = await getCartItems();
-    result.localItems = localItems || [];
-    console.log('📱 Local cart items:', result.localItems.length);
-
-    // Get current user
-    const user = await getUser();
-    if (!user) {
-      result.issues.push('No user logged in');
-      return result;
-    }
-
-    // Get backend cart items
-    const backendResponse = await cartApi.getCart(user.id);
-    if (backendResponse.success && backendResponse.data) {
-      result.backendItems = Array.isArray(backendResponse.data) 
-        ? backendResponse.data 
-        : backendResponse.data.items || [];
-      console.log('🌐 Backend cart items:', result.backendItems.length);
-    } else {
-      console.log('🌐 Backend cart is empty or failed to fetch');
-      result.backendItems = [];
-    }
-
-    // Compare and sync
-    const syncRequired = !arraysEqual(
-      result.localItems.map(item => ({ id: item.productId || item.id, qty: item.quantity })),
-      result.backendItems.map(item => ({ id: item.productId || item.id, qty: item.quantity }))
-    );
-
-    if (syncRequired) {
-      console.log('🔄 Cart sync required - items differ between local and backend');
-      
-      // For now, prioritize local cart (user's latest actions)
-      // Push local cart state to backend
-      for (const localItem of result.localItems) {
-        try {
-          const productId = localItem.productId || localItem.id;
-          await cartApi.updateQuantity(productId, localItem.quantity);
-          console.log(`✅ Synced item ${productId} with quantity ${localItem.quantity}`);
-        } catch (error) {
-          console.warn(`⚠️ Failed to sync item ${localItem.productId || localItem.id}:`, error);
-          result.issues.push(`Failed to sync item ${localItem.productId || localItem.id}`);
-        }
-      }
-      
-      result.synced = true;
-    } else {
-      console.log('✅ Cart already in sync');
-      result.synced = true;
-    }
-
-    result.success = true;
-
-  } catch (error) {
-    console.error('❌ Cart sync failed:', error);
-    result.issues.push(`Sync error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-
-  console.log('🔄 Cart sync completed:', result);
-  return result;
-};
-
-// Helper function to compare arrays
-function arraysEqual(a: any[], b: any[]): boolean {
-  if (a.length !== b.length) return false;
-  
-  const sortedA = [...a].sort((x, y) => x.id.localeCompare(y.id));
-  const sortedB = [...b].sort((x, y) => x.id.localeCompare(y.id));
-  
-  return sortedA.every((item, index) => {
-    const otherItem = sortedB[index];
-    return item.id === otherItem.id && item.qty === otherItem.qty;
-  });
-}
-
-// Remove item with better error handling
-export const removeItemSafely = async (productId: string): Promise<{ success: boolean; error?: string }> => {
-  console.log('🗑️ Safely removing item from cart:', productId);
-  
-  try {
-    // First try POST with quantity 0 (usually more reliable)
-    let result = await cartApi.removeItem(productId);
-    
-    if (result.success) {
-      console.log('✅ Item removed via POST quantity=0');
-      return { success: true };
-    }
-    
-    // If POST fails, try DELETE
-    result = await cartApi.deleteItem(productId);
-    
-    if (result.success) {
-      console.log('✅ Item removed via DELETE');
-      return { success: true };
-    }
-    
-    // If both fail with "not found", consider it success
-    if (result.error?.includes('not found') || result.error?.includes('Item not found')) {
-      console.log('✅ Item already removed (not found in backend)');
-      return { success: true };
-    }
-    
-    console.error('❌ Failed to remove item:', result.error);
-    return { success: false, error: result.error };
-    
-  } catch (error) {
-    console.error('❌ Error removing item:', error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    };
-  }
-};
-
-// Add/update item with better error handling  
-export const updateItemSafely = async (productId: string, quantity: number): Promise<{ success: boolean; error?: string }> => {
-  console.log('🔄 Safely updating cart item:', { productId, quantity });
-  
-  if (quantity === 0) {
-    return removeItemSafely(productId);
-  }
-  
-  try {
-    // Use the smart cart operation
-    const result = await cartApi.smartCartOperation(productId, quantity, false);
-    
-    if (result.success) {
-      console.log('✅ Item updated successfully');
-      return { success: true };
-    }
-    
-    console.error('❌ Failed to update item:', result.error);
-    return { success: false, error: result.error };
-    
-  } catch (error) {
-    console.error('❌ Error updating item:', error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    };
-  }
+// Cart Synchronization Manager
+// This utility helps keep frontend and backend cart states in sync
+
+import { cartApi, CartItemDto } from '../services/apiService';
+import { isApiErrorKind } from '../services/apiErrors';
+import { CartItem, getStoredCartItems, replaceStoredCartItems } from '../utils/cartStorage';
+import { getUser } from '../services/userService';
+import { getUserItem, setUserItem } from './userStorage';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('cart');
+
+// An item that both this device and the server changed since the last sync
+export interface CartConflict {
+  productId: string;
+  name: string;
+  baseQuantity?: number; // At the last sync; unknown before the first one
+  localQuantity: number; // 0 when removed
+  remoteQuantity: number; // 0 when removed
+  resolvedQuantity: number;
+  resolution: 'local' | 'remote'; // Whose change was kept: the newer one
+}
+
+export interface CartSyncResult {
+  success: boolean;
+  localItems: CartItem[];
+  backendItems: CartItemDto[];
+  synced: boolean;
+  issues: string[];
+  mergedItems: CartItem[]; // The cart after the merge
+  conflicts: CartConflict[];
+}
+
+// The cart as it was after the last successful sync: the common base of the three-way merge
+interface CartSyncSnapshot {
+  userId: string;
+  syncedAt: string;
+  quantities: Record<string, number>; // By product ID
+}
+
+// Stored per user, see userStorage
+const SYNC_SNAPSHOT_KEY = '@AgriMart:cartSyncSnapshot';
+
+const loadSnapshot = async (userId: string): Promise<CartSyncSnapshot | null> => {
+  try {
+    const stored = await getUserItem(SYNC_SNAPSHOT_KEY);
+    const snapshot: CartSyncSnapshot | null = stored ? JSON.parse(stored) : null;
+    // Another user's snapshot is no base for this cart
+    return snapshot && snapshot.userId === userId ? snapshot : null;
+  } catch (error) {
+    log.error('Error loading cart sync snapshot:', error);
+    return null;
+  }
+};
+
+const saveSnapshot = async (snapshot: CartSyncSnapshot): Promise<void> => {
+  try {
+    await setUserItem(SYNC_SNAPSHOT_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    log.error('Error saving cart sync snapshot:', error);
+  }
+};
+
+const toTime = (value?: string): number => (value ? Date.parse(value) || 0 : 0);
+
+interface MergeOutcome {
+  quantity: number;
+  conflict?: CartConflict;
+}
+
+/**
+ * Merge one product. A side that did not change it since the base takes the
+ * other side's change; if both changed it differently, the newer change wins.
+ * Before the first sync there is no base, so a side without the item at all
+ * takes the other side's.
+ */
+const mergeItem = (
+  productId: string,
+  base: number | undefined,
+  local: CartItem | undefined,
+  remote: CartItemDto | undefined
+): MergeOutcome => {
+  const localQuantity = local && !local.deletedAt ? local.quantity : 0;
+  const remoteQuantity = remote ? remote.quantity : 0;
+
+  if (localQuantity === remoteQuantity) {
+    return { quantity: localQuantity };
+  }
+  if (base !== undefined && localQuantity === base) {
+    return { quantity: remoteQuantity };
+  }
+  if (base !== undefined && remoteQuantity === base) {
+    return { quantity: localQuantity };
+  }
+  if (base === undefined && !local) {
+    return { quantity: remoteQuantity };
+  }
+  if (base === undefined && !remote) {
+    return { quantity: localQuantity };
+  }
+
+  // Without a server timestamp the change made on this device wins
+  const remoteIsNewer = !!remote?.modifiedDate && toTime(remote.modifiedDate) > toTime(local?.deletedAt || local?.updatedAt);
+  const quantity = remoteIsNewer ? remoteQuantity : localQuantity;
+  return {
+    quantity,
+    conflict: {
+      productId,
+      name: local?.name || remote?.name || remote?.productName || 'Product',
+      baseQuantity: base,
+      localQuantity,
+      remoteQuantity,
+      resolvedQuantity: quantity,
+      resolution: remoteIsNewer ? 'remote' : 'local',
+    },
+  };
+};
+
+// Build the local cart item for a product whose quantity came from the server
+const toCartItem = (local: CartItem | undefined, remote: CartItemDto | undefined, quantity: number, timestamp: string): CartItem => {
+  if (local && !local.deletedAt) {
+    return { ...local, quantity, updatedAt: timestamp };
+  }
+  const { deletedAt, ...restored } = local || ({} as CartItem);
+  return {
+    ...restored,
+    id: String(remote?.productId || local?.id),
+    name: remote?.name || remote?.productName || local?.name || 'Product',
+    price: remote?.price ?? local?.price ?? 0,
+    image: remote?.imageUrl ? { uri: remote.imageUrl } : local?.image || require('../assets/logo.png'),
+    unitOfMeasure: remote?.unitOfMeasure ?? local?.unitOfMeasure,
+    quantity,
+    updatedAt: timestamp,
+  };
+};
+
+/**
+ * Three-way merge of the local cart, the backend cart and the snapshot from
+ * the last sync. Merged quantities that differ from the backend are pushed;
+ * the local cart and the snapshot are then replaced by the merged cart.
+ * Items pushed unsuccessfully keep their local change for the next sync.
+ */
+export const syncCartWithBackend = async (): Promise<CartSyncResult> => {
+  log.debug('🔄 Starting cart synchronization...');
+  
+  const result: CartSyncResult = {
+    success: false,
+    localItems: [],
+    backendItems: [],
+    synced: false,
+    issues: [],
+    mergedItems: [],
+    conflicts: [],
+  };
+
+  try {
+    // Local items, tombstones included
+    const storedItems = await getStoredCartItems();
+    result.localItems = storedItems.filter(item => !item.deletedAt);
+    log.debug('📱 Local cart items:', result.localItems.length);
+
+    // Get current user
+    const user = await getUser();
+    if (!user) {
+      result.issues.push('No user logged in');
+      return result;
+    }
+
+    // Without the backend cart there is nothing to merge with
+    const backendResponse = await cartApi.getCart(user.id);
+    if (!backendResponse.success || !backendResponse.data) {
+      result.issues.push(`Could not load the server cart: ${backendResponse.error || 'no data'}`);
+      return result;
+    }
+    result.backendItems = backendResponse.data.items;
+    log.debug('🌐 Backend cart items:', result.backendItems.length);
+
+    const snapshot = await loadSnapshot(user.id);
+    const localById = new Map(storedItems.map(item => [String(item.id), item]));
+    const remoteById = new Map(result.backendItems.map(item => [String(item.productId), item]));
+    const productIds = new Set([
+      ...localById.keys(),
+      ...remoteById.keys(),
+      ...Object.keys(snapshot?.quantities || {}),
+    ]);
+
+    const timestamp = new Date().toISOString();
+    const storedAfterSync: CartItem[] = [];
+    const quantities: Record<string, number> = {};
+
+    for (const productId of productIds) {
+      const local = localById.get(productId);
+      const remote = remoteById.get(productId);
+      const base = snapshot ? snapshot.quantities[productId] ?? 0 : undefined;
+      const { quantity, conflict } = mergeItem(productId, base, local, remote);
+      const remoteQuantity = remote ? remote.quantity : 0;
+      if (conflict) {
+        result.conflicts.push(conflict);
+      }
+
+      let pushed = true;
+      if (quantity !== remoteQuantity) {
+        const push = quantity > 0
+          ? await updateItemSafely(productId, quantity)
+          : await removeItemSafely(productId);
+        pushed = push.success;
+        if (!pushed) {
+          result.issues.push(`Failed to sync item ${productId}: ${push.error || 'unknown error'}`);
+        }
+      }
+
+      // The snapshot records what the server has, so an unpushed change shows up as local again next time
+      const serverQuantity = pushed ? quantity : remoteQuantity;
+      if (serverQuantity > 0) {
+        quantities[productId] = serverQuantity;
+      }
+
+      if (quantity > 0) {
+        const fromLocal = local && !local.deletedAt && local.quantity === quantity;
+        storedAfterSync.push(fromLocal ? local : toCartItem(local, remote, quantity, timestamp));
+      } else if (!pushed && local?.deletedAt) {
+        // The removal still has to reach the server
+        storedAfterSync.push(local);
+      }
+    }
+
+    await replaceStoredCartItems(storedAfterSync);
+    await saveSnapshot({ userId: user.id, syncedAt: timestamp, quantities });
+
+    result.mergedItems = storedAfterSync.filter(item => !item.deletedAt);
+    result.synced = true;
+    result.success = result.issues.length === 0;
+    if (result.conflicts.length > 0) {
+      log.warn(`🔄 Cart sync settled ${result.conflicts.length} conflict(s):`, result.conflicts);
+    }
+
+  } catch (error) {
+    log.error('❌ Cart sync failed:', error);
+    result.issues.push(`Sync error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  log.debug('🔄 Cart sync completed:', result);
+  return result;
+};
+
+// Remove item with better error handling
+export const removeItemSafely = async (productId: string): Promise<{ success: boolean; error?: string }> => {
+  log.debug('🗑️ Safely removing item from cart:', productId);
+  
+  try {
+    // First try POST with quantity 0 (usually more reliable)
+    let result = await cartApi.removeItem(productId);
+    
+    if (result.success) {
+      log.debug('✅ Item removed via POST quantity=0');
+      return { success: true };
+    }
+    
+    // If POST fails, try DELETE
+    result = await cartApi.deleteItem(productId);
+    
+    if (result.success) {
+      log.debug('✅ Item removed via DELETE');
+      return { success: true };
+    }
+    
+    // If both fail with "not found", consider it success
+    if (isApiErrorKind(result, 'not-found')) {
+      log.debug('✅ Item already removed (not found in backend)');
+      return { success: true };
+    }
+    
+    log.error('❌ Failed to remove item:', result.error);
+    return { success: false, error: result.error };
+    
+  } catch (error) {
+    log.error('❌ Error removing item:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    };
+  }
+};
+
+// Add/update item with better error handling  
+export const updateItemSafely = async (productId: string, quantity: number): Promise<{ success: boolean; error?: string }> => {
+  log.debug('🔄 Safely updating cart item:', { productId, quantity });
+  
+  if (quantity === 0) {
+    return removeItemSafely(productId);
+  }
+  
+  try {
+    // Use the smart cart operation
+    const result = await cartApi.smartCartOperation(productId, quantity, false);
+    
+    if (result.success) {
+      log.debug('✅ Item updated successfully');
+      return { success: true };
+    }
+    
+    log.error('❌ Failed to update item:', result.error);
+    return { success: false, error: result.error };
+    
+  } catch (error) {
+    log.error('❌ Error updating item:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    };
+  }
 };
\ No newline at end of file
@@ -1,40 +1,50 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-export interface StoredOrderItem {
-  id: string;
-  productId?: string;
-  productName: string;
-  quantity: string;
-  units: string;
-  price?: number;
-}
-
-const ORDER_ITEMS_STORAGE_KEY = '@manual_order_items';
-
-export const getStoredOrderItems = async (): Promise<StoredOrderItem[]> => {
-  try {
-    const orderItemsData = await AsyncStorage.getItem(ORDER_ITEMS_STORAGE_KEY);
-    return orderItemsData ? JSON.parse(orderItemsData) : [];
-  } catch (error) {
-    console.error('Error getting stored order items:', error);
-    return [];
-  }
-};
-
-export const saveOrderItems = async (orderItems: StoredOrderItem[]): Promise<void> => {
-  try {
-    // Only save items that have at least a product name
-    const validItems = orderItems.filter(item => item.productName.trim() !== '');
-    await AsyncStorage.setItem(ORDER_ITEMS_STORAGE_KEY, JSON.stringify(validItems));
-  } catch (error) {
-    console.error('Error saving order items:', error);
-  }
-};
-
-export const clearOrderItems = async (): Promise<void> => {
-  try {
-    await AsyncStorage.removeItem(ORDER_ITEMS_STORAGE_KEY);
-  } catch (error) {
-    console.error('Error clearing order items:', error);
-  }
+import { getUserItem, removeUserItem, setUserItem } from './userStorage';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('orders');
+
+export interface StoredOrderItem {
+  id: string;
+  productId?: string;
+  productName: string;
+  quantity: string;
+  units: string;
+  price?: number;
+  hsnCode?: string;
+  taxRate?: number;
+  unitOfMeasure?: string;
+  packSize?: number;
+  packUnit?: string;
+  quantityStep?: number;
+}
+
+// Stored per user, see userStorage
+const ORDER_ITEMS_STORAGE_KEY = '@manual_order_items';
+
+export const getStoredOrderItems = async (): Promise<StoredOrderItem[]> => {
+  try {
+    const orderItemsData = await getUserItem(ORDER_ITEMS_STORAGE_KEY);
+    return orderItemsData ? JSON.parse(orderItemsData) : [];
+  } catch (error) {
+    log.error('Error getting stored order items:', error);
+    return [];
+  }
+};
+
+export const saveOrderItems = async (orderItems: StoredOrderItem[]): Promise<void> => {
+  try {
+    // Only save items that have at least a product name
+    const validItems = orderItems.filter(item => item.productName.trim() !== '');
+    await setUserItem(ORDER_ITEMS_STORAGE_KEY, JSON.stringify(validItems));
+  } catch (error) {
+    log.error('Error saving order items:', error);
+  }
+};
+
+export const clearOrderItems = async (): Promise<void> => {
+  try {
+    await removeUserItem(ORDER_ITEMS_STORAGE_KEY);
+  } catch (error) {
+    log.error('Error clearing order items:', error);
+  }
 };
\ No newline at end of file
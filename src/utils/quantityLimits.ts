@@ -0,0 +1,101 @@
+// Quantity Limits
+// How many of a product can be ordered: the stock, the per-order maximum, the minimum order quantity
+// and the step; all in the product's unitOfMeasure. The cart and order endpoints take whole
+// quantities, so steps are whole numbers too.
+
+import { roundQuantity } from './units';
+
+// The product fields the limits come from; both Product and CartItem have them
+export interface QuantityLimitSource {
+  stockQuantity?: number;
+  minOrderQuantity?: number;
+  maxOrderQuantity?: number;
+  quantityStep?: number; // e.g. 5 for seedlings sold in fives; 1 when not set or not a whole number
+}
+
+export interface QuantityLimits {
+  min: number; // At least one step
+  max?: number; // The stock or the per-order maximum, whichever is lower, in whole steps; unlimited when unknown
+  step: number;
+}
+
+// "Only N left" is shown once the stock is down to this
+export const LOW_STOCK_THRESHOLD = 10;
+
+/**
+ * Whether a quantity step can be used: a whole number of at least 1
+ * @param step The product's quantityStep
+ */
+export const isValidQuantityStep = (step: unknown): step is number =>
+  typeof step === 'number' && Number.isInteger(step) && step > 0;
+
+// Round a quantity down to whole steps
+const floorToStep = (quantity: number, step: number): number =>
+  roundQuantity(Math.floor(roundQuantity(quantity / step)) * step);
+
+/**
+ * Get the quantities a product can be ordered in
+ * @param source The product or cart item
+ */
+export const getQuantityLimits = (source: QuantityLimitSource): QuantityLimits => {
+  const step = isValidQuantityStep(source.quantityStep) ? source.quantityStep : 1;
+  const min = roundQuantity(Math.ceil(roundQuantity(Math.max(step, source.minOrderQuantity || step) / step)) * step);
+  const caps = [source.stockQuantity, source.maxOrderQuantity].filter(
+    (cap): cap is number => typeof cap === 'number'
+  );
+  return { min, max: caps.length > 0 ? floorToStep(Math.max(0, Math.min(...caps)), step) : undefined, step };
+};
+
+/**
+ * Bring a quantity within the limits, in whole steps. A quantity below the
+ * minimum, or a product that cannot be ordered in its minimum quantity, gives 0.
+ * @param quantity The wanted quantity
+ * @param limits The product's limits
+ */
+export const clampQuantity = (quantity: number, limits: QuantityLimits): number => {
+  const stepped = floorToStep(quantity, limits.step);
+  if (stepped < limits.min || (limits.max !== undefined && limits.max < limits.min)) {
+    return 0;
+  }
+  return limits.max !== undefined ? Math.min(stepped, limits.max) : stepped;
+};
+
+/**
+ * The quantity after pressing + on a stepper: the minimum when the product is
+ * not in the cart yet. Returns the current quantity when the limit is reached.
+ * @param quantity The current quantity, 0 when not in the cart
+ * @param limits The product's limits
+ */
+export const getNextQuantity = (quantity: number, limits: QuantityLimits): number => {
+  const next = quantity === 0 ? limits.min : roundQuantity(quantity + limits.step);
+  return clampQuantity(next, limits) === next ? next : quantity;
+};
+
+/**
+ * The quantity after pressing - on a stepper; 0 removes the item
+ * @param quantity The current quantity
+ * @param limits The product's limits
+ */
+export const getPreviousQuantity = (quantity: number, limits: QuantityLimits): number => {
+  const previous = roundQuantity(quantity - limits.step);
+  return previous < limits.min ? 0 : previous;
+};
+
+/**
+ * Whether a quantity is a whole number of steps
+ * @param quantity The quantity
+ * @param limits The product's limits
+ */
+export const isWholeSteps = (quantity: number, limits: QuantityLimits): boolean =>
+  floorToStep(quantity, limits.step) === roundQuantity(quantity);
+
+/**
+ * The stock to show as "only N left", or null when there is plenty
+ * @param source The product or cart item
+ */
+export const getLowStockCount = (source: QuantityLimitSource): number | null =>
+  typeof source.stockQuantity === 'number' &&
+  source.stockQuantity > 0 &&
+  source.stockQuantity <= LOW_STOCK_THRESHOLD
+    ? source.stockQuantity
+    : null;
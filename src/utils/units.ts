@@ -0,0 +1,180 @@
+// Units of Measure
+// The units products are sold in, conversion between them and pack sizes such as a 45 kg bag
+
+export type UnitCode = 'kg' | 'g' | 'litre' | 'ml' | 'bag' | 'packet' | 'piece';
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface UnitDefinition {
+  code: UnitCode;
+  symbol: string; // Shown after a quantity, e.g. "1.5 kg"
+  dimension: UnitDimension;
+  factor: number; // How many grams or millilitres one unit is; 1 for the count units
+}
+
+// The product fields the unit math uses; Product and CartItem both have them
+export interface UnitSource {
+  unitOfMeasure?: string; // The unit the price and the stock are per
+  packSize?: number; // What one unit holds, e.g. 45 for a 45 kg bag
+  packUnit?: string; // The unit of packSize
+}
+
+export interface Measure {
+  quantity: number;
+  unit: UnitCode;
+}
+
+export const UNITS: Record<UnitCode, UnitDefinition> = {
+  kg: { code: 'kg', symbol: 'kg', dimension: 'mass', factor: 1000 },
+  g: { code: 'g', symbol: 'g', dimension: 'mass', factor: 1 },
+  litre: { code: 'litre', symbol: 'L', dimension: 'volume', factor: 1000 },
+  ml: { code: 'ml', symbol: 'ml', dimension: 'volume', factor: 1 },
+  bag: { code: 'bag', symbol: 'bag', dimension: 'count', factor: 1 },
+  packet: { code: 'packet', symbol: 'pkt', dimension: 'count', factor: 1 },
+  piece: { code: 'piece', symbol: 'pc', dimension: 'count', factor: 1 },
+};
+
+export const UNIT_CODES = Object.keys(UNITS) as UnitCode[];
+
+// Spellings seen in product data and typed by users
+const UNIT_ALIASES: Record<string, UnitCode> = {
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  g: 'g', gm: 'g', gms: 'g', gram: 'g', grams: 'g',
+  l: 'litre', lt: 'litre', ltr: 'litre', litre: 'litre', litres: 'litre', liter: 'litre', liters: 'litre',
+  ml: 'ml', millilitre: 'ml', millilitres: 'ml', milliliter: 'ml', milliliters: 'ml',
+  bag: 'bag', bags: 'bag', sack: 'bag',
+  packet: 'packet', packets: 'packet', pack: 'packet', pkt: 'packet', tray: 'packet', box: 'packet',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece', unit: 'piece', units: 'piece', bottle: 'piece',
+};
+
+// Quantities are kept to the gram or millilitre of a kg or litre
+const QUANTITY_PRECISION = 1000;
+
+/**
+ * Round a quantity so repeated steps such as 0.1 + 0.2 stay exact
+ * @param quantity The quantity
+ */
+export const roundQuantity = (quantity: number): number =>
+  Math.round(quantity * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+
+/**
+ * Find the unit a product's unitOfMeasure or a typed unit stands for
+ * @param text The unit as written, e.g. "Kgs" or "L"
+ * @returns The unit, or undefined when it is not one of ours
+ */
+export const parseUnit = (text?: string | null): UnitCode | undefined =>
+  text ? UNIT_ALIASES[text.trim().toLowerCase()] : undefined;
+
+/**
+ * Whether a unit is a weight or a volume rather than a count of pieces or packs
+ * @param unit The unit as written on the product
+ */
+export const isMeasuredUnit = (unit?: string): boolean => {
+  const code = parseUnit(unit);
+  return !!code && UNITS[code].dimension !== 'count';
+};
+
+/**
+ * The short form of a unit for prices such as "₹50 / kg"
+ * @param unit The unit as written on the product; returned as is when it is not one of ours
+ */
+export const getUnitSymbol = (unit?: string): string | undefined => {
+  const code = parseUnit(unit);
+  return code ? UNITS[code].symbol : unit || undefined;
+};
+
+/**
+ * Convert a quantity between two units of the same dimension. Count units
+ * only convert to themselves; use toSellingQuantity for packs.
+ * @param quantity The quantity in the first unit
+ * @param from Its unit
+ * @param to The unit to convert to
+ * @returns The quantity in the second unit, or null when they do not convert
+ */
+export const convertQuantity = (quantity: number, from: UnitCode, to: UnitCode): number | null => {
+  if (from === to) {
+    return quantity;
+  }
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (source.dimension !== target.dimension || source.dimension === 'count') {
+    return null;
+  }
+  return roundQuantity((quantity * source.factor) / target.factor);
+};
+
+/**
+ * What one unit of a product holds, e.g. 45 kg for a bag of urea
+ * @param source The product or cart item
+ */
+export const getPackContents = (source: UnitSource): Measure | undefined => {
+  const unit = parseUnit(source.packUnit);
+  return unit && source.packSize && source.packSize > 0 ? { quantity: source.packSize, unit } : undefined;
+};
+
+/**
+ * Convert an amount of a product to the unit it is sold, priced and stocked
+ * in: 500 g of tomatoes sold per kg is 0.5, 90 kg of urea in 45 kg bags is 2
+ * @param quantity The amount
+ * @param unit Its unit
+ * @param source The product
+ * @returns The quantity in the product's unit, or null when the units do not convert
+ */
+export const toSellingQuantity = (quantity: number, unit: UnitCode, source: UnitSource): number | null => {
+  const sellingUnit = parseUnit(source.unitOfMeasure);
+  if (!sellingUnit) {
+    return null;
+  }
+  const direct = convertQuantity(quantity, unit, sellingUnit);
+  if (direct !== null) {
+    return direct;
+  }
+  const pack = getPackContents(source);
+  const inPackUnit = pack ? convertQuantity(quantity, unit, pack.unit) : null;
+  return pack && inPackUnit !== null ? roundQuantity(inPackUnit / pack.quantity) : null;
+};
+
+/**
+ * The units an amount of a product can be given in, its own unit first
+ * @param source The product
+ */
+export const getCompatibleUnits = (source: UnitSource): UnitCode[] => {
+  const sellingUnit = parseUnit(source.unitOfMeasure);
+  if (!sellingUnit) {
+    return UNIT_CODES;
+  }
+  return [sellingUnit, ...UNIT_CODES.filter(unit => unit !== sellingUnit && toSellingQuantity(1, unit, source) !== null)];
+};
+
+/**
+ * Format a quantity with its unit, e.g. "1.5 kg". Less than one kg or litre
+ * is shown in g or ml.
+ * @param quantity The quantity
+ * @param unit The unit as written on the product; shown as is when it is not one of ours
+ */
+export const formatQuantity = (quantity: number, unit?: string): string => {
+  const code = parseUnit(unit);
+  if (!code) {
+    return unit ? `${roundQuantity(quantity)} ${unit}` : `${roundQuantity(quantity)}`;
+  }
+  const smaller = code === 'kg' ? 'g' : code === 'litre' ? 'ml' : undefined;
+  if (smaller && quantity > 0 && quantity < 1) {
+    return `${convertQuantity(quantity, code, smaller)} ${UNITS[smaller].symbol}`;
+  }
+  return `${roundQuantity(quantity)} ${UNITS[code].symbol}`;
+};
+
+/**
+ * Describe a product's pack, e.g. "45 kg bag"
+ * @param source The product
+ * @returns The description, or null for products without a pack size
+ */
+export const formatPackSize = (source: UnitSource): string | null => {
+  const pack = getPackContents(source);
+  if (!pack) {
+    return null;
+  }
+  const sellingUnit = parseUnit(source.unitOfMeasure);
+  const name = sellingUnit ? UNITS[sellingUnit].code : source.unitOfMeasure;
+  return name ? `${formatQuantity(pack.quantity, pack.unit)} ${name}` : formatQuantity(pack.quantity, pack.unit);
+};
@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUser } from '../services/userService';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('storage');
+
+type StorageUserListener = (userId: string | null) => void;
+
+interface ArchivedUser {
+  userId: string;
+  archivedAt: string;
+}
+
+// Storage keys
+const STORAGE_USER_KEY = '@AgriMart:storageUser';
+const ARCHIVED_USERS_KEY = '@AgriMart:archivedStorageUsers';
+const USER_NAMESPACE_PREFIX = '@AgriMart:users/';
+
+// Per-user keys the screens read and write directly
+export const SELECTED_CART_ADDRESS_KEY = 'selectedCartAddress';
+export const DEFAULT_ADDRESS_ID_KEY = 'defaultAddressId';
+
+// Data stored while nobody is logged in goes here and is wiped on every account change
+const GUEST_USER_ID = 'guest';
+
+// A logged-out user's data is kept so it is back when they log in again,
+// for this many users; older namespaces are wiped
+const MAX_ARCHIVED_USERS = 5;
+
+let storageUserId: string | null | undefined; // undefined until read from storage
+let resolvePromise: Promise<string | null> | null = null;
+const migrations = new Map<string, Promise<void>>();
+const listeners = new Set<StorageUserListener>();
+
+const getNamespace = (userId: string | null): string =>
+  `${USER_NAMESPACE_PREFIX}${userId || GUEST_USER_ID}/`;
+
+// The namespace in use is stored separately from the user record, so it is
+// still known after the user record has been replaced by the next login
+const resolveStorageUser = (): Promise<string | null> => {
+  if (storageUserId !== undefined) {
+    return Promise.resolve(storageUserId);
+  }
+  if (!resolvePromise) {
+    resolvePromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_USER_KEY);
+        // Before namespacing existed only the user record was kept
+        storageUserId = stored ?? (await getUser())?.id ?? null;
+      } catch (error) {
+        log.error('Error reading the storage user:', error);
+        storageUserId = null;
+      }
+      return storageUserId;
+    })().finally(() => {
+      resolvePromise = null;
+    });
+  }
+  return resolvePromise;
+};
+
+// Data written before namespacing belonged to whoever was logged in then;
+// move it into their namespace the first time the key is used
+const migrateLegacyKey = async (baseKey: string, scopedKey: string): Promise<void> => {
+  try {
+    const [[, legacyValue], [, scopedValue]] = await AsyncStorage.multiGet([baseKey, scopedKey]);
+    if (legacyValue === null) {
+      return;
+    }
+    if (scopedValue === null) {
+      await AsyncStorage.setItem(scopedKey, legacyValue);
+    }
+    await AsyncStorage.removeItem(baseKey);
+    log.info(`Moved ${baseKey} into the user namespace`);
+  } catch (error) {
+    log.error(`Error migrating ${baseKey}:`, error);
+  }
+};
+
+/**
+ * Get the storage key for per-user data of the logged-in user
+ * @param baseKey The key the data would have without namespacing
+ */
+export const getUserStorageKey = async (baseKey: string): Promise<string> => {
+  const scopedKey = getNamespace(await resolveStorageUser()) + baseKey;
+  if (!migrations.has(baseKey)) {
+    migrations.set(baseKey, migrateLegacyKey(baseKey, scopedKey));
+  }
+  await migrations.get(baseKey);
+  return scopedKey;
+};
+
+/**
+ * Read per-user data of the logged-in user
+ * @param baseKey The key the data would have without namespacing
+ */
+export const getUserItem = async (baseKey: string): Promise<string | null> =>
+  AsyncStorage.getItem(await getUserStorageKey(baseKey));
+
+/**
+ * Write per-user data of the logged-in user
+ * @param baseKey The key the data would have without namespacing
+ * @param value The value to store
+ */
+export const setUserItem = async (baseKey: string, value: string): Promise<void> =>
+  AsyncStorage.setItem(await getUserStorageKey(baseKey), value);
+
+/**
+ * Remove per-user data of the logged-in user
+ * @param baseKey The key the data would have without namespacing
+ */
+export const removeUserItem = async (baseKey: string): Promise<void> =>
+  AsyncStorage.removeItem(await getUserStorageKey(baseKey));
+
+/**
+ * Wipe everything stored in a user's namespace
+ * @param userId The user whose data to remove; null for the logged-out namespace
+ */
+export const clearUserScopedData = async (userId: string | null): Promise<void> => {
+  try {
+    const namespace = getNamespace(userId);
+    const keys = await AsyncStorage.getAllKeys();
+    const userKeys = keys.filter(key => key.startsWith(namespace));
+    if (userKeys.length > 0) {
+      await AsyncStorage.multiRemove(userKeys);
+    }
+    log.debug(`Cleared ${userKeys.length} stored item(s) for ${userId || GUEST_USER_ID}`);
+  } catch (error) {
+    log.error('Error clearing user data:', error);
+  }
+};
+
+const loadArchivedUsers = async (): Promise<ArchivedUser[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(ARCHIVED_USERS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    log.error('Error loading archived users:', error);
+    return [];
+  }
+};
+
+// Keep the departing user's namespace, and wipe the oldest archived ones
+// beyond the limit. The arriving user's namespace is in use again, so it
+// leaves the archive.
+const archiveUser = async (departingUserId: string | null, arrivingUserId: string | null): Promise<void> => {
+  let archived = (await loadArchivedUsers()).filter(
+    entry => entry.userId !== departingUserId && entry.userId !== arrivingUserId
+  );
+  if (departingUserId) {
+    archived.push({ userId: departingUserId, archivedAt: new Date().toISOString() });
+  }
+
+  const expired = archived.slice(0, Math.max(0, archived.length - MAX_ARCHIVED_USERS));
+  archived = archived.slice(expired.length);
+  for (const entry of expired) {
+    await clearUserScopedData(entry.userId);
+  }
+
+  try {
+    await AsyncStorage.setItem(ARCHIVED_USERS_KEY, JSON.stringify(archived));
+  } catch (error) {
+    log.error('Error saving archived users:', error);
+  }
+};
+
+/**
+ * Switch per-user storage to another account. The departing user's data is
+ * archived, or wiped when wipe is set; data stored while logged out is always
+ * wiped. Called by userService on login and logout.
+ * @param userId The user now logged in, or null after logout
+ * @param options wipe: remove the departing user's data instead of archiving it
+ * @returns True if the namespace changed
+ */
+export const setStorageUser = async (
+  userId: string | null,
+  options: { wipe?: boolean } = {}
+): Promise<boolean> => {
+  const departingUserId = await resolveStorageUser();
+  if (departingUserId === userId) {
+    return false;
+  }
+
+  storageUserId = userId;
+  try {
+    if (userId) {
+      await AsyncStorage.setItem(STORAGE_USER_KEY, userId);
+    } else {
+      await AsyncStorage.removeItem(STORAGE_USER_KEY);
+    }
+  } catch (error) {
+    log.error('Error saving the storage user:', error);
+  }
+
+  if (departingUserId && options.wipe) {
+    await clearUserScopedData(departingUserId);
+    await archiveUser(null, userId);
+  } else {
+    await archiveUser(departingUserId, userId);
+  }
+  await clearUserScopedData(null);
+
+  log.info(`Storage switched from ${departingUserId || GUEST_USER_ID} to ${userId || GUEST_USER_ID}`);
+  listeners.forEach(listener => listener(userId));
+  return true;
+};
+
+/**
+ * Subscribe to account changes, to reload data held in memory
+ * @param listener Called with the user now logged in, or null after logout
+ * @returns Function to unsubscribe
+ */
+export const subscribeToStorageUser = (listener: StorageUserListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};